@@ -3,6 +3,7 @@ import dotenv from "dotenv";
 dotenv.config();
 
 const {
+  NODE_ENV,
   PORT,
   ORIGIN,
   TOKEN_SECRET_KEY,
@@ -10,9 +11,26 @@ const {
   DB_NAME,
   DB_PASSWORD,
   DB_USER,
+  ACCESS_TOKEN_TTL,
+  REFRESH_TOKEN_TTL_DAYS,
+  APP_URL,
+  MAIL_TRANSPORT,
+  MAIL_OUTBOX_DIR,
+  MAIL_FROM,
+  LOGIN_ATTEMPT_STORE,
+  VITAL_RANGES_FILE,
+  SMS_TRANSPORT,
+  SMS_OUTBOX_DIR,
+  REMINDER_INTERVAL_SECONDS,
+  FHIR_IDENTIFIER_SYSTEM,
+  ATTACHMENTS_DIR,
+  MAX_ATTACHMENT_MB,
+  TRASH_RETENTION_DAYS,
+  SIGN_OFF_AFTER_HOURS,
 } = process.env;
 
 const environments = {
+  production: NODE_ENV === "production",
   port: PORT,
   origin: ORIGIN,
   tokenSecretKey: TOKEN_SECRET_KEY,
@@ -20,5 +38,34 @@ const environments = {
   dbName: DB_NAME,
   dbPassword: DB_PASSWORD,
   dbUser: DB_USER,
+  accessTokenTtl: ACCESS_TOKEN_TTL || "15m",
+  refreshTokenTtlDays: Number(REFRESH_TOKEN_TTL_DAYS) || 30,
+  appUrl: APP_URL || ORIGIN,
+  // the console transports print whole messages, patient details included, so they are
+  // only the default outside production; production sends nothing until one is set up
+  mailTransport:
+    MAIL_TRANSPORT || (NODE_ENV === "production" ? "none" : "console"),
+  mailOutboxDir: MAIL_OUTBOX_DIR || "outbox/mail",
+  mailFrom: MAIL_FROM || "MedHub <no-reply@medhub.local>",
+  loginAttemptStore: LOGIN_ATTEMPT_STORE || "database",
+  vitalRangesFile: VITAL_RANGES_FILE,
+  smsTransport:
+    SMS_TRANSPORT || (NODE_ENV === "production" ? "none" : "console"),
+  smsOutboxDir: SMS_OUTBOX_DIR || "outbox/sms",
+  // 0 turns the in-process sender off, e.g. when `npm run reminders:send` runs from cron
+  reminderIntervalSeconds:
+    REMINDER_INTERVAL_SECONDS === undefined
+      ? 60
+      : Number(REMINDER_INTERVAL_SECONDS),
+  // the identifier system partners expect for patients.id_number, e.g. the national ID namespace
+  fhirIdentifierSystem: FHIR_IDENTIFIER_SYSTEM || "urn:medhub:id-number",
+  attachmentsDir: ATTACHMENTS_DIR || "storage/attachments",
+  maxAttachmentMb: Number(MAX_ATTACHMENT_MB) || 20,
+  // how long deleted patients and visits stay restorable before an admin may purge them
+  trashRetentionDays:
+    TRASH_RETENTION_DAYS === undefined ? 30 : Number(TRASH_RETENTION_DAYS),
+  // drafts older than this show up on their clinician's pending sign-off list
+  signOffAfterHours:
+    SIGN_OFF_AFTER_HOURS === undefined ? 24 : Number(SIGN_OFF_AFTER_HOURS),
 };
 export default environments;
@@ -4,14 +4,37 @@ import cookieParser from "cookie-parser";
 import environments from "./env-config";
 import users from "./routes/users";
 import patients from "./routes/patients";
+import patientImports from "./routes/patient-imports";
+import patientDuplicates from "./routes/patient-duplicates";
+import patientMerges from "./routes/patient-merges";
 import visits from "./routes/visits";
+import prescriptions from "./routes/prescriptions";
+import vitals from "./routes/vitals";
+import allergies from "./routes/allergies";
 import dashboards from "./routes/dashboard";
+import organizations from "./routes/organizations";
+import audit from "./routes/audit";
+import icd10 from "./routes/icd10";
+import appointments from "./routes/appointments";
+import reminders from "./routes/reminders";
+import fhir from "./routes/fhir";
+import documents from "./routes/documents";
+import patientAttachments from "./routes/patient-attachments";
+import patientRevisions from "./routes/patient-revisions";
+import visitAttachments from "./routes/visit-attachments";
+import visitRevisions from "./routes/visit-revisions";
+import visitAddenda from "./routes/visit-addenda";
+import lab from "./routes/lab";
+import labOrders from "./routes/lab-orders";
+import trash from "./routes/trash";
+import search from "./routes/search";
+import { sendDueReminders } from "./utils/reminders";
 import swaggerUi from "swagger-ui-express";
 import swaggerJSDoc from "swagger-jsdoc";
 
 const app = express();
 
-const { port, origin } = environments;
+const { port, origin, reminderIntervalSeconds } = environments;
 
 const swaggerConfig = {
   definition: {
@@ -49,12 +72,42 @@ app.use(cookieParser());
 
 // routes
 app.use("/api/user", users);
+app.use("/api/patients/imports", patientImports);
+app.use("/api/patients/duplicates", patientDuplicates);
+app.use("/api/patients/merges", patientMerges);
 app.use("/api/patients", patients);
+app.use("/api/patients/:uuid/allergies", allergies);
+app.use("/api/patients/:uuid/attachments", patientAttachments);
+app.use("/api/patients/:uuid/revisions", patientRevisions);
 app.use("/api/visits", visits);
+app.use("/api/visits/:uuid/prescriptions", prescriptions);
+app.use("/api/visits/:uuid/vitals", vitals);
+app.use("/api/visits/:uuid/attachments", visitAttachments);
+app.use("/api/visits/:uuid/revisions", visitRevisions);
+app.use("/api/visits/:uuid/addenda", visitAddenda);
+app.use("/api/visits/:uuid/lab-orders", labOrders);
 app.use("/api/dashboards", dashboards);
+app.use("/api/organizations", organizations);
+app.use("/api/audit", audit);
+app.use("/api/icd10", icd10);
+app.use("/api/appointments", appointments);
+app.use("/api/reminders", reminders);
+app.use("/api/documents", documents);
+app.use("/api/lab", lab);
+app.use("/api/trash", trash);
+app.use("/api/search", search);
+app.use("/fhir", fhir);
 app.use("/docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
 app.listen(port, () => {
   console.log(`[server]: running at  http://localhost:${port}`);
   console.log(`[swagger]: running at http://localhost:${port}/docs`);
 });
+
+if (reminderIntervalSeconds > 0) {
+  setInterval(() => {
+    sendDueReminders().catch((err) =>
+      console.error(`[reminders]: ${err.message}`)
+    );
+  }, reminderIntervalSeconds * 1000);
+}
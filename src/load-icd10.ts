@@ -0,0 +1,43 @@
+import { readFile } from "fs/promises";
+import { pool as db } from "./utils/database-config";
+import { parseCsv } from "./utils/csv";
+import { upsertCatalog } from "./utils/icd10";
+
+const usage = `Usage:
+  npm run icd10:load -- <file> [delimiter]
+
+The file holds one code per row: code, title. A header row is skipped.
+WHO's semicolon-separated distribution files need ";" as the delimiter.`;
+
+const looksLikeCode = (value: string) => /^[A-Z]\d{2}/i.test(value.trim());
+
+const run = async (file: string | undefined, delimiter: string = ",") => {
+  if (!file) {
+    console.log(usage);
+    process.exitCode = 1;
+    return;
+  }
+
+  const rows = parseCsv(await readFile(file, "utf8"), delimiter);
+  const entries = rows
+    .filter((row) => looksLikeCode(row[0] || ""))
+    .map((row) => ({ code: row[0], title: row[1] || "" }));
+
+  const { loaded, skipped } = await upsertCatalog(entries);
+
+  console.log(`[icd10]: loaded ${loaded} codes from ${file}`);
+  if (skipped.length) {
+    console.log(
+      `[icd10]: skipped ${skipped.length} rows: ${skipped
+        .slice(0, 10)
+        .join(", ")}${skipped.length > 10 ? ", ..." : ""}`
+    );
+  }
+};
+
+run(process.argv[2], process.argv[3])
+  .catch((err) => {
+    console.error(`[icd10]: ${err.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => db.end());
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from "express";
+import { Permission, hasPermission } from "../utils/permissions";
+import requireMfa from "./two-factor";
+
+// must run after verifyToken, which puts the role from the token on req.tokenInfo
+let requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction): any => {
+    return requireMfa(req, res, () => {
+      const { tokenInfo } = req;
+
+      if (!tokenInfo || !hasPermission(tokenInfo.role, permission)) {
+        return res.status(403).json({
+          message: "You do not have permission to perform this action",
+        });
+      }
+
+      next();
+    });
+  };
+};
+export default requirePermission;
@@ -1,31 +1,59 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import environments from "../env-config";
+import { touchSession } from "../utils/sessions";
 
 const { tokenSecretKey } = environments;
 
-let verifyToken = (req: Request, res: Response, next: NextFunction): any => {
+let verifyToken = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<any> => {
   let authCookie: string | undefined = req.cookies.authorizationToken;
 
   if (!authCookie) {
     return res.status(403).json({ message: "You cannot access this resource" });
   }
 
+  let decoded: jwt.JwtPayload;
+
   try {
-    const decoded = jwt.verify(
+    decoded = jwt.verify(
       authCookie as string,
       tokenSecretKey as string | Buffer
-    );
+    ) as jwt.JwtPayload;
+  } catch (err) {
+    return res
+      .status(401)
+      .json({ message: "Provide valid authentication credentials." });
+  }
 
-    req.statusCode = 200;
+  // tokens issued before organizations and sessions existed carry no tenant or session
+  if (!decoded.organizationId || !decoded.sessionId) {
+    return res
+      .status(401)
+      .json({ message: "Provide valid authentication credentials." });
+  }
 
-    req.tokenInfo = decoded;
+  try {
+    const active = await touchSession(decoded.sessionId, decoded.uuid);
 
-    next();
+    if (!active) {
+      return res
+        .status(401)
+        .json({ message: "Your session has ended. Please log in again." });
+    }
   } catch (err) {
     return res
-      .status(401)
-      .json({ message: "Provide valid authentication credentials." });
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
   }
+
+  req.statusCode = 200;
+
+  req.tokenInfo = decoded;
+
+  next();
 };
 export default verifyToken;
@@ -0,0 +1,26 @@
+import express, { Request, Response, NextFunction } from "express";
+import environments from "../env-config";
+
+const { maxAttachmentMb } = environments;
+
+const rawBody = express.raw({
+  type: () => true,
+  limit: `${maxAttachmentMb}mb`,
+});
+
+// reads the uploaded file, sent as the raw request body, into req.body as a Buffer.
+// Runs after verifyToken and requirePermission so anonymous uploads are never buffered.
+const fileUpload = (req: Request, res: Response, next: NextFunction) => {
+  rawBody(req, res, (err?: any) => {
+    if (err && err.type === "entity.too.large") {
+      return res
+        .status(413)
+        .json({ message: `Files must be at most ${maxAttachmentMb} MB` });
+    }
+    if (err) {
+      return res.status(400).json({ message: "Could not read the upload" });
+    }
+    next();
+  });
+};
+export default fileUpload;
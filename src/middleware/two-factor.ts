@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from "express";
+
+// must run after verifyToken. A session in an organization that requires two-factor
+// gets no further than enrolling until it has passed the second factor.
+let requireMfa = (req: Request, res: Response, next: NextFunction): any => {
+  const { tokenInfo } = req;
+
+  if (tokenInfo && tokenInfo.mfaRequired && !tokenInfo.mfaVerified) {
+    return res.status(403).json({
+      message:
+        "Your organization requires two-factor authentication. Set it up to continue",
+    });
+  }
+
+  next();
+};
+export default requireMfa;
@@ -0,0 +1,76 @@
+import migrations from "./migrations";
+import { migrateUp, migrateDown, migrationStatus } from "./utils/migrator";
+import { pool as db } from "./utils/database-config";
+
+const usage = `Usage:
+  npm run migrate -- up [targetVersion]   apply pending migrations
+  npm run migrate -- down [steps]         roll back the latest migrations (default 1)
+  npm run migrate -- status               list migrations and whether they are applied`;
+
+// a version or a number of steps: digits only, so "2.5", "-1" or "latest" never reach
+// the migrator as NaN or a fraction
+const parseWhole = (arg: string, min: number): number | null => {
+  const value = Number(arg);
+  return /^\d+$/.test(arg) && value >= min ? value : null;
+};
+
+const invalid = (message: string) => {
+  console.error(`[migrate]: ${message}\n${usage}`);
+  process.exitCode = 1;
+};
+
+const run = async (command: string | undefined, arg: string | undefined) => {
+  switch (command) {
+    case "up": {
+      const target = arg === undefined ? undefined : parseWhole(arg, 1);
+      if (target === null) {
+        return invalid(
+          `targetVersion must be a migration version, got "${arg}"`
+        );
+      }
+      const applied = await migrateUp(migrations, target);
+      if (applied.length === 0) {
+        console.log("[migrate]: database is up to date");
+      }
+      applied.forEach((m) =>
+        console.log(`[migrate]: applied ${m.version} ${m.name}`)
+      );
+      break;
+    }
+    case "down": {
+      const steps = arg === undefined ? 1 : parseWhole(arg, 1);
+      if (steps === null) {
+        return invalid(`steps must be a positive integer, got "${arg}"`);
+      }
+      const rolledBack = await migrateDown(migrations, steps);
+      if (rolledBack.length === 0) {
+        console.log("[migrate]: nothing to roll back");
+      }
+      rolledBack.forEach((m) =>
+        console.log(`[migrate]: rolled back ${m.version} ${m.name}`)
+      );
+      break;
+    }
+    case "status": {
+      const status = await migrationStatus(migrations);
+      status.forEach((m) =>
+        console.log(
+          `${m.applied ? "[x]" : "[ ]"} ${m.version} ${m.name}${
+            m.appliedAt ? ` (${new Date(m.appliedAt).toISOString()})` : ""
+          }`
+        )
+      );
+      break;
+    }
+    default:
+      console.log(usage);
+      process.exitCode = 1;
+  }
+};
+
+run(process.argv[2], process.argv[3])
+  .catch((err) => {
+    console.error(`[migrate]: ${err.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => db.end());
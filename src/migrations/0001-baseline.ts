@@ -0,0 +1,69 @@
+import { Migration } from "../utils/migrator";
+
+// mirrors the schema the routes were written against before migrations existed.
+// IF NOT EXISTS lets databases that were created by hand adopt the migration history.
+const migration: Migration = {
+  version: 1,
+  name: "baseline",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE IF NOT EXISTS users (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        first_name VARCHAR(100) NOT NULL,
+        last_name VARCHAR(100) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        password_hash VARCHAR(255) NOT NULL,
+        salt VARCHAR(64) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_users_uuid (uuid),
+        UNIQUE KEY uq_users_email (email)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE IF NOT EXISTS patients (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        id_number VARCHAR(50) NULL,
+        date_of_birth DATE NOT NULL,
+        gender VARCHAR(20) NOT NULL,
+        contact VARCHAR(50) NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_patients_uuid (uuid),
+        UNIQUE KEY uq_patients_id_number (id_number),
+        KEY idx_patients_created_by (created_by),
+        CONSTRAINT fk_patients_created_by FOREIGN KEY (created_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    // patient_id deliberately has no foreign key: deleting a patient leaves its visits behind
+    await conn.query(`
+      CREATE TABLE IF NOT EXISTS visits (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        patient_id CHAR(36) NOT NULL,
+        visit_date DATE NOT NULL,
+        diagnosis VARCHAR(255) NOT NULL,
+        prescribed_medications TEXT NOT NULL,
+        notes TEXT NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_visits_uuid (uuid),
+        KEY idx_visits_patient_id (patient_id),
+        KEY idx_visits_created_by_date (created_by, visit_date),
+        CONSTRAINT fk_visits_created_by FOREIGN KEY (created_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS visits");
+    await conn.query("DROP TABLE IF EXISTS patients");
+    await conn.query("DROP TABLE IF EXISTS users");
+  },
+};
+export default migration;
@@ -0,0 +1,119 @@
+import { Migration } from "../utils/migrator";
+
+// moves record ownership from individual users to organizations. Every existing user
+// gets a personal organization and their patients/visits are moved into it.
+const migration: Migration = {
+  version: 2,
+  name: "organizations",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE organizations (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        is_personal TINYINT(1) NOT NULL DEFAULT 0,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_organizations_uuid (uuid),
+        CONSTRAINT fk_organizations_created_by FOREIGN KEY (created_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE organization_members (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        organization_id CHAR(36) NOT NULL,
+        user_id CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_organization_members (organization_id, user_id),
+        KEY idx_organization_members_user (user_id),
+        CONSTRAINT fk_organization_members_org FOREIGN KEY (organization_id) REFERENCES organizations (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_organization_members_user FOREIGN KEY (user_id) REFERENCES users (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE organization_invitations (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        invited_by CHAR(36) NOT NULL,
+        expires_at DATETIME NOT NULL,
+        accepted_at DATETIME NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_organization_invitations_uuid (uuid),
+        UNIQUE KEY uq_organization_invitations_token (token_hash),
+        KEY idx_organization_invitations_email (email),
+        CONSTRAINT fk_organization_invitations_org FOREIGN KEY (organization_id) REFERENCES organizations (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_organization_invitations_invited_by FOREIGN KEY (invited_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      INSERT INTO organizations (uuid, name, is_personal, created_by)
+      SELECT UUID(), CONCAT(first_name, ' ', last_name, '''s practice'), 1, uuid
+      FROM users
+    `);
+
+    await conn.query(`
+      INSERT INTO organization_members (organization_id, user_id)
+      SELECT uuid, created_by FROM organizations WHERE is_personal = 1
+    `);
+
+    await conn.query(
+      "ALTER TABLE patients ADD COLUMN organization_id CHAR(36) NULL AFTER contact"
+    );
+    await conn.query(
+      "ALTER TABLE visits ADD COLUMN organization_id CHAR(36) NULL AFTER notes"
+    );
+
+    await conn.query(`
+      UPDATE patients p
+      JOIN organizations o ON o.created_by = p.created_by AND o.is_personal = 1
+      SET p.organization_id = o.uuid
+    `);
+    await conn.query(`
+      UPDATE visits v
+      JOIN organizations o ON o.created_by = v.created_by AND o.is_personal = 1
+      SET v.organization_id = o.uuid
+    `);
+
+    // the same person may be registered at more than one clinic
+    await conn.query(`
+      ALTER TABLE patients
+        MODIFY organization_id CHAR(36) NOT NULL,
+        DROP INDEX uq_patients_id_number,
+        ADD UNIQUE KEY uq_patients_org_id_number (organization_id, id_number),
+        ADD CONSTRAINT fk_patients_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid)
+    `);
+    await conn.query(`
+      ALTER TABLE visits
+        MODIFY organization_id CHAR(36) NOT NULL,
+        ADD KEY idx_visits_org_date (organization_id, visit_date),
+        ADD CONSTRAINT fk_visits_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid)
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query(`
+      ALTER TABLE visits
+        DROP FOREIGN KEY fk_visits_organization,
+        DROP INDEX idx_visits_org_date,
+        DROP COLUMN organization_id
+    `);
+    await conn.query(`
+      ALTER TABLE patients
+        DROP FOREIGN KEY fk_patients_organization,
+        DROP INDEX uq_patients_org_id_number,
+        DROP COLUMN organization_id,
+        ADD UNIQUE KEY uq_patients_id_number (id_number)
+    `);
+    await conn.query("DROP TABLE IF EXISTS organization_invitations");
+    await conn.query("DROP TABLE IF EXISTS organization_members");
+    await conn.query("DROP TABLE IF EXISTS organizations");
+  },
+};
+export default migration;
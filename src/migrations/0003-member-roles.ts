@@ -0,0 +1,29 @@
+import { Migration } from "../utils/migrator";
+
+// roles are held per membership so a user can be an admin at one clinic and a nurse at another.
+// organization owners become admins, everybody else keeps full clinical access as doctors.
+const migration: Migration = {
+  version: 3,
+  name: "member-roles",
+
+  up: async (conn) => {
+    await conn.query(
+      "ALTER TABLE organization_members ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'doctor' AFTER user_id"
+    );
+    await conn.query(`
+      UPDATE organization_members m
+      JOIN organizations o ON o.uuid = m.organization_id
+      SET m.role = 'admin'
+      WHERE o.created_by = m.user_id
+    `);
+    await conn.query(
+      "ALTER TABLE organization_invitations ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'doctor' AFTER email"
+    );
+  },
+
+  down: async (conn) => {
+    await conn.query("ALTER TABLE organization_invitations DROP COLUMN role");
+    await conn.query("ALTER TABLE organization_members DROP COLUMN role");
+  },
+};
+export default migration;
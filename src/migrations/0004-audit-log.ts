@@ -0,0 +1,59 @@
+import { Migration } from "../utils/migrator";
+
+// changes is stored as text rather than JSON because MySQL re-orders JSON keys,
+// which would break the hash recomputation in verifyAuditChain.
+const migration: Migration = {
+  version: 4,
+  name: "audit-log",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE audit_log (
+        id BIGINT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        actor_id CHAR(36) NOT NULL,
+        action VARCHAR(20) NOT NULL,
+        resource_type VARCHAR(40) NOT NULL,
+        resource_uuid CHAR(36) NOT NULL,
+        patient_id CHAR(36) NULL,
+        ip VARCHAR(45) NULL,
+        user_agent VARCHAR(512) NULL,
+        changes MEDIUMTEXT NULL,
+        created_at DATETIME(3) NOT NULL,
+        prev_hash CHAR(64) NULL,
+        hash CHAR(64) NOT NULL,
+        UNIQUE KEY uq_audit_log_uuid (uuid),
+        KEY idx_audit_log_org_created (organization_id, created_at),
+        KEY idx_audit_log_org_patient (organization_id, patient_id),
+        KEY idx_audit_log_org_actor (organization_id, actor_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    // one row per organization pointing at the newest entry; locked while appending
+    await conn.query(`
+      CREATE TABLE audit_chain_heads (
+        organization_id CHAR(36) NOT NULL PRIMARY KEY,
+        last_hash CHAR(64) NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only'
+    `);
+    await conn.query(`
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      FOR EACH ROW SIGNAL SQLSTATE '45000' SET MESSAGE_TEXT = 'audit_log is append-only'
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TRIGGER IF EXISTS audit_log_no_delete");
+    await conn.query("DROP TRIGGER IF EXISTS audit_log_no_update");
+    await conn.query("DROP TABLE IF EXISTS audit_chain_heads");
+    await conn.query("DROP TABLE IF EXISTS audit_log");
+  },
+};
+export default migration;
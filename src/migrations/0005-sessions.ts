@@ -0,0 +1,48 @@
+import { Migration } from "../utils/migrator";
+
+// a session is one login on one device. Its refresh tokens form a rotation chain:
+// each is single use, and presenting a used one revokes the whole session.
+const migration: Migration = {
+  version: 5,
+  name: "sessions",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE sessions (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        user_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        user_agent VARCHAR(512) NULL,
+        ip VARCHAR(45) NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        last_seen_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        revoked_at DATETIME NULL,
+        revoked_reason VARCHAR(100) NULL,
+        UNIQUE KEY uq_sessions_uuid (uuid),
+        KEY idx_sessions_user (user_id, revoked_at),
+        CONSTRAINT fk_sessions_user FOREIGN KEY (user_id) REFERENCES users (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE refresh_tokens (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        session_id CHAR(36) NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_refresh_tokens_hash (token_hash),
+        KEY idx_refresh_tokens_session (session_id),
+        CONSTRAINT fk_refresh_tokens_session FOREIGN KEY (session_id) REFERENCES sessions (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS refresh_tokens");
+    await conn.query("DROP TABLE IF EXISTS sessions");
+  },
+};
+export default migration;
@@ -0,0 +1,28 @@
+import { Migration } from "../utils/migrator";
+
+const migration: Migration = {
+  version: 6,
+  name: "password-resets",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE password_reset_tokens (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        user_id CHAR(36) NOT NULL,
+        token_hash CHAR(64) NOT NULL,
+        expires_at DATETIME NOT NULL,
+        used_at DATETIME NULL,
+        requested_ip VARCHAR(45) NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_password_reset_tokens_hash (token_hash),
+        KEY idx_password_reset_tokens_user (user_id),
+        CONSTRAINT fk_password_reset_tokens_user FOREIGN KEY (user_id) REFERENCES users (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS password_reset_tokens");
+  },
+};
+export default migration;
@@ -0,0 +1,49 @@
+import { Migration } from "../utils/migrator";
+
+// totp_secret holds the sealed secret from the moment enrollment starts;
+// two-factor is only in force once totp_enabled_at is set by a confirmed code.
+const migration: Migration = {
+  version: 7,
+  name: "two-factor",
+
+  up: async (conn) => {
+    await conn.query(`
+      ALTER TABLE users
+        ADD COLUMN totp_secret VARCHAR(255) NULL,
+        ADD COLUMN totp_enabled_at DATETIME NULL,
+        ADD COLUMN totp_last_step BIGINT UNSIGNED NULL
+    `);
+
+    await conn.query(`
+      CREATE TABLE user_recovery_codes (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        user_id CHAR(36) NOT NULL,
+        code_hash CHAR(64) NOT NULL,
+        used_at DATETIME NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        KEY idx_user_recovery_codes_user (user_id),
+        CONSTRAINT fk_user_recovery_codes_user FOREIGN KEY (user_id) REFERENCES users (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(
+      "ALTER TABLE organizations ADD COLUMN require_2fa TINYINT(1) NOT NULL DEFAULT 0 AFTER is_personal"
+    );
+    await conn.query(
+      "ALTER TABLE sessions ADD COLUMN mfa_verified TINYINT(1) NOT NULL DEFAULT 0 AFTER ip"
+    );
+  },
+
+  down: async (conn) => {
+    await conn.query("ALTER TABLE sessions DROP COLUMN mfa_verified");
+    await conn.query("ALTER TABLE organizations DROP COLUMN require_2fa");
+    await conn.query("DROP TABLE IF EXISTS user_recovery_codes");
+    await conn.query(`
+      ALTER TABLE users
+        DROP COLUMN totp_last_step,
+        DROP COLUMN totp_enabled_at,
+        DROP COLUMN totp_secret
+    `);
+  },
+};
+export default migration;
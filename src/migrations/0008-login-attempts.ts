@@ -0,0 +1,23 @@
+import { Migration } from "../utils/migrator";
+
+// keys look like "account:jane@example.com" or "ip:10.0.0.12"
+const migration: Migration = {
+  version: 8,
+  name: "login-attempts",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE login_attempts (
+        attempt_key VARCHAR(320) NOT NULL PRIMARY KEY,
+        failures INT UNSIGNED NOT NULL DEFAULT 0,
+        last_failure_at DATETIME(3) NOT NULL,
+        locked_until DATETIME(3) NULL
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS login_attempts");
+  },
+};
+export default migration;
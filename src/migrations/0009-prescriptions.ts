@@ -0,0 +1,49 @@
+import { Migration } from "../utils/migrator";
+
+// a line is either structured (drug_name set) or a free-text line carried over from
+// the old prescribed_medications column (free_text set). The visit column stays as
+// a generated summary so list/search queries keep working.
+const migration: Migration = {
+  version: 9,
+  name: "prescriptions",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE prescriptions (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        drug_name VARCHAR(255) NULL,
+        strength VARCHAR(100) NULL,
+        route VARCHAR(30) NULL,
+        dose VARCHAR(100) NULL,
+        frequency VARCHAR(100) NULL,
+        duration VARCHAR(100) NULL,
+        quantity DECIMAL(10, 2) NULL,
+        instructions TEXT NULL,
+        free_text TEXT NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_prescriptions_uuid (uuid),
+        KEY idx_prescriptions_visit (visit_id),
+        KEY idx_prescriptions_org_drug (organization_id, drug_name),
+        CONSTRAINT fk_prescriptions_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_prescriptions_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      INSERT INTO prescriptions (uuid, visit_id, organization_id, free_text, created_by)
+      SELECT UUID(), uuid, organization_id, prescribed_medications, created_by
+      FROM visits
+      WHERE TRIM(prescribed_medications) <> ''
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS prescriptions");
+  },
+};
+export default migration;
@@ -0,0 +1,55 @@
+import { Migration } from "../utils/migrator";
+
+// the catalog itself is not shipped with the schema; load it with `npm run icd10:load`.
+// A diagnosis row is either coded (icd10_code set) or free text (free_text set);
+// existing visit diagnoses are carried over as free text and visits.diagnosis
+// stays as a generated summary.
+const migration: Migration = {
+  version: 10,
+  name: "icd10-diagnoses",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE icd10_codes (
+        code VARCHAR(10) NOT NULL PRIMARY KEY,
+        title VARCHAR(255) NOT NULL,
+        chapter VARCHAR(5) NOT NULL,
+        KEY idx_icd10_codes_chapter (chapter),
+        KEY idx_icd10_codes_title (title)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE visit_diagnoses (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        icd10_code VARCHAR(10) NULL,
+        free_text VARCHAR(255) NULL,
+        diagnosis_rank ENUM('primary', 'secondary') NOT NULL DEFAULT 'secondary',
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_visit_diagnoses_uuid (uuid),
+        KEY idx_visit_diagnoses_visit (visit_id),
+        KEY idx_visit_diagnoses_org_code (organization_id, icd10_code),
+        CONSTRAINT fk_visit_diagnoses_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_visit_diagnoses_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_visit_diagnoses_code FOREIGN KEY (icd10_code) REFERENCES icd10_codes (code)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      INSERT INTO visit_diagnoses (uuid, visit_id, organization_id, free_text, diagnosis_rank, created_by)
+      SELECT UUID(), uuid, organization_id, LEFT(diagnosis, 255), 'primary', created_by
+      FROM visits
+      WHERE TRIM(diagnosis) <> ''
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS visit_diagnoses");
+    await conn.query("DROP TABLE IF EXISTS icd10_codes");
+  },
+};
+export default migration;
@@ -0,0 +1,41 @@
+import { Migration } from "../utils/migrator";
+
+// values are stored in the units listed in utils/vitals (mmHg, bpm, C, kg, cm...);
+// bmi is computed on write from weight and height of the same set
+const migration: Migration = {
+  version: 11,
+  name: "vitals",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE vitals (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        recorded_at DATETIME NOT NULL,
+        systolic DECIMAL(4, 1) NULL,
+        diastolic DECIMAL(4, 1) NULL,
+        pulse DECIMAL(4, 1) NULL,
+        temperature DECIMAL(4, 1) NULL,
+        respiratory_rate DECIMAL(4, 1) NULL,
+        spo2 DECIMAL(4, 1) NULL,
+        weight DECIMAL(5, 1) NULL,
+        height DECIMAL(4, 1) NULL,
+        bmi DECIMAL(4, 1) NULL,
+        recorded_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_vitals_uuid (uuid),
+        KEY idx_vitals_visit (visit_id, recorded_at),
+        CONSTRAINT fk_vitals_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_vitals_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS vitals");
+  },
+};
+export default migration;
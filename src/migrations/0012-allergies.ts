@@ -0,0 +1,57 @@
+import { Migration } from "../utils/migrator";
+
+// overrides copy the substance and severity and keep allergy_id without a foreign
+// key, so the record of what was overridden survives later edits to the allergy list
+const migration: Migration = {
+  version: 12,
+  name: "allergies",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE patient_allergies (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        patient_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        substance VARCHAR(255) NOT NULL,
+        reaction VARCHAR(255) NULL,
+        severity ENUM('mild', 'moderate', 'severe', 'life-threatening') NOT NULL,
+        status ENUM('active', 'inactive', 'resolved') NOT NULL DEFAULT 'active',
+        noted_at DATE NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_patient_allergies_uuid (uuid),
+        KEY idx_patient_allergies_patient (patient_id, status),
+        CONSTRAINT fk_patient_allergies_patient FOREIGN KEY (patient_id) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_patient_allergies_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE visit_allergy_overrides (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        allergy_id CHAR(36) NOT NULL,
+        substance VARCHAR(255) NOT NULL,
+        medication TEXT NOT NULL,
+        severity VARCHAR(20) NOT NULL,
+        reason TEXT NOT NULL,
+        overridden_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_visit_allergy_overrides_uuid (uuid),
+        KEY idx_visit_allergy_overrides_visit (visit_id),
+        CONSTRAINT fk_visit_allergy_overrides_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_visit_allergy_overrides_user FOREIGN KEY (overridden_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS visit_allergy_overrides");
+    await conn.query("DROP TABLE IF EXISTS patient_allergies");
+  },
+};
+export default migration;
@@ -0,0 +1,57 @@
+import { Migration } from "../utils/migrator";
+
+// times are clinic-local wall-clock values: working hours are TIME and appointments
+// DATETIME, and both are compared as written without any timezone conversion
+const migration: Migration = {
+  version: 13,
+  name: "appointments",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE provider_working_hours (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        organization_id CHAR(36) NOT NULL,
+        provider_id CHAR(36) NOT NULL,
+        weekday TINYINT UNSIGNED NOT NULL,
+        start_time TIME NOT NULL,
+        end_time TIME NOT NULL,
+        slot_minutes SMALLINT UNSIGNED NOT NULL DEFAULT 15,
+        KEY idx_provider_working_hours_provider (organization_id, provider_id, weekday),
+        CONSTRAINT fk_provider_working_hours_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_provider_working_hours_provider FOREIGN KEY (provider_id) REFERENCES users (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE appointments (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        patient_id CHAR(36) NOT NULL,
+        provider_id CHAR(36) NOT NULL,
+        starts_at DATETIME NOT NULL,
+        ends_at DATETIME NOT NULL,
+        status ENUM('booked', 'arrived', 'no-show', 'completed', 'cancelled') NOT NULL DEFAULT 'booked',
+        reason VARCHAR(255) NULL,
+        cancellation_reason VARCHAR(255) NULL,
+        visit_id CHAR(36) NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_appointments_uuid (uuid),
+        KEY idx_appointments_provider_time (organization_id, provider_id, starts_at),
+        KEY idx_appointments_patient (patient_id, starts_at),
+        CONSTRAINT fk_appointments_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_appointments_patient FOREIGN KEY (patient_id) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_appointments_provider FOREIGN KEY (provider_id) REFERENCES users (uuid),
+        CONSTRAINT fk_appointments_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE SET NULL
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS appointments");
+    await conn.query("DROP TABLE IF EXISTS provider_working_hours");
+  },
+};
+export default migration;
@@ -0,0 +1,82 @@
+import { Migration } from "../utils/migrator";
+
+// send_at is clinic-local like appointment times and is compared against NOW(),
+// so the database session time zone must be the clinic's. Templates only hold an
+// organization's edits; the built-in defaults live in utils/reminders.
+const migration: Migration = {
+  version: 14,
+  name: "reminders",
+
+  up: async (conn) => {
+    await conn.query(`
+      ALTER TABLE patients
+        ADD COLUMN email VARCHAR(255) NULL AFTER contact,
+        ADD COLUMN sms_opt_out_at DATETIME NULL,
+        ADD COLUMN email_opt_out_at DATETIME NULL
+    `);
+
+    await conn.query(`
+      ALTER TABLE visits
+        ADD COLUMN follow_up_date DATE NULL AFTER notes
+    `);
+
+    await conn.query(`
+      CREATE TABLE reminder_templates (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        organization_id CHAR(36) NOT NULL,
+        kind ENUM('appointment', 'follow-up') NOT NULL,
+        channel ENUM('sms', 'email') NOT NULL,
+        subject VARCHAR(255) NULL,
+        body TEXT NOT NULL,
+        offset_minutes INT UNSIGNED NOT NULL,
+        active TINYINT(1) NOT NULL DEFAULT 1,
+        updated_by CHAR(36) NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_reminder_templates_kind (organization_id, kind, channel),
+        CONSTRAINT fk_reminder_templates_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE reminders (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        patient_id CHAR(36) NOT NULL,
+        kind ENUM('appointment', 'follow-up') NOT NULL,
+        channel ENUM('sms', 'email') NOT NULL,
+        source_type ENUM('appointment', 'visit') NOT NULL,
+        source_id CHAR(36) NOT NULL,
+        send_at DATETIME NOT NULL,
+        status ENUM('scheduled', 'sent', 'failed', 'skipped', 'cancelled') NOT NULL DEFAULT 'scheduled',
+        attempts TINYINT UNSIGNED NOT NULL DEFAULT 0,
+        last_error VARCHAR(255) NULL,
+        recipient VARCHAR(255) NULL,
+        subject VARCHAR(255) NULL,
+        body TEXT NULL,
+        sent_at DATETIME NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_reminders_uuid (uuid),
+        KEY idx_reminders_due (status, send_at),
+        KEY idx_reminders_source (source_type, source_id),
+        KEY idx_reminders_patient (patient_id, send_at),
+        CONSTRAINT fk_reminders_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_reminders_patient FOREIGN KEY (patient_id) REFERENCES patients (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS reminders");
+    await conn.query("DROP TABLE IF EXISTS reminder_templates");
+    await conn.query("ALTER TABLE visits DROP COLUMN follow_up_date");
+    await conn.query(`
+      ALTER TABLE patients
+        DROP COLUMN email_opt_out_at,
+        DROP COLUMN sms_opt_out_at,
+        DROP COLUMN email
+    `);
+  },
+};
+export default migration;
@@ -0,0 +1,33 @@
+import { Migration } from "../utils/migrator";
+
+// only committed imports are kept; a dry run is answered inline and never stored.
+// report holds the downloadable per-row CSV as produced at commit time.
+const migration: Migration = {
+  version: 15,
+  name: "patient-imports",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE patient_imports (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        total_rows INT UNSIGNED NOT NULL,
+        imported_rows INT UNSIGNED NOT NULL,
+        skipped_rows INT UNSIGNED NOT NULL,
+        report MEDIUMTEXT NOT NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_patient_imports_uuid (uuid),
+        KEY idx_patient_imports_org_created (organization_id, created_at),
+        CONSTRAINT fk_patient_imports_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_patient_imports_created_by FOREIGN KEY (created_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS patient_imports");
+  },
+};
+export default migration;
@@ -0,0 +1,69 @@
+import { Migration } from "../utils/migrator";
+
+// letterheads and templates only hold an organization's edits; the defaults live in
+// utils/documents. Every printed PDF gets a row in issued_documents so the serial and
+// QR code on paper can be checked against the record later.
+const migration: Migration = {
+  version: 16,
+  name: "documents",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE organization_letterheads (
+        organization_id CHAR(36) NOT NULL PRIMARY KEY,
+        clinic_name VARCHAR(255) NULL,
+        address VARCHAR(500) NULL,
+        phone VARCHAR(50) NULL,
+        email VARCHAR(255) NULL,
+        logo MEDIUMBLOB NULL,
+        logo_mime VARCHAR(20) NULL,
+        accent_color CHAR(7) NULL,
+        updated_by CHAR(36) NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        CONSTRAINT fk_organization_letterheads_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE document_templates (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        organization_id CHAR(36) NOT NULL,
+        kind ENUM('visit-summary', 'prescription') NOT NULL,
+        title VARCHAR(100) NOT NULL,
+        sections VARCHAR(255) NOT NULL,
+        footer VARCHAR(500) NULL,
+        updated_by CHAR(36) NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_document_templates_kind (organization_id, kind),
+        CONSTRAINT fk_document_templates_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid) ON DELETE CASCADE
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE issued_documents (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        serial VARCHAR(20) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        kind ENUM('visit-summary', 'prescription') NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        content_hash CHAR(64) NOT NULL,
+        issued_by CHAR(36) NOT NULL,
+        issued_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_issued_documents_uuid (uuid),
+        UNIQUE KEY uq_issued_documents_serial (serial),
+        KEY idx_issued_documents_visit (visit_id),
+        CONSTRAINT fk_issued_documents_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_issued_documents_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_issued_documents_issued_by FOREIGN KEY (issued_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS issued_documents");
+    await conn.query("DROP TABLE IF EXISTS document_templates");
+    await conn.query("DROP TABLE IF EXISTS organization_letterheads");
+  },
+};
+export default migration;
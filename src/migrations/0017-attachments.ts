@@ -0,0 +1,41 @@
+import { Migration } from "../utils/migrator";
+
+// the file itself lives with the storage driver under storage_key; the row holds what
+// is needed to serve and check it. visit_id is NULL for attachments on the patient.
+const migration: Migration = {
+  version: 17,
+  name: "attachments",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE attachments (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        patient_id CHAR(36) NOT NULL,
+        visit_id CHAR(36) NULL,
+        category ENUM('lab-report', 'imaging', 'referral', 'other') NOT NULL DEFAULT 'other',
+        file_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(100) NOT NULL,
+        size_bytes INT UNSIGNED NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        storage_key VARCHAR(255) NOT NULL,
+        description VARCHAR(500) NULL,
+        uploaded_by CHAR(36) NOT NULL,
+        uploaded_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_attachments_uuid (uuid),
+        KEY idx_attachments_patient (patient_id, visit_id),
+        KEY idx_attachments_visit (visit_id),
+        CONSTRAINT fk_attachments_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_attachments_patient FOREIGN KEY (patient_id) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_attachments_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_attachments_uploaded_by FOREIGN KEY (uploaded_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS attachments");
+  },
+};
+export default migration;
@@ -0,0 +1,97 @@
+import { Migration } from "../utils/migrator";
+
+// each organization keeps its own test catalog. Orders copy the test's code and name,
+// and results copy the unit and reference range in force when they were recorded, so
+// editing the catalog never changes what a past report said.
+const migration: Migration = {
+  version: 18,
+  name: "lab-orders",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE lab_tests (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        code VARCHAR(30) NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        specimen VARCHAR(100) NULL,
+        result_type ENUM('numeric', 'text') NOT NULL DEFAULT 'numeric',
+        unit VARCHAR(30) NULL,
+        reference_low DECIMAL(12, 4) NULL,
+        reference_high DECIMAL(12, 4) NULL,
+        reference_text VARCHAR(100) NULL,
+        active TINYINT(1) NOT NULL DEFAULT 1,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_lab_tests_uuid (uuid),
+        UNIQUE KEY uq_lab_tests_org_code (organization_id, code),
+        CONSTRAINT fk_lab_tests_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE lab_orders (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        patient_id CHAR(36) NOT NULL,
+        test_id CHAR(36) NOT NULL,
+        test_code VARCHAR(30) NOT NULL,
+        test_name VARCHAR(255) NOT NULL,
+        priority ENUM('routine', 'urgent', 'stat') NOT NULL DEFAULT 'routine',
+        status ENUM('ordered', 'collected', 'resulted', 'cancelled') NOT NULL DEFAULT 'ordered',
+        notes VARCHAR(500) NULL,
+        ordered_by CHAR(36) NOT NULL,
+        ordered_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        collected_by CHAR(36) NULL,
+        collected_at DATETIME NULL,
+        resulted_by CHAR(36) NULL,
+        resulted_at DATETIME NULL,
+        cancelled_by CHAR(36) NULL,
+        cancelled_at DATETIME NULL,
+        cancel_reason VARCHAR(500) NULL,
+        UNIQUE KEY uq_lab_orders_uuid (uuid),
+        KEY idx_lab_orders_visit (visit_id),
+        KEY idx_lab_orders_worklist (organization_id, status, priority, ordered_at),
+        CONSTRAINT fk_lab_orders_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_lab_orders_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_lab_orders_patient FOREIGN KEY (patient_id) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_lab_orders_test FOREIGN KEY (test_id) REFERENCES lab_tests (uuid),
+        CONSTRAINT fk_lab_orders_ordered_by FOREIGN KEY (ordered_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await conn.query(`
+      CREATE TABLE lab_results (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        order_id CHAR(36) NOT NULL,
+        analyte VARCHAR(255) NOT NULL,
+        value VARCHAR(255) NOT NULL,
+        numeric_value DECIMAL(12, 4) NULL,
+        unit VARCHAR(30) NULL,
+        reference_low DECIMAL(12, 4) NULL,
+        reference_high DECIMAL(12, 4) NULL,
+        reference_text VARCHAR(100) NULL,
+        flag ENUM('normal', 'low', 'high', 'abnormal') NULL,
+        comment VARCHAR(500) NULL,
+        recorded_by CHAR(36) NOT NULL,
+        recorded_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_lab_results_uuid (uuid),
+        KEY idx_lab_results_order (order_id),
+        CONSTRAINT fk_lab_results_order FOREIGN KEY (order_id) REFERENCES lab_orders (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_lab_results_recorded_by FOREIGN KEY (recorded_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS lab_results");
+    await conn.query("DROP TABLE IF EXISTS lab_orders");
+    await conn.query("DROP TABLE IF EXISTS lab_tests");
+  },
+};
+export default migration;
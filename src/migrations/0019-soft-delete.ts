@@ -0,0 +1,43 @@
+import { Migration } from "../utils/migrator";
+
+// deleting a patient or visit now only stamps deleted_at; rows are removed for good by
+// the purge, once they have been in the trash past the retention window.
+// deleted_with_patient marks visits that went with their patient, so restoring the
+// patient brings back those and not visits that had been deleted on their own.
+const migration: Migration = {
+  version: 19,
+  name: "soft-delete",
+
+  up: async (conn) => {
+    await conn.query(`
+      ALTER TABLE patients
+        ADD COLUMN deleted_at DATETIME NULL,
+        ADD COLUMN deleted_by CHAR(36) NULL,
+        ADD KEY idx_patients_org_deleted (organization_id, deleted_at)
+    `);
+    await conn.query(`
+      ALTER TABLE visits
+        ADD COLUMN deleted_at DATETIME NULL,
+        ADD COLUMN deleted_by CHAR(36) NULL,
+        ADD COLUMN deleted_with_patient TINYINT(1) NOT NULL DEFAULT 0,
+        ADD KEY idx_visits_org_deleted (organization_id, deleted_at)
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query(`
+      ALTER TABLE visits
+        DROP KEY idx_visits_org_deleted,
+        DROP COLUMN deleted_with_patient,
+        DROP COLUMN deleted_by,
+        DROP COLUMN deleted_at
+    `);
+    await conn.query(`
+      ALTER TABLE patients
+        DROP KEY idx_patients_org_deleted,
+        DROP COLUMN deleted_by,
+        DROP COLUMN deleted_at
+    `);
+  },
+};
+export default migration;
@@ -0,0 +1,47 @@
+import { Migration } from "../utils/migrator";
+
+// every edit of a visit or a patient's demographics stores the record as it stood
+// afterwards, numbered from 1. Revision 1 is the record as first entered, written on its
+// first edit, so records created before history was kept start from their state then.
+// The snapshot is text for the same reason as the audit log's changes.
+const migration: Migration = {
+  version: 20,
+  name: "revisions",
+
+  up: async (conn) => {
+    await conn.query(`
+      CREATE TABLE visit_revisions (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        visit_id CHAR(36) NOT NULL,
+        revision INT UNSIGNED NOT NULL,
+        snapshot MEDIUMTEXT NOT NULL,
+        reason VARCHAR(500) NULL,
+        edited_by CHAR(36) NOT NULL,
+        edited_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_visit_revisions (visit_id, revision),
+        CONSTRAINT fk_visit_revisions_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_visit_revisions_edited_by FOREIGN KEY (edited_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+    await conn.query(`
+      CREATE TABLE patient_revisions (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        patient_id CHAR(36) NOT NULL,
+        revision INT UNSIGNED NOT NULL,
+        snapshot MEDIUMTEXT NOT NULL,
+        reason VARCHAR(500) NULL,
+        edited_by CHAR(36) NOT NULL,
+        edited_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_patient_revisions (patient_id, revision),
+        CONSTRAINT fk_patient_revisions_patient FOREIGN KEY (patient_id) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_patient_revisions_edited_by FOREIGN KEY (edited_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS patient_revisions");
+    await conn.query("DROP TABLE IF EXISTS visit_revisions");
+  },
+};
+export default migration;
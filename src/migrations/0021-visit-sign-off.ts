@@ -0,0 +1,50 @@
+import { Migration } from "../utils/migrator";
+
+// a visit is a draft until a clinician signs it; signing stores a hash of its clinical
+// content and locks it. Corrections after that are addenda, which are only ever added.
+const migration: Migration = {
+  version: 21,
+  name: "visit-sign-off",
+
+  up: async (conn) => {
+    await conn.query(`
+      ALTER TABLE visits
+        ADD COLUMN status ENUM('draft', 'signed') NOT NULL DEFAULT 'draft',
+        ADD COLUMN signed_by CHAR(36) NULL,
+        ADD COLUMN signed_at DATETIME NULL,
+        ADD COLUMN content_hash CHAR(64) NULL,
+        ADD KEY idx_visits_org_status (organization_id, status, created_by),
+        ADD CONSTRAINT fk_visits_signed_by FOREIGN KEY (signed_by) REFERENCES users (uuid)
+    `);
+    await conn.query(`
+      CREATE TABLE visit_addenda (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        visit_id CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        body TEXT NOT NULL,
+        created_by CHAR(36) NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE KEY uq_visit_addenda_uuid (uuid),
+        KEY idx_visit_addenda_visit (visit_id),
+        CONSTRAINT fk_visit_addenda_visit FOREIGN KEY (visit_id) REFERENCES visits (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_visit_addenda_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_visit_addenda_created_by FOREIGN KEY (created_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS visit_addenda");
+    await conn.query(`
+      ALTER TABLE visits
+        DROP FOREIGN KEY fk_visits_signed_by,
+        DROP KEY idx_visits_org_status,
+        DROP COLUMN content_hash,
+        DROP COLUMN signed_at,
+        DROP COLUMN signed_by,
+        DROP COLUMN status
+    `);
+  },
+};
+export default migration;
@@ -0,0 +1,61 @@
+import { Migration } from "../utils/migrator";
+
+// merging moves a duplicate's records onto the surviving patient and hides the duplicate
+// the way a delete does, with merged_into set so it stays out of the trash and the purge.
+// moved lists, per table, the uuids that were re-pointed, which is what a revert moves
+// back. A merge record holds on to both patients, so neither can be purged while the
+// merge stands; purging removes only reverted ones. Pairs reviewed and found not to be duplicates are kept with the lower uuid first.
+const migration: Migration = {
+  version: 22,
+  name: "patient-merges",
+
+  up: async (conn) => {
+    await conn.query(`
+      ALTER TABLE patients
+        ADD COLUMN merged_into CHAR(36) NULL
+    `);
+    await conn.query(`
+      CREATE TABLE patient_merges (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        uuid CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        survivor_id CHAR(36) NOT NULL,
+        merged_id CHAR(36) NOT NULL,
+        moved MEDIUMTEXT NOT NULL,
+        merged_by CHAR(36) NOT NULL,
+        merged_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        reverted_by CHAR(36) NULL,
+        reverted_at DATETIME NULL,
+        UNIQUE KEY uq_patient_merges_uuid (uuid),
+        KEY idx_patient_merges_survivor (survivor_id),
+        KEY idx_patient_merges_merged (merged_id),
+        CONSTRAINT fk_patient_merges_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_patient_merges_survivor FOREIGN KEY (survivor_id) REFERENCES patients (uuid) ON DELETE RESTRICT,
+        CONSTRAINT fk_patient_merges_merged FOREIGN KEY (merged_id) REFERENCES patients (uuid) ON DELETE RESTRICT,
+        CONSTRAINT fk_patient_merges_merged_by FOREIGN KEY (merged_by) REFERENCES users (uuid),
+        CONSTRAINT fk_patient_merges_reverted_by FOREIGN KEY (reverted_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+    await conn.query(`
+      CREATE TABLE patient_duplicate_dismissals (
+        patient_a CHAR(36) NOT NULL,
+        patient_b CHAR(36) NOT NULL,
+        organization_id CHAR(36) NOT NULL,
+        dismissed_by CHAR(36) NOT NULL,
+        dismissed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (patient_a, patient_b),
+        CONSTRAINT fk_duplicate_dismissals_a FOREIGN KEY (patient_a) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_duplicate_dismissals_b FOREIGN KEY (patient_b) REFERENCES patients (uuid) ON DELETE CASCADE,
+        CONSTRAINT fk_duplicate_dismissals_organization FOREIGN KEY (organization_id) REFERENCES organizations (uuid),
+        CONSTRAINT fk_duplicate_dismissals_by FOREIGN KEY (dismissed_by) REFERENCES users (uuid)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  },
+
+  down: async (conn) => {
+    await conn.query("DROP TABLE IF EXISTS patient_duplicate_dismissals");
+    await conn.query("DROP TABLE IF EXISTS patient_merges");
+    await conn.query("ALTER TABLE patients DROP COLUMN merged_into");
+  },
+};
+export default migration;
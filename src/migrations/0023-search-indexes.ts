@@ -0,0 +1,32 @@
+import { Migration } from "../utils/migrator";
+
+// full-text indexes behind /api/search. InnoDB builds one full-text index per ALTER, and
+// MATCH() needs an index over exactly the columns it names, so each searched column gets
+// its own. Words shorter than innodb_ft_min_token_size (3 by default) are not indexed.
+const migration: Migration = {
+  version: 23,
+  name: "search-indexes",
+
+  up: async (conn) => {
+    await conn.query(
+      "ALTER TABLE patients ADD FULLTEXT KEY ft_patients_name (name)"
+    );
+    await conn.query(
+      "ALTER TABLE visits ADD FULLTEXT KEY ft_visits_diagnosis (diagnosis)"
+    );
+    await conn.query(
+      "ALTER TABLE visits ADD FULLTEXT KEY ft_visits_medications (prescribed_medications)"
+    );
+    await conn.query(
+      "ALTER TABLE visits ADD FULLTEXT KEY ft_visits_notes (notes)"
+    );
+  },
+
+  down: async (conn) => {
+    await conn.query("ALTER TABLE visits DROP KEY ft_visits_notes");
+    await conn.query("ALTER TABLE visits DROP KEY ft_visits_medications");
+    await conn.query("ALTER TABLE visits DROP KEY ft_visits_diagnosis");
+    await conn.query("ALTER TABLE patients DROP KEY ft_patients_name");
+  },
+};
+export default migration;
@@ -0,0 +1,53 @@
+import { Migration } from "../utils/migrator";
+import baseline from "./0001-baseline";
+import organizations from "./0002-organizations";
+import memberRoles from "./0003-member-roles";
+import auditLog from "./0004-audit-log";
+import sessions from "./0005-sessions";
+import passwordResets from "./0006-password-resets";
+import twoFactor from "./0007-two-factor";
+import loginAttempts from "./0008-login-attempts";
+import prescriptions from "./0009-prescriptions";
+import icd10Diagnoses from "./0010-icd10-diagnoses";
+import vitals from "./0011-vitals";
+import allergies from "./0012-allergies";
+import appointments from "./0013-appointments";
+import reminders from "./0014-reminders";
+import patientImports from "./0015-patient-imports";
+import documents from "./0016-documents";
+import attachments from "./0017-attachments";
+import labOrders from "./0018-lab-orders";
+import softDelete from "./0019-soft-delete";
+import revisions from "./0020-revisions";
+import visitSignOff from "./0021-visit-sign-off";
+import patientMerges from "./0022-patient-merges";
+import searchIndexes from "./0023-search-indexes";
+
+// append new migrations here; versions must be unique and are applied in ascending order
+const migrations: Migration[] = [
+  baseline,
+  organizations,
+  memberRoles,
+  auditLog,
+  sessions,
+  passwordResets,
+  twoFactor,
+  loginAttempts,
+  prescriptions,
+  icd10Diagnoses,
+  vitals,
+  allergies,
+  appointments,
+  reminders,
+  patientImports,
+  documents,
+  attachments,
+  labOrders,
+  softDelete,
+  revisions,
+  visitSignOff,
+  patientMerges,
+  searchIndexes,
+];
+
+export default migrations;
@@ -0,0 +1,443 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { PoolConnection } from "mysql2/promise";
+import uuid from "../utils/uuid";
+import { recordAudit } from "../utils/audit";
+import { allergyProblem, listAllergies } from "../utils/allergies";
+
+// mounted under /api/patients/:uuid/allergies
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AllergyInput:
+ *       type: object
+ *       required:
+ *         - substance
+ *         - severity
+ *       properties:
+ *         substance:
+ *           type: string
+ *           description: A drug, a drug class (penicillin, sulfonamide, nsaid...) or any other substance
+ *           example: "Penicillin"
+ *         reaction:
+ *           type: string
+ *           example: "Urticaria"
+ *         severity:
+ *           type: string
+ *           enum: [mild, moderate, severe, life-threatening]
+ *         status:
+ *           type: string
+ *           enum: [active, inactive, resolved]
+ *           default: active
+ *         noted_at:
+ *           type: string
+ *           format: date
+ *     Allergy:
+ *       allOf:
+ *         - $ref: '#/components/schemas/AllergyInput'
+ *         - type: object
+ *           properties:
+ *             uuid:
+ *               type: string
+ *             patient_id:
+ *               type: string
+ *     AllergyWarning:
+ *       type: object
+ *       properties:
+ *         allergy_id:
+ *           type: string
+ *         substance:
+ *           type: string
+ *           example: "Penicillin"
+ *         reaction:
+ *           type: string
+ *           nullable: true
+ *         severity:
+ *           type: string
+ *           example: "severe"
+ *         medication:
+ *           type: string
+ *           example: "Amoxicillin"
+ *         matched:
+ *           type: string
+ *           example: "amoxicillin"
+ *         blocking:
+ *           type: boolean
+ *           description: True for moderate or worse; the request needs allergy_override_reason to go through
+ */
+
+const findPatient = async (patientUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [patientUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+const findAllergy = async (
+  patientUuid: string,
+  allergyUuid: string,
+  conn?: PoolConnection
+) => {
+  return (await listAllergies(patientUuid, false, conn)).find(
+    (allergy) => allergy.uuid === allergyUuid
+  );
+};
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/allergies:
+ *   get:
+ *     summary: List a patient's allergies, most severe first
+ *     tags:
+ *       - Allergies
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active]
+ *         description: Pass active to leave out inactive and resolved allergies
+ *     responses:
+ *       200:
+ *         description: Allergies
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Allergy'
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid: patientUuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      if (!(await findPatient(patientUuid, tokenInfo.organizationId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      return res.json(
+        await listAllergies(patientUuid, req.query.status === "active")
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/allergies:
+ *   post:
+ *     summary: Record an allergy
+ *     tags:
+ *       - Allergies
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AllergyInput'
+ *     responses:
+ *       201:
+ *         description: Allergy recorded
+ *       400:
+ *         description: Invalid allergy
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("allergies:update"),
+  async (req: Request, res: Response) => {
+    const { uuid: patientUuid } = req.params;
+    const { tokenInfo } = req;
+    const { substance, reaction, severity, status, noted_at } = req.body;
+
+    const problem = allergyProblem(req.body);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      if (!(await findPatient(patientUuid, tokenInfo.organizationId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const allergyUuid = uuid();
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `
+        INSERT INTO patient_allergies
+          (uuid, patient_id, organization_id, substance, reaction, severity, status, noted_at, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        [
+          allergyUuid,
+          patientUuid,
+          tokenInfo.organizationId,
+          substance.trim(),
+          reaction || null,
+          severity,
+          status || "active",
+          noted_at || null,
+          tokenInfo.uuid,
+        ]
+      );
+
+      const allergy = await findAllergy(patientUuid, allergyUuid, conn);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "allergy",
+          resourceUuid: allergyUuid,
+          patientId: patientUuid,
+          after: allergy,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json({ message: "Allergy recorded", allergy });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/allergies/{allergyUuid}:
+ *   put:
+ *     summary: Update an allergy, e.g. mark it resolved
+ *     tags:
+ *       - Allergies
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *       - in: path
+ *         name: allergyUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AllergyInput'
+ *     responses:
+ *       200:
+ *         description: Allergy updated
+ *       400:
+ *         description: Invalid allergy
+ *       404:
+ *         description: Patient or allergy not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:allergyUuid",
+  verifyToken,
+  requirePermission("allergies:update"),
+  async (req: Request, res: Response) => {
+    const { uuid: patientUuid, allergyUuid } = req.params;
+    const { tokenInfo } = req;
+    const { substance, reaction, severity, status, noted_at } = req.body;
+
+    const problem = allergyProblem(req.body);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const before = (await findPatient(patientUuid, tokenInfo.organizationId))
+        ? await findAllergy(patientUuid, allergyUuid)
+        : undefined;
+
+      if (!before) {
+        return res.status(404).json({ message: "Allergy not found" });
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `
+        UPDATE patient_allergies
+        SET substance = ?, reaction = ?, severity = ?, status = ?, noted_at = ?
+        WHERE uuid = ?
+        `,
+        [
+          substance.trim(),
+          reaction || null,
+          severity,
+          status || before.status,
+          noted_at || null,
+          allergyUuid,
+        ]
+      );
+
+      const allergy = await findAllergy(patientUuid, allergyUuid, conn);
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "allergy",
+          resourceUuid: allergyUuid,
+          patientId: patientUuid,
+          before,
+          after: allergy,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Allergy updated", allergy });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/allergies/{allergyUuid}:
+ *   delete:
+ *     summary: Remove an allergy entered in error
+ *     description: Allergies that no longer apply should be marked resolved or inactive instead.
+ *     tags:
+ *       - Allergies
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *       - in: path
+ *         name: allergyUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Allergy removed
+ *       404:
+ *         description: Patient or allergy not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/:allergyUuid",
+  verifyToken,
+  requirePermission("allergies:update"),
+  async (req: Request, res: Response) => {
+    const { uuid: patientUuid, allergyUuid } = req.params;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      const before = (await findPatient(patientUuid, tokenInfo.organizationId))
+        ? await findAllergy(patientUuid, allergyUuid)
+        : undefined;
+
+      if (!before) {
+        return res.status(404).json({ message: "Allergy not found" });
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(`DELETE FROM patient_allergies WHERE uuid = ?`, [
+        allergyUuid,
+      ]);
+
+      await recordAudit(
+        req,
+        {
+          action: "delete",
+          resourceType: "allergy",
+          resourceUuid: allergyUuid,
+          patientId: patientUuid,
+          before,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Allergy removed" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
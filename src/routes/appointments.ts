@@ -0,0 +1,1223 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import uuid from "../utils/uuid";
+import { recordAudit } from "../utils/audit";
+import { hasPermission } from "../utils/permissions";
+import { findMembership } from "../utils/organizations";
+import {
+  APPOINTMENT_COLUMNS,
+  APPOINTMENT_STATUSES,
+  WorkingHours,
+  canTransition,
+  checkBooking,
+  findAppointment,
+  freeSlots,
+  getWorkingHours,
+  isLocalDate,
+  lockCalendar,
+  replaceWorkingHours,
+  unlockCalendar,
+  workingHoursProblem,
+} from "../utils/appointments";
+import { insertVisit, loadVisit, screenNewVisit } from "../utils/visits";
+import { cancelReminders, scheduleReminders } from "../utils/reminders";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Appointment:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         patient_id:
+ *           type: string
+ *         patient_name:
+ *           type: string
+ *           example: "Alice Johnson"
+ *         provider_id:
+ *           type: string
+ *         provider_name:
+ *           type: string
+ *           example: "Jane Mwangi"
+ *         starts_at:
+ *           type: string
+ *           description: Clinic-local time
+ *           example: "2025-02-03 09:30"
+ *         ends_at:
+ *           type: string
+ *           example: "2025-02-03 09:45"
+ *         status:
+ *           type: string
+ *           enum: [booked, arrived, no-show, completed, cancelled]
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         cancellation_reason:
+ *           type: string
+ *           nullable: true
+ *         visit_id:
+ *           type: string
+ *           nullable: true
+ *           description: Set once the appointment has been converted into a visit
+ *     WorkingHours:
+ *       type: object
+ *       required:
+ *         - weekday
+ *         - start
+ *         - end
+ *       properties:
+ *         weekday:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 6
+ *           description: 0 is Sunday
+ *           example: 1
+ *         start:
+ *           type: string
+ *           example: "08:00"
+ *         end:
+ *           type: string
+ *           example: "13:00"
+ *         slot_minutes:
+ *           type: integer
+ *           default: 15
+ *     BookingConflict:
+ *       type: object
+ *       properties:
+ *         message:
+ *           type: string
+ *           example: "The appointment overlaps another booking"
+ *         conflicts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               uuid:
+ *                 type: string
+ *               starts_at:
+ *                 type: string
+ *               ends_at:
+ *                 type: string
+ *               with:
+ *                 type: string
+ *                 enum: [provider, patient]
+ */
+
+/**
+ * @swagger
+ * /api/appointments:
+ *   get:
+ *     summary: List appointments for a day or date range
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: A single day; ignored when from/to are given
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: providerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [booked, arrived, no-show, completed, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Appointments in start-time order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Appointment'
+ *       400:
+ *         description: Invalid filters
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 50;
+    const { date, from, to, providerId, patientId, status } = req.query as {
+      [key: string]: string | undefined;
+    };
+    const { tokenInfo } = req;
+
+    if (page <= 0 || limit <= 0) {
+      return res.status(400).json({ message: "Invalid page or limit" });
+    }
+
+    const start = from || date;
+    const end = to || date;
+
+    if ((start && !isLocalDate(start)) || (end && !isLocalDate(end))) {
+      return res.status(400).json({ message: "Dates must be YYYY-MM-DD" });
+    }
+
+    if (status && !APPOINTMENT_STATUSES.includes(status)) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+
+    let filters = " WHERE a.organization_id = ? AND p.deleted_at IS NULL";
+    const params: any[] = [tokenInfo.organizationId];
+
+    if (start) {
+      filters += " AND a.starts_at >= ?";
+      params.push(start);
+    }
+    if (end) {
+      filters += " AND a.starts_at < DATE_ADD(?, INTERVAL 1 DAY)";
+      params.push(end);
+    }
+    if (providerId) {
+      filters += " AND a.provider_id = ?";
+      params.push(providerId);
+    }
+    if (patientId) {
+      filters += " AND a.patient_id = ?";
+      params.push(patientId);
+    }
+    if (status) {
+      filters += " AND a.status = ?";
+      params.push(status);
+    }
+
+    try {
+      const [countRows] = await db.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM appointments a JOIN patients p ON p.uuid = a.patient_id${filters}`,
+        params
+      );
+
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT ${APPOINTMENT_COLUMNS}
+        FROM appointments a
+        JOIN patients p ON p.uuid = a.patient_id
+        JOIN users u ON u.uuid = a.provider_id
+        ${filters}
+        ORDER BY a.starts_at ASC
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+        `,
+        params
+      );
+
+      return res.json({ items: rows, total: countRows[0].total });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/slots:
+ *   get:
+ *     summary: Find free slots on a day
+ *     description: >
+ *       Slots follow each working window's slot grid. Without providerId every
+ *       provider with working hours that day is searched.
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: providerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: duration
+ *         schema:
+ *           type: integer
+ *         description: Minutes needed; defaults to the window's slot length
+ *     responses:
+ *       200:
+ *         description: Free slots per provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   provider_id:
+ *                     type: string
+ *                   provider_name:
+ *                     type: string
+ *                   slots:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         starts_at:
+ *                           type: string
+ *                           example: "2025-02-03 10:00"
+ *                         ends_at:
+ *                           type: string
+ *                           example: "2025-02-03 10:15"
+ *       400:
+ *         description: Missing or invalid date or duration
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/slots",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    const date = req.query.date as string | undefined;
+    const providerId = req.query.providerId as string | undefined;
+    const duration =
+      req.query.duration === undefined ? undefined : Number(req.query.duration);
+    const { tokenInfo } = req;
+
+    if (!isLocalDate(date)) {
+      return res.status(400).json({ message: "date must be YYYY-MM-DD" });
+    }
+
+    if (
+      duration !== undefined &&
+      (!Number.isInteger(duration) || duration < 5 || duration > 480)
+    ) {
+      return res
+        .status(400)
+        .json({ message: "duration must be a whole number from 5 to 480" });
+    }
+
+    try {
+      const [providers] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT DISTINCT h.provider_id, CONCAT(u.first_name, ' ', u.last_name) AS provider_name
+        FROM provider_working_hours h
+        JOIN users u ON u.uuid = h.provider_id
+        JOIN organization_members m
+          ON m.user_id = h.provider_id AND m.organization_id = h.organization_id
+        WHERE h.organization_id = ?${providerId ? " AND h.provider_id = ?" : ""}
+        ORDER BY provider_name
+        `,
+        providerId
+          ? [tokenInfo.organizationId, providerId]
+          : [tokenInfo.organizationId]
+      );
+
+      const result = [];
+      for (const provider of providers) {
+        result.push({
+          provider_id: provider.provider_id,
+          provider_name: provider.provider_name,
+          slots: await freeSlots(
+            tokenInfo.organizationId,
+            provider.provider_id,
+            date,
+            duration
+          ),
+        });
+      }
+
+      return res.json(result);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/providers/{userUuid}/working-hours:
+ *   get:
+ *     summary: Get a provider's weekly working hours
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Working hours by weekday
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WorkingHours'
+ *       404:
+ *         description: Provider not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/providers/:userUuid/working-hours",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    const { userUuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      if (!(await findMembership(userUuid, tokenInfo.organizationId))) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+
+      return res.json(
+        await getWorkingHours(tokenInfo.organizationId, userUuid)
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/providers/{userUuid}/working-hours:
+ *   put:
+ *     summary: Replace a provider's weekly working hours
+ *     description: >
+ *       Admins can set anyone's hours; providers can set their own. Existing
+ *       appointments are left alone even if they fall outside the new hours.
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - hours
+ *             properties:
+ *               hours:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/WorkingHours'
+ *     responses:
+ *       200:
+ *         description: Working hours saved
+ *       400:
+ *         description: Invalid or overlapping hours
+ *       403:
+ *         description: Not allowed to change this provider's hours
+ *       404:
+ *         description: Provider not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/providers/:userUuid/working-hours",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    const { userUuid } = req.params;
+    const { hours } = req.body;
+    const { tokenInfo } = req;
+
+    if (
+      userUuid !== tokenInfo.uuid &&
+      !hasPermission(tokenInfo.role, "schedules:manage")
+    ) {
+      return res
+        .status(403)
+        .json({ message: "You do not have permission to perform this action" });
+    }
+
+    const problem = workingHoursProblem(hours);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      if (!(await findMembership(userUuid, tokenInfo.organizationId))) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+
+      await conn.beginTransaction();
+      await replaceWorkingHours(
+        conn,
+        tokenInfo.organizationId,
+        userUuid,
+        hours as WorkingHours[]
+      );
+      await conn.commit();
+
+      return res.status(200).json({
+        message: "Working hours saved",
+        hours: await getWorkingHours(tokenInfo.organizationId, userUuid),
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments:
+ *   post:
+ *     summary: Book an appointment
+ *     description: >
+ *       The slot must fall inside the provider's working hours and must not overlap
+ *       another booked or arrived appointment of the provider or the patient.
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - patientId
+ *               - providerId
+ *               - startsAt
+ *             properties:
+ *               patientId:
+ *                 type: string
+ *               providerId:
+ *                 type: string
+ *               startsAt:
+ *                 type: string
+ *                 description: Clinic-local time
+ *                 example: "2025-02-03T09:30"
+ *               durationMinutes:
+ *                 type: integer
+ *                 description: Defaults to the slot length of the working window
+ *               reason:
+ *                 type: string
+ *                 example: "Follow-up"
+ *     responses:
+ *       201:
+ *         description: Appointment booked
+ *       400:
+ *         description: Invalid time, outside working hours or in the past
+ *       404:
+ *         description: Patient or provider not found
+ *       409:
+ *         description: Overlaps another booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookingConflict'
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("appointments:manage"),
+  async (req: Request, res: Response) => {
+    const { patientId, providerId, startsAt, durationMinutes, reason } =
+      req.body;
+    const { tokenInfo } = req;
+
+    if (!patientId || !providerId || !startsAt) {
+      return res
+        .status(400)
+        .json({ message: "patientId, providerId and startsAt are required" });
+    }
+
+    const conn = await db.getConnection();
+    let locked = false;
+
+    try {
+      locked = await lockCalendar(conn, providerId);
+      if (!locked) {
+        return res
+          .status(503)
+          .json({ message: "The calendar is busy. Please retry" });
+      }
+
+      const check = await checkBooking(conn, tokenInfo.organizationId, {
+        patientId,
+        providerId,
+        startsAt,
+        durationMinutes,
+      });
+
+      if (check.rejection) {
+        return res.status(check.rejection.status).json(check.rejection.body);
+      }
+
+      const appointmentUuid = uuid();
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `
+        INSERT INTO appointments
+          (uuid, organization_id, patient_id, provider_id, starts_at, ends_at, reason, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        [
+          appointmentUuid,
+          tokenInfo.organizationId,
+          patientId,
+          providerId,
+          check.startsAt,
+          check.endsAt,
+          reason || null,
+          tokenInfo.uuid,
+        ]
+      );
+
+      await scheduleReminders(conn, {
+        organizationId: tokenInfo.organizationId,
+        patientId,
+        kind: "appointment",
+        sourceType: "appointment",
+        sourceId: appointmentUuid,
+        anchor: check.startsAt,
+      });
+
+      const appointment = await findAppointment(
+        appointmentUuid,
+        tokenInfo.organizationId,
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "appointment",
+          resourceUuid: appointmentUuid,
+          patientId,
+          after: appointment,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res
+        .status(201)
+        .json({ message: "Appointment booked", appointment });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      if (locked) {
+        await unlockCalendar(conn, providerId);
+      }
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/{uuid}:
+ *   get:
+ *     summary: Get an appointment
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The appointment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Appointment'
+ *       404:
+ *         description: Appointment not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+
+    try {
+      const appointment = await findAppointment(
+        req.params.uuid,
+        tokenInfo.organizationId
+      );
+
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      return res.json(appointment);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/{uuid}:
+ *   put:
+ *     summary: Reschedule a booked appointment
+ *     description: Moves it to a new time and optionally to another provider; the same checks as booking apply.
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startsAt
+ *             properties:
+ *               startsAt:
+ *                 type: string
+ *                 example: "2025-02-04T11:00"
+ *               providerId:
+ *                 type: string
+ *                 description: Defaults to the current provider
+ *               durationMinutes:
+ *                 type: integer
+ *                 description: Defaults to the current length
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Appointment rescheduled
+ *       400:
+ *         description: Invalid time, outside working hours, in the past, or no longer booked
+ *       404:
+ *         description: Appointment, patient or provider not found
+ *       409:
+ *         description: Overlaps another booking
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookingConflict'
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:uuid",
+  verifyToken,
+  requirePermission("appointments:manage"),
+  async (req: Request, res: Response) => {
+    const { uuid: appointmentUuid } = req.params;
+    const { startsAt, durationMinutes, reason } = req.body;
+    const { tokenInfo } = req;
+
+    if (!startsAt) {
+      return res.status(400).json({ message: "startsAt is required" });
+    }
+
+    const conn = await db.getConnection();
+    let lockedProvider: string | null = null;
+
+    try {
+      const before = await findAppointment(
+        appointmentUuid,
+        tokenInfo.organizationId
+      );
+
+      if (!before) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (before.status !== "booked") {
+        return res
+          .status(400)
+          .json({ message: `A ${before.status} appointment cannot be moved` });
+      }
+
+      const providerId = req.body.providerId || before.provider_id;
+
+      if (!(await lockCalendar(conn, providerId))) {
+        return res
+          .status(503)
+          .json({ message: "The calendar is busy. Please retry" });
+      }
+      lockedProvider = providerId;
+
+      const currentLength =
+        (Date.parse(before.ends_at.replace(" ", "T")) -
+          Date.parse(before.starts_at.replace(" ", "T"))) /
+        60000;
+
+      const check = await checkBooking(conn, tokenInfo.organizationId, {
+        patientId: before.patient_id,
+        providerId,
+        startsAt,
+        durationMinutes: durationMinutes ?? currentLength,
+        excludeUuid: appointmentUuid,
+      });
+
+      if (check.rejection) {
+        return res.status(check.rejection.status).json(check.rejection.body);
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `
+        UPDATE appointments
+        SET provider_id = ?, starts_at = ?, ends_at = ?, reason = ?
+        WHERE uuid = ?
+        `,
+        [
+          providerId,
+          check.startsAt,
+          check.endsAt,
+          reason === undefined ? before.reason : reason || null,
+          appointmentUuid,
+        ]
+      );
+
+      await scheduleReminders(conn, {
+        organizationId: tokenInfo.organizationId,
+        patientId: before.patient_id,
+        kind: "appointment",
+        sourceType: "appointment",
+        sourceId: appointmentUuid,
+        anchor: check.startsAt,
+      });
+
+      const appointment = await findAppointment(
+        appointmentUuid,
+        tokenInfo.organizationId,
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "appointment",
+          resourceUuid: appointmentUuid,
+          patientId: before.patient_id,
+          before,
+          after: appointment,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res
+        .status(200)
+        .json({ message: "Appointment rescheduled", appointment });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      if (lockedProvider) {
+        await unlockCalendar(conn, lockedProvider);
+      }
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/{uuid}/status:
+ *   post:
+ *     summary: Move an appointment to its next status
+ *     description: >
+ *       booked can become arrived, no-show or cancelled; arrived can become completed
+ *       or cancelled. no-show, completed and cancelled are final.
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [arrived, no-show, completed, cancelled]
+ *               reason:
+ *                 type: string
+ *                 description: Cancellation reason, required when cancelling
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       400:
+ *         description: Transition not allowed or missing cancellation reason
+ *       404:
+ *         description: Appointment not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/status",
+  verifyToken,
+  requirePermission("appointments:manage"),
+  async (req: Request, res: Response) => {
+    const { uuid: appointmentUuid } = req.params;
+    const { status, reason } = req.body;
+    const { tokenInfo } = req;
+
+    if (!APPOINTMENT_STATUSES.includes(status)) {
+      return res.status(400).json({
+        message: `status must be one of: ${APPOINTMENT_STATUSES.join(", ")}`,
+      });
+    }
+
+    if (status === "cancelled" && !reason) {
+      return res
+        .status(400)
+        .json({ message: "A reason is required to cancel an appointment" });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const before = await findAppointment(
+        appointmentUuid,
+        tokenInfo.organizationId
+      );
+
+      if (!before) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      if (!canTransition(before.status, status)) {
+        return res.status(400).json({
+          message: `A ${before.status} appointment cannot become ${status}`,
+        });
+      }
+
+      await conn.beginTransaction();
+
+      // guarded on the old status so two desks updating at once cannot both win
+      const [result]: any = await conn.execute(
+        `
+        UPDATE appointments
+        SET status = ?, cancellation_reason = ?
+        WHERE uuid = ? AND status = ?
+        `,
+        [
+          status,
+          status === "cancelled" ? reason : before.cancellation_reason,
+          appointmentUuid,
+          before.status,
+        ]
+      );
+
+      if (result.affectedRows === 0) {
+        await conn.rollback();
+        return res.status(409).json({
+          message: "The appointment was updated by someone else. Please reload",
+        });
+      }
+
+      // every status after booked means the reminder is no longer wanted
+      await cancelReminders(conn, "appointment", appointmentUuid);
+
+      const appointment = await findAppointment(
+        appointmentUuid,
+        tokenInfo.organizationId,
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "appointment",
+          resourceUuid: appointmentUuid,
+          patientId: before.patient_id,
+          before,
+          after: appointment,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Status updated", appointment });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/appointments/{uuid}/visit:
+ *   post:
+ *     summary: Record the visit for an appointment
+ *     description: >
+ *       Creates the visit exactly as POST /api/patients/{uuid}/visits does, links it
+ *       to the appointment and marks the appointment completed. The visit date
+ *       defaults to the appointment's date.
+ *     tags:
+ *       - Appointments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               diagnoses:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/DiagnosisInput'
+ *               diagnosis:
+ *                 type: string
+ *               prescriptions:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/PrescriptionInput'
+ *               prescribed_medications:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               allergy_override_reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Visit recorded and appointment completed
+ *       400:
+ *         description: Invalid visit, or the appointment is not booked or arrived
+ *       404:
+ *         description: Appointment not found
+ *       409:
+ *         description: Medications conflict with the patient's allergies and no override reason was given
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/visit",
+  verifyToken,
+  requirePermission("visits:create"),
+  async (req: Request, res: Response) => {
+    const { uuid: appointmentUuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
+
+    const conn = await db.getConnection();
+
+    try {
+      const appointment = await findAppointment(
+        appointmentUuid,
+        organizationId
+      );
+
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      // a booked patient who was never marked arrived can still be seen
+      if (!["booked", "arrived"].includes(appointment.status)) {
+        return res.status(400).json({
+          message: `A ${appointment.status} appointment cannot be turned into a visit`,
+        });
+      }
+
+      const input = {
+        ...req.body,
+        date: req.body.date || appointment.starts_at.slice(0, 10),
+      };
+
+      const check = await screenNewVisit(appointment.patient_id, input);
+
+      if (check.rejection) {
+        return res.status(check.rejection.status).json(check.rejection.body);
+      }
+
+      await conn.beginTransaction();
+
+      const visitUuid = await insertVisit(
+        conn,
+        appointment.patient_id,
+        organizationId,
+        tokenInfo.uuid,
+        input,
+        check.screening
+      );
+
+      const [result]: any = await conn.execute(
+        `
+        UPDATE appointments
+        SET status = 'completed', visit_id = ?
+        WHERE uuid = ? AND status = ?
+        `,
+        [visitUuid, appointmentUuid, appointment.status]
+      );
+
+      if (result.affectedRows === 0) {
+        await conn.rollback();
+        return res.status(409).json({
+          message: "The appointment was updated by someone else. Please reload",
+        });
+      }
+
+      await cancelReminders(conn, "appointment", appointmentUuid);
+
+      const visit = await loadVisit(visitUuid, conn);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "visit",
+          resourceUuid: visitUuid,
+          patientId: appointment.patient_id,
+          after: visit,
+        },
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "appointment",
+          resourceUuid: appointmentUuid,
+          patientId: appointment.patient_id,
+          before: appointment,
+          after: await findAppointment(appointmentUuid, organizationId, conn),
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json({
+        message: "Visit added",
+        visit,
+        allergy_warnings: check.screening.warnings,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,245 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { verifyAuditChain } from "../utils/audit";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/audit:
+ *   get:
+ *     summary: Query the PHI access audit trail of the active organization
+ *     tags:
+ *       - Audit
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *         description: Only entries about this patient or their visits
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *         description: Only entries performed by this user
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [view, create, update, delete, restore, purge, sign, merge, unmerge]
+ *     responses:
+ *       200:
+ *         description: Audit entries, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                   example: 3
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       uuid:
+ *                         type: string
+ *                       actorId:
+ *                         type: string
+ *                       actorName:
+ *                         type: string
+ *                         example: "John Doe"
+ *                       action:
+ *                         type: string
+ *                         example: "update"
+ *                       resourceType:
+ *                         type: string
+ *                         example: "patient"
+ *                       resourceUuid:
+ *                         type: string
+ *                       patientId:
+ *                         type: string
+ *                       ip:
+ *                         type: string
+ *                         example: "10.0.0.12"
+ *                       userAgent:
+ *                         type: string
+ *                       changes:
+ *                         type: object
+ *                         nullable: true
+ *                         example: { "contact": { "before": "+254700000000", "after": "+254712345678" } }
+ *                       createdAt:
+ *                         type: string
+ *                       hash:
+ *                         type: string
+ *       400:
+ *         description: Invalid page or limit
+ *       403:
+ *         description: Not allowed to read the audit trail
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("audit:read"),
+  async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 50;
+    const patientId = req.query.patientId as string | undefined;
+    const userId = req.query.userId as string | undefined;
+    const startDate = req.query.startDate as string | undefined;
+    const endDate = req.query.endDate as string | undefined;
+    const action = req.query.action as string | undefined;
+    const { tokenInfo } = req;
+
+    if (page <= 0 || limit <= 0) {
+      return res.status(400).json({ message: "Invalid page or limit" });
+    }
+
+    const offset = (page - 1) * limit;
+
+    let where = "WHERE a.organization_id = ?";
+    const params: any[] = [tokenInfo.organizationId];
+
+    if (patientId) {
+      where += " AND a.patient_id = ?";
+      params.push(patientId);
+    }
+    if (userId) {
+      where += " AND a.actor_id = ?";
+      params.push(userId);
+    }
+    if (action) {
+      where += " AND a.action = ?";
+      params.push(action);
+    }
+    if (startDate) {
+      where += " AND a.created_at >= ?";
+      params.push(startDate);
+    }
+    if (endDate) {
+      where += " AND a.created_at < DATE_ADD(?, INTERVAL 1 DAY)";
+      params.push(endDate);
+    }
+
+    try {
+      const [countRows] = await db.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM audit_log a ${where}`,
+        params
+      );
+      const total = countRows[0].total;
+
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT a.*, u.first_name, u.last_name
+        FROM audit_log a
+        LEFT JOIN users u ON u.uuid = a.actor_id
+        ${where}
+        ORDER BY a.id DESC
+        LIMIT ${limit} OFFSET ${offset}
+        `,
+        params
+      );
+
+      const items = rows.map((row) => ({
+        uuid: row.uuid,
+        actorId: row.actor_id,
+        actorName: row.first_name ? row.first_name + " " + row.last_name : null,
+        action: row.action,
+        resourceType: row.resource_type,
+        resourceUuid: row.resource_uuid,
+        patientId: row.patient_id,
+        ip: row.ip,
+        userAgent: row.user_agent,
+        changes: row.changes ? JSON.parse(row.changes) : null,
+        createdAt: row.created_at,
+        hash: row.hash,
+      }));
+
+      return res.json({ items, total });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/audit/verify:
+ *   get:
+ *     summary: Recompute the audit hash chain to detect tampering
+ *     tags:
+ *       - Audit
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 valid:
+ *                   type: boolean
+ *                   example: true
+ *                 checked:
+ *                   type: integer
+ *                   example: 1024
+ *                 brokenAt:
+ *                   type: string
+ *                   nullable: true
+ *                   description: UUID of the first entry whose hash does not match
+ *       403:
+ *         description: Not allowed to read the audit trail
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/verify",
+  verifyToken,
+  requirePermission("audit:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+
+    try {
+      const result = await verifyAuditChain(tokenInfo.organizationId);
+      return res.json(result);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+export default router;
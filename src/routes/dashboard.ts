@@ -1,7 +1,9 @@
 import express, { Request, Response } from "express";
 import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
 import { pool as db } from "../utils/database-config";
 import { RowDataPacket } from "mysql2";
+import { CHAPTERS } from "../utils/icd10";
 
 const router = express.Router();
 
@@ -14,6 +16,19 @@ const router = express.Router();
  *       - Dashboard
  *     security:
  *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: diagnosisGroupBy
+ *         schema:
+ *           type: string
+ *           enum: [chapter, code]
+ *           default: chapter
+ *         description: How diagnosisBreakdown groups coded diagnoses
+ *       - in: query
+ *         name: chapter
+ *         schema:
+ *           type: string
+ *         description: Restrict diagnosisBreakdown to one ICD-10 chapter
  *
  *     responses:
  *       200:
@@ -67,6 +82,21 @@ const router = express.Router();
  *                       visits:
  *                         type: integer
  *                         example: 12
+ *                 diagnosisBreakdown:
+ *                   type: array
+ *                   description: Top 10 codes or chapters by number of visits
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       key:
+ *                         type: string
+ *                         example: "I"
+ *                       title:
+ *                         type: string
+ *                         example: "Certain infectious and parasitic diseases"
+ *                       visits:
+ *                         type: integer
+ *                         example: 31
  *
  *       500:
  *         description: Internal server error
@@ -79,19 +109,23 @@ const router = express.Router();
  *                   type: string
  *                   example: "Internal Server Error"
  */
-router.get("/", verifyToken, async (req: Request, res: Response) => {
-  try {
-    const { tokenInfo } = req;
-    const createdBy = tokenInfo.uuid;
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("dashboard:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const { tokenInfo } = req;
+      const organizationId = tokenInfo.organizationId;
 
-    const [totalPatientsRows] = await db.execute<RowDataPacket[]>(
-      "SELECT COUNT(*) AS total FROM patients WHERE created_by = ?",
-      [createdBy]
-    );
-    const totalPatients = totalPatientsRows[0].total;
+      const [totalPatientsRows] = await db.execute<RowDataPacket[]>(
+        "SELECT COUNT(*) AS total FROM patients WHERE organization_id = ? AND deleted_at IS NULL",
+        [organizationId]
+      );
+      const totalPatients = totalPatientsRows[0].total;
 
-    const [recentVisitsRows] = await db.execute<RowDataPacket[]>(
-      `
+      const [recentVisitsRows] = await db.execute<RowDataPacket[]>(
+        `
       SELECT v.uuid AS visitUuid,
              v.visit_date,
              v.diagnosis,
@@ -101,54 +135,83 @@ router.get("/", verifyToken, async (req: Request, res: Response) => {
              p.name
       FROM visits v
       JOIN patients p ON v.patient_id = p.uuid
-      WHERE v.created_by = ?
+      WHERE v.organization_id = ? AND v.deleted_at IS NULL
       ORDER BY v.visit_date DESC
       LIMIT 5
     `,
-      [createdBy]
-    );
+        [organizationId]
+      );
 
-    const [totalVisitsRows] = await db.execute<RowDataPacket[]>(
-      "SELECT COUNT(*) AS total FROM visits WHERE created_by = ?",
-      [createdBy]
-    );
-    const totalVisits = totalVisitsRows[0].total;
+      const [totalVisitsRows] = await db.execute<RowDataPacket[]>(
+        "SELECT COUNT(*) AS total FROM visits WHERE organization_id = ? AND deleted_at IS NULL",
+        [organizationId]
+      );
+      const totalVisits = totalVisitsRows[0].total;
 
-    const recentVisits = recentVisitsRows.map((row) => ({
-      visitUuid: row.visitUuid,
-      patientUuid: row.patientUuid,
-      name: row.name,
-      visit_date: row.visit_date,
-      diagnosis: row.diagnosis,
-      prescribed_medications: row.prescribed_medications,
-      notes: row.notes,
-    }));
+      const recentVisits = recentVisitsRows.map((row) => ({
+        visitUuid: row.visitUuid,
+        patientUuid: row.patientUuid,
+        name: row.name,
+        visit_date: row.visit_date,
+        diagnosis: row.diagnosis,
+        prescribed_medications: row.prescribed_medications,
+        notes: row.notes,
+      }));
 
-    const [visitsPerWeekRows] = await db.execute<RowDataPacket[]>(
-      `
+      const [visitsPerWeekRows] = await db.execute<RowDataPacket[]>(
+        `
       SELECT DATE_FORMAT(visit_date, '%x-W%v') AS week,
              COUNT(*) AS visits
       FROM visits
-      WHERE created_by = ?
+      WHERE organization_id = ? AND deleted_at IS NULL
       GROUP BY week
       ORDER BY week DESC
       LIMIT 10
     `,
-      [createdBy]
-    );
+        [organizationId]
+      );
+
+      const visitsPerWeek = visitsPerWeekRows
+        .map((row) => ({ week: row.week, visits: row.visits }))
+        .reverse();
+
+      const byCode = req.query.diagnosisGroupBy === "code";
+      const chapter = req.query.chapter as string | undefined;
+
+      const [diagnosisRows] = await db.execute<RowDataPacket[]>(
+        `
+      SELECT ${byCode ? "c.code" : "c.chapter"} AS \`key\`,
+             ${byCode ? "MIN(c.title)" : "NULL"} AS title,
+             COUNT(DISTINCT d.visit_id) AS visits
+      FROM visit_diagnoses d
+      JOIN icd10_codes c ON c.code = d.icd10_code
+      JOIN visits v ON v.uuid = d.visit_id AND v.deleted_at IS NULL
+      WHERE d.organization_id = ?${chapter ? " AND c.chapter = ?" : ""}
+      GROUP BY \`key\`
+      ORDER BY visits DESC
+      LIMIT 10
+    `,
+        chapter ? [organizationId, chapter] : [organizationId]
+      );
 
-    const visitsPerWeek = visitsPerWeekRows
-      .map((row) => ({ week: row.week, visits: row.visits }))
-      .reverse();
+      const diagnosisBreakdown = diagnosisRows.map((row) => ({
+        key: row.key,
+        title: byCode
+          ? row.title
+          : CHAPTERS.find((c) => c.chapter === row.key)?.title,
+        visits: row.visits,
+      }));
 
-    res.json({
-      totalPatients,
-      totalVisits,
-      recentVisits,
-      visitsPerWeek,
-    });
-  } catch (err) {
-    res.status(500).json({ error: "We encountered an error. Please retry" });
+      res.json({
+        totalPatients,
+        totalVisits,
+        recentVisits,
+        visitsPerWeek,
+        diagnosisBreakdown,
+      });
+    } catch (err) {
+      res.status(500).json({ error: "We encountered an error. Please retry" });
+    }
   }
-});
+);
 export default router;
@@ -0,0 +1,384 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { recordAudit } from "../utils/audit";
+import {
+  SECTIONS,
+  getLetterhead,
+  getTemplate,
+  isDocumentKind,
+  letterheadProblem,
+  listTemplates,
+  saveLetterhead,
+  saveTemplate,
+  templateProblem,
+  verifyDocument,
+} from "../utils/documents";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Letterhead:
+ *       type: object
+ *       properties:
+ *         clinic_name:
+ *           type: string
+ *           example: "Sunrise Clinic"
+ *         address:
+ *           type: string
+ *           nullable: true
+ *         phone:
+ *           type: string
+ *           nullable: true
+ *         email:
+ *           type: string
+ *           nullable: true
+ *         logo:
+ *           type: string
+ *           nullable: true
+ *           description: PNG or JPEG data URL, at most 512 KB
+ *           example: "data:image/png;base64,iVBORw0KGgo..."
+ *         accent_color:
+ *           type: string
+ *           example: "#1F4E79"
+ *     DocumentTemplate:
+ *       type: object
+ *       properties:
+ *         kind:
+ *           type: string
+ *           enum: [visit-summary, prescription]
+ *         title:
+ *           type: string
+ *           example: "Prescription"
+ *         sections:
+ *           type: array
+ *           description: Printed in this order
+ *           items:
+ *             type: string
+ *             enum: [patient, diagnoses, medications, notes, follow-up, signature]
+ *         footer:
+ *           type: string
+ *           nullable: true
+ *         customised:
+ *           type: boolean
+ *           description: False while the built-in default is in use
+ */
+
+/**
+ * @swagger
+ * /api/documents/letterhead:
+ *   get:
+ *     summary: Get the letterhead printed on visit documents
+ *     description: Without a letterhead of its own the organization's name is used.
+ *     tags:
+ *       - Documents
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: The letterhead
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Letterhead'
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/letterhead",
+  verifyToken,
+  requirePermission("documents:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      return res.json(await getLetterhead(req.tokenInfo.organizationId));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/letterhead:
+ *   put:
+ *     summary: Replace the letterhead printed on visit documents
+ *     description: Fields left out are cleared; leave out logo to print without one.
+ *     tags:
+ *       - Documents
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Letterhead'
+ *     responses:
+ *       200:
+ *         description: Letterhead saved
+ *       400:
+ *         description: Field too long, invalid colour or invalid logo
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/letterhead",
+  verifyToken,
+  requirePermission("documents:manage"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const problem = letterheadProblem(req.body || {});
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      await conn.beginTransaction();
+
+      const before = await getLetterhead(tokenInfo.organizationId, conn);
+      await saveLetterhead(
+        tokenInfo.organizationId,
+        req.body,
+        tokenInfo.uuid,
+        conn
+      );
+      const letterhead = await getLetterhead(tokenInfo.organizationId, conn);
+
+      // the logo itself is too large for the audit log
+      const withoutLogo = ({ logo, ...rest }: typeof letterhead) => ({
+        ...rest,
+        has_logo: Boolean(logo),
+      });
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "letterhead",
+          resourceUuid: tokenInfo.organizationId,
+          before: withoutLogo(before),
+          after: withoutLogo(letterhead),
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Letterhead saved", letterhead });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/templates:
+ *   get:
+ *     summary: List the organization's document templates
+ *     tags:
+ *       - Documents
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: One template per kind, with the sections a template can use
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sections:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 templates:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DocumentTemplate'
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/templates",
+  verifyToken,
+  requirePermission("documents:manage"),
+  async (req: Request, res: Response) => {
+    try {
+      return res.json({
+        sections: SECTIONS,
+        templates: await listTemplates(req.tokenInfo.organizationId),
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/templates/{kind}:
+ *   put:
+ *     summary: Edit a document template
+ *     tags:
+ *       - Documents
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [visit-summary, prescription]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *               - sections
+ *             properties:
+ *               title:
+ *                 type: string
+ *               sections:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               footer:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Template saved
+ *       400:
+ *         description: Invalid title, sections or footer
+ *       404:
+ *         description: Unknown kind
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/templates/:kind",
+  verifyToken,
+  requirePermission("documents:manage"),
+  async (req: Request, res: Response) => {
+    const { kind } = req.params;
+    const { tokenInfo } = req;
+
+    if (!isDocumentKind(kind)) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const problem = templateProblem(req.body || {});
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    try {
+      await saveTemplate(
+        tokenInfo.organizationId,
+        kind,
+        req.body,
+        tokenInfo.uuid
+      );
+
+      const template = await getTemplate(tokenInfo.organizationId, kind);
+
+      return res.status(200).json({ message: "Template saved", template });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/documents/verify/{serial}:
+ *   get:
+ *     summary: Check a printed visit summary or prescription
+ *     description: >
+ *       Public, so a pharmacy or another clinic can scan the QR code. Shows only enough to
+ *       match the paper - clinic, issue date, patient initials and visit date - and whether
+ *       the visit has been edited since it was printed.
+ *     tags:
+ *       - Documents
+ *     parameters:
+ *       - in: path
+ *         name: serial
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: "RX-7K3PQ-92QFM"
+ *     responses:
+ *       200:
+ *         description: The document was issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 serial:
+ *                   type: string
+ *                 kind:
+ *                   type: string
+ *                   enum: [visit-summary, prescription]
+ *                 clinic:
+ *                   type: string
+ *                 issued_at:
+ *                   type: string
+ *                   format: date-time
+ *                 issued_by:
+ *                   type: string
+ *                 patient_initials:
+ *                   type: string
+ *                   nullable: true
+ *                   example: "A. J."
+ *                 visit_date:
+ *                   type: string
+ *                   format: date
+ *                   nullable: true
+ *                 unchanged:
+ *                   type: boolean
+ *                   description: False when the visit was edited or deleted after printing
+ *       404:
+ *         description: No document with this serial
+ *       500:
+ *         description: Server error
+ */
+router.get("/verify/:serial", async (req: Request, res: Response) => {
+  try {
+    const document = await verifyDocument(String(req.params.serial));
+
+    if (!document) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+
+    return res.json(document);
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please try again" });
+  }
+});
+
+export default router;
@@ -0,0 +1,515 @@
+import express, { Request, Response, RequestHandler } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { recordAudit } from "../utils/audit";
+import { Permission } from "../utils/permissions";
+import {
+  DEFAULT_COUNT,
+  FHIR_CONTENT_TYPE,
+  FhirResourceType,
+  MAX_COUNT,
+  capabilityStatement,
+  operationOutcome,
+  patientEverything,
+  readResource,
+  searchBundle,
+  searchProblem,
+  searchResources,
+} from "../utils/fhir";
+
+// mounted under /fhir, outside /api, where FHIR clients expect the base URL to be
+const router = express.Router();
+
+const READ_PERMISSION: Record<FhirResourceType, Permission> = {
+  Patient: "patients:read",
+  Encounter: "visits:read",
+  Condition: "visits:read",
+  MedicationRequest: "visits:read",
+};
+
+// audit resource types, matching the ones the /api routes record
+const AUDIT_RESOURCE: Record<FhirResourceType, string> = {
+  Patient: "patient",
+  Encounter: "visit",
+  Condition: "diagnosis",
+  MedicationRequest: "prescription",
+};
+
+const baseUrl = (req: Request) =>
+  `${req.protocol}://${req.get("host")}${req.baseUrl}`;
+
+const send = (res: Response, status: number, body: any) => {
+  return res.status(status).type(FHIR_CONTENT_TYPE).json(body);
+};
+
+const serverError = (res: Response) => {
+  return send(
+    res,
+    500,
+    operationOutcome("exception", "We encountered an error. Please try again")
+  );
+};
+
+// the same search with a different _offset, for the bundle's paging links
+const pageUrl = (req: Request, type: FhirResourceType, offset: number) => {
+  const params = new URLSearchParams();
+  Object.entries(req.query).forEach(([name, value]) => {
+    if (name !== "_offset") {
+      (Array.isArray(value) ? value : [value]).forEach((item) =>
+        params.append(name, String(item))
+      );
+    }
+  });
+  params.set("_offset", String(offset));
+  return `${baseUrl(req)}/${type}?${params.toString()}`;
+};
+
+const search = (type: FhirResourceType): RequestHandler[] => [
+  verifyToken,
+  requirePermission(READ_PERMISSION[type]),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const count =
+      req.query._count === undefined ? DEFAULT_COUNT : Number(req.query._count);
+    const offset =
+      req.query._offset === undefined ? 0 : Number(req.query._offset);
+
+    if (
+      !Number.isInteger(count) ||
+      count < 0 ||
+      !Number.isInteger(offset) ||
+      offset < 0
+    ) {
+      return send(
+        res,
+        400,
+        operationOutcome(
+          "invalid",
+          "_count and _offset must be non-negative integers"
+        )
+      );
+    }
+
+    const problem = searchProblem(type, req.query);
+    if (problem) {
+      return send(res, 400, operationOutcome("invalid", problem));
+    }
+
+    const pageSize = Math.min(count, MAX_COUNT);
+
+    try {
+      const { total, resources } = await searchResources(
+        type,
+        tokenInfo.organizationId,
+        req.query,
+        pageSize,
+        offset
+      );
+
+      return send(
+        res,
+        200,
+        searchBundle(baseUrl(req), total, resources, {
+          self: pageUrl(req, type, offset),
+          next:
+            pageSize > 0 && offset + pageSize < total
+              ? pageUrl(req, type, offset + pageSize)
+              : undefined,
+          previous:
+            offset > 0
+              ? pageUrl(req, type, Math.max(offset - pageSize, 0))
+              : undefined,
+        })
+      );
+    } catch (err) {
+      return serverError(res);
+    }
+  },
+];
+
+const read = (type: FhirResourceType): RequestHandler[] => [
+  verifyToken,
+  requirePermission(READ_PERMISSION[type]),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const id = String(req.params.id);
+
+    try {
+      const resource = await readResource(type, tokenInfo.organizationId, id);
+
+      if (!resource) {
+        return send(
+          res,
+          404,
+          operationOutcome("not-found", `${type}/${id} not found`)
+        );
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: AUDIT_RESOURCE[type],
+        resourceUuid: id,
+        patientId:
+          type === "Patient"
+            ? id
+            : resource.subject.reference.replace("Patient/", ""),
+      });
+
+      return send(res, 200, resource);
+    } catch (err) {
+      return serverError(res);
+    }
+  },
+];
+
+/**
+ * @swagger
+ * /fhir/metadata:
+ *   get:
+ *     summary: FHIR R4 CapabilityStatement
+ *     description: Lists the resources, interactions and search parameters this server supports. No authentication is needed.
+ *     tags:
+ *       - FHIR
+ *     responses:
+ *       200:
+ *         description: CapabilityStatement
+ *         content:
+ *           application/fhir+json: {}
+ */
+router.get("/metadata", (req: Request, res: Response) => {
+  return send(res, 200, capabilityStatement(baseUrl(req)));
+});
+
+/**
+ * @swagger
+ * /fhir/Patient:
+ *   get:
+ *     summary: Search patients as FHIR Patient resources
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: identifier
+ *         schema:
+ *           type: string
+ *         description: National ID number, optionally as system|value
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: birthdate
+ *         schema:
+ *           type: string
+ *         description: YYYY-MM-DD, optionally prefixed with eq, ne, gt, lt, ge or le
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *           enum: [male, female, other, unknown]
+ *       - in: query
+ *         name: _count
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *       - in: query
+ *         name: _offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: searchset Bundle
+ *       400:
+ *         description: OperationOutcome describing an invalid parameter
+ *       500:
+ *         description: Server error
+ */
+router.get("/Patient", ...search("Patient"));
+
+/**
+ * @swagger
+ * /fhir/Patient/{id}:
+ *   get:
+ *     summary: Read a patient as a FHIR Patient resource
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient uuid
+ *     responses:
+ *       200:
+ *         description: Patient
+ *       404:
+ *         description: OperationOutcome, patient not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/Patient/:id", ...read("Patient"));
+
+/**
+ * @swagger
+ * /fhir/Patient/{id}/$everything:
+ *   get:
+ *     summary: Everything held on a patient as one FHIR Bundle
+ *     description: The Patient plus all of its Encounters, Conditions and MedicationRequests. Requires both patients:read and visits:read.
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Patient uuid
+ *     responses:
+ *       200:
+ *         description: searchset Bundle
+ *       404:
+ *         description: OperationOutcome, patient not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/Patient/:id/\\$everything",
+  verifyToken,
+  requirePermission("patients:read"),
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const id = String(req.params.id);
+
+    try {
+      const resources = await patientEverything(tokenInfo.organizationId, id);
+
+      if (!resources) {
+        return send(
+          res,
+          404,
+          operationOutcome("not-found", `Patient/${id} not found`)
+        );
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "patient_record",
+        resourceUuid: id,
+        patientId: id,
+      });
+
+      return send(
+        res,
+        200,
+        searchBundle(baseUrl(req), resources.length, resources, {
+          self: `${baseUrl(req)}/Patient/${id}/$everything`,
+        })
+      );
+    } catch (err) {
+      return serverError(res);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /fhir/Encounter:
+ *   get:
+ *     summary: Search visits as FHIR Encounter resources
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patient
+ *         schema:
+ *           type: string
+ *         description: Patient/{uuid} or a bare uuid
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *         description: YYYY-MM-DD, optionally prefixed with eq, ne, gt, lt, ge or le. May be repeated for a range.
+ *       - in: query
+ *         name: _count
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: _offset
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: searchset Bundle
+ *       400:
+ *         description: OperationOutcome describing an invalid parameter
+ *       500:
+ *         description: Server error
+ */
+router.get("/Encounter", ...search("Encounter"));
+
+/**
+ * @swagger
+ * /fhir/Encounter/{id}:
+ *   get:
+ *     summary: Read a visit as a FHIR Encounter resource
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Visit uuid
+ *     responses:
+ *       200:
+ *         description: Encounter
+ *       404:
+ *         description: OperationOutcome, visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/Encounter/:id", ...read("Encounter"));
+
+/**
+ * @swagger
+ * /fhir/Condition:
+ *   get:
+ *     summary: Search visit diagnoses as FHIR Condition resources
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patient
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: encounter
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *         description: ICD-10 code, optionally as http://hl7.org/fhir/sid/icd-10|code
+ *       - in: query
+ *         name: _count
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: _offset
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: searchset Bundle
+ *       400:
+ *         description: OperationOutcome describing an invalid parameter
+ *       500:
+ *         description: Server error
+ */
+router.get("/Condition", ...search("Condition"));
+
+/**
+ * @swagger
+ * /fhir/Condition/{id}:
+ *   get:
+ *     summary: Read a visit diagnosis as a FHIR Condition resource
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Condition
+ *       404:
+ *         description: OperationOutcome, diagnosis not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/Condition/:id", ...read("Condition"));
+
+/**
+ * @swagger
+ * /fhir/MedicationRequest:
+ *   get:
+ *     summary: Search prescription lines as FHIR MedicationRequest resources
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patient
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: encounter
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: _count
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: _offset
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: searchset Bundle
+ *       400:
+ *         description: OperationOutcome describing an invalid parameter
+ *       500:
+ *         description: Server error
+ */
+router.get("/MedicationRequest", ...search("MedicationRequest"));
+
+/**
+ * @swagger
+ * /fhir/MedicationRequest/{id}:
+ *   get:
+ *     summary: Read a prescription line as a FHIR MedicationRequest resource
+ *     tags:
+ *       - FHIR
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: MedicationRequest
+ *       404:
+ *         description: OperationOutcome, prescription not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/MedicationRequest/:id", ...read("MedicationRequest"));
+
+export default router;
@@ -0,0 +1,256 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { CHAPTERS, normaliseCode } from "../utils/icd10";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DiagnosisInput:
+ *       type: object
+ *       description: Either an ICD-10 code from the catalog or free text
+ *       properties:
+ *         code:
+ *           type: string
+ *           example: "B50.9"
+ *         text:
+ *           type: string
+ *           example: "Suspected malaria"
+ *         rank:
+ *           type: string
+ *           enum: [primary, secondary]
+ *           description: Defaults to primary for the first diagnosis when none is marked primary
+ *     Diagnosis:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         code:
+ *           type: string
+ *           nullable: true
+ *           example: "B50.9"
+ *         title:
+ *           type: string
+ *           nullable: true
+ *           example: "Plasmodium falciparum malaria, unspecified"
+ *         chapter:
+ *           type: string
+ *           nullable: true
+ *           example: "I"
+ *         text:
+ *           type: string
+ *           nullable: true
+ *         rank:
+ *           type: string
+ *           enum: [primary, secondary]
+ */
+
+/**
+ * @swagger
+ * /api/icd10:
+ *   get:
+ *     summary: Search the ICD-10 catalog for autocomplete
+ *     description: Codes starting with the query rank first, then titles containing it.
+ *     tags:
+ *       - ICD-10
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "malaria"
+ *       - in: query
+ *         name: chapter
+ *         schema:
+ *           type: string
+ *         description: Restrict to a chapter (roman numeral)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Matching codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   code:
+ *                     type: string
+ *                     example: "B50.9"
+ *                   title:
+ *                     type: string
+ *                     example: "Plasmodium falciparum malaria, unspecified"
+ *                   chapter:
+ *                     type: string
+ *                     example: "I"
+ *       400:
+ *         description: Missing query
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const q = String(req.query.q || "").trim();
+    const chapter = req.query.chapter as string | undefined;
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+
+    if (!q) {
+      return res.status(400).json({ message: "q is required" });
+    }
+
+    const codePrefix = `${normaliseCode(q)}%`;
+    const params: any[] = [codePrefix, `%${q}%`];
+    let query = `
+      SELECT code, title, chapter
+      FROM icd10_codes
+      WHERE (code LIKE ? OR title LIKE ?)
+    `;
+
+    if (chapter) {
+      query += " AND chapter = ?";
+      params.push(chapter);
+    }
+
+    query += ` ORDER BY code LIKE ? DESC, CHAR_LENGTH(code), code LIMIT ${limit}`;
+    params.push(codePrefix);
+
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(query, params);
+
+      return res.json(rows);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/icd10/chapters:
+ *   get:
+ *     summary: List the ICD-10 chapters with the number of loaded codes in each
+ *     tags:
+ *       - ICD-10
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Chapters in catalog order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   chapter:
+ *                     type: string
+ *                     example: "I"
+ *                   range:
+ *                     type: string
+ *                     example: "A00-B99"
+ *                   title:
+ *                     type: string
+ *                     example: "Certain infectious and parasitic diseases"
+ *                   codes:
+ *                     type: integer
+ *                     example: 1076
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/chapters",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `SELECT chapter, COUNT(*) AS codes FROM icd10_codes GROUP BY chapter`
+      );
+      const counts = new Map(rows.map((row) => [row.chapter, row.codes]));
+
+      return res.json(
+        CHAPTERS.map((c) => ({
+          chapter: c.chapter,
+          range: `${c.from}-${c.to}`,
+          title: c.title,
+          codes: counts.get(c.chapter) || 0,
+        }))
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/icd10/{code}:
+ *   get:
+ *     summary: Look up a single ICD-10 code
+ *     tags:
+ *       - ICD-10
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "B50.9"
+ *     responses:
+ *       200:
+ *         description: The code with its chapter
+ *       404:
+ *         description: Code not in the catalog
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:code",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `SELECT code, title, chapter FROM icd10_codes WHERE code = ? LIMIT 1`,
+        [normaliseCode(req.params.code)]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Code not found" });
+      }
+
+      const chapter = CHAPTERS.find((c) => c.chapter === rows[0].chapter);
+
+      return res.json({ ...rows[0], chapter_title: chapter?.title });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
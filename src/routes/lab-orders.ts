@@ -0,0 +1,197 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import {
+  findOrder,
+  findTest,
+  insertOrder,
+  listVisitOrders,
+  orderProblem,
+} from "../utils/lab";
+
+// mounted under /api/visits/:uuid/lab-orders
+const router = express.Router({ mergeParams: true });
+
+const findVisit = async (visitUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid, patient_id FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [visitUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/lab-orders:
+ *   get:
+ *     summary: List the lab tests ordered at a visit, with their results
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     responses:
+ *       200:
+ *         description: Orders in the order they were placed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LabOrder'
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      if (!(await findVisit(String(uuid), tokenInfo.organizationId))) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      return res.json(await listVisitOrders(String(uuid)));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/lab-orders:
+ *   post:
+ *     summary: Order a lab test from the catalog
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - test
+ *             properties:
+ *               test:
+ *                 type: string
+ *                 description: The catalog test's uuid or code
+ *                 example: "MAL-RDT"
+ *               priority:
+ *                 type: string
+ *                 enum: [routine, urgent, stat]
+ *                 default: routine
+ *               notes:
+ *                 type: string
+ *                 example: "Fever for 3 days"
+ *     responses:
+ *       201:
+ *         description: Test ordered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LabOrder'
+ *       400:
+ *         description: Invalid order, or the test is not in the catalog or inactive
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("lab:order"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    const problem = orderProblem(req.body);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(String(uuid), tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      const test = await findTest(tokenInfo.organizationId, req.body.test);
+
+      if (!test || !test.active) {
+        return res
+          .status(400)
+          .json({ message: `${req.body.test} is not an active test` });
+      }
+
+      await conn.beginTransaction();
+
+      const orderUuid = await insertOrder(
+        tokenInfo.organizationId,
+        visit.uuid,
+        visit.patient_id,
+        test,
+        req.body,
+        tokenInfo.uuid,
+        conn
+      );
+      const order = await findOrder(tokenInfo.organizationId, orderUuid, conn);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "lab_order",
+          resourceUuid: orderUuid,
+          patientId: visit.patient_id,
+          after: order,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json(order);
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
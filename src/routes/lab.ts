@@ -0,0 +1,790 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { recordAudit } from "../utils/audit";
+import {
+  OrderStatus,
+  PENDING_STATUSES,
+  PRIORITIES,
+  Priority,
+  findOrder,
+  findTest,
+  labTestProblem,
+  listTests,
+  pendingOrders,
+  recordResults,
+  resultsProblem,
+  saveTest,
+} from "../utils/lab";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     LabTest:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         code:
+ *           type: string
+ *           example: "MAL-RDT"
+ *         name:
+ *           type: string
+ *           example: "Malaria rapid diagnostic test"
+ *         specimen:
+ *           type: string
+ *           nullable: true
+ *           example: "Capillary blood"
+ *         result_type:
+ *           type: string
+ *           enum: [numeric, text]
+ *         unit:
+ *           type: string
+ *           nullable: true
+ *           example: "g/dL"
+ *         reference_low:
+ *           type: number
+ *           nullable: true
+ *         reference_high:
+ *           type: number
+ *           nullable: true
+ *         reference_text:
+ *           type: string
+ *           nullable: true
+ *           description: The expected answer of a text test
+ *           example: "Negative"
+ *         active:
+ *           type: boolean
+ *     LabResult:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         analyte:
+ *           type: string
+ *           example: "Haemoglobin"
+ *         value:
+ *           type: string
+ *           example: "10.2"
+ *         unit:
+ *           type: string
+ *           nullable: true
+ *         reference_low:
+ *           type: number
+ *           nullable: true
+ *         reference_high:
+ *           type: number
+ *           nullable: true
+ *         reference_text:
+ *           type: string
+ *           nullable: true
+ *         flag:
+ *           type: string
+ *           enum: [normal, low, high, abnormal]
+ *           nullable: true
+ *         comment:
+ *           type: string
+ *           nullable: true
+ *         recorded_by:
+ *           type: string
+ *         recorded_at:
+ *           type: string
+ *     LabOrder:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         visit_id:
+ *           type: string
+ *         patient_id:
+ *           type: string
+ *         test_id:
+ *           type: string
+ *         test_code:
+ *           type: string
+ *         test_name:
+ *           type: string
+ *         priority:
+ *           type: string
+ *           enum: [routine, urgent, stat]
+ *         status:
+ *           type: string
+ *           enum: [ordered, collected, resulted, cancelled]
+ *         notes:
+ *           type: string
+ *           nullable: true
+ *         ordered_by_name:
+ *           type: string
+ *         ordered_at:
+ *           type: string
+ *         collected_at:
+ *           type: string
+ *           nullable: true
+ *         resulted_at:
+ *           type: string
+ *           nullable: true
+ *         cancelled_at:
+ *           type: string
+ *           nullable: true
+ *         cancel_reason:
+ *           type: string
+ *           nullable: true
+ *         results:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/LabResult'
+ */
+
+/**
+ * @swagger
+ * /api/lab/tests:
+ *   get:
+ *     summary: List the organization's lab test catalog
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *         description: Also list tests that can no longer be ordered
+ *     responses:
+ *       200:
+ *         description: Tests by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LabTest'
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/tests",
+  verifyToken,
+  requirePermission("lab:process"),
+  async (req: Request, res: Response) => {
+    try {
+      return res.json(
+        await listTests(
+          req.tokenInfo.organizationId,
+          req.query.includeInactive === "true"
+        )
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/tests:
+ *   post:
+ *     summary: Add a test to the catalog
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabTest'
+ *     responses:
+ *       201:
+ *         description: Test added
+ *       400:
+ *         description: Invalid test
+ *       409:
+ *         description: A test with this code already exists
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/tests",
+  verifyToken,
+  requirePermission("lab:manage"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const problem = labTestProblem(req.body);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    try {
+      const testUuid = await saveTest(
+        tokenInfo.organizationId,
+        null,
+        req.body,
+        tokenInfo.uuid
+      );
+
+      return res
+        .status(201)
+        .json(await findTest(tokenInfo.organizationId, testUuid));
+    } catch (err: any) {
+      if (err && err.code === "ER_DUP_ENTRY") {
+        return res
+          .status(409)
+          .json({ message: "A test with this code already exists" });
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/tests/{uuid}:
+ *   put:
+ *     summary: Edit a catalog test
+ *     description: >
+ *       Fields left out are kept. Tests are retired with active false rather than deleted,
+ *       since past orders point at them. Orders and results already recorded keep the
+ *       name, unit and range they were made with.
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/LabTest'
+ *     responses:
+ *       200:
+ *         description: Test saved
+ *       400:
+ *         description: Invalid test
+ *       404:
+ *         description: Test not found
+ *       409:
+ *         description: Another test has this code
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/tests/:uuid",
+  verifyToken,
+  requirePermission("lab:manage"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const testUuid = String(req.params.uuid);
+    const problem = labTestProblem(req.body, true);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    try {
+      const existing = await findTest(tokenInfo.organizationId, testUuid);
+
+      if (!existing || existing.uuid !== testUuid) {
+        return res.status(404).json({ message: "Test not found" });
+      }
+
+      await saveTest(
+        tokenInfo.organizationId,
+        testUuid,
+        req.body,
+        tokenInfo.uuid
+      );
+
+      return res.json(await findTest(tokenInfo.organizationId, testUuid));
+    } catch (err: any) {
+      if (err && err.code === "ER_DUP_ENTRY") {
+        return res.status(409).json({ message: "Another test has this code" });
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/worklist:
+ *   get:
+ *     summary: Pending lab orders for lab staff
+ *     description: Orders not yet resulted or cancelled, stat first, then urgent, then oldest first.
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [ordered, collected]
+ *         description: Only orders waiting for collection, or only orders waiting for a result
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [routine, urgent, stat]
+ *     responses:
+ *       200:
+ *         description: Pending orders with the patient details needed to label a specimen
+ *       400:
+ *         description: Invalid status or priority
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/worklist",
+  verifyToken,
+  requirePermission("lab:process"),
+  async (req: Request, res: Response) => {
+    const status = req.query.status as OrderStatus | undefined;
+    const priority = req.query.priority as Priority | undefined;
+
+    if (status && !PENDING_STATUSES.includes(status)) {
+      return res.status(400).json({
+        message: `status must be one of: ${PENDING_STATUSES.join(", ")}`,
+      });
+    }
+    if (priority && !PRIORITIES.includes(priority)) {
+      return res
+        .status(400)
+        .json({ message: `priority must be one of: ${PRIORITIES.join(", ")}` });
+    }
+
+    try {
+      return res.json(
+        await pendingOrders(req.tokenInfo.organizationId, { status, priority })
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/orders/{uuid}:
+ *   get:
+ *     summary: Get a lab order with its results
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LabOrder'
+ *       404:
+ *         description: Order not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/orders/:uuid",
+  verifyToken,
+  requirePermission("lab:process"),
+  async (req: Request, res: Response) => {
+    try {
+      const order = await findOrder(
+        req.tokenInfo.organizationId,
+        String(req.params.uuid)
+      );
+
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "lab_order",
+        resourceUuid: order.uuid,
+        patientId: order.patient_id,
+      });
+
+      return res.json(order);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/orders/{uuid}/collect:
+ *   post:
+ *     summary: Mark the specimen for an order as collected
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Specimen collected
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order is not waiting for collection
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/orders/:uuid/collect",
+  verifyToken,
+  requirePermission("lab:process"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const conn = await db.getConnection();
+
+    try {
+      const order = await findOrder(
+        tokenInfo.organizationId,
+        String(req.params.uuid)
+      );
+
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      await conn.beginTransaction();
+
+      // the status check is repeated in the UPDATE so two technicians cannot both collect
+      const [result]: any = await conn.execute(
+        `
+        UPDATE lab_orders
+        SET status = 'collected', collected_at = NOW(), collected_by = ?
+        WHERE uuid = ? AND status = 'ordered'
+        `,
+        [tokenInfo.uuid, order.uuid]
+      );
+
+      if (result.affectedRows === 0) {
+        await conn.rollback();
+        return res
+          .status(409)
+          .json({ message: `The order is already ${order.status}` });
+      }
+
+      const after = await findOrder(tokenInfo.organizationId, order.uuid, conn);
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "lab_order",
+          resourceUuid: order.uuid,
+          patientId: order.patient_id,
+          before: { status: order.status },
+          after: { status: "collected" },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.json({ message: "Specimen collected", order: after });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/orders/{uuid}/results:
+ *   post:
+ *     summary: Record the results of an order
+ *     description: >
+ *       A result without an analyte is the test itself and takes the unit and reference range
+ *       from the catalog; a panel sends one result per analyte with its own. The flag is worked
+ *       out from the range (or the expected text answer) unless one is given. An order can be
+ *       resulted straight from ordered, e.g. a rapid test done at the bedside.
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - results
+ *             properties:
+ *               results:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - value
+ *                   properties:
+ *                     analyte:
+ *                       type: string
+ *                     value:
+ *                       type: string
+ *                       example: "Positive"
+ *                     unit:
+ *                       type: string
+ *                     reference_low:
+ *                       type: number
+ *                     reference_high:
+ *                       type: number
+ *                     reference_text:
+ *                       type: string
+ *                     flag:
+ *                       type: string
+ *                       enum: [normal, low, high, abnormal]
+ *                     comment:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Results recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LabOrder'
+ *       400:
+ *         description: Invalid results
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order is already resulted or cancelled
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/orders/:uuid/results",
+  verifyToken,
+  requirePermission("lab:process"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const conn = await db.getConnection();
+
+    try {
+      const order = await findOrder(
+        tokenInfo.organizationId,
+        String(req.params.uuid)
+      );
+
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!PENDING_STATUSES.includes(order.status)) {
+        return res
+          .status(409)
+          .json({ message: `The order is already ${order.status}` });
+      }
+
+      // test_id has a foreign key, so the test is always there
+      const test = (await findTest(tokenInfo.organizationId, order.test_id))!;
+      const problem = resultsProblem(test, (req.body || {}).results);
+
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      await conn.beginTransaction();
+
+      // locks the order so two sets of results cannot be recorded at once
+      const [locked]: any = await conn.execute(
+        `SELECT status FROM lab_orders WHERE uuid = ? FOR UPDATE`,
+        [order.uuid]
+      );
+      if (!PENDING_STATUSES.includes(locked[0].status)) {
+        await conn.rollback();
+        return res
+          .status(409)
+          .json({ message: `The order is already ${locked[0].status}` });
+      }
+
+      await recordResults(conn, order, test, req.body.results, tokenInfo.uuid);
+      const after = await findOrder(tokenInfo.organizationId, order.uuid, conn);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "lab_result",
+          resourceUuid: order.uuid,
+          patientId: order.patient_id,
+          after: after ? after.results : null,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json(after);
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/lab/orders/{uuid}/cancel:
+ *   post:
+ *     summary: Cancel a lab order that has not been resulted
+ *     tags:
+ *       - Lab
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Ordered in error"
+ *     responses:
+ *       200:
+ *         description: Order cancelled
+ *       400:
+ *         description: Missing reason
+ *       404:
+ *         description: Order not found
+ *       409:
+ *         description: The order is already resulted or cancelled
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/orders/:uuid/cancel",
+  verifyToken,
+  requirePermission("lab:order"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const reason = req.body && req.body.reason;
+
+    if (!reason || typeof reason !== "string" || !reason.trim()) {
+      return res.status(400).json({ message: "reason is required" });
+    }
+    if (reason.length > 500) {
+      return res
+        .status(400)
+        .json({ message: "reason must be at most 500 characters" });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const order = await findOrder(
+        tokenInfo.organizationId,
+        String(req.params.uuid)
+      );
+
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      await conn.beginTransaction();
+
+      const [result]: any = await conn.query(
+        `
+        UPDATE lab_orders
+        SET status = 'cancelled', cancelled_at = NOW(), cancelled_by = ?, cancel_reason = ?
+        WHERE uuid = ? AND status IN (?)
+        `,
+        [tokenInfo.uuid, reason.trim(), order.uuid, PENDING_STATUSES]
+      );
+
+      if (result.affectedRows === 0) {
+        await conn.rollback();
+        return res
+          .status(409)
+          .json({ message: `The order is already ${order.status}` });
+      }
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "lab_order",
+          resourceUuid: order.uuid,
+          patientId: order.patient_id,
+          before: { status: order.status },
+          after: { status: "cancelled", cancel_reason: reason.trim() },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.json({ message: "Order cancelled" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,1023 @@
+import express, { Request, Response, NextFunction } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requireMfa from "../middleware/two-factor";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import uuid from "../utils/uuid";
+import generateToken, { authCookieOptions } from "../utils/token";
+import { generateSecureToken, hashToken } from "../utils/secure-token";
+import { createOrganization, findMembership } from "../utils/organizations";
+import {
+  revokeOrganizationSessions,
+  setSessionOrganization,
+} from "../utils/sessions";
+import { unlockAccount } from "../utils/login-attempts";
+import { recordAudit } from "../utils/audit";
+import {
+  ROLES,
+  PERMISSION_MATRIX,
+  hasPermission,
+  isRole,
+} from "../utils/permissions";
+
+const router = express.Router();
+
+const INVITATION_TTL_DAYS = 7;
+
+// an organization is managed from a session in it, so the session's two-factor state and
+// audit trail are those of the organization being changed. The token only knows whether
+// two-factor was required when it was issued; the organization may have turned it on since.
+const requireSessionOrganization = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<any> => {
+  const { tokenInfo } = req;
+
+  if (tokenInfo.organizationId !== req.params.uuid) {
+    return res
+      .status(403)
+      .json({ message: "Switch to this organization to manage it" });
+  }
+
+  try {
+    const organization = await findMembership(tokenInfo.uuid, req.params.uuid);
+
+    if (organization?.require_2fa === 1 && !tokenInfo.mfaVerified) {
+      return res.status(403).json({
+        message:
+          "Your organization requires two-factor authentication. Set it up to continue",
+      });
+    }
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please retry" });
+  }
+
+  next();
+};
+
+/**
+ * @swagger
+ * /api/organizations:
+ *   get:
+ *     summary: List the organizations the logged-in user belongs to
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Organizations the user is a member of
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   uuid:
+ *                     type: string
+ *                     example: "0f3c2a1e-8d2b-4a52-9c0f-6a1b2c3d4e5f"
+ *                   name:
+ *                     type: string
+ *                     example: "Riverside Clinic"
+ *                   isPersonal:
+ *                     type: boolean
+ *                     example: false
+ *                   role:
+ *                     type: string
+ *                     example: "doctor"
+ *                   requireTwoFactor:
+ *                     type: boolean
+ *                     example: false
+ *                   active:
+ *                     type: boolean
+ *                     example: true
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/", verifyToken, async (req: Request, res: Response) => {
+  const { tokenInfo } = req;
+
+  try {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `
+      SELECT o.uuid, o.name, o.is_personal, o.require_2fa, m.role
+      FROM organization_members m
+      JOIN organizations o ON o.uuid = m.organization_id
+      WHERE m.user_id = ?
+      ORDER BY o.is_personal DESC, o.name ASC
+      `,
+      [tokenInfo.uuid]
+    );
+
+    return res.json(
+      rows.map((row) => ({
+        uuid: row.uuid,
+        name: row.name,
+        isPersonal: row.is_personal === 1,
+        role: row.role,
+        requireTwoFactor: row.require_2fa === 1,
+        active: row.uuid === tokenInfo.organizationId,
+      }))
+    );
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please retry" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/organizations:
+ *   post:
+ *     summary: Create an organization owned by the logged-in user
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Riverside Clinic
+ *     responses:
+ *       201:
+ *         description: Organization created
+ *       400:
+ *         description: Missing name
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/", verifyToken, async (req: Request, res: Response) => {
+  const { name } = req.body;
+  const { tokenInfo } = req;
+
+  if (!name) {
+    return res.status(400).json({ message: "Organization name is required" });
+  }
+
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+    const organizationId = await createOrganization(conn, name, tokenInfo.uuid);
+    await conn.commit();
+
+    return res
+      .status(201)
+      .json({ message: "Organization created", uuid: organizationId });
+  } catch (err) {
+    await conn.rollback();
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please retry" });
+  } finally {
+    conn.release();
+  }
+});
+
+/**
+ * @swagger
+ * /api/organizations/roles:
+ *   get:
+ *     summary: List the staff roles and the permissions each one grants
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles with their permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   role:
+ *                     type: string
+ *                     example: "receptionist"
+ *                   permissions:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     example: ["patients:create", "patients:read", "patients:update"]
+ */
+router.get("/roles", verifyToken, (req: Request, res: Response) => {
+  res.json(
+    ROLES.map((role) => ({ role, permissions: PERMISSION_MATRIX[role] }))
+  );
+});
+
+/**
+ * @swagger
+ * /api/organizations/switch:
+ *   post:
+ *     summary: Switch the active organization in the auth token
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - organizationId
+ *             properties:
+ *               organizationId:
+ *                 type: string
+ *                 example: "0f3c2a1e-8d2b-4a52-9c0f-6a1b2c3d4e5f"
+ *     responses:
+ *       200:
+ *         description: Active organization switched and auth cookie re-issued
+ *       400:
+ *         description: Missing organizationId
+ *       404:
+ *         description: Organization not found or user is not a member
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/switch", verifyToken, async (req: Request, res: Response) => {
+  const { organizationId } = req.body;
+  const { tokenInfo } = req;
+
+  if (!organizationId) {
+    return res.status(400).json({ message: "organizationId is required" });
+  }
+
+  try {
+    const organization = await findMembership(tokenInfo.uuid, organizationId);
+
+    if (!organization) {
+      return res.status(404).json({ message: "Organization not found" });
+    }
+
+    const token = generateToken({
+      firstName: tokenInfo.firstName,
+      lastName: tokenInfo.lastName,
+      email: tokenInfo.email,
+      uuid: tokenInfo.uuid,
+      organizationId: organization.uuid,
+      role: organization.role,
+      sessionId: tokenInfo.sessionId,
+      mfaVerified: !!tokenInfo.mfaVerified,
+      mfaRequired: organization.require_2fa === 1,
+    });
+
+    // refreshes keep the organization that was switched to
+    await setSessionOrganization(tokenInfo.sessionId, organization.uuid);
+
+    res.cookie("authorizationToken", token, authCookieOptions);
+
+    return res.status(200).json({
+      message: "Active organization switched",
+      organization: {
+        uuid: organization.uuid,
+        name: organization.name,
+        role: organization.role,
+      },
+    });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please retry" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/organizations/invitations:
+ *   get:
+ *     summary: List pending invitations addressed to the logged-in user's email
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Pending invitations
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/invitations", verifyToken, async (req: Request, res: Response) => {
+  const { tokenInfo } = req;
+
+  try {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `
+        SELECT i.uuid, i.expires_at, o.uuid AS organization_id, o.name AS organization_name
+        FROM organization_invitations i
+        JOIN organizations o ON o.uuid = i.organization_id
+        WHERE i.email = ? AND i.accepted_at IS NULL AND i.expires_at > NOW()
+        ORDER BY i.created_at DESC
+        `,
+      [tokenInfo.email]
+    );
+
+    return res.json(rows);
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please retry" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/organizations/invitations/accept:
+ *   post:
+ *     summary: Accept an invitation and join the organization
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invitation accepted
+ *       400:
+ *         description: Missing token
+ *       404:
+ *         description: Invitation not found, expired or addressed to another email
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/invitations/accept",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { token } = req.body;
+    const { tokenInfo } = req;
+
+    if (!token) {
+      return res.status(400).json({ message: "Invitation token is required" });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      await conn.beginTransaction();
+
+      const [rows] = await conn.execute<RowDataPacket[]>(
+        `
+        SELECT uuid, organization_id, role
+        FROM organization_invitations
+        WHERE token_hash = ? AND email = ? AND accepted_at IS NULL AND expires_at > NOW()
+        LIMIT 1
+        FOR UPDATE
+        `,
+        [hashToken(token), tokenInfo.email]
+      );
+
+      if (rows.length === 0) {
+        await conn.rollback();
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      const invitation = rows[0];
+
+      await conn.execute(
+        `INSERT IGNORE INTO organization_members (organization_id, user_id, role) VALUES (?, ?, ?)`,
+        [invitation.organization_id, tokenInfo.uuid, invitation.role]
+      );
+      await conn.execute(
+        `UPDATE organization_invitations SET accepted_at = NOW() WHERE uuid = ?`,
+        [invitation.uuid]
+      );
+      await conn.commit();
+
+      return res.status(200).json({
+        message: "Invitation accepted",
+        organizationId: invitation.organization_id,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/organizations/{uuid}/members:
+ *   get:
+ *     summary: List the members of an organization
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Organization members
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get(
+  "/:uuid/members",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const organization = await findMembership(tokenInfo.uuid, uuid);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT u.uuid, u.first_name, u.last_name, u.email, m.role, m.created_at AS joined_at
+        FROM organization_members m
+        JOIN users u ON u.uuid = m.user_id
+        WHERE m.organization_id = ?
+        ORDER BY u.first_name, u.last_name
+        `,
+        [uuid]
+      );
+
+      return res.json(
+        rows.map((row) => ({
+          uuid: row.uuid,
+          name: row.first_name + " " + row.last_name,
+          email: row.email,
+          role: row.role,
+          isOwner: row.uuid === organization.created_by,
+          joinedAt: row.joined_at,
+        }))
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/organizations/{uuid}/invitations:
+ *   post:
+ *     summary: Invite a user by email to join an organization
+ *     description: Only organization admins can invite. The returned token is what the invitee uses to accept.
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: colleague@example.com
+ *               role:
+ *                 type: string
+ *                 enum: [admin, doctor, nurse, receptionist, auditor, lab_technician]
+ *                 default: doctor
+ *     responses:
+ *       201:
+ *         description: Invitation created
+ *       400:
+ *         description: Missing email or unknown role
+ *       403:
+ *         description: Only admins can invite members, from a session in the organization that has passed any two-factor authentication it requires
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:uuid/invitations",
+  verifyToken,
+  requireMfa,
+  requireSessionOrganization,
+  async (req: Request, res: Response) => {
+    const { uuid: organizationId } = req.params;
+    const { email, role = "doctor" } = req.body;
+    const { tokenInfo } = req;
+
+    if (!email) {
+      return res.status(400).json({ message: "Email is required" });
+    }
+
+    if (!isRole(role)) {
+      return res.status(400).json({ message: "Unknown role" });
+    }
+
+    try {
+      const organization = await findMembership(tokenInfo.uuid, organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!hasPermission(organization.role, "members:manage")) {
+        return res
+          .status(403)
+          .json({ message: "Only organization admins can invite members" });
+      }
+
+      const invitationId = uuid();
+      const token = generateSecureToken();
+
+      await db.execute(
+        `
+        INSERT INTO organization_invitations
+          (uuid, organization_id, email, role, token_hash, invited_by, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ${INVITATION_TTL_DAYS} DAY))
+        `,
+        [
+          invitationId,
+          organizationId,
+          email,
+          role,
+          hashToken(token),
+          tokenInfo.uuid,
+        ]
+      );
+
+      return res
+        .status(201)
+        .json({ message: "Invitation created", uuid: invitationId, token });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/organizations/{uuid}/settings:
+ *   put:
+ *     summary: Update organization settings
+ *     description: >
+ *       Admin only, from a session in the organization. When two-factor is required, members
+ *       without it lose access to records until they enroll. The change is recorded in the audit trail.
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Riverside Clinic
+ *               requireTwoFactor:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ *       403:
+ *         description: Not an admin of this organization, not the session's organization, or two-factor authentication it requires has not been passed
+ *       404:
+ *         description: Organization not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/:uuid/settings",
+  verifyToken,
+  requireMfa,
+  requireSessionOrganization,
+  async (req: Request, res: Response) => {
+    const { uuid: organizationId } = req.params;
+    const { name, requireTwoFactor } = req.body;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      const organization = await findMembership(tokenInfo.uuid, organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!hasPermission(organization.role, "members:manage")) {
+        return res
+          .status(403)
+          .json({ message: "Only organization admins can change settings" });
+      }
+
+      const before = {
+        name: organization.name,
+        require_2fa: organization.require_2fa,
+      };
+      const after = {
+        name: name || organization.name,
+        require_2fa:
+          requireTwoFactor === undefined
+            ? organization.require_2fa
+            : requireTwoFactor
+            ? 1
+            : 0,
+      };
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `UPDATE organizations SET name = ?, require_2fa = ? WHERE uuid = ?`,
+        [after.name, after.require_2fa, organizationId]
+      );
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "organization",
+          resourceUuid: organizationId,
+          before,
+          after,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Settings updated" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+// the organization must keep at least one admin who can manage its members
+const isLastAdmin = async (
+  organizationId: string,
+  userUuid: string
+): Promise<boolean> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT user_id FROM organization_members
+    WHERE organization_id = ? AND role = 'admin'
+    `,
+    [organizationId]
+  );
+
+  return rows.length === 1 && rows[0].user_id === userUuid;
+};
+
+/**
+ * @swagger
+ * /api/organizations/{uuid}/members/{userUuid}:
+ *   put:
+ *     summary: Change a member's role
+ *     description: >
+ *       Admin only. The member's sessions in the organization are revoked, so the new role
+ *       applies from their next login.
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, doctor, nurse, receptionist, auditor, lab_technician]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       400:
+ *         description: Unknown role
+ *       403:
+ *         description: Not an admin of this organization, not the session's organization, or two-factor authentication it requires has not been passed
+ *       404:
+ *         description: Organization or member not found
+ *       409:
+ *         description: Would leave the organization without an admin
+ *       500:
+ *         description: Internal server error
+ */
+router.put(
+  "/:uuid/members/:userUuid",
+  verifyToken,
+  requireMfa,
+  requireSessionOrganization,
+  async (req: Request, res: Response) => {
+    const { uuid: organizationId, userUuid } = req.params;
+    const { role } = req.body;
+    const { tokenInfo } = req;
+
+    if (!isRole(role)) {
+      return res.status(400).json({ message: "Unknown role" });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const organization = await findMembership(tokenInfo.uuid, organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!hasPermission(organization.role, "members:manage")) {
+        return res
+          .status(403)
+          .json({ message: "Only organization admins can change roles" });
+      }
+
+      const member = await findMembership(userUuid, organizationId);
+
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if (
+        role !== "admin" &&
+        member.role === "admin" &&
+        (await isLastAdmin(organizationId, userUuid))
+      ) {
+        return res
+          .status(409)
+          .json({ message: "An organization needs at least one admin" });
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `UPDATE organization_members SET role = ? WHERE organization_id = ? AND user_id = ?`,
+        [role, organizationId, userUuid]
+      );
+      if (role !== member.role) {
+        await revokeOrganizationSessions(
+          userUuid,
+          organizationId,
+          "role changed",
+          conn
+        );
+      }
+      await conn.commit();
+
+      return res.status(200).json({ message: "Role updated", role });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/organizations/{uuid}/members/{userUuid}:
+ *   delete:
+ *     summary: Remove a member from an organization
+ *     description: Admin only. The member's sessions in the organization are revoked.
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       403:
+ *         description: Not an admin of this organization, not the session's organization, or two-factor authentication it requires has not been passed
+ *       404:
+ *         description: Organization or member not found
+ *       409:
+ *         description: Would leave the organization without an admin
+ *       500:
+ *         description: Internal server error
+ */
+router.delete(
+  "/:uuid/members/:userUuid",
+  verifyToken,
+  requireMfa,
+  requireSessionOrganization,
+  async (req: Request, res: Response) => {
+    const { uuid: organizationId, userUuid } = req.params;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      const organization = await findMembership(tokenInfo.uuid, organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!hasPermission(organization.role, "members:manage")) {
+        return res
+          .status(403)
+          .json({ message: "Only organization admins can remove members" });
+      }
+
+      const member = await findMembership(userUuid, organizationId);
+
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if (
+        member.role === "admin" &&
+        (await isLastAdmin(organizationId, userUuid))
+      ) {
+        return res
+          .status(409)
+          .json({ message: "An organization needs at least one admin" });
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `DELETE FROM organization_members WHERE organization_id = ? AND user_id = ?`,
+        [organizationId, userUuid]
+      );
+      await revokeOrganizationSessions(
+        userUuid,
+        organizationId,
+        "removed from organization",
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Member removed" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/organizations/{uuid}/members/{userUuid}/unlock:
+ *   post:
+ *     summary: Clear a member's failed login attempts and lift any lockout
+ *     description: Admin only.
+ *     tags:
+ *       - Organizations
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *       403:
+ *         description: Not an admin of this organization, not the session's organization, or two-factor authentication it requires has not been passed
+ *       404:
+ *         description: Organization or member not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/:uuid/members/:userUuid/unlock",
+  verifyToken,
+  requireMfa,
+  requireSessionOrganization,
+  async (req: Request, res: Response) => {
+    const { uuid: organizationId, userUuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const organization = await findMembership(tokenInfo.uuid, organizationId);
+
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      if (!hasPermission(organization.role, "members:manage")) {
+        return res
+          .status(403)
+          .json({ message: "Only organization admins can unlock accounts" });
+      }
+
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT u.email FROM organization_members m
+        JOIN users u ON u.uuid = m.user_id
+        WHERE m.organization_id = ? AND m.user_id = ?
+        LIMIT 1
+        `,
+        [organizationId, userUuid]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      await unlockAccount(rows[0].email);
+
+      return res.status(200).json({ message: "Account unlocked" });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+export default router;
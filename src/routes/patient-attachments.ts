@@ -0,0 +1,394 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import fileUpload from "../middleware/file-upload";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import {
+  AttachmentScope,
+  deleteAttachment,
+  findAttachment,
+  listAttachments,
+  readUpload,
+  removeStoredFiles,
+  saveAttachment,
+  sendAttachment,
+  StoredAttachment,
+  uploadProblem,
+  withoutKey,
+} from "../utils/attachments";
+
+// mounted under /api/patients/:uuid/attachments
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Attachment:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         patient_id:
+ *           type: string
+ *         visit_id:
+ *           type: string
+ *           nullable: true
+ *         category:
+ *           type: string
+ *           enum: [lab-report, imaging, referral, other]
+ *         file_name:
+ *           type: string
+ *           example: "cbc-2025-11-12.pdf"
+ *         mime_type:
+ *           type: string
+ *           enum: [application/pdf, image/png, image/jpeg, image/tiff, image/webp]
+ *         size_bytes:
+ *           type: integer
+ *         checksum:
+ *           type: string
+ *           description: SHA-256 of the file, hex encoded; also sent as the ETag on download
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         uploaded_by:
+ *           type: string
+ *         uploaded_by_name:
+ *           type: string
+ *         uploaded_at:
+ *           type: string
+ *           example: "2025-11-12 09:30:00"
+ */
+
+const findPatient = async (patientUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [patientUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+const patientScope = (req: Request): AttachmentScope => ({
+  organizationId: req.tokenInfo.organizationId,
+  patientId: String(req.params.uuid),
+  visitId: null,
+});
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/attachments:
+ *   get:
+ *     summary: List the files attached to a patient
+ *     description: Files attached to one of the patient's visits are listed under the visit.
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *     responses:
+ *       200:
+ *         description: Attachments, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Attachment'
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const scope = patientScope(req);
+
+    try {
+      if (!(await findPatient(scope.patientId, scope.organizationId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      return res.json(await listAttachments(scope));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/attachments:
+ *   post:
+ *     summary: Attach a file to a patient, such as a referral letter
+ *     description: >
+ *       The file is the raw request body, with its type as the Content-Type. The type must be
+ *       one of the accepted ones and agree with the file's content. Size is limited by
+ *       MAX_ATTACHMENT_MB (20 MB by default).
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *       - in: query
+ *         name: filename
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [lab-report, imaging, referral, other]
+ *           default: other
+ *       - in: query
+ *         name: description
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/pdf:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         image/*:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       201:
+ *         description: File attached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Attachment'
+ *       400:
+ *         description: Missing filename, empty file, or a type that is not accepted or does not match the content
+ *       404:
+ *         description: Patient not found
+ *       413:
+ *         description: File too large
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("patients:update"),
+  fileUpload,
+  async (req: Request, res: Response) => {
+    const scope = patientScope(req);
+    const upload = readUpload(req);
+    const problem = uploadProblem(upload);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+    let stored: StoredAttachment | null = null;
+
+    try {
+      if (!(await findPatient(scope.patientId, scope.organizationId))) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      await conn.beginTransaction();
+
+      stored = await saveAttachment(conn, scope, upload, req.tokenInfo.uuid);
+      const attachment = withoutKey(stored);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "attachment",
+          resourceUuid: attachment.uuid,
+          patientId: scope.patientId,
+          after: attachment,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json(attachment);
+    } catch (err) {
+      await conn.rollback();
+      if (stored) {
+        await removeStoredFiles([stored.storage_key]);
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/attachments/{attachmentUuid}:
+ *   get:
+ *     summary: Download a file attached to a patient
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, with its SHA-256 as the ETag
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Attachment not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:attachmentUuid",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const scope = patientScope(req);
+
+    try {
+      const attachment = await findAttachment(
+        scope,
+        String(req.params.attachmentUuid)
+      );
+
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "attachment",
+        resourceUuid: attachment.uuid,
+        patientId: scope.patientId,
+      });
+
+      await sendAttachment(res, attachment);
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/attachments/{attachmentUuid}:
+ *   delete:
+ *     summary: Delete a file attached to a patient
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachment deleted
+ *       404:
+ *         description: Attachment not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/:attachmentUuid",
+  verifyToken,
+  requirePermission("patients:update"),
+  async (req: Request, res: Response) => {
+    const scope = patientScope(req);
+
+    const conn = await db.getConnection();
+
+    try {
+      const attachment = await findAttachment(
+        scope,
+        String(req.params.attachmentUuid)
+      );
+
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      await conn.beginTransaction();
+      await deleteAttachment(conn, attachment);
+
+      await recordAudit(
+        req,
+        {
+          action: "delete",
+          resourceType: "attachment",
+          resourceUuid: attachment.uuid,
+          patientId: scope.patientId,
+          before: withoutKey(attachment),
+        },
+        conn
+      );
+      await conn.commit();
+      await removeStoredFiles([attachment.storage_key]);
+
+      return res.status(200).json({ message: "Attachment deleted" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,228 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import { dismissPair, listDuplicatePairs } from "../utils/duplicates";
+
+// mounted under /api/patients/duplicates
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DuplicateCandidate:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         name:
+ *           type: string
+ *         id_number:
+ *           type: string
+ *           nullable: true
+ *         date_of_birth:
+ *           type: string
+ *           format: date
+ *         contact:
+ *           type: string
+ *           nullable: true
+ *         score:
+ *           type: number
+ *           description: >
+ *             0 to 1. Half is name similarity, 0.3 a shared date of birth and 0.2 a shared
+ *             contact; a shared ID number scores 1. Pairs from 0.75 are reported.
+ *           example: 0.93
+ *         name_similarity:
+ *           type: number
+ *           description: Edit-distance similarity of the names, ignoring case, accents, punctuation and word order
+ *         reasons:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [id_number, date_of_birth, contact, name]
+ */
+
+/**
+ * @swagger
+ * /api/patients/duplicates:
+ *   get:
+ *     summary: Review likely duplicate patients
+ *     description: Pairs of registered patients that look like the same person, best match first. Dismissed pairs are left out.
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Duplicate pairs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: integer
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       patients:
+ *                         type: array
+ *                         minItems: 2
+ *                         maxItems: 2
+ *                         items:
+ *                           type: object
+ *                       score:
+ *                         type: number
+ *                       name_similarity:
+ *                         type: number
+ *                       reasons:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *       400:
+ *         description: Invalid page or limit
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    if (page <= 0 || limit <= 0) {
+      return res.status(400).json({ message: "Invalid page or limit" });
+    }
+
+    try {
+      const pairs = await listDuplicatePairs(req.tokenInfo.organizationId);
+
+      return res.json({
+        total: pairs.length,
+        items: pairs.slice((page - 1) * limit, page * limit),
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/duplicates/dismiss:
+ *   post:
+ *     summary: Mark a pair as reviewed and not the same person
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - patient_ids
+ *             properties:
+ *               patient_ids:
+ *                 type: array
+ *                 minItems: 2
+ *                 maxItems: 2
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Pair dismissed
+ *       400:
+ *         description: patient_ids must be two different patients
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/dismiss",
+  verifyToken,
+  requirePermission("patients:merge"),
+  async (req: Request, res: Response) => {
+    const { patient_ids } = req.body;
+    const { tokenInfo } = req;
+
+    if (
+      !Array.isArray(patient_ids) ||
+      patient_ids.length !== 2 ||
+      patient_ids.some((id) => typeof id !== "string") ||
+      patient_ids[0] === patient_ids[1]
+    ) {
+      return res
+        .status(400)
+        .json({ message: "patient_ids must be two different patients" });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const [rows] = await db.query<RowDataPacket[]>(
+        `SELECT uuid FROM patients WHERE uuid IN (?) AND organization_id = ? AND deleted_at IS NULL`,
+        [patient_ids, tokenInfo.organizationId]
+      );
+
+      if (rows.length !== 2) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      await conn.beginTransaction();
+
+      await dismissPair(
+        tokenInfo.organizationId,
+        [patient_ids[0], patient_ids[1]],
+        tokenInfo.uuid,
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "duplicate_dismissal",
+          resourceUuid: patient_ids[0],
+          after: { patient_ids },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.json({ message: "Pair dismissed" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,341 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import {
+  ColumnMapping,
+  ImportRow,
+  commitImport,
+  mappingProblem,
+  validateImport,
+} from "../utils/patient-import";
+
+// mounted under /api/patients/imports
+const router = express.Router();
+
+// the file is sent as the raw request body rather than as JSON, so it is not
+// held to the 100kb limit of the app-wide JSON parser
+const csvBody = express.text({
+  type: ["text/csv", "text/plain"],
+  limit: "5mb",
+});
+
+const rowSummary = (row: ImportRow) => ({
+  line: row.line,
+  status: row.status,
+  id_number: row.input.idNumber,
+  patient_uuid: row.patientUuid,
+  errors: row.errors,
+});
+
+/**
+ * @swagger
+ * /api/patients/imports:
+ *   post:
+ *     summary: Import patients from a CSV file
+ *     description: >
+ *       Every row is validated with the same rules as new-patient, and id_number must be unique both within the file and
+ *       against registered patients. A dry run (the default) only reports per-row errors. A commit inserts every valid
+ *       row in one transaction and stores a downloadable report; it is refused while any row is invalid unless
+ *       skipInvalid is set.
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [dry-run, commit]
+ *           default: dry-run
+ *       - in: query
+ *         name: mapping
+ *         schema:
+ *           type: string
+ *         description: >
+ *           JSON object of field to column header. Fields are name, idNumber, date_of_birth, gender, contact and email;
+ *           unmapped fields are matched to a header of the same name, ignoring case and punctuation.
+ *         example: '{"name":"Full Name","idNumber":"National ID"}'
+ *       - in: query
+ *         name: delimiter
+ *         schema:
+ *           type: string
+ *           default: ","
+ *       - in: query
+ *         name: skipInvalid
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: On commit, import the valid rows and skip the invalid ones
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: "Full Name,National ID,date_of_birth,gender,contact\nAlice Johnson,12345678,1990-05-21,Female,+254712345678"
+ *     responses:
+ *       200:
+ *         description: Dry run result with the status and errors of every row
+ *       201:
+ *         description: Import committed; the report is at /api/patients/imports/{uuid}/report
+ *       400:
+ *         description: The file or mapping cannot be used, or rows are invalid on commit
+ *       409:
+ *         description: A patient with one of the id_numbers was registered meanwhile; nothing was imported
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("patients:create"),
+  csvBody,
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const mode = req.query.mode === undefined ? "dry-run" : req.query.mode;
+    const delimiter =
+      req.query.delimiter === undefined ? "," : String(req.query.delimiter);
+    const skipInvalid = req.query.skipInvalid === "true";
+
+    if (mode !== "dry-run" && mode !== "commit") {
+      return res
+        .status(400)
+        .json({ message: "mode must be dry-run or commit" });
+    }
+    if (delimiter.length !== 1 || delimiter === '"') {
+      return res
+        .status(400)
+        .json({ message: "delimiter must be a single character" });
+    }
+    if (typeof req.body !== "string" || req.body.trim() === "") {
+      return res.status(400).json({
+        message: "Send the file as the request body with Content-Type text/csv",
+      });
+    }
+
+    let mapping: ColumnMapping = {};
+    if (req.query.mapping !== undefined) {
+      try {
+        mapping = JSON.parse(String(req.query.mapping));
+      } catch (err) {
+        return res.status(400).json({ message: "mapping must be valid JSON" });
+      }
+      const problem = mappingProblem(mapping);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+    }
+
+    try {
+      const validation = await validateImport(req.body, mapping, delimiter);
+      if (validation.problem !== null) {
+        return res.status(400).json({ message: validation.problem });
+      }
+
+      const { rows } = validation;
+      const invalid = rows.filter((row) => row.status === "invalid").length;
+      const summary = {
+        total: rows.length,
+        valid: rows.length - invalid,
+        invalid,
+      };
+
+      if (mode === "dry-run") {
+        return res
+          .status(200)
+          .json({ mode, ...summary, rows: rows.map(rowSummary) });
+      }
+
+      if (invalid > 0 && !skipInvalid) {
+        return res.status(400).json({
+          message:
+            "Some rows are invalid. Fix them or set skipInvalid to import the rest",
+          ...summary,
+          rows: rows.filter((row) => row.status === "invalid").map(rowSummary),
+        });
+      }
+
+      const conn = await db.getConnection();
+      let importUuid: string;
+
+      try {
+        await conn.beginTransaction();
+
+        importUuid = await commitImport(
+          conn,
+          tokenInfo.organizationId,
+          tokenInfo.uuid,
+          rows
+        );
+
+        for (const row of rows) {
+          if (row.status === "imported" && row.patientUuid) {
+            const { idNumber, ...rest } = row.input;
+            await recordAudit(
+              req,
+              {
+                action: "create",
+                resourceType: "patient",
+                resourceUuid: row.patientUuid,
+                patientId: row.patientUuid,
+                after: { ...rest, id_number: idNumber },
+              },
+              conn
+            );
+          }
+        }
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+
+      return res.status(201).json({
+        message: "Patients imported.",
+        import: importUuid,
+        imported: rows.filter((row) => row.status === "imported").length,
+        skipped: rows.filter((row) => row.status === "skipped").length,
+        report: `/api/patients/imports/${importUuid}/report`,
+      });
+    } catch (error: any) {
+      if (error.code === "ER_DUP_ENTRY") {
+        return res.status(409).json({
+          message:
+            "A patient with one of these id numbers was registered meanwhile. Nothing was imported; run the import again",
+        });
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/imports/{uuid}:
+ *   get:
+ *     summary: Get the outcome of a committed import
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Row counts, who ran the import and when
+ *       404:
+ *         description: Import not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid",
+  verifyToken,
+  requirePermission("patients:create"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `SELECT uuid, total_rows, imported_rows, skipped_rows, created_by, created_at
+         FROM patient_imports
+         WHERE uuid = ? AND organization_id = ?`,
+        [uuid, tokenInfo.organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Import not found" });
+      }
+
+      return res.status(200).json({
+        ...rows[0],
+        report: `/api/patients/imports/${uuid}/report`,
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/imports/{uuid}/report:
+ *   get:
+ *     summary: Download the per-row report of a committed import
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV with the line, status, patient uuid and errors of every row
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Import not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid/report",
+  verifyToken,
+  requirePermission("patients:create"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `SELECT report FROM patient_imports
+         WHERE uuid = ? AND organization_id = ?`,
+        [uuid, tokenInfo.organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Import not found" });
+      }
+
+      // the report names patients and their id numbers
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "patient_import",
+        resourceUuid: String(uuid),
+      });
+
+      return res
+        .status(200)
+        .type("text/csv")
+        .attachment(`patient-import-${uuid}.csv`)
+        .send(rows[0].report);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,307 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { recordAudit } from "../utils/audit";
+import {
+  findMerge,
+  listMerges,
+  mergePatients,
+  revertMerge,
+} from "../utils/merges";
+
+// mounted under /api/patients/merges
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PatientMerge:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         survivor_id:
+ *           type: string
+ *         survivor_name:
+ *           type: string
+ *         merged_id:
+ *           type: string
+ *           description: The duplicate, hidden while the merge stands
+ *         merged_name:
+ *           type: string
+ *         merged_id_number:
+ *           type: string
+ *           nullable: true
+ *         moved:
+ *           type: object
+ *           description: How many records of each kind were moved to the survivor
+ *           example:
+ *             visits: 3
+ *             patient_allergies: 1
+ *             appointments: 0
+ *             reminders: 0
+ *             attachments: 2
+ *             lab_orders: 1
+ *         merged_by:
+ *           type: string
+ *         merged_by_name:
+ *           type: string
+ *         merged_at:
+ *           type: string
+ *         reverted_by:
+ *           type: string
+ *           nullable: true
+ *         reverted_at:
+ *           type: string
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/patients/merges:
+ *   get:
+ *     summary: List patient merges
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *         description: Only merges this patient was the survivor or the duplicate of
+ *     responses:
+ *       200:
+ *         description: Merges, latest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PatientMerge'
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    try {
+      return res.json(
+        await listMerges(
+          req.tokenInfo.organizationId,
+          req.query.patientId as string | undefined
+        )
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/merges:
+ *   post:
+ *     summary: Merge a duplicate patient into the surviving one
+ *     description: >
+ *       Visits, allergies, appointments, reminders, attachments and lab orders of the
+ *       duplicate move to the survivor, whose details are kept as they are. The duplicate is
+ *       hidden; the merge can be reverted.
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - survivor_id
+ *               - duplicate_id
+ *             properties:
+ *               survivor_id:
+ *                 type: string
+ *               duplicate_id:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Patients merged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PatientMerge'
+ *       400:
+ *         description: survivor_id and duplicate_id missing or the same patient
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("patients:merge"),
+  async (req: Request, res: Response) => {
+    const { survivor_id, duplicate_id } = req.body;
+    const { tokenInfo } = req;
+
+    if (typeof survivor_id !== "string" || typeof duplicate_id !== "string") {
+      return res
+        .status(400)
+        .json({ message: "survivor_id and duplicate_id are required" });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      await conn.beginTransaction();
+
+      const result = await mergePatients(
+        conn,
+        tokenInfo.organizationId,
+        survivor_id,
+        duplicate_id,
+        tokenInfo.uuid
+      );
+
+      if (!result.merged) {
+        await conn.rollback();
+        return result.reason === "same-patient"
+          ? res
+              .status(400)
+              .json({ message: "A patient cannot be merged into itself" })
+          : res.status(404).json({ message: "Patient not found" });
+      }
+
+      const merge = await findMerge(
+        tokenInfo.organizationId,
+        result.uuid,
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "merge",
+          resourceType: "patient",
+          resourceUuid: duplicate_id,
+          patientId: survivor_id,
+          after: { merge: result.uuid, into: survivor_id, moved: result.moved },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json(merge);
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/merges/{uuid}/revert:
+ *   post:
+ *     summary: Undo a merge
+ *     description: >
+ *       The duplicate comes back with the records the merge moved, as long as they are
+ *       still on the survivor. Records added to the survivor since stay there.
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the merge
+ *     responses:
+ *       200:
+ *         description: Merge reverted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PatientMerge'
+ *       404:
+ *         description: Merge not found
+ *       409:
+ *         description: The merge was already reverted
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/revert",
+  verifyToken,
+  requirePermission("patients:merge"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      await conn.beginTransaction();
+
+      const result = await revertMerge(
+        conn,
+        tokenInfo.organizationId,
+        String(uuid),
+        tokenInfo.uuid
+      );
+
+      if (!result.reverted) {
+        await conn.rollback();
+        return result.reason === "not-found"
+          ? res.status(404).json({ message: "Merge not found" })
+          : res.status(409).json({ message: "Merge was already reverted" });
+      }
+
+      const merge = await findMerge(
+        tokenInfo.organizationId,
+        String(uuid),
+        conn
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "unmerge",
+          resourceType: "patient",
+          resourceUuid: result.mergedId,
+          patientId: result.survivorId,
+          after: { merge: String(uuid), returned: result.moved },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.json(merge);
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
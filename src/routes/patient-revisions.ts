@@ -0,0 +1,176 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import {
+  compareRevisions,
+  listRevisions,
+  revisionRange,
+} from "../utils/revisions";
+
+// mounted under /api/patients/:uuid/revisions
+const router = express.Router({ mergeParams: true });
+
+const findPatient = async (patientUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [patientUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/revisions:
+ *   get:
+ *     summary: The amendment history of a patient's details
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *     responses:
+ *       200:
+ *         description: Revisions oldest first; empty while the patient has never been edited
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Revision'
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const patient = await findPatient(String(uuid), tokenInfo.organizationId);
+
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const revisions = await listRevisions("patient", patient.uuid);
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "patient_revisions",
+        resourceUuid: patient.uuid,
+        patientId: patient.uuid,
+      });
+
+      return res.json(revisions);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/revisions/diff:
+ *   get:
+ *     summary: What changed in a patient's details between two revisions
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the revision before to
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the latest revision
+ *     responses:
+ *       200:
+ *         description: The fields that differ
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevisionDiff'
+ *       400:
+ *         description: from or to is not a revision number
+ *       404:
+ *         description: Patient or revision not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/diff",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const patient = await findPatient(String(uuid), tokenInfo.organizationId);
+
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const range = await revisionRange("patient", patient.uuid, req.query);
+
+      if (typeof range === "string") {
+        return res.status(400).json({ message: range });
+      }
+
+      const diff = await compareRevisions(
+        "patient",
+        patient.uuid,
+        range.from,
+        range.to
+      );
+
+      if (!diff) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "patient_revisions",
+        resourceUuid: patient.uuid,
+        patientId: patient.uuid,
+        after: { from: range.from, to: range.to },
+      });
+
+      return res.json(diff);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
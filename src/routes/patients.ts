@@ -1,6 +1,39 @@
 import express, { Request, Response, NextFunction } from "express";
 import uuid from "../utils/uuid";
 import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { hasPermission } from "../utils/permissions";
+import { patientListFilter, patientProblem } from "../utils/patients";
+import { findDuplicateCandidates } from "../utils/duplicates";
+import { recordAudit } from "../utils/audit";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  PATIENT_EXPORT_COLUMNS,
+  selectColumns,
+  selectList,
+  streamExport,
+} from "../utils/export";
+import { insertVisit, loadVisit, screenNewVisit } from "../utils/visits";
+import {
+  SIGNED_PATIENT_MESSAGE,
+  TRASH_RETENTION_DAYS,
+  findDeleted,
+  hasSignedVisits,
+  restorePatient,
+  softDeletePatient,
+} from "../utils/trash";
+import {
+  amendmentReasonProblem,
+  recordRevision,
+  takeSnapshot,
+} from "../utils/revisions";
+import {
+  UNITS,
+  ageBand,
+  patientVitalsSeries,
+  referenceRanges,
+} from "../utils/vitals";
 import { pool as db } from "../utils/database-config";
 
 const router = express.Router();
@@ -19,7 +52,9 @@ interface PatientResponse {
   id_number: string;
   gender: string;
   contact: string;
+  email: string | null;
   date_of_birth: string;
+  reminders: { sms: boolean; email: boolean };
   visits: Visit[];
 }
 
@@ -65,11 +100,31 @@ router.use((req: Request, res: Response, next: NextFunction) => {
  *               contact:
  *                 type: string
  *                 example: "+254712345678"
+ *               email:
+ *                 type: string
+ *                 description: Used for email reminders
+ *                 example: alice@example.com
  *     responses:
  *       201:
- *         description: Patient registered successfully
+ *         description: >
+ *           Patient registered. Existing patients that look like the same person (similar
+ *           name, same date of birth, contact or ID number) come back as warnings; review them
+ *           and merge if they are.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 uuid:
+ *                   type: string
+ *                 duplicate_warnings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DuplicateCandidate'
  *       400:
- *         description: Missing required fields
+ *         description: Missing or invalid fields
  *       409:
  *         description: Duplicate entry
  *       500:
@@ -78,36 +133,96 @@ router.use((req: Request, res: Response, next: NextFunction) => {
 router.post(
   "/new-patient",
   verifyToken,
+  requirePermission("patients:create"),
   async (req: Request, res: Response) => {
     try {
-      const { name, idNumber, date_of_birth, gender, contact } = req.body;
+      const { name, idNumber, date_of_birth, gender, contact, email } =
+        req.body;
       const patientId = uuid();
       const { tokenInfo } = req;
       const createdBy = tokenInfo.uuid;
+      const organizationId = tokenInfo.organizationId;
 
-      if (!name || !idNumber || !date_of_birth || !gender || !contact) {
-        return res.status(400).json({ message: "Missing fields" });
+      const problem = patientProblem(req.body);
+      if (problem) {
+        return res.status(400).json({ message: problem });
       }
 
       const sql = `
         INSERT INTO patients
-          (uuid,name, id_number, date_of_birth, gender, contact, created_by)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+          (uuid,name, id_number, date_of_birth, gender, contact, email, organization_id, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
 
-      const [result] = await db.execute(sql, [
-        patientId,
-        name,
-        idNumber,
-        date_of_birth,
-        gender,
-        contact,
-        createdBy,
-      ]);
+      const conn = await db.getConnection();
+
+      try {
+        await conn.beginTransaction();
+        await conn.execute(sql, [
+          patientId,
+          name,
+          idNumber,
+          date_of_birth,
+          gender,
+          contact,
+          email || null,
+          organizationId,
+          createdBy,
+        ]);
+        await recordAudit(
+          req,
+          {
+            action: "create",
+            resourceType: "patient",
+            resourceUuid: patientId,
+            patientId,
+            after: {
+              name,
+              id_number: idNumber,
+              date_of_birth,
+              gender,
+              contact,
+              email: email || null,
+            },
+          },
+          conn
+        );
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
 
-      res.status(201).json({ message: "Patient registered." });
+      const duplicateWarnings = await findDuplicateCandidates(
+        organizationId,
+        { name, id_number: idNumber, date_of_birth, contact },
+        patientId
+      );
+
+      res.status(201).json({
+        message: "Patient registered.",
+        uuid: patientId,
+        duplicate_warnings: duplicateWarnings,
+      });
     } catch (error: any) {
       if (error.code === "ER_DUP_ENTRY") {
+        // the unique key still holds for patients in the trash
+        const [trashed]: any = await db
+          .execute(
+            `SELECT uuid FROM patients
+             WHERE id_number = ? AND organization_id = ? AND deleted_at IS NOT NULL LIMIT 1`,
+            [req.body.idNumber, req.tokenInfo.organizationId]
+          )
+          .catch(() => [[]]);
+        if (trashed.length) {
+          return res.status(409).json({
+            message:
+              "A deleted patient has this ID. Restore them from the trash instead",
+            uuid: trashed[0].uuid,
+          });
+        }
         return res.status(409).json({
           message:
             "User with this email or ID already exists. Retry using a different one",
@@ -124,7 +239,7 @@ router.post(
  * @swagger
  * /api/patients/:
  *   get:
- *     summary: Get a paginated list of all patients for the authenticated user
+ *     summary: Get a paginated list of all patients in the active organization
  *     tags:
  *       - Patients
  *     security:
@@ -206,61 +321,166 @@ router.post(
  *                   type: string
  *                   example: "We encountered an error. Please retry"
  */
-router.get("/", verifyToken, async (req: Request, res: Response) => {
-  try {
-    const page = Number(req.query.page) || 1;
-    const limit = Number(req.query.limit) || 10;
-    const search = (req.query.search as string) || "";
-    const { tokenInfo } = req;
-    const createdBy = tokenInfo.uuid;
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 10;
+      const { tokenInfo } = req;
+      const organizationId = tokenInfo.organizationId;
 
-    if (page <= 0 || limit <= 0) {
-      return res.status(400).json({ message: "Invalid page or limit" });
-    }
+      if (page <= 0 || limit <= 0) {
+        return res.status(400).json({ message: "Invalid page or limit" });
+      }
 
-    const offset = (page - 1) * limit;
+      const offset = (page - 1) * limit;
+      const { where, params } = patientListFilter(organizationId, req.query);
 
-    const [countResult] = await db.execute(
-      `
+      const [countResult] = await db.execute(
+        `
       SELECT COUNT(*) AS total
-      FROM patients
-      WHERE created_by = ?
-      AND (name LIKE ? OR id_number LIKE ?)
+      FROM patients p
+      WHERE ${where}
       `,
-      [createdBy, `%${search}%`, `%${search}%`]
-    );
-    const total = (countResult as any)[0].total;
-
-    const [rows] = await db.execute(
-      `
-      SELECT id, name, id_number AS idNumber, gender, contact, uuid
-      FROM patients
-      WHERE created_by = ?
-      AND (name LIKE ? OR id_number LIKE ?)
-      ORDER BY id DESC
+        params
+      );
+      const total = (countResult as any)[0].total;
+
+      const [rows] = await db.execute(
+        `
+      SELECT p.id, p.name, p.id_number AS idNumber, p.gender, p.contact, p.uuid
+      FROM patients p
+      WHERE ${where}
+      ORDER BY p.id DESC
       LIMIT ${limit} OFFSET ${offset}
       `,
-      [createdBy, `%${search}%`, `%${search}%`]
+        params
+      );
+
+      const items = (rows as any[]).map((row) => ({
+        key: row.id,
+        ...row,
+      }));
+
+      return res.json({ items, total });
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/export:
+ *   get:
+ *     summary: Download the filtered patient list as CSV or XLSX
+ *     description: Takes the same filters as GET /api/patients and returns every matching row, unpaged.
+ *     tags:
+ *       - Patients
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         schema:
+ *           type: string
+ *         description: Comma-separated columns in the order wanted. One of {, k, }
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, as an attachment
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Unknown format or column
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/export",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const format = (req.query.format as string) || "csv";
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return res.status(400).json({
+        message: `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      });
+    }
+
+    const selection = selectColumns(PATIENT_EXPORT_COLUMNS, req.query.columns);
+    if (selection.problem !== null) {
+      return res.status(400).json({ message: selection.problem });
+    }
+
+    const { columns } = selection;
+    const { where, params } = patientListFilter(
+      tokenInfo.organizationId,
+      req.query
     );
 
-    const items = (rows as any[]).map((row) => ({
-      key: row.id,
-      ...row,
-    }));
+    try {
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "patient_export",
+        resourceUuid: uuid(),
+        after: {
+          format,
+          columns: columns.map((column) => column.key).join(","),
+          search: req.query.search || null,
+        },
+      });
 
-    return res.json({ items, total });
-  } catch (error) {
-    return res
-      .status(500)
-      .json({ message: "We encountered an error. Please retry" });
+      await streamExport(res, {
+        format: format as ExportFormat,
+        filename: `patients-${new Date().toISOString().slice(0, 10)}`,
+        sheetName: "Patients",
+        columns,
+        sql: `SELECT ${selectList(
+          columns
+        )} FROM patients p WHERE ${where} ORDER BY p.id DESC`,
+        params,
+      });
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
   }
-});
+);
 
 /**
  * @swagger
  * /api/patients/{uuid}:
  *   get:
  *     summary: Get a patient and their visit history
+ *     description: Visits are only included for roles that can read clinical data.
  *     security:
  *       - cookieAuth: []
  *     tags:
@@ -280,21 +500,28 @@ router.get("/", verifyToken, async (req: Request, res: Response) => {
  *       500:
  *         description: Server error
  */
-router.get("/:uuid", verifyToken, async (req: Request, res: Response) => {
-  const { uuid } = req.params;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
-
-  try {
-    const [rows]: any = await db.execute(
-      `
+router.get(
+  "/:uuid",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
+
+    try {
+      const [rows]: any = await db.execute(
+        `
       SELECT 
         p.uuid AS patient_uuid,
         p.name,
         p.id_number,
         p.gender,
         p.contact,
+        p.email,
         p.date_of_birth,
+        p.sms_opt_out_at,
+        p.email_opt_out_at,
         
         v.uuid AS visit_uuid,
         v.visit_date,
@@ -304,46 +531,63 @@ router.get("/:uuid", verifyToken, async (req: Request, res: Response) => {
 
       FROM patients p
       LEFT JOIN visits v 
-        ON v.patient_id = p.uuid AND v.created_by = p.created_by
-      WHERE p.uuid = ? AND p.created_by = ?
+        ON v.patient_id = p.uuid AND v.organization_id = p.organization_id
+        AND v.deleted_at IS NULL
+      WHERE p.uuid = ? AND p.organization_id = ? AND p.deleted_at IS NULL
       ORDER BY v.visit_date DESC
       `,
-      [uuid, createdBy]
-    );
-
-    if (rows.length === 0) {
-      return res.status(404).json({ message: "Patient not found" });
-    }
+        [uuid, organizationId]
+      );
 
-    const patient: PatientResponse = {
-      uuid: rows[0].patient_uuid,
-      name: rows[0].name,
-      id_number: rows[0].id_number,
-      gender: rows[0].gender,
-      contact: rows[0].contact,
-      date_of_birth: rows[0].date_of_birth,
-      visits: [],
-    };
-
-    rows.forEach((r: any) => {
-      if (r.visit_uuid) {
-        patient.visits.push({
-          uuid: r.visit_uuid,
-          date: r.visit_date,
-          diagnosis: r.diagnosis,
-          prescribed_medications: r.prescribed_medications,
-          notes: r.notes,
-        });
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Patient not found" });
       }
-    });
 
-    return res.json(patient);
-  } catch (err) {
-    return res.status(500).json({
-      message: "We encountered an error. Please try again",
-    });
+      const patient: PatientResponse = {
+        uuid: rows[0].patient_uuid,
+        name: rows[0].name,
+        id_number: rows[0].id_number,
+        gender: rows[0].gender,
+        contact: rows[0].contact,
+        email: rows[0].email,
+        date_of_birth: rows[0].date_of_birth,
+        reminders: {
+          sms: !rows[0].sms_opt_out_at,
+          email: !rows[0].email_opt_out_at,
+        },
+        visits: [],
+      };
+
+      // roles without clinical access still get the demographics
+      const canReadVisits = hasPermission(tokenInfo.role, "visits:read");
+
+      rows.forEach((r: any) => {
+        if (r.visit_uuid && canReadVisits) {
+          patient.visits.push({
+            uuid: r.visit_uuid,
+            date: r.visit_date,
+            diagnosis: r.diagnosis,
+            prescribed_medications: r.prescribed_medications,
+            notes: r.notes,
+          });
+        }
+      });
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "patient",
+        resourceUuid: patient.uuid,
+        patientId: patient.uuid,
+      });
+
+      return res.json(patient);
+    } catch (err) {
+      return res.status(500).json({
+        message: "We encountered an error. Please try again",
+      });
+    }
   }
-});
+);
 
 /**
  * @swagger
@@ -377,83 +621,275 @@ router.get("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *                 format: date
  *               contact:
  *                 type: string
+ *               email:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Left unchanged when omitted
  *               idNumber:
  *                 type: string
+ *               amendment_reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Why the details are being changed; kept with the revision this edit creates
+ *                 example: "Date of birth corrected from national ID"
  *             required:
  *               - name
  *               - gender
  *               - date_of_birth
+ *               - amendment_reason
  *     responses:
  *       200:
  *         description: Patient details updated successfully
  *       400:
- *         description: Missing required fields
+ *         description: Missing required fields or amendment_reason
  *       404:
  *         description: Patient not found
  *       500:
  *         description: Server error
  */
 
-router.put("/:uuid", verifyToken, async (req: Request, res: Response) => {
-  const { uuid } = req.params;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
+router.put(
+  "/:uuid",
+  verifyToken,
+  requirePermission("patients:update"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
+
+    const {
+      name,
+      gender,
+      date_of_birth,
+      contact,
+      email,
+      idNumber,
+      amendment_reason,
+    } = req.body;
 
-  const { name, gender, date_of_birth, contact, idNumber } = req.body;
+    if (!name || !gender || !date_of_birth) {
+      return res
+        .status(400)
+        .json({ message: "Name, gender, and date_of_birth are required" });
+    }
+
+    const reasonProblem = amendmentReasonProblem(amendment_reason);
+    if (reasonProblem) {
+      return res.status(400).json({ message: reasonProblem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const [rows]: any = await conn.execute(
+        `SELECT uuid, name, id_number, date_of_birth, gender, contact, email
+         FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      await conn.beginTransaction();
+
+      const snapshot = await takeSnapshot(conn, "patient", String(uuid));
+
+      await conn.execute(
+        `UPDATE patients
+       SET name = ?, id_number = ?, date_of_birth = ?, gender = ?, contact = ?, email = ?
+       WHERE uuid = ? AND organization_id = ?`,
+        [
+          name,
+          idNumber || null,
+          date_of_birth,
+          gender,
+          contact || null,
+          email === undefined ? rows[0].email : email || null,
+          uuid,
+          organizationId,
+        ]
+      );
+
+      const revision = await recordRevision(
+        conn,
+        "patient",
+        String(uuid),
+        snapshot,
+        amendment_reason,
+        tokenInfo.uuid
+      );
 
-  if (!name || !gender || !date_of_birth) {
-    return res
-      .status(400)
-      .json({ message: "Name, gender, and date_of_birth are required" });
+      const [updatedRows]: any = await conn.execute(
+        `SELECT uuid, name, id_number, date_of_birth, gender, contact, email, created_at, created_by
+       FROM patients
+       WHERE uuid = ? AND organization_id = ?`,
+        [uuid, organizationId]
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "patient",
+          resourceUuid: uuid,
+          patientId: uuid,
+          before: rows[0],
+          after: { ...updatedRows[0], revision, amendment_reason },
+        },
+        conn
+      );
+
+      await conn.commit();
+
+      return res.status(200).json({
+        message: "Patient details updated",
+        patient: updatedRows[0],
+        revision,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
   }
+);
 
-  try {
-    const [rows]: any = await db.execute(
-      `SELECT uuid FROM patients WHERE uuid = ? AND created_by = ? LIMIT 1`,
-      [uuid, createdBy]
-    );
+/**
+ * @swagger
+ * /api/patients/{uuid}/reminder-preferences:
+ *   put:
+ *     summary: Opt a patient in or out of reminders per channel
+ *     security:
+ *       - cookieAuth: []
+ *     tags:
+ *       - Patients
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               sms:
+ *                 type: boolean
+ *                 description: false opts the patient out of SMS reminders
+ *               email:
+ *                 type: boolean
+ *                 description: false opts the patient out of email reminders
+ *     responses:
+ *       200:
+ *         description: Preferences updated
+ *       400:
+ *         description: sms and email must be booleans
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:uuid/reminder-preferences",
+  verifyToken,
+  requirePermission("patients:update"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
+
+    const { sms, email } = req.body;
 
-    if (rows.length === 0) {
-      return res.status(404).json({ message: "Patient not found" });
+    if (
+      (sms !== undefined && typeof sms !== "boolean") ||
+      (email !== undefined && typeof email !== "boolean") ||
+      (sms === undefined && email === undefined)
+    ) {
+      return res
+        .status(400)
+        .json({ message: "sms and/or email must be given as booleans" });
     }
 
-    await db.execute(
-      `UPDATE patients
-       SET name = ?, id_number = ?, date_of_birth = ?, gender = ?, contact = ?
-       WHERE uuid = ? AND created_by = ?`,
-      [
-        name,
-        idNumber || null,
-        date_of_birth,
-        gender,
-        contact || null,
-        uuid,
-        createdBy,
-      ]
-    );
+    try {
+      const [rows]: any = await db.execute(
+        `SELECT sms_opt_out_at, email_opt_out_at
+         FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, organizationId]
+      );
 
-    const [updatedRows]: any = await db.execute(
-      `SELECT uuid, name, id_number, date_of_birth, gender, contact, created_at, created_by
-       FROM patients
-       WHERE uuid = ? AND created_by = ?`,
-      [uuid, createdBy]
-    );
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
 
-    return res
-      .status(200)
-      .json({ message: "Patient details updated", patient: updatedRows[0] });
-  } catch (err) {
-    return res
-      .status(500)
-      .json({ message: "We encountered an error. Please try again" });
+      const before = {
+        sms: !rows[0].sms_opt_out_at,
+        email: !rows[0].email_opt_out_at,
+      };
+      const after = {
+        sms: sms === undefined ? before.sms : sms,
+        email: email === undefined ? before.email : email,
+      };
+
+      const conn = await db.getConnection();
+
+      try {
+        await conn.beginTransaction();
+        // keep the original opt-out time when the state does not change
+        await conn.execute(
+          `UPDATE patients
+           SET sms_opt_out_at = IF(?, NULL, COALESCE(sms_opt_out_at, NOW())),
+               email_opt_out_at = IF(?, NULL, COALESCE(email_opt_out_at, NOW()))
+           WHERE uuid = ? AND organization_id = ?`,
+          [after.sms, after.email, uuid, organizationId]
+        );
+        await recordAudit(
+          req,
+          {
+            action: "update",
+            resourceType: "reminder_preferences",
+            resourceUuid: uuid,
+            patientId: uuid,
+            before,
+            after,
+          },
+          conn
+        );
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+
+      return res
+        .status(200)
+        .json({ message: "Reminder preferences updated", reminders: after });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
   }
-});
+);
 
 /**
  * @swagger
  * /api/patients/{uuid}:
  *   delete:
- *     summary: Delete a patient
+ *     summary: Move a patient to the trash
+ *     description: >
+ *       The patient and their visits are hidden everywhere and can be restored until
+ *       they are purged, once the trash retention window has passed. Booked
+ *       appointments and scheduled reminders are cancelled. A patient with signed
+ *       visits cannot be deleted.
  *     security:
  *       - cookieAuth: []
  *     tags:
@@ -470,37 +906,167 @@ router.put("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *         description: Patient deleted successfully
  *       404:
  *         description: Patient not found
+ *       409:
+ *         description: The patient has signed visits
  *       500:
  *         description: Server error
  */
 
-router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
-  const { uuid } = req.params;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
+router.delete(
+  "/:uuid",
+  verifyToken,
+  requirePermission("patients:delete"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
 
-  try {
-    const [rows]: any = await db.execute(
-      `SELECT uuid FROM patients WHERE uuid = ? AND created_by = ? LIMIT 1`,
-      [uuid, createdBy]
-    );
+    try {
+      const [rows]: any = await db.execute(
+        `SELECT uuid, name, id_number, date_of_birth, gender, contact, email
+         FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const conn = await db.getConnection();
+
+      try {
+        await conn.beginTransaction();
 
-    if (rows.length === 0) {
-      return res.status(404).json({ message: "Patient not found" });
+        if (await hasSignedVisits(conn, String(uuid))) {
+          await conn.rollback();
+          return res.status(409).json({ message: SIGNED_PATIENT_MESSAGE });
+        }
+
+        await softDeletePatient(conn, String(uuid), tokenInfo.uuid);
+        await recordAudit(
+          req,
+          {
+            action: "delete",
+            resourceType: "patient",
+            resourceUuid: uuid,
+            patientId: uuid,
+            before: rows[0],
+          },
+          conn
+        );
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+
+      return res.status(200).json({
+        message: "Patient deleted successfully",
+        restorable_days: TRASH_RETENTION_DAYS,
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
     }
+  }
+);
 
-    await db.execute(`DELETE FROM patients WHERE uuid = ? AND created_by = ?`, [
-      uuid,
-      createdBy,
-    ]);
+/**
+ * @swagger
+ * /api/patients/{uuid}/restore:
+ *   post:
+ *     summary: Bring a patient back from the trash
+ *     description: Visits that were deleted along with the patient come back too.
+ *     security:
+ *       - cookieAuth: []
+ *     tags:
+ *       - Patients
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the deleted patient
+ *     responses:
+ *       200:
+ *         description: Patient restored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 restored_visits:
+ *                   type: integer
+ *       404:
+ *         description: No deleted patient with this uuid
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/restore",
+  verifyToken,
+  requirePermission("patients:delete"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
 
-    return res.status(200).json({ message: "Patient deleted successfully" });
-  } catch (err) {
-    return res
-      .status(500)
-      .json({ message: "We encountered an error. Please try again" });
+    try {
+      const patient = await findDeleted(
+        "patients",
+        String(uuid),
+        tokenInfo.organizationId
+      );
+
+      if (!patient) {
+        return res.status(404).json({ message: "Patient not found in trash" });
+      }
+
+      const conn = await db.getConnection();
+      let restoredVisits: number;
+
+      try {
+        await conn.beginTransaction();
+        restoredVisits = await restorePatient(conn, String(uuid));
+        await recordAudit(
+          req,
+          {
+            action: "restore",
+            resourceType: "patient",
+            resourceUuid: String(uuid),
+            patientId: String(uuid),
+            before: {
+              deleted_at: patient.deleted_at,
+              deleted_by: patient.deleted_by,
+            },
+            after: { restored_visits: restoredVisits },
+          },
+          conn
+        );
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+
+      return res.json({
+        message: "Patient restored",
+        restored_visits: restoredVisits,
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
   }
-});
+);
 
 /**
  * @swagger
@@ -526,29 +1092,55 @@ router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *             type: object
  *             required:
  *               - date
- *               - diagnosis
- *               - prescribed_medications
  *             properties:
  *               date:
  *                 type: string
  *                 format: date
  *                 example: "2025-01-20"
+ *               diagnoses:
+ *                 type: array
+ *                 description: Coded or free-text diagnoses. Either this or diagnosis is required.
+ *                 items:
+ *                   $ref: '#/components/schemas/DiagnosisInput'
  *               diagnosis:
  *                 type: string
+ *                 description: Free-text diagnosis, stored as a single primary free-text diagnosis
  *                 example: "Malaria"
+ *               prescriptions:
+ *                 type: array
+ *                 description: Structured prescription lines. Either this or prescribed_medications is required.
+ *                 items:
+ *                   $ref: '#/components/schemas/PrescriptionInput'
  *               prescribed_medications:
  *                 type: string
+ *                 description: Free-text medications, stored as a single free-text prescription line
  *                 example: "Artemether, Lumefantrine"
  *               notes:
  *                 type: string
  *                 example: "Patient advised to return if symptoms persist"
+ *               allergy_override_reason:
+ *                 type: string
+ *                 description: Required to prescribe against a moderate or worse allergy; recorded on the visit
  *     responses:
  *       201:
- *         description: Visit added successfully
+ *         description: Visit added successfully. Any allergy warnings are returned in allergy_warnings.
  *       400:
- *         description: Missing required fields
+ *         description: Missing required fields, invalid prescription or unknown ICD-10 code
  *       404:
  *         description: Patient not found
+ *       409:
+ *         description: Medications conflict with the patient's allergies and no override reason was given
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AllergyWarning'
  *       500:
  *         description: Server error
  */
@@ -556,51 +1148,194 @@ router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
 router.post(
   "/:uuid/visits",
   verifyToken,
+  requirePermission("visits:create"),
   async (req: Request, res: Response) => {
     const patientUuid = req.params.uuid;
-    const { date, diagnosis, prescribed_medications, notes } = req.body;
     const { tokenInfo } = req;
     const createdBy = tokenInfo.uuid;
-    const visitUuid = uuid();
+    const organizationId = tokenInfo.organizationId;
 
-    if (!date || !diagnosis || !prescribed_medications) {
-      return res.status(400).json({ message: "Missing required fields" });
-    }
+    const conn = await db.getConnection();
 
     try {
-      const [patientRows]: any = await db.execute(
-        `SELECT uuid FROM patients WHERE uuid = ? AND created_by = ? LIMIT 1`,
-        [patientUuid, createdBy]
+      const [patientRows]: any = await conn.execute(
+        `SELECT uuid FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [patientUuid, organizationId]
       );
 
       if (patientRows.length === 0) {
         return res.status(404).json({ message: "Patient not found" });
       }
 
-      const insertQuery = `
-      INSERT INTO visits (uuid, patient_id, visit_date, diagnosis, prescribed_medications, notes, created_by)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `;
-      await db.execute(insertQuery, [
-        visitUuid,
+      const check = await screenNewVisit(patientUuid, req.body);
+
+      if (check.rejection) {
+        return res.status(check.rejection.status).json(check.rejection.body);
+      }
+      const { screening } = check;
+
+      await conn.beginTransaction();
+      const visitUuid = await insertVisit(
+        conn,
         patientUuid,
-        date,
-        diagnosis,
-        prescribed_medications,
-        notes || null,
+        organizationId,
         createdBy,
-      ]);
+        req.body,
+        screening
+      );
+
+      const visit = await loadVisit(visitUuid, conn);
 
-      const [newVisitRows]: any = await db.execute(
-        `SELECT * FROM visits WHERE uuid = ? LIMIT 1`,
-        [visitUuid]
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "visit",
+          resourceUuid: visitUuid,
+          patientId: patientUuid,
+          after: visit,
+        },
+        conn
       );
+      await conn.commit();
 
-      res.status(201).json({ message: "Visit added", visit: newVisitRows[0] });
+      res.status(201).json({
+        message: "Visit added",
+        visit,
+        allergy_warnings: screening.warnings,
+      });
     } catch (err) {
+      await conn.rollback();
       res
         .status(500)
         .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/patients/{uuid}/vitals:
+ *   get:
+ *     summary: Vitals time series for a patient across all visits
+ *     description: >
+ *       Each point is flagged low or high against the adult or pediatric reference
+ *       range that applied to the patient's age when it was recorded.
+ *     tags:
+ *       - Patients
+ *       - Vitals
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the patient
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: One series per measure, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 patient_id:
+ *                   type: string
+ *                 band:
+ *                   type: string
+ *                   enum: [adult, pediatric]
+ *                   description: The patient's band today
+ *                 units:
+ *                   type: object
+ *                 reference_ranges:
+ *                   type: object
+ *                   description: Ranges for the current band, as [low, high]
+ *                 series:
+ *                   type: object
+ *                   additionalProperties:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         recorded_at:
+ *                           type: string
+ *                           format: date-time
+ *                         visit_id:
+ *                           type: string
+ *                         value:
+ *                           type: number
+ *                         flag:
+ *                           type: string
+ *                           nullable: true
+ *                           enum: [low, high]
+ *       404:
+ *         description: Patient not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid/vitals",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const patientUuid = req.params.uuid;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
+
+    try {
+      const [patientRows]: any = await db.execute(
+        `SELECT uuid, date_of_birth FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [patientUuid, organizationId]
+      );
+
+      if (patientRows.length === 0) {
+        return res.status(404).json({ message: "Patient not found" });
+      }
+
+      const dateOfBirth = patientRows[0].date_of_birth;
+      const band = ageBand(dateOfBirth, new Date());
+      const series = await patientVitalsSeries(
+        patientUuid,
+        organizationId,
+        dateOfBirth,
+        from,
+        to
+      );
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "vitals_series",
+        resourceUuid: patientUuid,
+        patientId: patientUuid,
+      });
+
+      return res.json({
+        patient_id: patientUuid,
+        band,
+        units: UNITS,
+        reference_ranges: referenceRanges()[band],
+        series,
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
     }
   }
 );
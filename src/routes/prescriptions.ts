@@ -0,0 +1,587 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import { SIGNED_VISIT_MESSAGE, lockDraft } from "../utils/sign-off";
+import {
+  amendmentReasonProblem,
+  recordRevision,
+  takeSnapshot,
+} from "../utils/revisions";
+import {
+  insertPrescription,
+  listPrescriptions,
+  prescriptionProblem,
+  syncMedicationSummary,
+  updatePrescription,
+} from "../utils/prescriptions";
+import {
+  ALLERGY_CONFLICT_MESSAGE,
+  recordOverrides,
+  screenPrescribing,
+} from "../utils/allergies";
+
+// mounted under /api/visits/:uuid/prescriptions
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PrescriptionInput:
+ *       type: object
+ *       required:
+ *         - drug_name
+ *       properties:
+ *         drug_name:
+ *           type: string
+ *           example: "Amoxicillin"
+ *         strength:
+ *           type: string
+ *           example: "500 mg"
+ *         route:
+ *           type: string
+ *           enum: [oral, sublingual, intravenous, intramuscular, subcutaneous, topical, inhalation, nasal, ophthalmic, otic, rectal, vaginal, other]
+ *           example: "oral"
+ *         dose:
+ *           type: string
+ *           example: "1 capsule"
+ *         frequency:
+ *           type: string
+ *           example: "TDS"
+ *         duration:
+ *           type: string
+ *           example: "5 days"
+ *         quantity:
+ *           type: number
+ *           example: 15
+ *         instructions:
+ *           type: string
+ *           example: "Take after meals"
+ *     Prescription:
+ *       allOf:
+ *         - $ref: '#/components/schemas/PrescriptionInput'
+ *         - type: object
+ *           properties:
+ *             uuid:
+ *               type: string
+ *             visit_id:
+ *               type: string
+ *             free_text:
+ *               type: string
+ *               nullable: true
+ *               description: Set instead of drug_name for lines carried over from free-text medications
+ */
+
+const findVisit = async (visitUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid, patient_id, status FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [visitUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/prescriptions:
+ *   get:
+ *     summary: List the prescription lines of a visit
+ *     tags:
+ *       - Prescriptions
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     responses:
+ *       200:
+ *         description: Prescription lines in the order they were added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Prescription'
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      return res.json(await listPrescriptions(uuid));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/prescriptions:
+ *   post:
+ *     summary: Add a prescription line to a visit
+ *     tags:
+ *       - Prescriptions
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/PrescriptionInput'
+ *               - type: object
+ *                 required:
+ *                   - amendment_reason
+ *                 properties:
+ *                   allergy_override_reason:
+ *                     type: string
+ *                     description: Required when the drug conflicts with a moderate or worse allergy; recorded on the visit
+ *                   amendment_reason:
+ *                     type: string
+ *                     maxLength: 500
+ *                     description: Why the medications are being changed; kept with the visit revision this creates
+ *     responses:
+ *       201:
+ *         description: Prescription added
+ *       400:
+ *         description: Invalid prescription or missing amendment_reason
+ *       404:
+ *         description: Visit not found
+ *       409:
+ *         description: The visit is signed, or the drug conflicts with the patient's allergies and no override reason was given
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("visits:update"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    const problem =
+      prescriptionProblem(req.body) ||
+      amendmentReasonProblem(req.body.amendment_reason);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+      if (visit.status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const screening = await screenPrescribing(
+        visit.patient_id,
+        [req.body.drug_name],
+        req.body.allergy_override_reason,
+        uuid
+      );
+
+      if (screening.blocked) {
+        return res.status(409).json({
+          message: ALLERGY_CONFLICT_MESSAGE,
+          warnings: screening.warnings,
+        });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, uuid))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const snapshot = await takeSnapshot(conn, "visit", uuid);
+      const prescriptionId = await insertPrescription(
+        conn,
+        uuid,
+        tokenInfo.organizationId,
+        tokenInfo.uuid,
+        req.body
+      );
+      await syncMedicationSummary(conn, uuid);
+      await recordOverrides(
+        conn,
+        uuid,
+        tokenInfo.organizationId,
+        tokenInfo.uuid,
+        screening.overrides,
+        screening.reason
+      );
+      const revision = await recordRevision(
+        conn,
+        "visit",
+        uuid,
+        snapshot,
+        req.body.amendment_reason,
+        tokenInfo.uuid
+      );
+      const prescription = (await listPrescriptions(uuid, conn)).find(
+        (line) => line.uuid === prescriptionId
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "prescription",
+          resourceUuid: prescriptionId,
+          patientId: visit.patient_id,
+          after: {
+            ...prescription,
+            revision,
+            amendment_reason: req.body.amendment_reason,
+          },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json({
+        message: "Prescription added",
+        prescription,
+        revision,
+        allergy_warnings: screening.warnings,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/prescriptions/{prescriptionUuid}:
+ *   put:
+ *     summary: Replace a prescription line
+ *     description: Updating a free-text line turns it into a structured one.
+ *     tags:
+ *       - Prescriptions
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *       - in: path
+ *         name: prescriptionUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/PrescriptionInput'
+ *               - type: object
+ *                 required:
+ *                   - amendment_reason
+ *                 properties:
+ *                   allergy_override_reason:
+ *                     type: string
+ *                     description: Required when the drug conflicts with a moderate or worse allergy; recorded on the visit
+ *                   amendment_reason:
+ *                     type: string
+ *                     maxLength: 500
+ *                     description: Why the medications are being changed; kept with the visit revision this creates
+ *     responses:
+ *       200:
+ *         description: Prescription updated
+ *       400:
+ *         description: Invalid prescription or missing amendment_reason
+ *       404:
+ *         description: Visit or prescription not found
+ *       409:
+ *         description: The visit is signed, or the drug conflicts with the patient's allergies and no override reason was given
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:prescriptionUuid",
+  verifyToken,
+  requirePermission("visits:update"),
+  async (req: Request, res: Response) => {
+    const { uuid, prescriptionUuid } = req.params;
+    const { tokenInfo } = req;
+
+    const problem =
+      prescriptionProblem(req.body) ||
+      amendmentReasonProblem(req.body.amendment_reason);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+      const before = visit
+        ? (await listPrescriptions(uuid)).find(
+            (line) => line.uuid === prescriptionUuid
+          )
+        : undefined;
+
+      if (!visit || !before) {
+        return res.status(404).json({ message: "Prescription not found" });
+      }
+      if (visit.status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const screening = await screenPrescribing(
+        visit.patient_id,
+        [req.body.drug_name],
+        req.body.allergy_override_reason,
+        uuid
+      );
+
+      if (screening.blocked) {
+        return res.status(409).json({
+          message: ALLERGY_CONFLICT_MESSAGE,
+          warnings: screening.warnings,
+        });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, uuid))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const snapshot = await takeSnapshot(conn, "visit", uuid);
+      await updatePrescription(conn, prescriptionUuid, req.body);
+      await syncMedicationSummary(conn, uuid);
+      await recordOverrides(
+        conn,
+        uuid,
+        tokenInfo.organizationId,
+        tokenInfo.uuid,
+        screening.overrides,
+        screening.reason
+      );
+      const revision = await recordRevision(
+        conn,
+        "visit",
+        uuid,
+        snapshot,
+        req.body.amendment_reason,
+        tokenInfo.uuid
+      );
+      const prescription = (await listPrescriptions(uuid, conn)).find(
+        (line) => line.uuid === prescriptionUuid
+      );
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "prescription",
+          resourceUuid: prescriptionUuid,
+          patientId: visit.patient_id,
+          before,
+          after: {
+            ...prescription,
+            revision,
+            amendment_reason: req.body.amendment_reason,
+          },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({
+        message: "Prescription updated",
+        prescription,
+        revision,
+        allergy_warnings: screening.warnings,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/prescriptions/{prescriptionUuid}:
+ *   delete:
+ *     summary: Remove a prescription line
+ *     tags:
+ *       - Prescriptions
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *       - in: path
+ *         name: prescriptionUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amendment_reason
+ *             properties:
+ *               amendment_reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Why the line is being removed; kept with the visit revision this creates
+ *     responses:
+ *       200:
+ *         description: Prescription removed
+ *       400:
+ *         description: Missing amendment_reason
+ *       404:
+ *         description: Visit or prescription not found
+ *       409:
+ *         description: The visit is signed
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/:prescriptionUuid",
+  verifyToken,
+  requirePermission("visits:update"),
+  async (req: Request, res: Response) => {
+    const { uuid, prescriptionUuid } = req.params;
+    const { tokenInfo } = req;
+    const amendmentReason = req.body?.amendment_reason;
+
+    const reasonProblem = amendmentReasonProblem(amendmentReason);
+
+    if (reasonProblem) {
+      return res.status(400).json({ message: reasonProblem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+      const before = visit
+        ? (await listPrescriptions(uuid)).find(
+            (line) => line.uuid === prescriptionUuid
+          )
+        : undefined;
+
+      if (!visit || !before) {
+        return res.status(404).json({ message: "Prescription not found" });
+      }
+      if (visit.status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, uuid))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const snapshot = await takeSnapshot(conn, "visit", uuid);
+      await conn.execute(`DELETE FROM prescriptions WHERE uuid = ?`, [
+        prescriptionUuid,
+      ]);
+      await syncMedicationSummary(conn, uuid);
+      const revision = await recordRevision(
+        conn,
+        "visit",
+        uuid,
+        snapshot,
+        amendmentReason,
+        tokenInfo.uuid
+      );
+      await recordAudit(
+        req,
+        {
+          action: "delete",
+          resourceType: "prescription",
+          resourceUuid: prescriptionUuid,
+          patientId: visit.patient_id,
+          before,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res
+        .status(200)
+        .json({ message: "Prescription removed", revision });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
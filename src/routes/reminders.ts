@@ -0,0 +1,336 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import {
+  PLACEHOLDERS,
+  REMINDER_CHANNELS,
+  REMINDER_KINDS,
+  ReminderChannel,
+  ReminderKind,
+  listTemplates,
+  saveTemplate,
+  templateProblem,
+} from "../utils/reminders";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReminderTemplate:
+ *       type: object
+ *       properties:
+ *         kind:
+ *           type: string
+ *           enum: [appointment, follow-up]
+ *         channel:
+ *           type: string
+ *           enum: [sms, email]
+ *         subject:
+ *           type: string
+ *           nullable: true
+ *           description: Email only
+ *         body:
+ *           type: string
+ *           example: "Hi {{patient_name}}, this is a reminder of your appointment on {{appointment_date}} at {{appointment_time}}."
+ *         offset_minutes:
+ *           type: integer
+ *           description: How long before the appointment (or 09:00 on the follow-up date) to send
+ *           example: 1440
+ *         active:
+ *           type: boolean
+ *         customised:
+ *           type: boolean
+ *           description: False while the built-in default is in use
+ */
+
+/**
+ * @swagger
+ * /api/reminders:
+ *   get:
+ *     summary: List reminders and their delivery status
+ *     tags:
+ *       - Reminders
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: patientId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, sent, failed, skipped, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reminders, latest send time first
+ *       400:
+ *         description: Invalid page or limit
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+    const patientId = req.query.patientId as string | undefined;
+    const status = req.query.status as string | undefined;
+    const { tokenInfo } = req;
+
+    if (page <= 0 || limit <= 0) {
+      return res.status(400).json({ message: "Invalid page or limit" });
+    }
+
+    let filters = " WHERE r.organization_id = ? AND p.deleted_at IS NULL";
+    const params: any[] = [tokenInfo.organizationId];
+
+    if (patientId) {
+      filters += " AND r.patient_id = ?";
+      params.push(patientId);
+    }
+    if (status) {
+      filters += " AND r.status = ?";
+      params.push(status);
+    }
+
+    try {
+      const [countRows] = await db.execute<RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM reminders r JOIN patients p ON p.uuid = r.patient_id${filters}`,
+        params
+      );
+
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT r.uuid, r.patient_id, p.name AS patient_name, r.kind, r.channel,
+               r.source_type, r.source_id,
+               DATE_FORMAT(r.send_at, '%Y-%m-%d %H:%i') AS send_at,
+               r.status, r.attempts, r.last_error, r.recipient, r.sent_at
+        FROM reminders r
+        JOIN patients p ON p.uuid = r.patient_id
+        ${filters}
+        ORDER BY r.send_at DESC
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+        `,
+        params
+      );
+
+      return res.json({ items: rows, total: countRows[0].total });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/reminders/templates:
+ *   get:
+ *     summary: List the organization's reminder templates
+ *     tags:
+ *       - Reminders
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: One template per kind and channel, with the placeholders each kind accepts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 placeholders:
+ *                   type: object
+ *                 templates:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReminderTemplate'
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/templates",
+  verifyToken,
+  requirePermission("appointments:read"),
+  async (req: Request, res: Response) => {
+    try {
+      return res.json({
+        placeholders: PLACEHOLDERS,
+        templates: await listTemplates(req.tokenInfo.organizationId),
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/reminders/templates/{kind}/{channel}:
+ *   put:
+ *     summary: Edit a reminder template
+ *     description: Applies to reminders sent from now on, including ones already scheduled.
+ *     tags:
+ *       - Reminders
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [appointment, follow-up]
+ *       - in: path
+ *         name: channel
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [sms, email]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *               - offset_minutes
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               body:
+ *                 type: string
+ *               offset_minutes:
+ *                 type: integer
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Template saved
+ *       400:
+ *         description: Invalid template or unknown placeholder
+ *       404:
+ *         description: Unknown kind or channel
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/templates/:kind/:channel",
+  verifyToken,
+  requirePermission("reminders:manage"),
+  async (req: Request, res: Response) => {
+    const kind = req.params.kind as ReminderKind;
+    const channel = req.params.channel as ReminderChannel;
+    const { tokenInfo } = req;
+
+    if (
+      !REMINDER_KINDS.includes(kind) ||
+      !REMINDER_CHANNELS.includes(channel)
+    ) {
+      return res.status(404).json({ message: "Template not found" });
+    }
+
+    const problem = templateProblem(kind, req.body);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    try {
+      await saveTemplate(
+        tokenInfo.organizationId,
+        kind,
+        channel,
+        req.body,
+        tokenInfo.uuid
+      );
+
+      const template = (await listTemplates(tokenInfo.organizationId)).find(
+        (t) => t.kind === kind && t.channel === channel
+      );
+
+      return res.status(200).json({ message: "Template saved", template });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/reminders/{uuid}/cancel:
+ *   post:
+ *     summary: Cancel a scheduled reminder
+ *     tags:
+ *       - Reminders
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reminder cancelled
+ *       404:
+ *         description: No scheduled reminder with that id
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/cancel",
+  verifyToken,
+  requirePermission("appointments:manage"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+
+    try {
+      const [result]: any = await db.execute(
+        `
+        UPDATE reminders SET status = 'cancelled'
+        WHERE uuid = ? AND organization_id = ? AND status = 'scheduled'
+        `,
+        [req.params.uuid, tokenInfo.organizationId]
+      );
+
+      if (result.affectedRows === 0) {
+        return res.status(404).json({ message: "No scheduled reminder found" });
+      }
+
+      return res.status(200).json({ message: "Reminder cancelled" });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
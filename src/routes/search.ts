@@ -0,0 +1,227 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { hasPermission } from "../utils/permissions";
+import {
+  MAX_SEARCH_LIMIT,
+  MIN_TERM_LENGTH,
+  parseSearchQuery,
+  searchPatients,
+  searchVisits,
+} from "../utils/search";
+
+const router = express.Router();
+
+const SEARCH_TYPES = ["patients", "visits"];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SearchSnippet:
+ *       type: object
+ *       properties:
+ *         field:
+ *           type: string
+ *           example: "diagnosis"
+ *         text:
+ *           type: string
+ *           description: HTML-escaped text around the first match, with the matches in <mark>
+ *           example: "E11.9 Type 2 <mark>diabetes</mark> mellitus without complications"
+ *     PatientSearchHit:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         name:
+ *           type: string
+ *         id_number:
+ *           type: string
+ *           nullable: true
+ *         date_of_birth:
+ *           type: string
+ *           format: date
+ *         score:
+ *           type: number
+ *         snippet:
+ *           $ref: '#/components/schemas/SearchSnippet'
+ *     VisitSearchHit:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         visit_date:
+ *           type: string
+ *           format: date
+ *         status:
+ *           type: string
+ *           enum: [draft, signed]
+ *         diagnosis:
+ *           type: string
+ *         patient_id:
+ *           type: string
+ *         patient_name:
+ *           type: string
+ *         score:
+ *           type: number
+ *         snippet:
+ *           $ref: '#/components/schemas/SearchSnippet'
+ */
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Search patients and visits
+ *     description: >
+ *       Every term has to match. Plain words are looked up in patient names and ID numbers
+ *       and in the diagnosis, medications and notes of visits. "Quoted words" match as a
+ *       phrase, a trailing * as a prefix (diab*), and name:, dx: and med: limit a term to the
+ *       patient name, the diagnosis or the medications. Words shorter than 3 characters and
+ *       common words such as "the" or "with" are ignored. Visits are only searched for roles that can read them; deleted and merged
+ *       records are never returned.
+ *     tags:
+ *       - Search
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: 'name:"mary ann" dx:diab*'
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [patients, visits]
+ *         description: Only search this kind of record
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 50
+ *         description: Hits per group; more than 50 is capped
+ *     responses:
+ *       200:
+ *         description: >
+ *           Hits grouped by kind, best first. visits is left out for roles without visits:read.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 terms:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       field:
+ *                         type: string
+ *                         enum: [any, name, dx, med]
+ *                       text:
+ *                         type: string
+ *                       phrase:
+ *                         type: boolean
+ *                       prefix:
+ *                         type: boolean
+ *                 ignored:
+ *                   type: array
+ *                   description: Parts of q too short or too common to search for
+ *                   items:
+ *                     type: string
+ *                 patients:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/PatientSearchHit'
+ *                 visits:
+ *                   type: object
+ *                   properties:
+ *                     total:
+ *                       type: integer
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/VisitSearchHit'
+ *       400:
+ *         description: Missing q, no term to search for, unknown type or invalid limit
+ *       403:
+ *         description: "Visits, dx: or med: asked for by a role that cannot read visits"
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("patients:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const q = String(req.query.q || "").trim();
+    const type = req.query.type as string | undefined;
+    const limit = req.query.limit === undefined ? 10 : Number(req.query.limit);
+
+    if (!q) {
+      return res.status(400).json({ message: "q is required" });
+    }
+    if (type && !SEARCH_TYPES.includes(type)) {
+      return res.status(400).json({
+        message: `type must be one of: ${SEARCH_TYPES.join(", ")}`,
+      });
+    }
+    // it ends up in the LIMIT clause as it is, so only a whole number gets through
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return res
+        .status(400)
+        .json({ message: "limit must be a positive integer" });
+    }
+    const perGroup = Math.min(limit, MAX_SEARCH_LIMIT);
+
+    const { terms, ignored } = parseSearchQuery(q);
+
+    if (!terms.length) {
+      return res.status(400).json({
+        message: `Search terms must be at least ${MIN_TERM_LENGTH} characters and not only common words`,
+      });
+    }
+
+    // roles without clinical access only ever search demographics
+    const canReadVisits = hasPermission(tokenInfo.role, "visits:read");
+
+    if (
+      !canReadVisits &&
+      (type === "visits" ||
+        terms.some((term) => term.field === "dx" || term.field === "med"))
+    ) {
+      return res.status(403).json({
+        message: "Searching visits requires the visits:read permission",
+      });
+    }
+
+    try {
+      const patients =
+        type === "visits"
+          ? undefined
+          : await searchPatients(tokenInfo.organizationId, terms, perGroup);
+      const visits =
+        type === "patients" || !canReadVisits
+          ? undefined
+          : await searchVisits(tokenInfo.organizationId, terms, perGroup);
+
+      return res.json({ terms, ignored, patients, visits });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,402 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { AuditEntry, recordAudit } from "../utils/audit";
+import { removeStoredFiles } from "../utils/attachments";
+import { hasUnrevertedMerges } from "../utils/merges";
+import {
+  MERGED_SURVIVOR_MESSAGE,
+  SIGNED_PATIENT_MESSAGE,
+  TRASH_RETENTION_DAYS,
+  expiredTrash,
+  findDeleted,
+  hasSignedVisits,
+  listTrash,
+  purgePatient,
+  purgeVisit,
+} from "../utils/trash";
+
+const router = express.Router();
+
+// purges one record and records it in the same transaction; its files are removed once
+// that has committed. Returns why the record has to stay, or null once it is purged.
+const purgeRecorded = async (
+  req: Request,
+  type: "patients" | "visits",
+  uuid: string,
+  entry: AuditEntry
+): Promise<string | null> => {
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+
+    if (type === "patients" && (await hasSignedVisits(conn, uuid))) {
+      await conn.rollback();
+      return SIGNED_PATIENT_MESSAGE;
+    }
+    if (type === "patients" && (await hasUnrevertedMerges(conn, uuid))) {
+      await conn.rollback();
+      return MERGED_SURVIVOR_MESSAGE;
+    }
+
+    const files =
+      type === "patients"
+        ? await purgePatient(conn, uuid)
+        : await purgeVisit(conn, uuid);
+    await recordAudit(req, entry, conn);
+    await conn.commit();
+    await removeStoredFiles(files);
+    return null;
+  } catch (err) {
+    await conn.rollback();
+    throw err;
+  } finally {
+    conn.release();
+  }
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TrashedPatient:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         name:
+ *           type: string
+ *         id_number:
+ *           type: string
+ *         visit_count:
+ *           type: integer
+ *           description: Visits that were deleted along with the patient
+ *         deleted_at:
+ *           type: string
+ *         deleted_by:
+ *           type: string
+ *         deleted_by_name:
+ *           type: string
+ *         purgeable_from:
+ *           type: string
+ *           description: When the retention window ends and the patient can be purged
+ *     TrashedVisit:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         visit_date:
+ *           type: string
+ *         diagnosis:
+ *           type: string
+ *         patient_id:
+ *           type: string
+ *         patient_name:
+ *           type: string
+ *         patient_deleted:
+ *           type: boolean
+ *           description: The patient is in the trash too; restore them first
+ *         deleted_at:
+ *           type: string
+ *         deleted_by:
+ *           type: string
+ *         deleted_by_name:
+ *           type: string
+ *         purgeable_from:
+ *           type: string
+ */
+
+const listHandler =
+  (type: "patients" | "visits") => async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 20;
+
+    if (page <= 0 || limit <= 0) {
+      return res.status(400).json({ message: "Invalid page or limit" });
+    }
+
+    try {
+      return res.json(
+        await listTrash(type, req.tokenInfo.organizationId, page, limit)
+      );
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  };
+
+const purgeHandler =
+  (type: "patients" | "visits") => async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const label = type === "patients" ? "Patient" : "Visit";
+
+    try {
+      const row = await findDeleted(
+        type,
+        String(uuid),
+        req.tokenInfo.organizationId
+      );
+
+      if (!row) {
+        return res.status(404).json({ message: `${label} not found in trash` });
+      }
+      if (!row.purgeable) {
+        return res.status(409).json({
+          message: `${label} can only be purged ${TRASH_RETENTION_DAYS} days after it was deleted`,
+        });
+      }
+
+      const refusal = await purgeRecorded(req, type, row.uuid, {
+        action: "purge",
+        resourceType: type === "patients" ? "patient" : "visit",
+        resourceUuid: row.uuid,
+        patientId: type === "patients" ? row.uuid : row.patient_id,
+        before: { deleted_at: row.deleted_at, deleted_by: row.deleted_by },
+      });
+
+      if (refusal) {
+        return res.status(409).json({ message: refusal });
+      }
+
+      return res.json({ message: `${label} purged` });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  };
+
+/**
+ * @swagger
+ * /api/trash/patients:
+ *   get:
+ *     summary: List deleted patients that can still be restored
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Deleted patients, most recently deleted first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedPatient'
+ *                 total:
+ *                   type: integer
+ *       400:
+ *         description: Invalid page or limit
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/patients",
+  verifyToken,
+  requirePermission("patients:delete"),
+  listHandler("patients")
+);
+
+/**
+ * @swagger
+ * /api/trash/visits:
+ *   get:
+ *     summary: List deleted visits that can still be restored
+ *     description: Visits deleted along with their patient are listed under the patient instead.
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Deleted visits, most recently deleted first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TrashedVisit'
+ *                 total:
+ *                   type: integer
+ *       400:
+ *         description: Invalid page or limit
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/visits",
+  verifyToken,
+  requirePermission("visits:delete"),
+  listHandler("visits")
+);
+
+/**
+ * @swagger
+ * /api/trash/patients/{uuid}:
+ *   delete:
+ *     summary: Permanently remove a deleted patient, their visits and attachments
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Patient purged
+ *       404:
+ *         description: No deleted patient with this uuid
+ *       409:
+ *         description: The patient is still within the retention window, has signed visits or has other patients merged into them
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/patients/:uuid",
+  verifyToken,
+  requirePermission("trash:purge"),
+  purgeHandler("patients")
+);
+
+/**
+ * @swagger
+ * /api/trash/visits/{uuid}:
+ *   delete:
+ *     summary: Permanently remove a deleted visit and everything recorded on it
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Visit purged
+ *       404:
+ *         description: No deleted visit with this uuid, or it was deleted along with its patient
+ *       409:
+ *         description: The visit is still within the retention window
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/visits/:uuid",
+  verifyToken,
+  requirePermission("trash:purge"),
+  purgeHandler("visits")
+);
+
+/**
+ * @swagger
+ * /api/trash/purge:
+ *   post:
+ *     summary: Purge everything that has been in the trash past the retention window
+ *     description: >
+ *       Patients with signed visits or with other patients merged into them are left in
+ *       the trash.
+ *     tags:
+ *       - Trash
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: The uuids of what was purged
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 patients:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 visits:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/purge",
+  verifyToken,
+  requirePermission("trash:purge"),
+  async (req: Request, res: Response) => {
+    try {
+      const expired = await expiredTrash(req.tokenInfo.organizationId);
+      const purged: { patients: string[]; visits: string[] } = {
+        patients: [],
+        visits: [],
+      };
+
+      for (const patientUuid of expired.patients) {
+        const refusal = await purgeRecorded(req, "patients", patientUuid, {
+          action: "purge",
+          resourceType: "patient",
+          resourceUuid: patientUuid,
+          patientId: patientUuid,
+        });
+        if (!refusal) {
+          purged.patients.push(patientUuid);
+        }
+      }
+      for (const visit of expired.visits) {
+        await purgeRecorded(req, "visits", visit.uuid, {
+          action: "purge",
+          resourceType: "visit",
+          resourceUuid: visit.uuid,
+          patientId: visit.patientId,
+        });
+        purged.visits.push(visit.uuid);
+      }
+
+      return res.json(purged);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
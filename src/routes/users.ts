@@ -1,10 +1,57 @@
 import express, { Request, Response, NextFunction } from "express";
-import { hashPassword, comparePassword } from "../utils/password";
+import {
+  hashPassword,
+  comparePassword,
+  passwordProblem,
+  comparePasswordAgainstDummy,
+} from "../utils/password";
 import uuid from "../utils/uuid";
-import generateToken from "../utils/token";
+import generateToken, {
+  authCookieOptions,
+  refreshCookieOptions,
+  generateMfaChallenge,
+  verifyMfaChallenge,
+} from "../utils/token";
 import verifyToken from "../middleware/cookie-validation";
 import bcrypt from "bcrypt";
 import { pool as db } from "../utils/database-config";
+import {
+  Organization,
+  createOrganization,
+  defaultOrganizationFor,
+  findMembership,
+  organizationsRequiringTwoFactor,
+} from "../utils/organizations";
+import {
+  createSession,
+  findSessionByRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  markSessionMfaVerified,
+} from "../utils/sessions";
+import jwt from "jsonwebtoken";
+import environments from "../env-config";
+import { RowDataPacket } from "mysql2";
+import { generateSecureToken, hashToken } from "../utils/secure-token";
+import { mailConfigured, sendMail } from "../utils/mail";
+import {
+  checkLoginAllowed,
+  registerLoginFailure,
+  registerLoginSuccess,
+} from "../utils/login-attempts";
+import {
+  generateTotpSecret,
+  provisioningUri,
+  sealSecret,
+  openSecret,
+  verifyTotp,
+} from "../utils/totp";
+import { checkSecondFactor, replaceRecoveryCodes } from "../utils/two-factor";
+
+const { tokenSecretKey, appUrl } = environments;
+
+const PASSWORD_RESET_TTL_MINUTES = 30;
 
 const router = express.Router();
 
@@ -12,6 +59,62 @@ router.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+const setSessionCookies = (
+  res: Response,
+  user: any,
+  organization: Organization,
+  sessionId: string,
+  refreshToken: string,
+  mfaVerified: boolean
+) => {
+  const token = generateToken({
+    firstName: user.first_name,
+    lastName: user.last_name,
+    email: user.email,
+    uuid: user.uuid,
+    organizationId: organization.uuid,
+    role: organization.role,
+    sessionId,
+    mfaVerified,
+    mfaRequired: organization.require_2fa === 1,
+  });
+
+  res.cookie("authorizationToken", token, authCookieOptions);
+  res.cookie("refreshToken", refreshToken, refreshCookieOptions);
+};
+
+// opens a new session in the user's default organization; false when they belong to none
+const startSession = async (
+  req: Request,
+  res: Response,
+  user: any,
+  mfaVerified: boolean
+): Promise<boolean> => {
+  const organization = await defaultOrganizationFor(user.uuid);
+
+  if (!organization) {
+    return false;
+  }
+
+  const { sessionId, refreshToken } = await createSession(
+    req,
+    user.uuid,
+    organization.uuid,
+    mfaVerified
+  );
+
+  setSessionCookies(
+    res,
+    user,
+    organization,
+    sessionId,
+    refreshToken,
+    mfaVerified
+  );
+
+  return true;
+};
+
 /**
  * @swagger
  * /api/user/me:
@@ -41,6 +144,12 @@ router.use((req: Request, res: Response, next: NextFunction) => {
  *                 email:
  *                   type: string
  *                   example: "john@example.com"
+ *                 organizationId:
+ *                   type: string
+ *                   example: "0f3c2a1e-8d2b-4a52-9c0f-6a1b2c3d4e5f"
+ *                 role:
+ *                   type: string
+ *                   example: "doctor"
  *       401:
  *         description: Unauthorized
  */
@@ -49,6 +158,8 @@ router.get("/me", verifyToken, (req, res) => {
   res.json({
     name: tokenInfo.firstName + " " + tokenInfo.lastName,
     email: tokenInfo.email,
+    organizationId: tokenInfo.organizationId,
+    role: tokenInfo.role,
   });
 });
 
@@ -124,6 +235,8 @@ router.post("/register", async (req: Request, res: Response) => {
   const { firstName, lastName, email, dialCode, phoneNumber, repeatPassword } =
     req.body;
 
+  const conn = await db.getConnection();
+
   try {
     const sql = `
       INSERT INTO users (uuid, first_name, last_name, email, password_hash, salt)
@@ -132,7 +245,9 @@ router.post("/register", async (req: Request, res: Response) => {
     let userId = uuid();
     let salt = await bcrypt.genSalt(10);
     const hashedPassword = await hashPassword(repeatPassword, salt);
-    await db.execute(sql, [
+
+    await conn.beginTransaction();
+    await conn.execute(sql, [
       userId,
       firstName,
       lastName,
@@ -140,9 +255,17 @@ router.post("/register", async (req: Request, res: Response) => {
       hashedPassword,
       salt,
     ]);
+    await createOrganization(
+      conn,
+      `${firstName} ${lastName}'s practice`,
+      userId,
+      true
+    );
+    await conn.commit();
 
     return res.status(201).json({ message: "User Registered" });
   } catch (err: any) {
+    await conn.rollback();
     if (err.code === "ER_DUP_ENTRY") {
       return res.status(409).json({
         message:
@@ -152,6 +275,8 @@ router.post("/register", async (req: Request, res: Response) => {
     return res
       .status(500)
       .json({ message: "We encountered a problem. Retry in a few" });
+  } finally {
+    conn.release();
   }
 });
 
@@ -182,7 +307,7 @@ router.post("/register", async (req: Request, res: Response) => {
  *                 example: myPassword123
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a two-factor challenge when the user has 2FA enabled
  *         content:
  *           application/json:
  *             schema:
@@ -191,8 +316,14 @@ router.post("/register", async (req: Request, res: Response) => {
  *                 message:
  *                   type: string
  *                   example: Login successful
- *       403:
- *         description: Invalid credentials
+ *                 mfaRequired:
+ *                   type: boolean
+ *                   example: true
+ *                 challenge:
+ *                   type: string
+ *                   description: Pass to /api/user/login/2fa within 5 minutes
+ *       401:
+ *         description: Unknown email or wrong password; the two are deliberately indistinguishable
  *         content:
  *           application/json:
  *             schema:
@@ -200,9 +331,11 @@ router.post("/register", async (req: Request, res: Response) => {
  *               properties:
  *                 message:
  *                   type: string
- *                   example: Invalid credentials.
- *       404:
- *         description: User not found
+ *                   example: Invalid email or password.
+ *       403:
+ *         description: Not a member of any organization
+ *       429:
+ *         description: Too many failed attempts; see the Retry-After header
  *         content:
  *           application/json:
  *             schema:
@@ -210,7 +343,7 @@ router.post("/register", async (req: Request, res: Response) => {
  *               properties:
  *                 message:
  *                   type: string
- *                   example: User not found
+ *                   example: Too many failed attempts. Try again later.
  *       500:
  *         description: Internal server error
  *         content:
@@ -222,40 +355,56 @@ router.post("/register", async (req: Request, res: Response) => {
  *                   type: string
  *                   example: We encountered a problem. Retry in a few
  */
+const tooManyAttempts = (res: Response, retryAfterSeconds: number) => {
+  res.set("Retry-After", String(retryAfterSeconds));
+  return res
+    .status(429)
+    .json({ message: "Too many failed attempts. Try again later." });
+};
+
 router.post("/login", async (req: Request, res: Response) => {
   const { email, password } = req.body;
 
   try {
-    const sql = `SELECT first_name, last_name, email, uuid, password_hash FROM users WHERE email=? LIMIT 1`;
+    const throttle = await checkLoginAllowed(email, req.ip);
+
+    if (!throttle.allowed) {
+      return tooManyAttempts(res, throttle.retryAfterSeconds);
+    }
+
+    const sql = `SELECT first_name, last_name, email, uuid, password_hash, totp_enabled_at FROM users WHERE email=? LIMIT 1`;
 
     const [rows] = await db.execute(sql, [email]);
 
     const users = rows as any;
 
-    if (users.length === 0) {
-      return res.status(404).json({ message: "User not found" });
-    }
-
     const user = users[0];
 
-    const passwordMatch = await comparePassword(password, user.password_hash);
+    const passwordMatch = user
+      ? await comparePassword(password, user.password_hash)
+      : await comparePasswordAgainstDummy(password);
 
     if (!passwordMatch) {
-      return res.status(403).json({ message: "Invalid credentials." });
+      await registerLoginFailure(email, req.ip);
+      return res.status(401).json({ message: "Invalid email or password." });
     }
 
-    const token = generateToken(
-      user.first_name,
-      user.last_name,
-      user.email,
-      user.uuid
-    );
+    // the second factor still counts against the account until it succeeds
+    if (user.totp_enabled_at) {
+      return res.status(200).json({
+        message: "Two-factor authentication required",
+        mfaRequired: true,
+        challenge: generateMfaChallenge(user.uuid),
+      });
+    }
 
-    res.cookie("authorizationToken", token, {
-      httpOnly: true,
-      secure: true,
-      sameSite: "lax",
-    });
+    await registerLoginSuccess(email);
+
+    if (!(await startSession(req, res, user, false))) {
+      return res
+        .status(403)
+        .json({ message: "You are not a member of any organization." });
+    }
 
     return res.status(200).json({ message: "Login successful" });
   } catch (err: any) {
@@ -265,12 +414,940 @@ router.post("/login", async (req: Request, res: Response) => {
   }
 });
 
-router.get("/logout", (req: Request, res: Response) => {
+/**
+ * @swagger
+ * /api/user/refresh:
+ *   post:
+ *     summary: Rotate the refresh token and issue a new access token
+ *     description: Reads the refreshToken cookie. Presenting a refresh token that was already used revokes its session.
+ *     tags:
+ *       - Authentication
+ *     responses:
+ *       200:
+ *         description: New access and refresh cookies issued
+ *       401:
+ *         description: Missing, expired, revoked or reused refresh token
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  const presented: string | undefined = req.cookies.refreshToken;
+
+  if (!presented) {
+    return res.status(401).json({ message: "Please log in again." });
+  }
+
+  try {
+    const result = await rotateRefreshToken(presented);
+
+    if (result.status !== "ok") {
+      res.clearCookie("refreshToken", refreshCookieOptions);
+      return res.status(401).json({ message: "Please log in again." });
+    }
+
+    const { session, refreshToken } = result;
+
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT first_name, last_name, email, uuid FROM users WHERE uuid = ? LIMIT 1`,
+      [session.user_id]
+    );
+
+    // membership or role may have changed since the session started
+    const organization =
+      (await findMembership(session.user_id, session.organization_id)) ||
+      (await defaultOrganizationFor(session.user_id));
+
+    if (rows.length === 0 || !organization) {
+      await revokeSession(session.uuid, "membership removed");
+      return res.status(401).json({ message: "Please log in again." });
+    }
+
+    setSessionCookies(
+      res,
+      rows[0],
+      organization,
+      session.uuid,
+      refreshToken,
+      session.mfa_verified === 1
+    );
+
+    return res.status(200).json({ message: "Token refreshed" });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+});
+
+// works from either cookie so an expired access token does not prevent logging out
+const currentSessionId = async (req: Request): Promise<string | null> => {
+  if (req.cookies.refreshToken) {
+    return findSessionByRefreshToken(req.cookies.refreshToken);
+  }
+
+  if (req.cookies.authorizationToken) {
+    try {
+      const decoded = jwt.verify(
+        req.cookies.authorizationToken,
+        tokenSecretKey as string,
+        { ignoreExpiration: true }
+      ) as jwt.JwtPayload;
+      return decoded.sessionId || null;
+    } catch (err) {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * @swagger
+ * /api/user/logout:
+ *   get:
+ *     summary: Log out and revoke the current session
+ *     tags:
+ *       - Authentication
+ *     responses:
+ *       200:
+ *         description: Session revoked and cookies cleared
+ */
+router.get("/logout", async (req: Request, res: Response) => {
+  try {
+    const sessionId = await currentSessionId(req);
+
+    if (sessionId) {
+      await revokeSession(sessionId, "logout");
+    }
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+
   res.clearCookie("authorizationToken", { domain: "localhost", path: "/" });
+  res.clearCookie("refreshToken", refreshCookieOptions);
 
   res.sendStatus(200);
 });
 
+/**
+ * @swagger
+ * /api/user/logout-all:
+ *   post:
+ *     summary: Log out everywhere by revoking every session of the user
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/logout-all", verifyToken, async (req: Request, res: Response) => {
+  const { tokenInfo } = req;
+
+  try {
+    const revoked = await revokeUserSessions(
+      tokenInfo.uuid,
+      "logout everywhere"
+    );
+
+    res.clearCookie("authorizationToken", { domain: "localhost", path: "/" });
+    res.clearCookie("refreshToken", refreshCookieOptions);
+
+    return res.status(200).json({ message: "Logged out everywhere", revoked });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/sessions:
+ *   get:
+ *     summary: List the active sessions of the logged-in user
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   uuid:
+ *                     type: string
+ *                   device:
+ *                     type: string
+ *                     example: "Mozilla/5.0 (Windows NT 10.0; Win64; x64)"
+ *                   ip:
+ *                     type: string
+ *                     example: "10.0.0.12"
+ *                   createdAt:
+ *                     type: string
+ *                   lastSeenAt:
+ *                     type: string
+ *                   current:
+ *                     type: boolean
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/sessions", verifyToken, async (req: Request, res: Response) => {
+  const { tokenInfo } = req;
+
+  try {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `
+      SELECT uuid, user_agent, ip, created_at, last_seen_at
+      FROM sessions
+      WHERE user_id = ? AND revoked_at IS NULL
+      ORDER BY last_seen_at DESC
+      `,
+      [tokenInfo.uuid]
+    );
+
+    return res.json(
+      rows.map((row) => ({
+        uuid: row.uuid,
+        device: row.user_agent,
+        ip: row.ip,
+        createdAt: row.created_at,
+        lastSeenAt: row.last_seen_at,
+        current: row.uuid === tokenInfo.sessionId,
+      }))
+    );
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/sessions/{uuid}:
+ *   delete:
+ *     summary: Revoke one of the logged-in user's sessions
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  "/sessions/:uuid",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { uuid: sessionId } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const revoked = await revokeSession(
+        sessionId,
+        "revoked by user",
+        tokenInfo.uuid
+      );
+
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      return res.status(200).json({ message: "Session revoked" });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered a problem. Retry in a few" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/user/forgot-password:
+ *   post:
+ *     summary: Email a password reset link
+ *     description: Always answers the same way so it cannot be used to find out which emails are registered.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: johndoe@example.com
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the account exists
+ *       400:
+ *         description: Missing email
+ *       500:
+ *         description: Internal server error
+ *       503:
+ *         description: No mail transport is configured
+ */
+router.post("/forgot-password", async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (!email) {
+    return res.status(400).json({ message: "Email is required" });
+  }
+
+  // answered before the lookup, so it tells nothing about whether the account exists
+  if (!mailConfigured()) {
+    return res
+      .status(503)
+      .json({ message: "Password reset by email is not available" });
+  }
+
+  try {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT uuid, first_name FROM users WHERE email = ? LIMIT 1`,
+      [email]
+    );
+
+    if (rows.length > 0) {
+      const user = rows[0];
+      const token = generateSecureToken();
+
+      // only the newest link works
+      await db.execute(
+        `UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = ? AND used_at IS NULL`,
+        [user.uuid]
+      );
+      await db.execute(
+        `
+        INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, requested_ip)
+        VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ${PASSWORD_RESET_TTL_MINUTES} MINUTE), ?)
+        `,
+        [user.uuid, hashToken(token), req.ip || null]
+      );
+
+      const link = `${appUrl}/reset-password?token=${token}`;
+
+      await sendMail({
+        to: email,
+        subject: "Reset your MedHub password",
+        text: `Hi ${user.first_name},\n\nUse the link below to choose a new password. It expires in ${PASSWORD_RESET_TTL_MINUTES} minutes and can only be used once.\n\n${link}\n\nIf you did not ask for this, you can ignore this email.`,
+      });
+    }
+
+    return res.status(200).json({
+      message:
+        "If an account exists for this email, a reset link has been sent",
+    });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/reset-password:
+ *   post:
+ *     summary: Set a new password using a reset token
+ *     description: The token is single use. Every session of the user is revoked.
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *               - repeatPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               repeatPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Invalid or expired token, or unacceptable password
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/reset-password", async (req: Request, res: Response) => {
+  const { token, password, repeatPassword } = req.body;
+
+  if (!token) {
+    return res.status(400).json({ message: "Reset token is required" });
+  }
+
+  const problem = passwordProblem(password, repeatPassword);
+
+  if (problem) {
+    return res.status(400).json({ message: problem });
+  }
+
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+
+    const [rows] = await conn.execute<RowDataPacket[]>(
+      `
+      SELECT id, user_id FROM password_reset_tokens
+      WHERE token_hash = ? AND used_at IS NULL AND expires_at > NOW()
+      LIMIT 1
+      FOR UPDATE
+      `,
+      [hashToken(token)]
+    );
+
+    if (rows.length === 0) {
+      await conn.rollback();
+      return res
+        .status(400)
+        .json({ message: "This reset link is invalid or has expired" });
+    }
+
+    const { id, user_id: userId } = rows[0];
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await hashPassword(password, salt);
+
+    await conn.execute(
+      `UPDATE users SET password_hash = ?, salt = ? WHERE uuid = ?`,
+      [hashedPassword, salt, userId]
+    );
+    await conn.execute(
+      `UPDATE password_reset_tokens SET used_at = NOW() WHERE id = ?`,
+      [id]
+    );
+    await conn.commit();
+
+    await revokeUserSessions(userId, "password reset");
+
+    return res.status(200).json({ message: "Password reset. Please log in" });
+  } catch (err) {
+    await conn.rollback();
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  } finally {
+    conn.release();
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/change-password:
+ *   post:
+ *     summary: Change the logged-in user's password
+ *     description: Every other session of the user is revoked; the current one stays logged in.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - password
+ *               - repeatPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 format: password
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               repeatPassword:
+ *                 type: string
+ *                 format: password
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Unacceptable new password
+ *       403:
+ *         description: Current password is wrong
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/change-password",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { currentPassword, password, repeatPassword } = req.body;
+    const { tokenInfo } = req;
+
+    const problem = passwordProblem(password, repeatPassword);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `SELECT password_hash FROM users WHERE uuid = ? LIMIT 1`,
+        [tokenInfo.uuid]
+      );
+
+      if (
+        rows.length === 0 ||
+        !currentPassword ||
+        !(await comparePassword(currentPassword, rows[0].password_hash))
+      ) {
+        return res.status(403).json({ message: "Invalid credentials." });
+      }
+
+      const salt = await bcrypt.genSalt(10);
+      const hashedPassword = await hashPassword(password, salt);
+
+      await db.execute(
+        `UPDATE users SET password_hash = ?, salt = ? WHERE uuid = ?`,
+        [hashedPassword, salt, tokenInfo.uuid]
+      );
+      await revokeUserSessions(
+        tokenInfo.uuid,
+        "password changed",
+        tokenInfo.sessionId
+      );
+
+      return res.status(200).json({ message: "Password changed" });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered a problem. Retry in a few" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/user/login/2fa:
+ *   post:
+ *     summary: Complete a two-step login with an authenticator or recovery code
+ *     tags:
+ *       - Authentication
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challenge
+ *             properties:
+ *               challenge:
+ *                 type: string
+ *                 description: Returned by /api/user/login
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: "4f9c-21ab-7d3e"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Challenge expired or code invalid
+ *       429:
+ *         description: Too many failed attempts; see the Retry-After header
+ *       403:
+ *         description: Not a member of any organization
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/login/2fa", async (req: Request, res: Response) => {
+  const { challenge, code, recoveryCode } = req.body;
+
+  const userUuid = challenge ? verifyMfaChallenge(challenge) : null;
+
+  if (!userUuid) {
+    return res
+      .status(401)
+      .json({ message: "Your login attempt expired. Please log in again." });
+  }
+
+  try {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT first_name, last_name, email, uuid FROM users WHERE uuid = ? LIMIT 1`,
+      [userUuid]
+    );
+
+    if (rows.length === 0) {
+      return res
+        .status(401)
+        .json({ message: "Your login attempt expired. Please log in again." });
+    }
+
+    const user = rows[0];
+    const throttle = await checkLoginAllowed(user.email, req.ip);
+
+    if (!throttle.allowed) {
+      return tooManyAttempts(res, throttle.retryAfterSeconds);
+    }
+
+    if (!(await checkSecondFactor(userUuid, { code, recoveryCode }))) {
+      await registerLoginFailure(user.email, req.ip);
+      return res.status(401).json({ message: "Invalid verification code." });
+    }
+
+    await registerLoginSuccess(user.email);
+
+    if (!(await startSession(req, res, user, true))) {
+      return res
+        .status(403)
+        .json({ message: "You are not a member of any organization." });
+    }
+
+    return res.status(200).json({ message: "Login successful" });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generates a new secret. Scan the otpauth URI as a QR code, then confirm with a code.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and provisioning URI
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                   example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+ *                 otpauthUri:
+ *                   type: string
+ *                   example: "otpauth://totp/MedHub%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=MedHub"
+ *       409:
+ *         description: Two-factor authentication is already enabled
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/2fa/setup", verifyToken, async (req: Request, res: Response) => {
+  const { tokenInfo } = req;
+
+  try {
+    const secret = generateTotpSecret();
+
+    const [result]: any = await db.execute(
+      `UPDATE users SET totp_secret = ? WHERE uuid = ? AND totp_enabled_at IS NULL`,
+      [sealSecret(secret), tokenInfo.uuid]
+    );
+
+    if (result.affectedRows === 0) {
+      return res
+        .status(409)
+        .json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    return res.status(200).json({
+      secret,
+      otpauthUri: provisioningUri(secret, tokenInfo.email),
+    });
+  } catch (err) {
+    return res
+      .status(500)
+      .json({ message: "We encountered a problem. Retry in a few" });
+  }
+});
+
+/**
+ * @swagger
+ * /api/user/2fa/confirm:
+ *   post:
+ *     summary: Confirm enrollment with a code from the authenticator app
+ *     description: Enables two-factor authentication and returns one-time recovery codes, which are only shown once.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "492039"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *       400:
+ *         description: Enrollment not started or code invalid
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/2fa/confirm",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { code } = req.body;
+    const { tokenInfo } = req;
+
+    try {
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `
+        SELECT first_name, last_name, email, uuid, totp_secret FROM users
+        WHERE uuid = ? AND totp_secret IS NOT NULL AND totp_enabled_at IS NULL
+        LIMIT 1
+        `,
+        [tokenInfo.uuid]
+      );
+
+      if (rows.length === 0) {
+        return res
+          .status(400)
+          .json({ message: "Start two-factor setup first" });
+      }
+
+      const step = verifyTotp(openSecret(rows[0].totp_secret), code);
+
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid verification code." });
+      }
+
+      await db.execute(
+        `UPDATE users SET totp_enabled_at = NOW(), totp_last_step = ? WHERE uuid = ?`,
+        [step, tokenInfo.uuid]
+      );
+      const recoveryCodes = await replaceRecoveryCodes(tokenInfo.uuid);
+
+      // the code just entered satisfies two-factor for the current session too
+      await markSessionMfaVerified(tokenInfo.sessionId);
+      res.cookie(
+        "authorizationToken",
+        generateToken({ ...tokenInfo, mfaVerified: true }),
+        authCookieOptions
+      );
+
+      return res.status(200).json({
+        message: "Two-factor authentication enabled",
+        recoveryCodes,
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered a problem. Retry in a few" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/user/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace the recovery codes
+ *     description: Requires a current authenticator code. Earlier recovery codes stop working.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes
+ *       400:
+ *         description: Code invalid
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/2fa/recovery-codes",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { code } = req.body;
+    const { tokenInfo } = req;
+
+    try {
+      if (!(await checkSecondFactor(tokenInfo.uuid, { code }))) {
+        return res.status(400).json({ message: "Invalid verification code." });
+      }
+
+      const recoveryCodes = await replaceRecoveryCodes(tokenInfo.uuid);
+
+      return res.status(200).json({ recoveryCodes });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered a problem. Retry in a few" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/user/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     description: Refused while any of the user's organizations requires it. The user's other sessions are revoked.
+ *     tags:
+ *       - Authentication
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       403:
+ *         description: Password or code invalid
+ *       409:
+ *         description: One of the user's organizations requires two-factor authentication
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/2fa/disable",
+  verifyToken,
+  async (req: Request, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      // checked before the factors, so a recovery code is not used up for nothing. Every
+      // membership counts, not just the current one: switching organizations is not a way out
+      const requiring = await organizationsRequiringTwoFactor(tokenInfo.uuid);
+
+      if (requiring.length) {
+        return res.status(409).json({
+          message: `${requiring.join(", ")} ${
+            requiring.length === 1 ? "requires" : "require"
+          } two-factor authentication, so it cannot be turned off`,
+        });
+      }
+
+      const [rows] = await db.execute<RowDataPacket[]>(
+        `SELECT password_hash FROM users WHERE uuid = ? LIMIT 1`,
+        [tokenInfo.uuid]
+      );
+
+      if (
+        rows.length === 0 ||
+        !password ||
+        !(await comparePassword(password, rows[0].password_hash)) ||
+        !(await checkSecondFactor(tokenInfo.uuid, { code, recoveryCode }))
+      ) {
+        return res.status(403).json({ message: "Invalid credentials." });
+      }
+
+      await conn.beginTransaction();
+      await conn.execute(
+        `
+        UPDATE users SET totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL
+        WHERE uuid = ?
+        `,
+        [tokenInfo.uuid]
+      );
+      await conn.execute(`DELETE FROM user_recovery_codes WHERE user_id = ?`, [
+        tokenInfo.uuid,
+      ]);
+      // the sessions passed a factor that no longer exists: the others end, and this
+      // one is no longer counted as verified once its token is refreshed
+      await conn.execute(
+        `UPDATE sessions SET mfa_verified = 0 WHERE uuid = ?`,
+        [tokenInfo.sessionId]
+      );
+      await revokeUserSessions(
+        tokenInfo.uuid,
+        "two-factor disabled",
+        tokenInfo.sessionId,
+        conn
+      );
+      await conn.commit();
+
+      return res
+        .status(200)
+        .json({ message: "Two-factor authentication disabled" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered a problem. Retry in a few" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
 router.get("/check-token", verifyToken, (req: Request, res: Response) => {
   const { tokenInfo } = req;
 
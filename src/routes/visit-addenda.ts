@@ -0,0 +1,210 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import { addAddendum, addendumProblem, listAddenda } from "../utils/sign-off";
+
+// mounted under /api/visits/:uuid/addenda
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     VisitAddendum:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         text:
+ *           type: string
+ *           example: "Amoxicillin dose should read 500 mg, not 250 mg."
+ *         created_by:
+ *           type: string
+ *         created_by_name:
+ *           type: string
+ *         created_at:
+ *           type: string
+ *           example: "2025-11-13 08:10:00"
+ */
+
+const findVisit = async (visitUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid, patient_id, status FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [visitUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/addenda:
+ *   get:
+ *     summary: List the addenda of a visit
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     responses:
+ *       200:
+ *         description: Addenda, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/VisitAddendum'
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const visit = await findVisit(String(uuid), tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      return res.json(await listAddenda(visit.uuid));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/addenda:
+ *   post:
+ *     summary: Append a correction to a signed visit
+ *     description: Addenda cannot be edited or removed. Drafts are corrected by editing the visit.
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - text
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 maxLength: 5000
+ *     responses:
+ *       201:
+ *         description: Addendum added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VisitAddendum'
+ *       400:
+ *         description: Missing or too long text
+ *       404:
+ *         description: Visit not found
+ *       409:
+ *         description: The visit is still a draft
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("visits:update"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    const problem = addendumProblem(req.body.text);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    try {
+      const visit = await findVisit(String(uuid), tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+      if (visit.status !== "signed") {
+        return res.status(409).json({
+          message:
+            "This visit is a draft. Edit it instead of adding an addendum",
+        });
+      }
+
+      const conn = await db.getConnection();
+      let addendum;
+
+      try {
+        await conn.beginTransaction();
+        const addendumUuid = await addAddendum(
+          visit.uuid,
+          tokenInfo.organizationId,
+          req.body.text,
+          tokenInfo.uuid,
+          conn
+        );
+        addendum = (await listAddenda(visit.uuid, conn)).find(
+          (a) => a.uuid === addendumUuid
+        );
+        await recordAudit(
+          req,
+          {
+            action: "create",
+            resourceType: "visit_addendum",
+            resourceUuid: addendumUuid,
+            patientId: visit.patient_id,
+            after: addendum,
+          },
+          conn
+        );
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+
+      return res.status(201).json(addendum);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
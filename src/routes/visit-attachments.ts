@@ -0,0 +1,351 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import fileUpload from "../middleware/file-upload";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import {
+  AttachmentScope,
+  deleteAttachment,
+  findAttachment,
+  listAttachments,
+  readUpload,
+  removeStoredFiles,
+  saveAttachment,
+  sendAttachment,
+  StoredAttachment,
+  uploadProblem,
+  withoutKey,
+} from "../utils/attachments";
+
+// mounted under /api/visits/:uuid/attachments
+const router = express.Router({ mergeParams: true });
+
+// the visit's own scope, or null when it is not in the caller's organization
+const visitScope = async (req: Request): Promise<AttachmentScope | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid, patient_id FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [req.params.uuid, req.tokenInfo.organizationId]
+  );
+  return rows.length
+    ? {
+        organizationId: req.tokenInfo.organizationId,
+        patientId: rows[0].patient_id,
+        visitId: rows[0].uuid,
+      }
+    : null;
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/attachments:
+ *   get:
+ *     summary: List the files attached to a visit
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     responses:
+ *       200:
+ *         description: Attachments, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Attachment'
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const scope = await visitScope(req);
+
+      if (!scope) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      return res.json(await listAttachments(scope));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/attachments:
+ *   post:
+ *     summary: Attach a file to a visit, such as a lab report or scan
+ *     description: >
+ *       The file is the raw request body, with its type as the Content-Type. The type must be
+ *       one of the accepted ones and agree with the file's content. Size is limited by
+ *       MAX_ATTACHMENT_MB (20 MB by default).
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *       - in: query
+ *         name: filename
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *           enum: [lab-report, imaging, referral, other]
+ *           default: other
+ *       - in: query
+ *         name: description
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/pdf:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         image/*:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       201:
+ *         description: File attached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Attachment'
+ *       400:
+ *         description: Missing filename, empty file, or a type that is not accepted or does not match the content
+ *       404:
+ *         description: Visit not found
+ *       413:
+ *         description: File too large
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("visits:update"),
+  fileUpload,
+  async (req: Request, res: Response) => {
+    const upload = readUpload(req);
+    const problem = uploadProblem(upload);
+
+    if (problem) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+    let stored: StoredAttachment | null = null;
+
+    try {
+      const scope = await visitScope(req);
+
+      if (!scope) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      await conn.beginTransaction();
+
+      stored = await saveAttachment(conn, scope, upload, req.tokenInfo.uuid);
+      const attachment = withoutKey(stored);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "attachment",
+          resourceUuid: attachment.uuid,
+          patientId: scope.patientId,
+          after: attachment,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json(attachment);
+    } catch (err) {
+      await conn.rollback();
+      if (stored) {
+        await removeStoredFiles([stored.storage_key]);
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/attachments/{attachmentUuid}:
+ *   get:
+ *     summary: Download a file attached to a visit
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, with its SHA-256 as the ETag
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Attachment not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:attachmentUuid",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const scope = await visitScope(req);
+      const attachment = scope
+        ? await findAttachment(scope, String(req.params.attachmentUuid))
+        : null;
+
+      if (!scope || !attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "attachment",
+        resourceUuid: attachment.uuid,
+        patientId: scope.patientId,
+      });
+
+      await sendAttachment(res, attachment);
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/attachments/{attachmentUuid}:
+ *   delete:
+ *     summary: Delete a file attached to a visit
+ *     tags:
+ *       - Attachments
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachment deleted
+ *       404:
+ *         description: Attachment not found
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/:attachmentUuid",
+  verifyToken,
+  requirePermission("visits:update"),
+  async (req: Request, res: Response) => {
+    const conn = await db.getConnection();
+
+    try {
+      const scope = await visitScope(req);
+      const attachment = scope
+        ? await findAttachment(scope, String(req.params.attachmentUuid))
+        : null;
+
+      if (!scope || !attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      await conn.beginTransaction();
+      await deleteAttachment(conn, attachment);
+
+      await recordAudit(
+        req,
+        {
+          action: "delete",
+          resourceType: "attachment",
+          resourceUuid: attachment.uuid,
+          patientId: scope.patientId,
+          before: withoutKey(attachment),
+        },
+        conn
+      );
+      await conn.commit();
+      await removeStoredFiles([attachment.storage_key]);
+
+      return res.status(200).json({ message: "Attachment deleted" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
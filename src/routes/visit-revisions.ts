@@ -0,0 +1,221 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import {
+  compareRevisions,
+  listRevisions,
+  revisionRange,
+} from "../utils/revisions";
+
+// mounted under /api/visits/:uuid/revisions
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Revision:
+ *       type: object
+ *       properties:
+ *         revision:
+ *           type: integer
+ *           description: 1 is the record as first entered
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *           description: The amendment reason; null on revision 1
+ *         edited_by:
+ *           type: string
+ *         edited_by_name:
+ *           type: string
+ *         edited_at:
+ *           type: string
+ *           example: "2025-11-12 09:30:00"
+ *         snapshot:
+ *           type: object
+ *           description: The record's fields as they stood after this revision
+ *     RevisionDiff:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: object
+ *           description: The older revision, without its snapshot
+ *         to:
+ *           type: object
+ *           description: The newer revision, without its snapshot
+ *         changes:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               field:
+ *                 type: string
+ *                 example: "notes"
+ *               before: {}
+ *               after: {}
+ */
+
+const findVisit = async (visitUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT uuid, patient_id FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [visitUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/revisions:
+ *   get:
+ *     summary: The amendment history of a visit
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     responses:
+ *       200:
+ *         description: Revisions oldest first; empty while the visit has never been edited
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Revision'
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const visit = await findVisit(String(uuid), tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      const revisions = await listRevisions("visit", visit.uuid);
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "visit_revisions",
+        resourceUuid: visit.uuid,
+        patientId: visit.patient_id,
+      });
+
+      return res.json(revisions);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/revisions/diff:
+ *   get:
+ *     summary: What changed in a visit between two revisions
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the revision before to
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: integer
+ *         description: Defaults to the latest revision
+ *     responses:
+ *       200:
+ *         description: The fields that differ
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RevisionDiff'
+ *       400:
+ *         description: from or to is not a revision number
+ *       404:
+ *         description: Visit or revision not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/diff",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const visit = await findVisit(String(uuid), tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      const range = await revisionRange("visit", visit.uuid, req.query);
+
+      if (typeof range === "string") {
+        return res.status(400).json({ message: range });
+      }
+
+      const diff = await compareRevisions(
+        "visit",
+        visit.uuid,
+        range.from,
+        range.to
+      );
+
+      if (!diff) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "visit_revisions",
+        resourceUuid: visit.uuid,
+        patientId: visit.patient_id,
+        after: { from: range.from, to: range.to },
+      });
+
+      return res.json(diff);
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+export default router;
@@ -1,20 +1,72 @@
 import express, { Request, Response, NextFunction } from "express";
 import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
 import { pool as db } from "../utils/database-config";
+import { hasPermission } from "../utils/permissions";
+import { recordAudit } from "../utils/audit";
+import uuid from "../utils/uuid";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  VISIT_EXPORT_COLUMNS,
+  selectColumns,
+  selectList,
+  streamExport,
+} from "../utils/export";
+import {
+  insertPrescription,
+  prescriptionsProblem,
+  replaceWithFreeText,
+  syncMedicationSummary,
+} from "../utils/prescriptions";
+import {
+  findVisit,
+  followUpDateProblem,
+  visitListFilter,
+} from "../utils/visits";
+import { scheduleFollowUp } from "../utils/reminders";
+import {
+  DocumentKind,
+  getLetterhead,
+  getTemplate,
+  issueDocument,
+  visitDocumentData,
+} from "../utils/documents";
+import { renderDocument } from "../utils/pdf";
+import {
+  TRASH_RETENTION_DAYS,
+  findDeleted,
+  restoreVisit,
+  softDeleteVisit,
+} from "../utils/trash";
+import {
+  amendmentReasonProblem,
+  recordRevision,
+  takeSnapshot,
+} from "../utils/revisions";
+import {
+  SIGNED_VISIT_MESSAGE,
+  SIGN_OFF_AFTER_HOURS,
+  checkSignature,
+  lockDraft,
+  pendingSignOff,
+  signVisit,
+} from "../utils/sign-off";
+import {
+  ALLERGY_CONFLICT_MESSAGE,
+  recordOverrides,
+  requestedMedications,
+  screenPrescribing,
+} from "../utils/allergies";
+import {
+  diagnosesProblem,
+  replaceDiagnoses,
+  syncDiagnosisSummary,
+  unknownCodes,
+} from "../utils/icd10";
 
 const router = express.Router();
 
-interface VisitResponse {
-  uuid: string;
-  visit_date: string;
-  diagnosis: string;
-  prescribed_medications: string;
-  notes?: string;
-  patient_id: string;
-  patient_name: string;
-  patient_id_number?: string;
-}
-
 /**
  * @swagger
  * /api/visits:
@@ -54,6 +106,16 @@ interface VisitResponse {
  *           type: string
  *           format: date
  *         description: Filter visits up to this date
+ *       - in: query
+ *         name: diagnosisCode
+ *         schema:
+ *           type: string
+ *         description: Only visits with a diagnosis under this ICD-10 code (B50 also matches B50.9)
+ *       - in: query
+ *         name: chapter
+ *         schema:
+ *           type: string
+ *         description: Only visits with a diagnosis in this ICD-10 chapter (roman numeral)
  *
  *     responses:
  *       200:
@@ -103,51 +165,37 @@ interface VisitResponse {
  *       500:
  *         description: Server error
  */
-router.get("/", verifyToken, async (req: Request, res: Response) => {
-  const page = Number(req.query.page) || 1;
-  const limit = Number(req.query.limit) || 10;
-  const search = (req.query.search as string) || "";
-  const startDate = req.query.startDate as string | undefined;
-  const endDate = req.query.endDate as string | undefined;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const page = Number(req.query.page) || 1;
+    const limit = Number(req.query.limit) || 10;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
 
-  if (page <= 0 || limit <= 0) {
-    return res.status(400).json({ message: "Invalid page or limit" });
-  }
+    if (page <= 0 || limit <= 0) {
+      return res.status(400).json({ message: "Invalid page or limit" });
+    }
 
-  const offset = (page - 1) * limit;
+    const offset = (page - 1) * limit;
+    const { where, params } = visitListFilter(organizationId, req.query);
 
-  try {
-    let countQuery = `
+    try {
+      const [countResult] = await db.execute(
+        `
       SELECT COUNT(*) AS total
       FROM visits v
       LEFT JOIN patients p ON p.uuid = v.patient_id
-      WHERE v.created_by = ?
-        AND (
-          p.name LIKE ?
-          OR p.id_number LIKE ?
-          OR v.diagnosis LIKE ?
-          OR v.prescribed_medications LIKE ?
-        )
-    `;
-    const countParams: any[] = [
-      createdBy,
-      `%${search}%`,
-      `%${search}%`,
-      `%${search}%`,
-      `%${search}%`,
-    ];
-
-    if (startDate && endDate) {
-      countQuery += " AND v.visit_date BETWEEN ? AND ?";
-      countParams.push(startDate, endDate);
-    }
+      WHERE ${where}
+    `,
+        params
+      );
+      const total = (countResult as any)[0].total;
 
-    const [countResult] = await db.execute(countQuery, countParams);
-    const total = (countResult as any)[0].total;
-
-    let dataQuery = `
+      const [rows] = await db.execute(
+        `
       SELECT 
         v.id,
         v.uuid,
@@ -159,43 +207,232 @@ router.get("/", verifyToken, async (req: Request, res: Response) => {
         p.id_number AS patient_id_number
       FROM visits v
       LEFT JOIN patients p ON p.uuid = v.patient_id
-      WHERE v.created_by = ?
-        AND (
-          p.name LIKE ?
-          OR p.id_number LIKE ?
-          OR v.diagnosis LIKE ?
-          OR v.prescribed_medications LIKE ?
-        )
-    `;
-
-    const dataParams: any[] = [
-      createdBy,
-      `%${search}%`,
-      `%${search}%`,
-      `%${search}%`,
-      `%${search}%`,
-    ];
-
-    if (startDate && endDate) {
-      dataQuery += " AND v.visit_date BETWEEN ? AND ?";
-      dataParams.push(startDate, endDate);
+      WHERE ${where}
+      ORDER BY v.visit_date DESC LIMIT ${limit} OFFSET ${offset}
+    `,
+        params
+      );
+      const items = (rows as any[]).map((row) => ({
+        key: row.id,
+        ...row,
+      }));
+
+      return res.json({ items, total });
+    } catch (error) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please retry" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/export:
+ *   get:
+ *     summary: Download the filtered visit list as CSV or XLSX
+ *     description: Takes the same filters as GET /api/visits and returns every matching row, unpaged.
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         schema:
+ *           type: string
+ *         description: Comma-separated columns in the order wanted. One of {, k, }
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: diagnosisCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: chapter
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, as an attachment
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Unknown format or column
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/export",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const format = (req.query.format as string) || "csv";
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return res.status(400).json({
+        message: `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      });
     }
 
-    dataQuery += ` ORDER BY v.visit_date DESC LIMIT ${limit} OFFSET ${offset}`;
+    const selection = selectColumns(VISIT_EXPORT_COLUMNS, req.query.columns);
+    if (selection.problem !== null) {
+      return res.status(400).json({ message: selection.problem });
+    }
 
-    const [rows] = await db.execute(dataQuery, dataParams);
-    const items = (rows as any[]).map((row) => ({
-      key: row.id,
-      ...row,
-    }));
+    const { columns } = selection;
+    const { where, params } = visitListFilter(
+      tokenInfo.organizationId,
+      req.query
+    );
 
-    return res.json({ items, total });
-  } catch (error) {
-    return res
-      .status(500)
-      .json({ message: "We encountered an error. Please retry" });
+    try {
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "visit_export",
+        resourceUuid: uuid(),
+        after: {
+          format,
+          columns: columns.map((column) => column.key).join(","),
+          search: req.query.search || null,
+          startDate: req.query.startDate || null,
+          endDate: req.query.endDate || null,
+          diagnosisCode: req.query.diagnosisCode || null,
+          chapter: req.query.chapter || null,
+        },
+      });
+
+      await streamExport(res, {
+        format: format as ExportFormat,
+        filename: `visits-${new Date().toISOString().slice(0, 10)}`,
+        sheetName: "Visits",
+        columns,
+        sql: `SELECT ${selectList(
+          columns
+        )} FROM visits v LEFT JOIN patients p ON p.uuid = v.patient_id WHERE ${where} ORDER BY v.visit_date DESC, v.id DESC`,
+        params,
+      });
+    } catch (err) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
   }
-});
+);
+
+/**
+ * @swagger
+ * /api/visits/pending-sign-off:
+ *   get:
+ *     summary: A clinician's draft visits still waiting to be signed
+ *     description: >
+ *       Drafts the clinician created longer ago than the sign-off window
+ *       (SIGN_OFF_AFTER_HOURS, 24 by default), oldest first. Without clinicianId the list
+ *       is the caller's own.
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: clinicianId
+ *         schema:
+ *           type: string
+ *         description: Another clinician's list; needs members:manage
+ *     responses:
+ *       200:
+ *         description: Drafts past the window
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 after_hours:
+ *                   type: integer
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       uuid:
+ *                         type: string
+ *                       visit_date:
+ *                         type: string
+ *                       diagnosis:
+ *                         type: string
+ *                       patient_id:
+ *                         type: string
+ *                       patient_name:
+ *                         type: string
+ *                       created_at:
+ *                         type: string
+ *                       age_hours:
+ *                         type: integer
+ *       403:
+ *         description: clinicianId given without members:manage
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/pending-sign-off",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { tokenInfo } = req;
+    const clinicianId = req.query.clinicianId as string | undefined;
+
+    if (
+      clinicianId &&
+      clinicianId !== tokenInfo.uuid &&
+      !hasPermission(tokenInfo.role, "members:manage")
+    ) {
+      return res
+        .status(403)
+        .json({ message: "You can only see your own pending sign-offs" });
+    }
+
+    try {
+      const items = await pendingSignOff(
+        tokenInfo.organizationId,
+        clinicianId || tokenInfo.uuid
+      );
+      return res.json({ after_hours: SIGN_OFF_AFTER_HOURS, items });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
 
 /**
  * @swagger
@@ -238,6 +475,10 @@ router.get("/", verifyToken, async (req: Request, res: Response) => {
  *                 notes:
  *                   type: string
  *                   example: "Patient should rest and hydrate"
+ *                 follow_up_date:
+ *                   type: string
+ *                   format: date
+ *                   nullable: true
  *                 patient_id:
  *                   type: string
  *                   example: "2f5e54ed-3ae2-4ac2-9bb8-1ccfbb82ea20"
@@ -247,6 +488,37 @@ router.get("/", verifyToken, async (req: Request, res: Response) => {
  *                 patient_id_number:
  *                   type: string
  *                   example: "12345678"
+ *                 status:
+ *                   type: string
+ *                   enum: [draft, signed]
+ *                 signed_by:
+ *                   type: string
+ *                   nullable: true
+ *                 signed_at:
+ *                   type: string
+ *                   nullable: true
+ *                 content_hash:
+ *                   type: string
+ *                   nullable: true
+ *                   description: SHA-256 of the clinical content at signing, hex encoded
+ *                 diagnoses:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Diagnosis'
+ *                 prescriptions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Prescription'
+ *                 allergy_overrides:
+ *                   type: array
+ *                   description: Allergy warnings that were overridden when prescribing, with the reason given
+ *                   items:
+ *                     type: object
+ *                 addenda:
+ *                   type: array
+ *                   description: Corrections appended after signing, oldest first
+ *                   items:
+ *                     $ref: '#/components/schemas/VisitAddendum'
  *
  *       404:
  *         description: Visit not found
@@ -254,61 +526,360 @@ router.get("/", verifyToken, async (req: Request, res: Response) => {
  *       500:
  *         description: Server error
  */
-router.get("/:uuid", verifyToken, async (req: Request, res: Response) => {
-  const { uuid } = req.params;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
+router.get(
+  "/:uuid",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
 
-  try {
-    const [rows]: any = await db.execute(
-      `
-      SELECT 
-        v.uuid AS visit_uuid,
-        v.visit_date,
-        v.diagnosis,
-        v.prescribed_medications,
-        v.notes,
-        v.patient_id,
+    try {
+      const visit = await findVisit(String(uuid), organizationId);
 
-        p.name AS patient_name,
-        p.id_number AS patient_id_number
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
 
-      FROM visits v
-      LEFT JOIN patients p 
-        ON p.uuid = v.patient_id
-      WHERE v.uuid = ? AND v.created_by = ?
-      `,
-      [uuid, createdBy]
+      await recordAudit(req, {
+        action: "view",
+        resourceType: "visit",
+        resourceUuid: visit.uuid,
+        patientId: visit.patient_id,
+      });
+
+      return res.json(visit);
+    } catch (err) {
+      return res.status(500).json({
+        message: "We encountered an error. Please try again",
+      });
+    }
+  }
+);
+
+// renders one of the printable documents for a visit. Each print is issued its own
+// serial, so a copy can later be checked against the visit as it is now.
+const sendVisitDocument = async (
+  req: Request,
+  res: Response,
+  kind: DocumentKind
+) => {
+  const { tokenInfo } = req;
+  const organizationId = tokenInfo.organizationId;
+
+  try {
+    const data = await visitDocumentData(
+      String(req.params.uuid),
+      organizationId
     );
 
-    if (!rows || rows.length === 0) {
+    if (!data) {
       return res.status(404).json({ message: "Visit not found" });
     }
+    if (
+      kind === "prescription" &&
+      data.visit.prescriptions.length === 0 &&
+      !data.visit.prescribed_medications
+    ) {
+      return res
+        .status(404)
+        .json({ message: "No prescriptions on this visit" });
+    }
 
-    const visit: VisitResponse = {
-      uuid: rows[0].visit_uuid,
-      visit_date: rows[0].visit_date,
-      diagnosis: rows[0].diagnosis,
-      prescribed_medications: rows[0].prescribed_medications,
-      notes: rows[0].notes,
-      patient_id: rows[0].patient_id,
-      patient_name: rows[0].patient_name,
-      patient_id_number: rows[0].patient_id_number,
-    };
-
-    return res.json(visit);
-  } catch (err) {
-    return res.status(500).json({
-      message: "We encountered an error. Please try again",
+    const template = await getTemplate(organizationId, kind);
+    const letterhead = await getLetterhead(organizationId);
+    const serial = await issueDocument(
+      organizationId,
+      kind,
+      data,
+      tokenInfo.uuid
+    );
+
+    await recordAudit(req, {
+      action: "view",
+      resourceType: "visit_document",
+      resourceUuid: data.visit.uuid,
+      patientId: data.visit.patient_id,
+      after: { kind, serial },
     });
+
+    res
+      .status(200)
+      .type("application/pdf")
+      .setHeader(
+        "Content-Disposition",
+        `inline; filename="${kind}-${data.visit_date}-${serial}.pdf"`
+      );
+    await renderDocument(res, {
+      template,
+      letterhead,
+      data,
+      serial,
+      issuedAt: new Date(),
+    });
+  } catch (err) {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    return res
+      .status(500)
+      .json({ message: "We encountered an error. Please try again" });
+  }
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/summary.pdf:
+ *   get:
+ *     summary: Print a visit summary for the patient
+ *     description: >
+ *       Rendered from the organization's letterhead and visit-summary template. Every
+ *       call issues a new serial, printed with a QR code that links to the public
+ *       verification page.
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The summary as a PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid/summary.pdf",
+  verifyToken,
+  requirePermission("visits:read"),
+  (req: Request, res: Response) => sendVisitDocument(req, res, "visit-summary")
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/prescription.pdf:
+ *   get:
+ *     summary: Print the prescription written at a visit
+ *     description: Rendered from the organization's letterhead and prescription template, with a verification serial and QR code.
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The prescription as a PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Visit not found, or no prescriptions on the visit
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid/prescription.pdf",
+  verifyToken,
+  requirePermission("visits:read"),
+  (req: Request, res: Response) => sendVisitDocument(req, res, "prescription")
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/sign:
+ *   post:
+ *     summary: Sign a draft visit
+ *     description: >
+ *       Records the signing clinician, the time and a hash of the visit's clinical
+ *       content. The visit can no longer be edited or deleted; corrections go in addenda.
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Visit signed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 content_hash:
+ *                   type: string
+ *       404:
+ *         description: Visit not found
+ *       409:
+ *         description: The visit is already signed
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/sign",
+  verifyToken,
+  requirePermission("visits:sign"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      const [rows]: any = await conn.execute(
+        `SELECT uuid, patient_id FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, tokenInfo.organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      await conn.beginTransaction();
+
+      const result = await signVisit(conn, rows[0].uuid, tokenInfo.uuid);
+
+      if (!result.signed) {
+        await conn.rollback();
+        return res.status(409).json({ message: "Visit is already signed" });
+      }
+
+      await recordAudit(
+        req,
+        {
+          action: "sign",
+          resourceType: "visit",
+          resourceUuid: rows[0].uuid,
+          patientId: rows[0].patient_id,
+          after: { status: "signed", content_hash: result.content_hash },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.json({
+        message: "Visit signed",
+        content_hash: result.content_hash,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/signature:
+ *   get:
+ *     summary: Check a visit's signature against its current content
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The signature
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   enum: [draft, signed]
+ *                 signed_by:
+ *                   type: string
+ *                   nullable: true
+ *                 signed_by_name:
+ *                   type: string
+ *                   nullable: true
+ *                 signed_at:
+ *                   type: string
+ *                   nullable: true
+ *                 content_hash:
+ *                   type: string
+ *                   nullable: true
+ *                 valid:
+ *                   type: boolean
+ *                   nullable: true
+ *                   description: Whether the content still hashes to content_hash; null for drafts
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/:uuid/signature",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const [rows]: any = await db.execute(
+        `SELECT uuid FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, tokenInfo.organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      return res.json(await checkSignature(rows[0].uuid));
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
   }
-});
+);
 
 /**
  * @swagger
  * /api/visits/{uuid}:
  *   delete:
- *     summary: Delete a visit by UUID
+ *     summary: Move a visit to the trash
+ *     description: >
+ *       The visit is hidden everywhere and can be restored until it is purged, once
+ *       the trash retention window has passed.
  *     tags:
  *       - Visits
  *     security:
@@ -345,36 +916,166 @@ router.get("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: "Visit not found"
  *
+ *       409:
+ *         description: The visit is signed
+ *
  *       500:
  *         description: Internal server error
  */
-router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
-  const { uuid } = req.params;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
+router.delete(
+  "/:uuid",
+  verifyToken,
+  requirePermission("visits:delete"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
 
-  try {
-    const [rows]: any = await db.execute(
-      `SELECT uuid FROM visits WHERE uuid = ? AND created_by = ? LIMIT 1`,
-      [uuid, createdBy]
-    );
+    const conn = await db.getConnection();
 
-    if (rows.length === 0) {
-      return res.status(404).json({ message: "Visit not found" });
+    try {
+      const [rows]: any = await conn.execute(
+        `SELECT uuid, patient_id, visit_date, diagnosis, prescribed_medications, notes, status
+         FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+      if (rows[0].status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, String(uuid)))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await softDeleteVisit(conn, String(uuid), tokenInfo.uuid);
+      await recordAudit(
+        req,
+        {
+          action: "delete",
+          resourceType: "visit",
+          resourceUuid: uuid,
+          patientId: rows[0].patient_id,
+          before: rows[0],
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({
+        message: "Visit deleted successfully",
+        restorable_days: TRASH_RETENTION_DAYS,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
     }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/restore:
+ *   post:
+ *     summary: Bring a visit back from the trash
+ *     tags:
+ *       - Visits
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the deleted visit
+ *     responses:
+ *       200:
+ *         description: Visit restored
+ *       404:
+ *         description: No deleted visit with this uuid, or it was deleted along with its patient
+ *       409:
+ *         description: The visit's patient is in the trash; restore the patient instead
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/:uuid/restore",
+  verifyToken,
+  requirePermission("visits:delete"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
 
-    await db.execute(`DELETE FROM visits WHERE uuid = ? AND created_by = ?`, [
-      uuid,
-      createdBy,
-    ]);
+    try {
+      const visit = await findDeleted(
+        "visits",
+        String(uuid),
+        tokenInfo.organizationId
+      );
 
-    return res.status(200).json({ message: "Visit deleted successfully" });
-  } catch (err) {
-    return res
-      .status(500)
-      .json({ message: "We encountered an error. Please try again" });
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found in trash" });
+      }
+
+      const patient = await findDeleted(
+        "patients",
+        visit.patient_id,
+        tokenInfo.organizationId
+      );
+
+      if (patient) {
+        return res.status(409).json({
+          message:
+            "The patient of this visit is deleted. Restore the patient first",
+        });
+      }
+
+      const conn = await db.getConnection();
+
+      try {
+        await conn.beginTransaction();
+        await restoreVisit(conn, String(uuid));
+        await recordAudit(
+          req,
+          {
+            action: "restore",
+            resourceType: "visit",
+            resourceUuid: String(uuid),
+            patientId: visit.patient_id,
+            before: {
+              deleted_at: visit.deleted_at,
+              deleted_by: visit.deleted_by,
+            },
+          },
+          conn
+        );
+        await conn.commit();
+      } catch (err) {
+        await conn.rollback();
+        throw err;
+      } finally {
+        conn.release();
+      }
+
+      return res.json({ message: "Visit restored" });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
   }
-});
+);
 
 /**
  * @swagger
@@ -402,22 +1103,46 @@ router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *             type: object
  *             required:
  *               - visit_date
- *               - diagnosis
- *               - prescribed_medications
+ *               - amendment_reason
  *             properties:
  *               visit_date:
  *                 type: string
  *                 example: "2024-01-15"
+ *               diagnoses:
+ *                 type: array
+ *                 description: Replaces every diagnosis of the visit. Either this or diagnosis is required.
+ *                 items:
+ *                   $ref: '#/components/schemas/DiagnosisInput'
  *               diagnosis:
  *                 type: string
+ *                 description: When changed, replaces the diagnoses with a single free-text diagnosis
  *                 example: "Malaria"
+ *               prescriptions:
+ *                 type: array
+ *                 description: Replaces every prescription line of the visit. Either this or prescribed_medications is required.
+ *                 items:
+ *                   $ref: '#/components/schemas/PrescriptionInput'
  *               prescribed_medications:
  *                 type: string
+ *                 description: When changed, replaces the prescription lines with a single free-text line
  *                 example: "Artemether-Lumefantrine"
  *               notes:
  *                 type: string
  *                 nullable: true
  *                 example: "Patient recovering well"
+ *               follow_up_date:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *                 description: Schedules a follow-up reminder; null clears it. Left unchanged when omitted.
+ *               allergy_override_reason:
+ *                 type: string
+ *                 description: Required when changed medications conflict with a moderate or worse allergy
+ *               amendment_reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Why the visit is being changed; kept with the revision this edit creates
+ *                 example: "Corrected dosage after pharmacy query"
  *
  *     responses:
  *       200:
@@ -430,6 +1155,9 @@ router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *                 message:
  *                   type: string
  *                   example: "Visit updated successfully"
+ *                 revision:
+ *                   type: integer
+ *                   description: Number of the revision this edit created
  *                 visit:
  *                   type: object
  *                   properties:
@@ -452,7 +1180,7 @@ router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *                       type: string
  *
  *       400:
- *         description: Missing required fields
+ *         description: Missing required fields or amendment_reason
  *         content:
  *           application/json:
  *             schema:
@@ -473,66 +1201,256 @@ router.delete("/:uuid", verifyToken, async (req: Request, res: Response) => {
  *                   type: string
  *                   example: "Visit not found"
  *
+ *       409:
+ *         description: The visit is signed, or changed medications conflict with the patient's allergies and no override reason was given
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AllergyWarning'
+ *
  *       500:
  *         description: Internal server error
  */
-router.put("/:uuid", verifyToken, async (req: Request, res: Response) => {
-  const { uuid } = req.params;
-  const { tokenInfo } = req;
-  const createdBy = tokenInfo.uuid;
+router.put(
+  "/:uuid",
+  verifyToken,
+  requirePermission("visits:update"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+    const organizationId = tokenInfo.organizationId;
 
-  const { visit_date, diagnosis, prescribed_medications, notes } = req.body;
+    const {
+      visit_date,
+      diagnosis,
+      diagnoses,
+      prescribed_medications,
+      prescriptions,
+      notes,
+      follow_up_date,
+      allergy_override_reason,
+      amendment_reason,
+    } = req.body;
 
-  if (!visit_date || !diagnosis || !prescribed_medications) {
-    return res.status(400).json({
-      message: "visit_date, diagnosis, and prescribed_medications are required",
-    });
-  }
+    if (
+      !visit_date ||
+      (!diagnosis && !Array.isArray(diagnoses)) ||
+      (!prescribed_medications && !Array.isArray(prescriptions))
+    ) {
+      return res.status(400).json({
+        message:
+          "visit_date, diagnosis, and prescribed_medications are required",
+      });
+    }
 
-  try {
-    const [rows]: any = await db.execute(
-      `SELECT uuid FROM visits WHERE uuid = ? AND created_by = ? LIMIT 1`,
-      [uuid, createdBy]
-    );
+    if (prescriptions !== undefined) {
+      const problem = prescriptionsProblem(prescriptions);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+    }
 
-    if (rows.length === 0) {
-      return res.status(404).json({ message: "Visit not found" });
+    if (diagnoses !== undefined) {
+      const problem = diagnosesProblem(diagnoses);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+    }
+
+    const followUpProblem = followUpDateProblem(follow_up_date, visit_date);
+    if (followUpProblem) {
+      return res.status(400).json({ message: followUpProblem });
+    }
+
+    const reasonProblem = amendmentReasonProblem(amendment_reason);
+    if (reasonProblem) {
+      return res.status(400).json({ message: reasonProblem });
     }
 
-    await db.execute(
-      `
+    const conn = await db.getConnection();
+
+    try {
+      const [rows]: any = await conn.execute(
+        `SELECT uuid, patient_id, visit_date, diagnosis, prescribed_medications, notes,
+                DATE_FORMAT(follow_up_date, '%Y-%m-%d') AS follow_up_date, status
+         FROM visits WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+        [uuid, organizationId]
+      );
+
+      if (rows.length === 0) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+      if (rows[0].status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      if (Array.isArray(diagnoses)) {
+        const unknown = await unknownCodes(diagnoses);
+        if (unknown.length) {
+          return res
+            .status(400)
+            .json({ message: `Unknown ICD-10 code: ${unknown.join(", ")}` });
+        }
+      }
+
+      // only changed medications are screened; pairs overridden earlier on this visit are not raised again
+      const medicationsChanged =
+        Array.isArray(prescriptions) ||
+        prescribed_medications !== rows[0].prescribed_medications;
+      const screening = await screenPrescribing(
+        rows[0].patient_id,
+        medicationsChanged ? requestedMedications(req.body) : [],
+        allergy_override_reason,
+        uuid
+      );
+
+      if (screening.blocked) {
+        return res.status(409).json({
+          message: ALLERGY_CONFLICT_MESSAGE,
+          warnings: screening.warnings,
+        });
+      }
+
+      const followUpDate =
+        follow_up_date === undefined
+          ? rows[0].follow_up_date
+          : follow_up_date || null;
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, String(uuid)))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const snapshot = await takeSnapshot(conn, "visit", String(uuid));
+
+      await conn.execute(
+        `
       UPDATE visits
-      SET visit_date = ?, diagnosis = ?, prescribed_medications = ?, notes = ?
-      WHERE uuid = ? AND created_by = ?
+      SET visit_date = ?, notes = ?, follow_up_date = ?
+      WHERE uuid = ? AND organization_id = ?
       `,
-      [
-        visit_date,
-        diagnosis,
-        prescribed_medications,
-        notes || null,
+        [visit_date, notes || null, followUpDate, uuid, organizationId]
+      );
+
+      if (followUpDate !== rows[0].follow_up_date) {
+        await scheduleFollowUp(
+          conn,
+          organizationId,
+          rows[0].patient_id,
+          uuid,
+          followUpDate
+        );
+      }
+
+      // coded diagnoses win; a changed free-text diagnosis replaces them with itself
+      if (Array.isArray(diagnoses)) {
+        await replaceDiagnoses(
+          conn,
+          uuid,
+          organizationId,
+          tokenInfo.uuid,
+          diagnoses
+        );
+        await syncDiagnosisSummary(conn, uuid);
+      } else if (diagnosis !== rows[0].diagnosis) {
+        await replaceDiagnoses(conn, uuid, organizationId, tokenInfo.uuid, [
+          { text: diagnosis, rank: "primary" },
+        ]);
+        await syncDiagnosisSummary(conn, uuid);
+      }
+
+      // structured lines win; a changed free-text string replaces the lines with itself
+      if (Array.isArray(prescriptions)) {
+        await conn.execute(`DELETE FROM prescriptions WHERE visit_id = ?`, [
+          uuid,
+        ]);
+        for (const line of prescriptions) {
+          await insertPrescription(
+            conn,
+            uuid,
+            organizationId,
+            tokenInfo.uuid,
+            line
+          );
+        }
+        await syncMedicationSummary(conn, uuid);
+      } else if (prescribed_medications !== rows[0].prescribed_medications) {
+        await replaceWithFreeText(
+          conn,
+          uuid,
+          organizationId,
+          tokenInfo.uuid,
+          prescribed_medications
+        );
+        await syncMedicationSummary(conn, uuid);
+      }
+
+      await recordOverrides(
+        conn,
         uuid,
-        createdBy,
-      ]
-    );
+        organizationId,
+        tokenInfo.uuid,
+        screening.overrides,
+        screening.reason
+      );
+
+      const revision = await recordRevision(
+        conn,
+        "visit",
+        String(uuid),
+        snapshot,
+        amendment_reason,
+        tokenInfo.uuid
+      );
 
-    const [updatedRows]: any = await db.execute(
-      `
-      SELECT uuid, patient_id, visit_date, diagnosis, prescribed_medications, notes, created_at, created_by
+      const [updatedRows]: any = await conn.execute(
+        `
+      SELECT uuid, patient_id, visit_date, diagnosis, prescribed_medications, notes,
+             DATE_FORMAT(follow_up_date, '%Y-%m-%d') AS follow_up_date, created_at, created_by
       FROM visits
-      WHERE uuid = ? AND created_by = ?
+      WHERE uuid = ? AND organization_id = ?
       `,
-      [uuid, createdBy]
-    );
+        [uuid, organizationId]
+      );
 
-    return res.status(200).json({
-      message: "Visit updated successfully",
-      visit: updatedRows[0],
-    });
-  } catch (err) {
-    return res.status(500).json({
-      message: "We encountered an error. Please try again",
-    });
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "visit",
+          resourceUuid: uuid,
+          patientId: rows[0].patient_id,
+          before: rows[0],
+          after: { ...updatedRows[0], revision, amendment_reason },
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({
+        message: "Visit updated successfully",
+        visit: updatedRows[0],
+        revision,
+        allergy_warnings: screening.warnings,
+      });
+    } catch (err) {
+      await conn.rollback();
+      return res.status(500).json({
+        message: "We encountered an error. Please try again",
+      });
+    } finally {
+      conn.release();
+    }
   }
-});
+);
 
 export default router;
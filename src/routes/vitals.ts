@@ -0,0 +1,486 @@
+import express, { Request, Response } from "express";
+import verifyToken from "../middleware/cookie-validation";
+import requirePermission from "../middleware/authorize";
+import { pool as db } from "../utils/database-config";
+import { RowDataPacket } from "mysql2";
+import { recordAudit } from "../utils/audit";
+import { SIGNED_VISIT_MESSAGE, lockDraft } from "../utils/sign-off";
+import {
+  UNITS,
+  insertVitals,
+  listVisitVitals,
+  parseVitals,
+  updateVitals,
+} from "../utils/vitals";
+
+// mounted under /api/visits/:uuid/vitals
+const router = express.Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Measurement:
+ *       description: A number in the stored unit, or a value with one of the accepted units
+ *       oneOf:
+ *         - type: number
+ *         - type: object
+ *           properties:
+ *             value:
+ *               type: number
+ *             unit:
+ *               type: string
+ *     VitalsInput:
+ *       type: object
+ *       description: >
+ *         At least one measurement is required. Stored units are mmHg, bpm, C, breaths/min,
+ *         %, kg and cm; temperature also accepts F, weight g and lb, height m and in.
+ *       properties:
+ *         recorded_at:
+ *           type: string
+ *           format: date-time
+ *           description: Defaults to now
+ *         systolic:
+ *           $ref: '#/components/schemas/Measurement'
+ *         diastolic:
+ *           $ref: '#/components/schemas/Measurement'
+ *         pulse:
+ *           $ref: '#/components/schemas/Measurement'
+ *         temperature:
+ *           $ref: '#/components/schemas/Measurement'
+ *         respiratory_rate:
+ *           $ref: '#/components/schemas/Measurement'
+ *         spo2:
+ *           $ref: '#/components/schemas/Measurement'
+ *         weight:
+ *           $ref: '#/components/schemas/Measurement'
+ *         height:
+ *           $ref: '#/components/schemas/Measurement'
+ *       example:
+ *         systolic: 128
+ *         diastolic: 84
+ *         pulse: 76
+ *         temperature: { value: 99.1, unit: "F" }
+ *         weight: 72.5
+ *         height: 170
+ *     Vitals:
+ *       type: object
+ *       properties:
+ *         uuid:
+ *           type: string
+ *         visit_id:
+ *           type: string
+ *         recorded_at:
+ *           type: string
+ *           format: date-time
+ *         systolic:
+ *           type: number
+ *         diastolic:
+ *           type: number
+ *         pulse:
+ *           type: number
+ *         temperature:
+ *           type: number
+ *         respiratory_rate:
+ *           type: number
+ *         spo2:
+ *           type: number
+ *         weight:
+ *           type: number
+ *         height:
+ *           type: number
+ *         bmi:
+ *           type: number
+ *           nullable: true
+ *         flags:
+ *           type: object
+ *           description: Measurements outside the patient's adult or pediatric reference range
+ *           additionalProperties:
+ *             type: string
+ *             enum: [low, high]
+ *           example:
+ *             systolic: high
+ */
+
+const findVisit = async (visitUuid: string, organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT v.uuid, v.patient_id, v.status, p.date_of_birth
+    FROM visits v
+    JOIN patients p ON p.uuid = v.patient_id
+    WHERE v.uuid = ? AND v.organization_id = ? AND v.deleted_at IS NULL
+    LIMIT 1
+    `,
+    [visitUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/vitals:
+ *   get:
+ *     summary: List the vitals recorded during a visit
+ *     tags:
+ *       - Vitals
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     responses:
+ *       200:
+ *         description: Vitals sets in the order they were taken
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 units:
+ *                   type: object
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Vitals'
+ *       404:
+ *         description: Visit not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  "/",
+  verifyToken,
+  requirePermission("visits:read"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+
+      return res.json({
+        units: UNITS,
+        items: await listVisitVitals(uuid, visit.date_of_birth),
+      });
+    } catch (err) {
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/vitals:
+ *   post:
+ *     summary: Record a set of vitals for a visit
+ *     tags:
+ *       - Vitals
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VitalsInput'
+ *     responses:
+ *       201:
+ *         description: Vitals recorded
+ *       400:
+ *         description: Missing, implausible or wrongly-united measurement
+ *       404:
+ *         description: Visit not found
+ *       409:
+ *         description: The visit is signed
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  "/",
+  verifyToken,
+  requirePermission("vitals:record"),
+  async (req: Request, res: Response) => {
+    const { uuid } = req.params;
+    const { tokenInfo } = req;
+
+    const { values, problem } = parseVitals(req.body);
+
+    if (problem || !values) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+
+      if (!visit) {
+        return res.status(404).json({ message: "Visit not found" });
+      }
+      if (visit.status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, uuid))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      const vitalsUuid = await insertVitals(
+        uuid,
+        tokenInfo.organizationId,
+        tokenInfo.uuid,
+        values,
+        req.body.recorded_at,
+        conn
+      );
+
+      const vitals = (
+        await listVisitVitals(uuid, visit.date_of_birth, conn)
+      ).find((set) => set.uuid === vitalsUuid);
+
+      await recordAudit(
+        req,
+        {
+          action: "create",
+          resourceType: "vitals",
+          resourceUuid: vitalsUuid,
+          patientId: visit.patient_id,
+          after: vitals,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(201).json({ message: "Vitals recorded", vitals });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/vitals/{vitalsUuid}:
+ *   put:
+ *     summary: Replace a set of vitals
+ *     description: Measurements left out of the body are cleared.
+ *     tags:
+ *       - Vitals
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *       - in: path
+ *         name: vitalsUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/VitalsInput'
+ *     responses:
+ *       200:
+ *         description: Vitals updated
+ *       400:
+ *         description: Missing, implausible or wrongly-united measurement
+ *       404:
+ *         description: Visit or vitals not found
+ *       409:
+ *         description: The visit is signed
+ *       500:
+ *         description: Server error
+ */
+router.put(
+  "/:vitalsUuid",
+  verifyToken,
+  requirePermission("vitals:record"),
+  async (req: Request, res: Response) => {
+    const { uuid, vitalsUuid } = req.params;
+    const { tokenInfo } = req;
+
+    const { values, problem } = parseVitals(req.body);
+
+    if (problem || !values) {
+      return res.status(400).json({ message: problem });
+    }
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+      const before = visit
+        ? (await listVisitVitals(uuid, visit.date_of_birth)).find(
+            (set) => set.uuid === vitalsUuid
+          )
+        : undefined;
+
+      if (!visit || !before) {
+        return res.status(404).json({ message: "Vitals not found" });
+      }
+      if (visit.status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, uuid))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await updateVitals(vitalsUuid, values, req.body.recorded_at, conn);
+
+      const vitals = (
+        await listVisitVitals(uuid, visit.date_of_birth, conn)
+      ).find((set) => set.uuid === vitalsUuid);
+
+      await recordAudit(
+        req,
+        {
+          action: "update",
+          resourceType: "vitals",
+          resourceUuid: vitalsUuid,
+          patientId: visit.patient_id,
+          before,
+          after: vitals,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Vitals updated", vitals });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/visits/{uuid}/vitals/{vitalsUuid}:
+ *   delete:
+ *     summary: Remove a set of vitals
+ *     tags:
+ *       - Vitals
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: uuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: UUID of the visit
+ *       - in: path
+ *         name: vitalsUuid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Vitals removed
+ *       404:
+ *         description: Visit or vitals not found
+ *       409:
+ *         description: The visit is signed
+ *       500:
+ *         description: Server error
+ */
+router.delete(
+  "/:vitalsUuid",
+  verifyToken,
+  requirePermission("vitals:record"),
+  async (req: Request, res: Response) => {
+    const { uuid, vitalsUuid } = req.params;
+    const { tokenInfo } = req;
+
+    const conn = await db.getConnection();
+
+    try {
+      const visit = await findVisit(uuid, tokenInfo.organizationId);
+      const before = visit
+        ? (await listVisitVitals(uuid, visit.date_of_birth)).find(
+            (set) => set.uuid === vitalsUuid
+          )
+        : undefined;
+
+      if (!visit || !before) {
+        return res.status(404).json({ message: "Vitals not found" });
+      }
+      if (visit.status === "signed") {
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await conn.beginTransaction();
+
+      if (!(await lockDraft(conn, uuid))) {
+        await conn.rollback();
+        return res.status(409).json({ message: SIGNED_VISIT_MESSAGE });
+      }
+
+      await conn.execute(`DELETE FROM vitals WHERE uuid = ?`, [vitalsUuid]);
+
+      await recordAudit(
+        req,
+        {
+          action: "delete",
+          resourceType: "vitals",
+          resourceUuid: vitalsUuid,
+          patientId: visit.patient_id,
+          before,
+        },
+        conn
+      );
+      await conn.commit();
+
+      return res.status(200).json({ message: "Vitals removed" });
+    } catch (err) {
+      await conn.rollback();
+      return res
+        .status(500)
+        .json({ message: "We encountered an error. Please try again" });
+    } finally {
+      conn.release();
+    }
+  }
+);
+
+export default router;
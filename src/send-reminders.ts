@@ -0,0 +1,11 @@
+import { pool as db } from "./utils/database-config";
+import { sendDueReminders } from "./utils/reminders";
+
+// one pass over due reminders, for running from cron with REMINDER_INTERVAL_SECONDS=0
+sendDueReminders()
+  .then((handled) => console.log(`[reminders]: handled ${handled} reminders`))
+  .catch((err) => {
+    console.error(`[reminders]: ${err.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => db.end());
@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { allergyProblem, requestedMedications } from "./allergies";
+
+describe("allergyProblem", () => {
+  it("accepts a substance with a known severity", () => {
+    assert.equal(
+      allergyProblem({ substance: "Penicillin", severity: "severe" }),
+      null
+    );
+    assert.equal(
+      allergyProblem({
+        substance: "Latex",
+        severity: "mild",
+        status: "resolved",
+        noted_at: "2019-06-01",
+      }),
+      null
+    );
+  });
+
+  it("requires the substance and the severity", () => {
+    assert.equal(allergyProblem({ severity: "mild" }), "substance is required");
+    assert.equal(
+      allergyProblem({ substance: "Latex", severity: "bad" }),
+      "severity must be one of: mild, moderate, severe, life-threatening"
+    );
+  });
+
+  it("checks the status and the date noted", () => {
+    assert.equal(
+      allergyProblem({ substance: "Latex", severity: "mild", status: "gone" }),
+      "status must be one of: active, inactive, resolved"
+    );
+    assert.equal(
+      allergyProblem({
+        substance: "Latex",
+        severity: "mild",
+        noted_at: "as a child",
+      }),
+      "noted_at must be a date"
+    );
+  });
+
+  it("requires an object", () => {
+    assert.equal(allergyProblem("Latex"), "Allergy must be an object");
+  });
+});
+
+describe("requestedMedications", () => {
+  it("takes the drug names of structured lines", () => {
+    assert.deepEqual(
+      requestedMedications({
+        prescriptions: [{ drug_name: "Amoxicillin" }, { dose: "1 tablet" }],
+        prescribed_medications: "ignored",
+      }),
+      ["Amoxicillin", ""]
+    );
+  });
+
+  it("falls back to the free-text medications", () => {
+    assert.deepEqual(
+      requestedMedications({ prescribed_medications: "Augmentin 625mg BD" }),
+      ["Augmentin 625mg BD"]
+    );
+    assert.deepEqual(requestedMedications({}), []);
+  });
+});
@@ -0,0 +1,284 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+export const SEVERITIES = ["mild", "moderate", "severe", "life-threatening"];
+export const ALLERGY_STATUSES = ["active", "inactive", "resolved"];
+
+// a mild reaction only warns; anything worse blocks prescribing until overridden
+const BLOCKING_SEVERITIES = ["moderate", "severe", "life-threatening"];
+
+// common cross-reactive groups: an allergy recorded against the group name also
+// matches its members. Deliberately short; a formulary lookup would replace this.
+const DRUG_CLASSES: Record<string, string[]> = {
+  penicillin: [
+    "amoxicillin",
+    "ampicillin",
+    "augmentin",
+    "benzylpenicillin",
+    "cloxacillin",
+    "flucloxacillin",
+    "phenoxymethylpenicillin",
+    "piperacillin",
+  ],
+  cephalosporin: [
+    "cefalexin",
+    "cephalexin",
+    "cefuroxime",
+    "ceftriaxone",
+    "cefixime",
+    "cefazolin",
+    "cefotaxime",
+  ],
+  sulfonamide: [
+    "sulfamethoxazole",
+    "co-trimoxazole",
+    "cotrimoxazole",
+    "septrin",
+    "sulfadiazine",
+    "sulfasalazine",
+  ],
+  nsaid: [
+    "aspirin",
+    "ibuprofen",
+    "diclofenac",
+    "naproxen",
+    "indomethacin",
+    "ketorolac",
+    "meloxicam",
+  ],
+  opioid: ["morphine", "codeine", "tramadol", "pethidine", "fentanyl"],
+  quinolone: ["ciprofloxacin", "levofloxacin", "norfloxacin", "ofloxacin"],
+};
+
+const CLASS_ALIASES: Record<string, string> = {
+  penicillins: "penicillin",
+  cephalosporins: "cephalosporin",
+  sulfa: "sulfonamide",
+  sulfonamides: "sulfonamide",
+  nsaids: "nsaid",
+  opioids: "opioid",
+  quinolones: "quinolone",
+  fluoroquinolones: "quinolone",
+};
+
+export interface AllergyInput {
+  substance: string;
+  reaction?: string | null;
+  severity: string;
+  status?: string;
+  noted_at?: string | null;
+}
+
+export interface Allergy {
+  uuid: string;
+  patient_id: string;
+  substance: string;
+  reaction: string | null;
+  severity: string;
+  status: string;
+  noted_at: string | null;
+}
+
+export interface AllergyWarning {
+  allergy_id: string;
+  substance: string;
+  reaction: string | null;
+  severity: string;
+  medication: string;
+  matched: string;
+  blocking: boolean;
+}
+
+// returns the reason an allergy is rejected, or null when it is acceptable
+export const allergyProblem = (input: any): string | null => {
+  if (!input || typeof input !== "object") {
+    return "Allergy must be an object";
+  }
+  if (!input.substance || typeof input.substance !== "string") {
+    return "substance is required";
+  }
+  if (!SEVERITIES.includes(input.severity)) {
+    return `severity must be one of: ${SEVERITIES.join(", ")}`;
+  }
+  if (input.status && !ALLERGY_STATUSES.includes(input.status)) {
+    return `status must be one of: ${ALLERGY_STATUSES.join(", ")}`;
+  }
+  if (input.noted_at && Number.isNaN(Date.parse(input.noted_at))) {
+    return "noted_at must be a date";
+  }
+  return null;
+};
+
+const termsFor = (substance: string): string[] => {
+  const key = substance.trim().toLowerCase();
+  const group = CLASS_ALIASES[key] || key;
+  return [key, ...(DRUG_CLASSES[group] || [])];
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// whole-word match so "penicillin" does not fire on a drug that merely contains the letters
+const findTerm = (terms: string[], medication: string): string | null => {
+  const text = medication.toLowerCase();
+  return (
+    terms.find((term) =>
+      new RegExp(`(^|[^a-z])${escapeRegExp(term)}([^a-z]|$)`).test(text)
+    ) || null
+  );
+};
+
+export const listAllergies = async (
+  patientUuid: string,
+  activeOnly: boolean = false,
+  conn?: PoolConnection
+): Promise<Allergy[]> => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT uuid, patient_id, substance, reaction, severity, status, noted_at
+    FROM patient_allergies
+    WHERE patient_id = ?${activeOnly ? " AND status = 'active'" : ""}
+    ORDER BY FIELD(severity, 'life-threatening', 'severe', 'moderate', 'mild'), id ASC
+    `,
+    [patientUuid]
+  );
+
+  return rows as Allergy[];
+};
+
+// matches each medication (a drug name or a free-text line) against the patient's
+// active allergies. Pairs already overridden on the given visit are left out.
+export const checkAllergies = async (
+  patientUuid: string,
+  medications: string[],
+  visitUuid?: string
+): Promise<AllergyWarning[]> => {
+  const allergies = await listAllergies(patientUuid, true);
+  if (allergies.length === 0) {
+    return [];
+  }
+
+  const overridden = new Set<string>();
+  if (visitUuid) {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT allergy_id, medication FROM visit_allergy_overrides WHERE visit_id = ?`,
+      [visitUuid]
+    );
+    rows.forEach((row) =>
+      overridden.add(`${row.allergy_id}|${row.medication.toLowerCase()}`)
+    );
+  }
+
+  const warnings: AllergyWarning[] = [];
+
+  for (const allergy of allergies) {
+    const terms = termsFor(allergy.substance);
+
+    for (const medication of medications.filter(Boolean)) {
+      const matched = findTerm(terms, medication);
+      if (
+        !matched ||
+        overridden.has(`${allergy.uuid}|${medication.toLowerCase()}`)
+      ) {
+        continue;
+      }
+      warnings.push({
+        allergy_id: allergy.uuid,
+        substance: allergy.substance,
+        reaction: allergy.reaction,
+        severity: allergy.severity,
+        medication,
+        matched,
+        blocking: BLOCKING_SEVERITIES.includes(allergy.severity),
+      });
+    }
+  }
+
+  return warnings;
+};
+
+// the medications a visit create/update request prescribes, as checkAllergies expects them
+export const requestedMedications = (body: any): string[] => {
+  if (Array.isArray(body.prescriptions)) {
+    return body.prescriptions.map((line: any) => line?.drug_name || "");
+  }
+  return body.prescribed_medications ? [body.prescribed_medications] : [];
+};
+
+export const ALLERGY_CONFLICT_MESSAGE =
+  "The medication conflicts with the patient's recorded allergies. Provide allergy_override_reason to prescribe it anyway.";
+
+export interface PrescribingScreening {
+  warnings: AllergyWarning[];
+  blocked: boolean;
+  overrides: AllergyWarning[];
+  reason: string;
+}
+
+// blocked when a blocking warning has no override reason; otherwise the blocking
+// warnings are the overrides to record once the write goes through
+export const screenPrescribing = async (
+  patientUuid: string,
+  medications: string[],
+  overrideReason: unknown,
+  visitUuid?: string
+): Promise<PrescribingScreening> => {
+  const warnings = await checkAllergies(patientUuid, medications, visitUuid);
+  const blocking = warnings.filter((warning) => warning.blocking);
+  const reason =
+    typeof overrideReason === "string" ? overrideReason.trim() : "";
+
+  return {
+    warnings,
+    blocked: blocking.length > 0 && !reason,
+    overrides: reason ? blocking : [],
+    reason,
+  };
+};
+
+export const recordOverrides = async (
+  conn: PoolConnection,
+  visitUuid: string,
+  organizationId: string,
+  overriddenBy: string,
+  warnings: AllergyWarning[],
+  reason: string
+): Promise<void> => {
+  for (const warning of warnings) {
+    await conn.execute(
+      `
+      INSERT INTO visit_allergy_overrides
+        (uuid, visit_id, organization_id, allergy_id, substance, medication, severity, reason, overridden_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        uuid(),
+        visitUuid,
+        organizationId,
+        warning.allergy_id,
+        warning.substance,
+        warning.medication,
+        warning.severity,
+        reason,
+        overriddenBy,
+      ]
+    );
+  }
+};
+
+export const listOverrides = async (visitUuid: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT o.uuid, o.allergy_id, o.substance, o.medication, o.severity, o.reason,
+           o.overridden_by, CONCAT(u.first_name, ' ', u.last_name) AS overridden_by_name,
+           o.created_at
+    FROM visit_allergy_overrides o
+    LEFT JOIN users u ON u.uuid = o.overridden_by
+    WHERE o.visit_id = ?
+    ORDER BY o.id ASC
+    `,
+    [visitUuid]
+  );
+  return rows;
+};
@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canTransition,
+  isLocalDate,
+  localDateTime,
+  minutesToTime,
+  parseLocalDateTime,
+  timeToMinutes,
+  weekdayOf,
+  workingHoursProblem,
+} from "./appointments";
+
+describe("canTransition", () => {
+  it("follows an appointment from booked to completed", () => {
+    assert.equal(canTransition("booked", "arrived"), true);
+    assert.equal(canTransition("arrived", "completed"), true);
+  });
+
+  it("cannot skip arriving or leave a final status", () => {
+    assert.equal(canTransition("booked", "completed"), false);
+    assert.equal(canTransition("cancelled", "booked"), false);
+    assert.equal(canTransition("no-show", "arrived"), false);
+  });
+
+  it("knows no moves from an unknown status", () => {
+    assert.equal(canTransition("pending", "booked"), false);
+  });
+});
+
+describe("local dates and times", () => {
+  it("rejects dates that do not exist", () => {
+    assert.equal(isLocalDate("2024-02-29"), true);
+    assert.equal(isLocalDate("2025-02-29"), false);
+    assert.equal(isLocalDate("2025-2-3"), false);
+  });
+
+  it("reads a wall-clock time as minutes since midnight", () => {
+    assert.deepEqual(parseLocalDateTime("2026-03-02T09:30"), {
+      date: "2026-03-02",
+      minutes: 570,
+    });
+    assert.deepEqual(parseLocalDateTime("2026-03-02 14:05:00"), {
+      date: "2026-03-02",
+      minutes: 845,
+    });
+  });
+
+  it("rejects times with a zone, seconds or out of range", () => {
+    assert.equal(parseLocalDateTime("2026-03-02T09:30Z"), null);
+    assert.equal(parseLocalDateTime("2026-03-02T09:30:15"), null);
+    assert.equal(parseLocalDateTime("2026-03-02T24:00"), null);
+    assert.equal(parseLocalDateTime(20260302), null);
+  });
+
+  it("writes minutes back as a time", () => {
+    assert.equal(timeToMinutes("08:45"), 525);
+    assert.equal(minutesToTime(525), "08:45");
+    assert.equal(localDateTime("2026-03-02", 0), "2026-03-02 00:00");
+  });
+
+  it("gives the weekday of a date, Sunday first", () => {
+    assert.equal(weekdayOf("2026-03-01"), 0);
+    assert.equal(weekdayOf("2026-03-07"), 6);
+  });
+});
+
+describe("workingHoursProblem", () => {
+  const monday = { weekday: 1, start: "08:00", end: "12:00" };
+
+  it("accepts a split day", () => {
+    assert.equal(
+      workingHoursProblem([
+        monday,
+        { weekday: 1, start: "13:00", end: "17:00", slot_minutes: 30 },
+      ]),
+      null
+    );
+  });
+
+  it("requires a weekday from 0 to 6", () => {
+    assert.equal(
+      workingHoursProblem([{ ...monday, weekday: 7 }]),
+      "Entry 1: weekday must be 0 (Sunday) to 6 (Saturday)"
+    );
+  });
+
+  it("requires times that run forward", () => {
+    assert.equal(
+      workingHoursProblem([monday, { ...monday, start: "8:00" }]),
+      "Entry 2: start and end must be HH:MM"
+    );
+    assert.equal(
+      workingHoursProblem([{ ...monday, end: "08:00" }]),
+      "Entry 1: start must be before end"
+    );
+  });
+
+  it("limits the slot length", () => {
+    assert.equal(
+      workingHoursProblem([{ ...monday, slot_minutes: 2 }]),
+      "Entry 1: slot_minutes must be a whole number from 5 to 240"
+    );
+  });
+
+  it("rejects overlapping hours on the same day only", () => {
+    assert.equal(
+      workingHoursProblem([
+        monday,
+        { weekday: 1, start: "11:30", end: "14:00" },
+      ]),
+      "Working hours overlap on weekday 1"
+    );
+    assert.equal(
+      workingHoursProblem([monday, { ...monday, weekday: 2 }]),
+      null
+    );
+  });
+});
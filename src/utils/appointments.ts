@@ -0,0 +1,463 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import { findMembership } from "./organizations";
+
+export const APPOINTMENT_STATUSES = [
+  "booked",
+  "arrived",
+  "no-show",
+  "completed",
+  "cancelled",
+];
+
+// allowed status moves; completed is also reached by converting the appointment into a visit
+export const TRANSITIONS: Record<string, string[]> = {
+  booked: ["arrived", "no-show", "cancelled"],
+  arrived: ["completed", "cancelled"],
+  "no-show": [],
+  completed: [],
+  cancelled: [],
+};
+
+// appointments in these states hold the provider's (and the patient's) time
+const ACTIVE_STATUSES = ["booked", "arrived"];
+
+export const canTransition = (from: string, to: string): boolean => {
+  return (TRANSITIONS[from] || []).includes(to);
+};
+
+// all times are clinic-local wall-clock values and are never converted, so
+// they travel as "YYYY-MM-DD HH:MM" strings and minutes since midnight
+const LOCAL_DATE_TIME = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}):(\d{2})(:00)?$/;
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const isLocalDate = (value: unknown): value is string => {
+  if (typeof value !== "string" || !LOCAL_DATE.test(value)) {
+    return false;
+  }
+  // rejects dates Date would roll over, e.g. 2025-02-30
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === value
+  );
+};
+
+export const parseLocalDateTime = (
+  value: unknown
+): { date: string; minutes: number } | null => {
+  const match = typeof value === "string" ? LOCAL_DATE_TIME.exec(value) : null;
+  if (!match || !isLocalDate(match[1])) {
+    return null;
+  }
+  const hours = Number(match[2]);
+  const minutes = Number(match[3]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return { date: match[1], minutes: hours * 60 + minutes };
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = String(time).split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number): string => {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+export const localDateTime = (date: string, minutes: number): string => {
+  return `${date} ${minutesToTime(minutes)}`;
+};
+
+export const weekdayOf = (date: string): number => {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+};
+
+// the server clock read as clinic-local time
+export const localNow = (): { date: string; minutes: number } => {
+  const now = new Date();
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(
+      now.getDate()
+    )}`,
+    minutes: now.getHours() * 60 + now.getMinutes(),
+  };
+};
+
+export interface WorkingHours {
+  weekday: number;
+  start: string;
+  end: string;
+  slot_minutes: number;
+}
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// returns the reason a weekly schedule is rejected, or null when it is acceptable
+export const workingHoursProblem = (items: any): string | null => {
+  if (!Array.isArray(items)) {
+    return "hours must be an array";
+  }
+
+  for (const [index, item] of items.entries()) {
+    const label = `Entry ${index + 1}`;
+    if (
+      !item ||
+      !Number.isInteger(item.weekday) ||
+      item.weekday < 0 ||
+      item.weekday > 6
+    ) {
+      return `${label}: weekday must be 0 (Sunday) to 6 (Saturday)`;
+    }
+    if (!TIME.test(item.start) || !TIME.test(item.end)) {
+      return `${label}: start and end must be HH:MM`;
+    }
+    if (timeToMinutes(item.start) >= timeToMinutes(item.end)) {
+      return `${label}: start must be before end`;
+    }
+    const slot = item.slot_minutes ?? 15;
+    if (!Number.isInteger(slot) || slot < 5 || slot > 240) {
+      return `${label}: slot_minutes must be a whole number from 5 to 240`;
+    }
+  }
+
+  for (const a of items) {
+    for (const b of items) {
+      if (
+        a !== b &&
+        a.weekday === b.weekday &&
+        timeToMinutes(a.start) < timeToMinutes(b.end) &&
+        timeToMinutes(b.start) < timeToMinutes(a.end)
+      ) {
+        return `Working hours overlap on weekday ${a.weekday}`;
+      }
+    }
+  }
+
+  return null;
+};
+
+export const getWorkingHours = async (
+  organizationId: string,
+  providerUuid: string,
+  weekday?: number
+): Promise<WorkingHours[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT weekday, TIME_FORMAT(start_time, '%H:%i') AS start,
+           TIME_FORMAT(end_time, '%H:%i') AS end, slot_minutes
+    FROM provider_working_hours
+    WHERE organization_id = ? AND provider_id = ?${
+      weekday === undefined ? "" : " AND weekday = ?"
+    }
+    ORDER BY weekday, start_time
+    `,
+    weekday === undefined
+      ? [organizationId, providerUuid]
+      : [organizationId, providerUuid, weekday]
+  );
+
+  return rows as WorkingHours[];
+};
+
+export const replaceWorkingHours = async (
+  conn: PoolConnection,
+  organizationId: string,
+  providerUuid: string,
+  items: WorkingHours[]
+): Promise<void> => {
+  await conn.execute(
+    `DELETE FROM provider_working_hours WHERE organization_id = ? AND provider_id = ?`,
+    [organizationId, providerUuid]
+  );
+
+  for (const item of items) {
+    await conn.execute(
+      `
+      INSERT INTO provider_working_hours
+        (organization_id, provider_id, weekday, start_time, end_time, slot_minutes)
+      VALUES (?, ?, ?, ?, ?, ?)
+      `,
+      [
+        organizationId,
+        providerUuid,
+        item.weekday,
+        item.start,
+        item.end,
+        item.slot_minutes ?? 15,
+      ]
+    );
+  }
+};
+
+export interface Conflict {
+  uuid: string;
+  starts_at: string;
+  ends_at: string;
+  provider_id: string;
+  patient_id: string;
+  with: "provider" | "patient";
+}
+
+// active appointments of the provider or the patient that overlap [startsAt, endsAt)
+export const findConflicts = async (
+  conn: PoolConnection,
+  organizationId: string,
+  booking: {
+    providerId: string;
+    patientId: string;
+    startsAt: string;
+    endsAt: string;
+    excludeUuid?: string;
+  }
+): Promise<Conflict[]> => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `
+    SELECT uuid, provider_id, patient_id,
+           DATE_FORMAT(starts_at, '%Y-%m-%d %H:%i') AS starts_at,
+           DATE_FORMAT(ends_at, '%Y-%m-%d %H:%i') AS ends_at
+    FROM appointments
+    WHERE organization_id = ?
+      AND (provider_id = ? OR patient_id = ?)
+      AND status IN (${ACTIVE_STATUSES.map(() => "?").join(", ")})
+      AND starts_at < ? AND ends_at > ?
+      AND uuid <> ?
+    ORDER BY starts_at
+    `,
+    [
+      organizationId,
+      booking.providerId,
+      booking.patientId,
+      ...ACTIVE_STATUSES,
+      booking.endsAt,
+      booking.startsAt,
+      booking.excludeUuid || "",
+    ]
+  );
+
+  return rows.map((row) => ({
+    ...(row as Conflict),
+    with: row.provider_id === booking.providerId ? "provider" : "patient",
+  }));
+};
+
+export interface BookingRequest {
+  patientId: string;
+  providerId: string;
+  startsAt: unknown;
+  durationMinutes?: unknown;
+  excludeUuid?: string;
+}
+
+export interface BookingRejection {
+  status: number;
+  body: { message: string; conflicts?: Conflict[] };
+}
+
+// checks a new or moved booking against the provider's working hours and calendar.
+// Call with the provider's calendar locked so the conflict check cannot race.
+export const checkBooking = async (
+  conn: PoolConnection,
+  organizationId: string,
+  request: BookingRequest
+): Promise<
+  | { rejection: BookingRejection }
+  | { rejection: null; startsAt: string; endsAt: string }
+> => {
+  const reject = (status: number, body: BookingRejection["body"]) => ({
+    rejection: { status, body },
+  });
+
+  const start = parseLocalDateTime(request.startsAt);
+  if (!start) {
+    return reject(400, { message: "startsAt must be YYYY-MM-DDTHH:MM" });
+  }
+
+  const now = localNow();
+  if (
+    start.date < now.date ||
+    (start.date === now.date && start.minutes < now.minutes)
+  ) {
+    return reject(400, { message: "Appointments cannot start in the past" });
+  }
+
+  if (!(await findMembership(request.providerId, organizationId))) {
+    return reject(404, { message: "Provider not found" });
+  }
+
+  const [patientRows] = await conn.execute<RowDataPacket[]>(
+    `SELECT uuid FROM patients WHERE uuid = ? AND organization_id = ? AND deleted_at IS NULL LIMIT 1`,
+    [request.patientId, organizationId]
+  );
+  if (patientRows.length === 0) {
+    return reject(404, { message: "Patient not found" });
+  }
+
+  const windows = await getWorkingHours(
+    organizationId,
+    request.providerId,
+    weekdayOf(start.date)
+  );
+  const window = windows.find(
+    (w) =>
+      start.minutes >= timeToMinutes(w.start) &&
+      start.minutes < timeToMinutes(w.end)
+  );
+  if (!window) {
+    return reject(400, {
+      message: "The provider is not working at that time",
+    });
+  }
+
+  const duration =
+    request.durationMinutes === undefined || request.durationMinutes === null
+      ? window.slot_minutes
+      : Number(request.durationMinutes);
+  if (!Number.isInteger(duration) || duration < 5 || duration > 480) {
+    return reject(400, {
+      message: "durationMinutes must be a whole number from 5 to 480",
+    });
+  }
+
+  const endMinutes = start.minutes + duration;
+  if (endMinutes > timeToMinutes(window.end)) {
+    return reject(400, {
+      message: `The appointment would run past the end of working hours (${window.end})`,
+    });
+  }
+
+  const startsAt = localDateTime(start.date, start.minutes);
+  const endsAt = localDateTime(start.date, endMinutes);
+
+  const conflicts = await findConflicts(conn, organizationId, {
+    providerId: request.providerId,
+    patientId: request.patientId,
+    startsAt,
+    endsAt,
+    excludeUuid: request.excludeUuid,
+  });
+  if (conflicts.length) {
+    return reject(409, {
+      message: "The appointment overlaps another booking",
+      conflicts,
+    });
+  }
+
+  return { rejection: null, startsAt, endsAt };
+};
+
+// serializes bookings per provider; released by unlockCalendar in the same connection
+export const lockCalendar = async (
+  conn: PoolConnection,
+  providerUuid: string
+): Promise<boolean> => {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    "SELECT GET_LOCK(?, 10) AS acquired",
+    [`appointments:${providerUuid}`]
+  );
+  return rows[0].acquired === 1;
+};
+
+export const unlockCalendar = async (
+  conn: PoolConnection,
+  providerUuid: string
+): Promise<void> => {
+  await conn.query("SELECT RELEASE_LOCK(?)", [`appointments:${providerUuid}`]);
+};
+
+export interface Slot {
+  starts_at: string;
+  ends_at: string;
+}
+
+// open slots on one day, laid on each working window's slot grid
+export const freeSlots = async (
+  organizationId: string,
+  providerUuid: string,
+  date: string,
+  durationMinutes?: number
+): Promise<Slot[]> => {
+  const windows = await getWorkingHours(
+    organizationId,
+    providerUuid,
+    weekdayOf(date)
+  );
+  if (windows.length === 0) {
+    return [];
+  }
+
+  const [booked] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT DATE_FORMAT(starts_at, '%H:%i') AS start, DATE_FORMAT(ends_at, '%H:%i') AS end
+    FROM appointments
+    WHERE organization_id = ? AND provider_id = ?
+      AND status IN (${ACTIVE_STATUSES.map(() => "?").join(", ")})
+      AND starts_at >= ? AND starts_at < DATE_ADD(?, INTERVAL 1 DAY)
+    `,
+    [organizationId, providerUuid, ...ACTIVE_STATUSES, date, date]
+  );
+  const busy = booked.map((row) => [
+    timeToMinutes(row.start),
+    timeToMinutes(row.end),
+  ]);
+
+  const now = localNow();
+  const earliest =
+    date === now.date ? now.minutes : date < now.date ? 24 * 60 : 0;
+  const slots: Slot[] = [];
+
+  for (const window of windows) {
+    const length = durationMinutes || window.slot_minutes;
+    const close = timeToMinutes(window.end);
+
+    for (
+      let start = timeToMinutes(window.start);
+      start + length <= close;
+      start += window.slot_minutes
+    ) {
+      const end = start + length;
+      if (
+        start >= earliest &&
+        !busy.some(([from, to]) => start < to && from < end)
+      ) {
+        slots.push({
+          starts_at: localDateTime(date, start),
+          ends_at: localDateTime(date, end),
+        });
+      }
+    }
+  }
+
+  return slots;
+};
+
+export const APPOINTMENT_COLUMNS = `
+  a.uuid, a.patient_id, p.name AS patient_name, a.provider_id,
+  CONCAT(u.first_name, ' ', u.last_name) AS provider_name,
+  DATE_FORMAT(a.starts_at, '%Y-%m-%d %H:%i') AS starts_at,
+  DATE_FORMAT(a.ends_at, '%Y-%m-%d %H:%i') AS ends_at,
+  a.status, a.reason, a.cancellation_reason, a.visit_id, a.created_by, a.created_at
+`;
+
+export const findAppointment = async (
+  appointmentUuid: string,
+  organizationId: string,
+  conn?: PoolConnection
+) => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT ${APPOINTMENT_COLUMNS}
+    FROM appointments a
+    JOIN patients p ON p.uuid = a.patient_id
+    JOIN users u ON u.uuid = a.provider_id
+    WHERE a.uuid = ? AND a.organization_id = ? AND p.deleted_at IS NULL
+    LIMIT 1
+    `,
+    [appointmentUuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
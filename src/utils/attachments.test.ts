@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AttachmentUpload, cleanFileName, uploadProblem } from "./attachments";
+
+const PDF = Buffer.from("%PDF-1.7\n...");
+const PNG = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a", "hex"),
+  Buffer.from("IHDR"),
+]);
+
+const upload = (fields: Partial<AttachmentUpload> = {}): AttachmentUpload => ({
+  fileName: "report.pdf",
+  mimeType: "application/pdf",
+  data: PDF,
+  category: "lab-report",
+  description: null,
+  ...fields,
+});
+
+describe("cleanFileName", () => {
+  it("drops the directories a browser sends along", () => {
+    assert.equal(cleanFileName("C:\\Users\\jane\\scan.png"), "scan.png");
+    assert.equal(cleanFileName("../../etc/passwd"), "passwd");
+  });
+
+  it("drops control characters and quotes", () => {
+    assert.equal(cleanFileName('x-ray "left".png\r\n'), "x-ray left.png");
+  });
+
+  it("returns an empty name for nothing", () => {
+    assert.equal(cleanFileName(undefined), "");
+    assert.equal(cleanFileName("scans/"), "");
+  });
+});
+
+describe("uploadProblem", () => {
+  it("accepts files whose content matches their type", () => {
+    assert.equal(uploadProblem(upload()), null);
+    assert.equal(
+      uploadProblem(
+        upload({ fileName: "x.png", mimeType: "image/png", data: PNG })
+      ),
+      null
+    );
+  });
+
+  it("refuses a file dressed up as another type", () => {
+    assert.equal(
+      uploadProblem(upload({ data: Buffer.from("<html><script>") })),
+      "The file content does not match its type application/pdf"
+    );
+    assert.equal(
+      uploadProblem(upload({ mimeType: "image/jpeg", data: PNG })),
+      "The file content does not match its type image/jpeg"
+    );
+  });
+
+  it("names the accepted types", () => {
+    assert.equal(
+      uploadProblem(upload({ mimeType: "text/html" })),
+      "Files of type text/html are not accepted. Accepted types are: application/pdf, image/png, image/jpeg, image/tiff, image/webp"
+    );
+    assert.match(
+      uploadProblem(upload({ mimeType: "" }))!,
+      /^Files of type unknown /
+    );
+  });
+
+  it("requires a name, a known category and some content", () => {
+    assert.equal(
+      uploadProblem(upload({ fileName: "" })),
+      "filename is required"
+    );
+    assert.equal(
+      uploadProblem(upload({ category: "x-ray" as any })),
+      "category must be one of: lab-report, imaging, referral, other"
+    );
+    assert.equal(
+      uploadProblem(upload({ data: Buffer.alloc(0) })),
+      "The file is empty"
+    );
+  });
+
+  it("limits the name and the description", () => {
+    assert.equal(
+      uploadProblem(upload({ fileName: `${"x".repeat(252)}.pdf` })),
+      "filename must be at most 255 characters"
+    );
+    assert.equal(
+      uploadProblem(upload({ description: "x".repeat(501) })),
+      "description must be at most 500 characters"
+    );
+  });
+});
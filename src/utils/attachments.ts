@@ -0,0 +1,274 @@
+import crypto from "crypto";
+import { pipeline } from "stream/promises";
+import { Request, Response } from "express";
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+import { openFile, removeFile, storeFile } from "./storage";
+
+export const ATTACHMENT_CATEGORIES = [
+  "lab-report",
+  "imaging",
+  "referral",
+  "other",
+] as const;
+export type AttachmentCategory = (typeof ATTACHMENT_CATEGORIES)[number];
+
+// the declared Content-Type has to agree with the first bytes of the file, so a
+// renamed executable or HTML page is not stored and served back as a scan
+const SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  "application/pdf": (data) =>
+    data.subarray(0, 5).toString("latin1") === "%PDF-",
+  "image/png": (data) =>
+    data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex")),
+  "image/jpeg": (data) =>
+    data.subarray(0, 3).equals(Buffer.from("ffd8ff", "hex")),
+  "image/tiff": (data) =>
+    ["49492a00", "4d4d002a"].includes(data.subarray(0, 4).toString("hex")),
+  "image/webp": (data) =>
+    data.subarray(0, 4).toString("latin1") === "RIFF" &&
+    data.subarray(8, 12).toString("latin1") === "WEBP",
+};
+
+export const ACCEPTED_TYPES = Object.keys(SIGNATURES);
+
+// which record an attachment hangs off; visitId is null for the patient's own files
+export interface AttachmentScope {
+  organizationId: string;
+  patientId: string;
+  visitId: string | null;
+}
+
+export interface Attachment {
+  uuid: string;
+  patient_id: string;
+  visit_id: string | null;
+  category: AttachmentCategory;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  checksum: string;
+  description: string | null;
+  uploaded_by: string;
+  uploaded_by_name: string | null;
+  uploaded_at: string;
+}
+
+// the storage key stays on the server
+export interface StoredAttachment extends Attachment {
+  storage_key: string;
+}
+
+export const withoutKey = ({ storage_key, ...attachment }: StoredAttachment) =>
+  attachment as Attachment;
+
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  data: Buffer;
+  category: AttachmentCategory;
+  description: string | null;
+}
+
+// drops any directory part a browser sends along and characters that break headers
+export const cleanFileName = (value: unknown): string => {
+  return String(value || "")
+    .split(/[\\/]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .trim();
+};
+
+// the file is the raw request body; its name and details come in the query string
+export const readUpload = (req: Request): AttachmentUpload => {
+  return {
+    fileName: cleanFileName(req.query.filename),
+    mimeType: String(req.get("content-type") || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase(),
+    data: req.body,
+    category: ((req.query.category as string) || "other") as AttachmentCategory,
+    description: (req.query.description as string) || null,
+  };
+};
+
+// returns the reason an upload is rejected, or null when it is acceptable
+export const uploadProblem = (upload: AttachmentUpload): string | null => {
+  if (!upload.fileName) {
+    return "filename is required";
+  }
+  if (upload.fileName.length > 255) {
+    return "filename must be at most 255 characters";
+  }
+  if (!ATTACHMENT_CATEGORIES.includes(upload.category)) {
+    return `category must be one of: ${ATTACHMENT_CATEGORIES.join(", ")}`;
+  }
+  if (upload.description && upload.description.length > 500) {
+    return "description must be at most 500 characters";
+  }
+  if (!Buffer.isBuffer(upload.data) || upload.data.length === 0) {
+    return "The file is empty";
+  }
+
+  const matches = SIGNATURES[upload.mimeType];
+  if (!matches) {
+    return `Files of type ${
+      upload.mimeType || "unknown"
+    } are not accepted. Accepted types are: ${ACCEPTED_TYPES.join(", ")}`;
+  }
+  if (!matches(upload.data)) {
+    return `The file content does not match its type ${upload.mimeType}`;
+  }
+  return null;
+};
+
+const SELECT_ATTACHMENT = `
+  SELECT a.uuid, a.patient_id, a.visit_id, a.category, a.file_name, a.mime_type,
+         a.size_bytes, a.checksum, a.storage_key, a.description, a.uploaded_by,
+         CONCAT(u.first_name, ' ', u.last_name) AS uploaded_by_name,
+         DATE_FORMAT(a.uploaded_at, '%Y-%m-%d %H:%i:%s') AS uploaded_at
+  FROM attachments a
+  LEFT JOIN users u ON u.uuid = a.uploaded_by
+`;
+
+const scopeFilter = (scope: AttachmentScope) => {
+  return scope.visitId
+    ? {
+        where: "a.organization_id = ? AND a.visit_id = ?",
+        params: [scope.organizationId, scope.visitId],
+      }
+    : {
+        where:
+          "a.organization_id = ? AND a.patient_id = ? AND a.visit_id IS NULL",
+        params: [scope.organizationId, scope.patientId],
+      };
+};
+
+export const listAttachments = async (
+  scope: AttachmentScope
+): Promise<Attachment[]> => {
+  const { where, params } = scopeFilter(scope);
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${SELECT_ATTACHMENT} WHERE ${where} ORDER BY a.uploaded_at DESC, a.id DESC`,
+    params
+  );
+  return (rows as StoredAttachment[]).map(withoutKey);
+};
+
+// only finds the attachment through the record it belongs to, so access to a file
+// is always decided by access to its patient or visit
+export const findAttachment = async (
+  scope: AttachmentScope,
+  attachmentUuid: string,
+  conn?: PoolConnection
+): Promise<StoredAttachment | null> => {
+  const { where, params } = scopeFilter(scope);
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `${SELECT_ATTACHMENT} WHERE ${where} AND a.uuid = ? LIMIT 1`,
+    [...params, attachmentUuid]
+  );
+  return rows.length ? (rows[0] as StoredAttachment) : null;
+};
+
+// stores the file first and the row second, inside the caller's transaction. If the row
+// cannot be written the file is removed again; if the transaction fails later the caller
+// removes it, so storage never holds a file nothing points to
+export const saveAttachment = async (
+  conn: PoolConnection,
+  scope: AttachmentScope,
+  upload: AttachmentUpload,
+  uploadedBy: string
+): Promise<StoredAttachment> => {
+  const attachmentUuid = uuid();
+  const storageKey = `${scope.organizationId}/${attachmentUuid}`;
+  const checksum = crypto
+    .createHash("sha256")
+    .update(upload.data)
+    .digest("hex");
+
+  await storeFile(storageKey, upload.data);
+
+  try {
+    await conn.execute(
+      `
+      INSERT INTO attachments
+        (uuid, organization_id, patient_id, visit_id, category, file_name, mime_type,
+         size_bytes, checksum, storage_key, description, uploaded_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        attachmentUuid,
+        scope.organizationId,
+        scope.patientId,
+        scope.visitId,
+        upload.category,
+        upload.fileName,
+        upload.mimeType,
+        upload.data.length,
+        checksum,
+        storageKey,
+        upload.description,
+        uploadedBy,
+      ]
+    );
+  } catch (err) {
+    await removeFile(storageKey).catch(() => undefined);
+    throw err;
+  }
+
+  return (await findAttachment(scope, attachmentUuid, conn))!;
+};
+
+// the checksum doubles as the ETag, so a client can check the bytes it received.
+// The file is opened before any header is sent, so a missing file is still a 500.
+export const sendAttachment = async (
+  res: Response,
+  attachment: StoredAttachment
+): Promise<void> => {
+  const file = await openFile(attachment.storage_key);
+
+  res
+    .status(200)
+    .attachment(attachment.file_name)
+    .type(attachment.mime_type)
+    .set({
+      "Content-Length": String(attachment.size_bytes),
+      ETag: `"${attachment.checksum}"`,
+      "X-Content-Type-Options": "nosniff",
+    });
+  await pipeline(file, res);
+};
+
+// only removes the row; the file goes with removeStoredFiles once the transaction has
+// committed, so a rolled back delete still has its file
+export const deleteAttachment = async (
+  conn: PoolConnection,
+  attachment: StoredAttachment
+): Promise<void> => {
+  await conn.execute(`DELETE FROM attachments WHERE uuid = ?`, [
+    attachment.uuid,
+  ]);
+};
+
+// deleting a patient or visit removes its attachment rows by cascade; collect the
+// keys first so the files can be removed after the parent is gone
+export const attachmentKeys = async (
+  column: "patient_id" | "visit_id",
+  parentUuid: string
+): Promise<string[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT storage_key FROM attachments WHERE ${column} = ?`,
+    [parentUuid]
+  );
+  return rows.map((row) => row.storage_key);
+};
+
+// the rows are already gone, so a file that cannot be removed is only logged
+export const removeStoredFiles = async (keys: string[]): Promise<void> => {
+  for (const key of keys) {
+    await removeFile(key).catch((err) =>
+      console.error(`[storage]: could not remove ${key}: ${err.message}`)
+    );
+  }
+};
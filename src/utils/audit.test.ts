@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffRecords } from "./audit";
+
+describe("diffRecords", () => {
+  it("keeps only the fields that changed", () => {
+    assert.deepEqual(
+      diffRecords(
+        { name: "Jane", contact: "0825550101", gender: "F" },
+        { name: "Jane Smith", contact: "0825550101", gender: "F" }
+      ),
+      { name: { before: "Jane", after: "Jane Smith" } }
+    );
+  });
+
+  it("records every field of a create and of a delete", () => {
+    assert.deepEqual(diffRecords(null, { name: "Jane" }), {
+      name: { before: null, after: "Jane" },
+    });
+    assert.deepEqual(diffRecords({ name: "Jane" }, null), {
+      name: { before: "Jane", after: null },
+    });
+  });
+
+  it("compares dates by their value", () => {
+    const before = { date_of_birth: new Date("1990-04-12T00:00:00Z") };
+
+    assert.deepEqual(
+      diffRecords(before, {
+        date_of_birth: new Date("1990-04-12T00:00:00Z"),
+      }),
+      {}
+    );
+    assert.deepEqual(
+      diffRecords(before, { date_of_birth: new Date("1990-04-13T00:00:00Z") }),
+      {
+        date_of_birth: {
+          before: "1990-04-12T00:00:00.000Z",
+          after: "1990-04-13T00:00:00.000Z",
+        },
+      }
+    );
+  });
+
+  it("treats a missing field like null", () => {
+    assert.deepEqual(diffRecords({ notes: null }, {}), {});
+  });
+
+  it("has nothing to record without either side", () => {
+    assert.equal(diffRecords(null, null), null);
+  });
+});
@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+export type AuditAction =
+  | "view"
+  | "create"
+  | "update"
+  | "delete"
+  | "restore"
+  | "purge"
+  | "sign"
+  | "merge"
+  | "unmerge";
+
+export interface AuditEntry {
+  action: AuditAction;
+  resourceType: string;
+  resourceUuid: string;
+  patientId?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt: string | null;
+}
+
+type FieldChanges = Record<string, { before: any; after: any }>;
+
+const normalise = (value: any): any => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value === undefined ? null : value;
+};
+
+// only the fields that differ are kept; a create has no before, a delete has no after
+export const diffRecords = (
+  before?: Record<string, any> | null,
+  after?: Record<string, any> | null
+): FieldChanges | null => {
+  if (!before && !after) {
+    return null;
+  }
+
+  const fields = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+  const changes: FieldChanges = {};
+
+  fields.forEach((field) => {
+    const from = before ? normalise(before[field]) : null;
+    const to = after ? normalise(after[field]) : null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  });
+
+  return changes;
+};
+
+const computeHash = (prevHash: string | null, row: Record<string, any>) => {
+  const payload = JSON.stringify([
+    prevHash,
+    row.uuid,
+    row.organization_id,
+    row.actor_id,
+    row.action,
+    row.resource_type,
+    row.resource_uuid,
+    row.patient_id,
+    row.ip,
+    row.user_agent,
+    row.changes,
+    normalise(row.created_at),
+  ]);
+
+  return crypto.createHash("sha256").update(payload).digest("hex");
+};
+
+const appendEntry = async (
+  conn: PoolConnection,
+  req: Request,
+  entry: AuditEntry
+): Promise<void> => {
+  const { tokenInfo } = req;
+  const changes = diffRecords(entry.before, entry.after);
+
+  await conn.execute(
+    "INSERT IGNORE INTO audit_chain_heads (organization_id) VALUES (?)",
+    [tokenInfo.organizationId]
+  );
+  const [heads] = await conn.execute<RowDataPacket[]>(
+    "SELECT last_hash FROM audit_chain_heads WHERE organization_id = ? FOR UPDATE",
+    [tokenInfo.organizationId]
+  );
+  const prevHash: string | null = heads[0].last_hash;
+
+  const row = {
+    uuid: uuid(),
+    organization_id: tokenInfo.organizationId,
+    actor_id: tokenInfo.uuid,
+    action: entry.action,
+    resource_type: entry.resourceType,
+    resource_uuid: entry.resourceUuid,
+    patient_id: entry.patientId || null,
+    ip: req.ip || null,
+    user_agent: (req.get("user-agent") || "").slice(0, 512) || null,
+    changes: changes ? JSON.stringify(changes) : null,
+    created_at: new Date(),
+  };
+  const hash = computeHash(prevHash, row);
+
+  await conn.execute(
+    `
+    INSERT INTO audit_log
+      (uuid, organization_id, actor_id, action, resource_type, resource_uuid,
+       patient_id, ip, user_agent, changes, created_at, prev_hash, hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    [
+      row.uuid,
+      row.organization_id,
+      row.actor_id,
+      row.action,
+      row.resource_type,
+      row.resource_uuid,
+      row.patient_id,
+      row.ip,
+      row.user_agent,
+      row.changes,
+      row.created_at,
+      prevHash,
+      hash,
+    ]
+  );
+  await conn.execute(
+    "UPDATE audit_chain_heads SET last_hash = ? WHERE organization_id = ?",
+    [hash, tokenInfo.organizationId]
+  );
+};
+
+// appends one entry to the organization's chain. Changes pass the connection of their
+// own transaction so the entry commits or rolls back with them; a change that cannot be
+// recorded is not saved. Reads are recorded on their own before responding, so a request
+// whose access cannot be recorded fails instead of going unlogged.
+export const recordAudit = async (
+  req: Request,
+  entry: AuditEntry,
+  conn?: PoolConnection
+): Promise<void> => {
+  if (conn) {
+    return appendEntry(conn, req, entry);
+  }
+
+  const own = await db.getConnection();
+
+  try {
+    await own.beginTransaction();
+    await appendEntry(own, req, entry);
+    await own.commit();
+  } catch (err) {
+    await own.rollback();
+    throw err;
+  } finally {
+    own.release();
+  }
+};
+
+// walks the organization's chain in insertion order, recomputing every hash
+export const verifyAuditChain = async (
+  organizationId: string
+): Promise<ChainVerification> => {
+  const batchSize = 1000;
+  let lastId = 0;
+  let prevHash: string | null = null;
+  let checked = 0;
+
+  while (true) {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `
+      SELECT * FROM audit_log
+      WHERE organization_id = ? AND id > ?
+      ORDER BY id ASC
+      LIMIT ${batchSize}
+      `,
+      [organizationId, lastId]
+    );
+
+    for (const row of rows) {
+      if (
+        row.prev_hash !== prevHash ||
+        computeHash(prevHash, row) !== row.hash
+      ) {
+        return { valid: false, checked, brokenAt: row.uuid };
+      }
+      prevHash = row.hash;
+      lastId = row.id;
+      checked++;
+    }
+
+    if (rows.length < batchSize) {
+      break;
+    }
+  }
+
+  const [heads] = await db.execute<RowDataPacket[]>(
+    "SELECT last_hash FROM audit_chain_heads WHERE organization_id = ?",
+    [organizationId]
+  );
+  const headHash = heads.length ? heads[0].last_hash : null;
+
+  // a mismatch here means entries were removed from the end of the chain
+  if (headHash !== prevHash) {
+    return { valid: false, checked, brokenAt: null };
+  }
+
+  return { valid: true, checked, brokenAt: null };
+};
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, toCsvRow } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    assert.deepEqual(parseCsv("code,title\nA00,Cholera\nA01,Typhoid"), [
+      ["code", "title"],
+      ["A00", "Cholera"],
+      ["A01", "Typhoid"],
+    ]);
+  });
+
+  it("takes CRLF, CR and a trailing line break", () => {
+    assert.deepEqual(parseCsv("a,b\r\nc,d\re,f\r\n"), [
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+    ]);
+  });
+
+  it("keeps delimiters, doubled quotes and line breaks inside quotes", () => {
+    assert.deepEqual(
+      parseCsv('E11,"Type 2 diabetes, ""adult onset""","line one\nline two"'),
+      [["E11", 'Type 2 diabetes, "adult onset"', "line one\nline two"]]
+    );
+  });
+
+  it("keeps empty fields", () => {
+    assert.deepEqual(parseCsv("a,,c\n,,"), [
+      ["a", "", "c"],
+      ["", "", ""],
+    ]);
+  });
+
+  it("drops blank lines", () => {
+    assert.deepEqual(parseCsv("a,b\n\n   \nc,d\n\n"), [
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("strips a byte order mark", () => {
+    assert.deepEqual(parseCsv("\ufeffcode,title\nA00,Cholera"), [
+      ["code", "title"],
+      ["A00", "Cholera"],
+    ]);
+  });
+
+  it("splits on another delimiter when asked", () => {
+    assert.deepEqual(parseCsv('a;"b;c",d\n1;2', ";"), [
+      ["a", "b;c,d"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("returns nothing for empty input", () => {
+    assert.deepEqual(parseCsv(""), []);
+  });
+});
+
+describe("toCsvRow", () => {
+  it("quotes only the fields that need it", () => {
+    assert.equal(
+      toCsvRow(["A00", 'Cholera, "classical"', "line one\nline two", 3]),
+      'A00,"Cholera, ""classical""","line one\nline two",3\r\n'
+    );
+  });
+
+  it("leaves null and undefined empty and writes dates as ISO", () => {
+    assert.equal(
+      toCsvRow([null, undefined, new Date("2026-03-02T10:00:00Z")]),
+      ",,2026-03-02T10:00:00.000Z\r\n"
+    );
+  });
+
+  it("quotes for the delimiter in use", () => {
+    assert.equal(toCsvRow(["a;b", "c,d"], ";"), '"a;b";c,d\r\n');
+  });
+
+  it("reads back what it writes", () => {
+    const values = ['say "hi"', "a,b", "x\r\ny", ""];
+
+    assert.deepEqual(parseCsv(toCsvRow(values)), [values]);
+  });
+});
@@ -0,0 +1,75 @@
+// RFC 4180 parsing: quoted fields may contain commas, quotes ("") and line breaks
+export const parseCsv = (text: string, delimiter: string = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // drop blank lines
+  return rows.filter((r) => r.length > 1 || r[0].trim() !== "");
+};
+
+// quotes a field only when it has to: delimiters, quotes or line breaks
+export const toCsvField = (value: unknown, delimiter: string = ","): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  if (
+    text.includes(delimiter) ||
+    text.includes('"') ||
+    text.includes("\n") ||
+    text.includes("\r")
+  ) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const toCsvRow = (
+  values: unknown[],
+  delimiter: string = ","
+): string => {
+  return `${values
+    .map((value) => toCsvField(value, delimiter))
+    .join(delimiter)}\r\n`;
+};
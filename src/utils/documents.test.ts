@@ -0,0 +1,155 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  DocumentData,
+  contentHash,
+  isDocumentKind,
+  letterheadProblem,
+  templateProblem,
+} from "./documents";
+
+describe("templateProblem", () => {
+  const template = {
+    title: "Visit Summary",
+    sections: ["patient", "diagnoses", "signature"],
+  };
+
+  it("accepts known sections in any order", () => {
+    assert.equal(templateProblem(template), null);
+    assert.equal(
+      templateProblem({ ...template, sections: ["signature", "patient"] }),
+      null
+    );
+  });
+
+  it("requires a title of at most 100 characters", () => {
+    assert.equal(
+      templateProblem({ ...template, title: "" }),
+      "title is required"
+    );
+    assert.equal(
+      templateProblem({ ...template, title: "x".repeat(101) }),
+      "title must be at most 100 characters"
+    );
+  });
+
+  it("requires known sections, each once", () => {
+    assert.equal(
+      templateProblem({ ...template, sections: [] }),
+      "sections must be a non-empty array"
+    );
+    assert.equal(
+      templateProblem({ ...template, sections: ["patient", "vitals"] }),
+      "Unknown sections: vitals. Sections are: patient, diagnoses, medications, notes, follow-up, signature"
+    );
+    assert.equal(
+      templateProblem({ ...template, sections: ["patient", "patient"] }),
+      "sections must not repeat"
+    );
+  });
+
+  it("limits the footer", () => {
+    assert.equal(
+      templateProblem({ ...template, footer: "x".repeat(501) }),
+      "footer must be at most 500 characters"
+    );
+  });
+});
+
+describe("letterheadProblem", () => {
+  const png = `data:image/png;base64,${Buffer.from("png").toString("base64")}`;
+
+  it("accepts a letterhead with a PNG logo", () => {
+    assert.equal(
+      letterheadProblem({
+        clinic_name: "Eastside Clinic",
+        accent_color: "#1f4e79",
+        logo: png,
+      }),
+      null
+    );
+    assert.equal(letterheadProblem({}), null);
+  });
+
+  it("requires a six-digit hex colour", () => {
+    assert.equal(
+      letterheadProblem({ accent_color: "#fff" }),
+      "accent_color must be a hex colour such as #1F4E79"
+    );
+  });
+
+  it("takes only PNG or JPEG data URLs as the logo", () => {
+    const problem = "logo must be a PNG or JPEG data URL";
+
+    assert.equal(
+      letterheadProblem({ logo: "https://example.com/logo.png" }),
+      problem
+    );
+    assert.equal(
+      letterheadProblem({ logo: png.replace("png", "gif") }),
+      problem
+    );
+  });
+
+  it("limits the lengths of the text fields", () => {
+    assert.equal(
+      letterheadProblem({ phone: "1".repeat(51) }),
+      "phone must be at most 50 characters"
+    );
+  });
+});
+
+describe("isDocumentKind", () => {
+  it("knows the two documents", () => {
+    assert.equal(isDocumentKind("prescription"), true);
+    assert.equal(isDocumentKind("visit-summary"), true);
+    assert.equal(isDocumentKind("referral"), false);
+  });
+});
+
+describe("contentHash", () => {
+  const data = (visit: Record<string, any> = {}): DocumentData => ({
+    visit: {
+      uuid: "v1",
+      diagnoses: [{ code: "J10", text: null, rank: "primary" }],
+      diagnosis: "Influenza",
+      prescriptions: [
+        { drug_name: "Oseltamivir", strength: "75 mg", quantity: 10 },
+      ],
+      notes: null,
+      follow_up_date: null,
+      ...visit,
+    } as any,
+    visit_date: "2026-03-02",
+    patient: {
+      name: "Jane Smith",
+      id_number: "9004125800081",
+      date_of_birth: "1990-04-12",
+      age: "35 years",
+      gender: "F",
+      contact: "082",
+    },
+    clinician: "Ann Doctor",
+  });
+
+  it("is the same for the same content", () => {
+    assert.equal(
+      contentHash("prescription", data()),
+      contentHash("prescription", data())
+    );
+  });
+
+  it("changes with the clinical content and the kind", () => {
+    const hash = contentHash("prescription", data());
+
+    assert.notEqual(contentHash("prescription", data({ notes: "Rest" })), hash);
+    assert.notEqual(
+      contentHash(
+        "prescription",
+        data({ prescriptions: [{ drug_name: "Oseltamivir", quantity: 10 }] })
+      ),
+      hash
+    );
+    assert.notEqual(contentHash("visit-summary", data()), hash);
+  });
+});
@@ -0,0 +1,429 @@
+import crypto from "crypto";
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+import environments from "../env-config";
+import { VisitResponse, findVisit } from "./visits";
+import { describePrescription } from "./prescriptions";
+import { ageInYears } from "./vitals";
+
+export const DOCUMENT_KINDS = ["visit-summary", "prescription"] as const;
+export type DocumentKind = (typeof DOCUMENT_KINDS)[number];
+
+// the blocks a template can lay out, in the order it lists them
+export const SECTIONS = [
+  "patient",
+  "diagnoses",
+  "medications",
+  "notes",
+  "follow-up",
+  "signature",
+] as const;
+export type Section = (typeof SECTIONS)[number];
+
+export interface DocumentTemplate {
+  kind: DocumentKind;
+  title: string;
+  sections: Section[];
+  footer: string | null;
+  customised: boolean;
+}
+
+export interface Letterhead {
+  clinic_name: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  // data URL, so it can be sent back as it was uploaded
+  logo: string | null;
+  accent_color: string;
+}
+
+const DEFAULT_TEMPLATES: Omit<DocumentTemplate, "customised">[] = [
+  {
+    kind: "visit-summary",
+    title: "Visit Summary",
+    sections: ["patient", "diagnoses", "medications", "notes", "follow-up"],
+    footer: null,
+  },
+  {
+    kind: "prescription",
+    title: "Prescription",
+    sections: ["patient", "medications", "signature"],
+    footer: "This prescription is valid for 30 days from the date of issue.",
+  },
+];
+
+const DEFAULT_ACCENT = "#1F4E79";
+const LOGO_MIMES = ["image/png", "image/jpeg"];
+const MAX_LOGO_BYTES = 512 * 1024;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const DATA_URL = /^data:([a-z/]+);base64,([A-Za-z0-9+/=\s]+)$/;
+
+export const isDocumentKind = (value: unknown): value is DocumentKind => {
+  return DOCUMENT_KINDS.includes(value as DocumentKind);
+};
+
+// returns the reason a template edit is rejected, or null when it is acceptable
+export const templateProblem = (input: any): string | null => {
+  if (!input.title || typeof input.title !== "string") {
+    return "title is required";
+  }
+  if (input.title.length > 100) {
+    return "title must be at most 100 characters";
+  }
+  if (!Array.isArray(input.sections) || input.sections.length === 0) {
+    return "sections must be a non-empty array";
+  }
+  const unknown = input.sections.filter(
+    (section: any) => !SECTIONS.includes(section)
+  );
+  if (unknown.length) {
+    return `Unknown sections: ${unknown.join(
+      ", "
+    )}. Sections are: ${SECTIONS.join(", ")}`;
+  }
+  if (new Set(input.sections).size !== input.sections.length) {
+    return "sections must not repeat";
+  }
+  if (input.footer && String(input.footer).length > 500) {
+    return "footer must be at most 500 characters";
+  }
+  return null;
+};
+
+export const letterheadProblem = (input: any): string | null => {
+  const lengths: Record<string, number> = {
+    clinic_name: 255,
+    address: 500,
+    phone: 50,
+    email: 255,
+  };
+  for (const [field, max] of Object.entries(lengths)) {
+    if (input[field] && String(input[field]).length > max) {
+      return `${field} must be at most ${max} characters`;
+    }
+  }
+  if (input.accent_color && !HEX_COLOR.test(input.accent_color)) {
+    return "accent_color must be a hex colour such as #1F4E79";
+  }
+  if (input.logo) {
+    const match = DATA_URL.exec(String(input.logo));
+    if (!match || !LOGO_MIMES.includes(match[1])) {
+      return "logo must be a PNG or JPEG data URL";
+    }
+    if (Buffer.from(match[2], "base64").length > MAX_LOGO_BYTES) {
+      return `logo must be at most ${MAX_LOGO_BYTES / 1024} KB`;
+    }
+  }
+  return null;
+};
+
+export const getTemplate = async (
+  organizationId: string,
+  kind: DocumentKind
+): Promise<DocumentTemplate> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT title, sections, footer FROM document_templates
+     WHERE organization_id = ? AND kind = ?`,
+    [organizationId, kind]
+  );
+  const template = DEFAULT_TEMPLATES.find(
+    (candidate) => candidate.kind === kind
+  ) as Omit<DocumentTemplate, "customised">;
+
+  if (rows.length === 0) {
+    return { ...template, customised: false };
+  }
+  return {
+    kind,
+    title: rows[0].title,
+    sections: String(rows[0].sections).split(",") as Section[],
+    footer: rows[0].footer,
+    customised: true,
+  };
+};
+
+export const listTemplates = async (
+  organizationId: string
+): Promise<DocumentTemplate[]> => {
+  const templates: DocumentTemplate[] = [];
+  for (const kind of DOCUMENT_KINDS) {
+    templates.push(await getTemplate(organizationId, kind));
+  }
+  return templates;
+};
+
+export const saveTemplate = async (
+  organizationId: string,
+  kind: DocumentKind,
+  input: { title: string; sections: Section[]; footer?: string | null },
+  updatedBy: string
+): Promise<void> => {
+  await db.execute(
+    `
+    INSERT INTO document_templates (organization_id, kind, title, sections, footer, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      title = VALUES(title),
+      sections = VALUES(sections),
+      footer = VALUES(footer),
+      updated_by = VALUES(updated_by)
+    `,
+    [
+      organizationId,
+      kind,
+      input.title,
+      input.sections.join(","),
+      input.footer || null,
+      updatedBy,
+    ]
+  );
+};
+
+// an organization without a letterhead of its own prints under its name
+export const getLetterhead = async (
+  organizationId: string,
+  conn?: PoolConnection
+): Promise<Letterhead> => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT o.name, l.clinic_name, l.address, l.phone, l.email, l.logo, l.logo_mime, l.accent_color
+    FROM organizations o
+    LEFT JOIN organization_letterheads l ON l.organization_id = o.uuid
+    WHERE o.uuid = ?
+    `,
+    [organizationId]
+  );
+  const row = rows[0] || {};
+
+  return {
+    clinic_name: row.clinic_name || row.name || "",
+    address: row.address || null,
+    phone: row.phone || null,
+    email: row.email || null,
+    logo: row.logo
+      ? `data:${row.logo_mime};base64,${Buffer.from(row.logo).toString(
+          "base64"
+        )}`
+      : null,
+    accent_color: row.accent_color || DEFAULT_ACCENT,
+  };
+};
+
+export const saveLetterhead = async (
+  organizationId: string,
+  input: Partial<Letterhead>,
+  updatedBy: string,
+  conn?: PoolConnection
+): Promise<void> => {
+  const logo = input.logo ? DATA_URL.exec(input.logo) : null;
+
+  await (conn || db).execute(
+    `
+    INSERT INTO organization_letterheads
+      (organization_id, clinic_name, address, phone, email, logo, logo_mime, accent_color, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE
+      clinic_name = VALUES(clinic_name),
+      address = VALUES(address),
+      phone = VALUES(phone),
+      email = VALUES(email),
+      logo = VALUES(logo),
+      logo_mime = VALUES(logo_mime),
+      accent_color = VALUES(accent_color),
+      updated_by = VALUES(updated_by)
+    `,
+    [
+      organizationId,
+      input.clinic_name || null,
+      input.address || null,
+      input.phone || null,
+      input.email || null,
+      logo ? Buffer.from(logo[2], "base64") : null,
+      logo ? logo[1] : null,
+      input.accent_color || null,
+      updatedBy,
+    ]
+  );
+};
+
+export interface DocumentData {
+  visit: VisitResponse;
+  visit_date: string;
+  patient: {
+    name: string;
+    id_number: string | null;
+    date_of_birth: string | null;
+    age: string | null;
+    gender: string | null;
+    contact: string | null;
+  };
+  clinician: string | null;
+}
+
+// "34 years", or months for children under two
+const describeAge = (dateOfBirth: string, at: string): string => {
+  const years = ageInYears(dateOfBirth, new Date(at));
+  if (years >= 2) {
+    return `${years} years`;
+  }
+  const dob = new Date(dateOfBirth);
+  const on = new Date(at);
+  let months =
+    (on.getFullYear() - dob.getFullYear()) * 12 +
+    on.getMonth() -
+    dob.getMonth();
+  if (on.getDate() < dob.getDate()) {
+    months--;
+  }
+  return `${Math.max(months, 0)} months`;
+};
+
+// everything a printed document shows, starting from the visit as the API returns it
+export const visitDocumentData = async (
+  visitUuid: string,
+  organizationId: string
+): Promise<DocumentData | null> => {
+  const visit = await findVisit(visitUuid, organizationId);
+  if (!visit) {
+    return null;
+  }
+
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT
+      DATE_FORMAT(v.visit_date, '%Y-%m-%d') AS visit_date,
+      DATE_FORMAT(p.date_of_birth, '%Y-%m-%d') AS date_of_birth,
+      p.gender,
+      p.contact,
+      CONCAT(u.first_name, ' ', u.last_name) AS clinician
+    FROM visits v
+    LEFT JOIN patients p ON p.uuid = v.patient_id
+    LEFT JOIN users u ON u.uuid = v.created_by
+    WHERE v.uuid = ?
+    `,
+    [visitUuid]
+  );
+  const row = rows[0];
+
+  return {
+    visit,
+    visit_date: row.visit_date,
+    patient: {
+      name: visit.patient_name,
+      id_number: visit.patient_id_number || null,
+      date_of_birth: row.date_of_birth,
+      age: row.date_of_birth
+        ? describeAge(row.date_of_birth, row.visit_date)
+        : null,
+      gender: row.gender,
+      contact: row.contact,
+    },
+    clinician: row.clinician,
+  };
+};
+
+// fingerprint of the clinical content on paper; a later edit to the visit changes it
+export const contentHash = (kind: DocumentKind, data: DocumentData) => {
+  const payload = JSON.stringify([
+    kind,
+    data.visit.uuid,
+    data.visit_date,
+    data.patient.name,
+    data.patient.id_number,
+    data.patient.date_of_birth,
+    data.visit.diagnoses.map((d) => [d.code, d.text, d.rank]),
+    data.visit.diagnosis,
+    data.visit.prescriptions.map((line) => [
+      describePrescription(line),
+      line.quantity,
+      line.instructions,
+    ]),
+    data.visit.notes || null,
+    data.visit.follow_up_date,
+    data.clinician,
+  ]);
+  return crypto.createHash("sha256").update(payload).digest("hex");
+};
+
+// unambiguous characters only, so a serial can be typed in from paper
+const SERIAL_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+const generateSerial = (kind: DocumentKind) => {
+  const chars = Array.from(crypto.randomBytes(10))
+    .map((byte) => SERIAL_ALPHABET[byte % SERIAL_ALPHABET.length])
+    .join("");
+  const prefix = kind === "prescription" ? "RX" : "VS";
+  return `${prefix}-${chars.slice(0, 5)}-${chars.slice(5)}`;
+};
+
+export const verificationUrl = (serial: string) =>
+  `${environments.appUrl}/verify/${serial}`;
+
+export const issueDocument = async (
+  organizationId: string,
+  kind: DocumentKind,
+  data: DocumentData,
+  issuedBy: string
+): Promise<string> => {
+  const serial = generateSerial(kind);
+  await db.execute(
+    `INSERT INTO issued_documents
+       (uuid, serial, organization_id, kind, visit_id, content_hash, issued_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      uuid(),
+      serial,
+      organizationId,
+      kind,
+      data.visit.uuid,
+      contentHash(kind, data),
+      issuedBy,
+    ]
+  );
+  return serial;
+};
+
+const initials = (name: string | null) =>
+  String(name || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}.`)
+    .join(" ");
+
+// what a pharmacist or another clinic may learn from a serial: enough to match the
+// paper in front of them, and whether the visit has been edited since it was printed
+export const verifyDocument = async (serial: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT d.kind, d.visit_id, d.organization_id, d.content_hash, d.issued_at,
+           CONCAT(u.first_name, ' ', u.last_name) AS issued_by
+    FROM issued_documents d
+    LEFT JOIN users u ON u.uuid = d.issued_by
+    WHERE d.serial = ?
+    `,
+    [serial.toUpperCase()]
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const issued = rows[0];
+  const data = await visitDocumentData(issued.visit_id, issued.organization_id);
+  const letterhead = await getLetterhead(issued.organization_id);
+
+  return {
+    serial: serial.toUpperCase(),
+    kind: issued.kind as DocumentKind,
+    clinic: letterhead.clinic_name,
+    issued_at: issued.issued_at,
+    issued_by: issued.issued_by,
+    patient_initials: data ? initials(data.patient.name) : null,
+    visit_date: data ? data.visit_date : null,
+    unchanged: data
+      ? contentHash(issued.kind, data) === issued.content_hash
+      : false,
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { nameSimilarity, normaliseName, scorePair } from "./duplicates";
+
+describe("normaliseName", () => {
+  it("drops accents, case, punctuation and the order of the parts", () => {
+    assert.equal(normaliseName("José  d'Almeida"), "almeida d jose");
+    assert.equal(normaliseName("almeida jose d"), "almeida d jose");
+  });
+
+  it("treats commas and hyphens as separators", () => {
+    assert.equal(normaliseName("Smith-Jones, Mary"), "jones mary smith");
+  });
+
+  it("returns an empty string for nothing", () => {
+    assert.equal(normaliseName(""), "");
+    assert.equal(normaliseName(" - "), "");
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("scores the same name written differently as 1", () => {
+    assert.equal(nameSimilarity("Jane Smith", "SMITH, Jane"), 1);
+  });
+
+  it("scores a typo by the edits it takes", () => {
+    assert.equal(nameSimilarity("Jon Smith", "John Smith"), 0.9);
+  });
+
+  it("scores names with nothing in common as 0", () => {
+    assert.equal(nameSimilarity("Ann", "Bob"), 0);
+    assert.equal(nameSimilarity("", ""), 0);
+  });
+});
+
+describe("scorePair", () => {
+  const jane = {
+    name: "Jane Smith",
+    date_of_birth: "1990-04-12",
+    contact: "082-555-0101",
+  };
+
+  it("adds up the name, date of birth and contact", () => {
+    assert.deepEqual(
+      scorePair(jane, {
+        ...jane,
+        name: "Smith Jane",
+        contact: "(082) 555 0101",
+      }),
+      {
+        score: 1,
+        name_similarity: 1,
+        reasons: ["date_of_birth", "contact", "name"],
+      }
+    );
+  });
+
+  it("gives a similar name on its own half the score", () => {
+    assert.deepEqual(
+      scorePair(
+        { name: "Jon Smith", date_of_birth: "1990-04-12" },
+        { name: "John Smith", date_of_birth: "1991-04-12" }
+      ),
+      { score: 0.45, name_similarity: 0.9, reasons: ["name"] }
+    );
+  });
+
+  it("always reports a shared id_number", () => {
+    assert.equal(
+      scorePair(
+        {
+          name: "Jane Smith",
+          id_number: "9004125800081",
+          date_of_birth: "1990-04-12",
+        },
+        {
+          name: "Peter Ndlovu",
+          id_number: "9004125800081",
+          date_of_birth: "1985-01-30",
+        }
+      ).score,
+      1
+    );
+  });
+});
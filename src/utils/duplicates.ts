@@ -0,0 +1,225 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+
+// a pair scoring at least this is reported; a shared id_number always is
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// pairs compared by the review, at most; the candidates come from shared
+// date_of_birth, contact or id_number so this is only hit by very common values
+const MAX_REVIEW_PAIRS = 5000;
+
+export type DuplicateReason =
+  | "id_number"
+  | "date_of_birth"
+  | "contact"
+  | "name";
+
+export interface DuplicateCandidate {
+  uuid: string;
+  name: string;
+  id_number: string | null;
+  date_of_birth: string;
+  contact: string | null;
+  score: number;
+  name_similarity: number;
+  reasons: DuplicateReason[];
+}
+
+interface PatientFields {
+  name: string;
+  id_number?: string | null;
+  date_of_birth: string;
+  contact?: string | null;
+}
+
+// "José  d'Almeida" and "almeida jose d" both become "almeida d jose"
+export const normaliseName = (name: string): string =>
+  String(name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .sort()
+    .join(" ");
+
+export const normaliseContact = (contact?: string | null): string =>
+  String(contact || "").replace(/\D/g, "");
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// 1 for the same normalised name, 0 for nothing in common
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normaliseName(a);
+  const right = normaliseName(b);
+  const longest = Math.max(left.length, right.length);
+
+  if (!longest) {
+    return 0;
+  }
+  return 1 - levenshtein(left, right) / longest;
+};
+
+// half the score is the name, the rest a shared date of birth and contact
+export const scorePair = (
+  a: PatientFields,
+  b: PatientFields
+): { score: number; name_similarity: number; reasons: DuplicateReason[] } => {
+  const similarity = nameSimilarity(a.name, b.name);
+  const reasons: DuplicateReason[] = [];
+  let score = 0.5 * similarity;
+
+  if (a.id_number && a.id_number === b.id_number) {
+    reasons.push("id_number");
+  }
+  if (a.date_of_birth === b.date_of_birth) {
+    reasons.push("date_of_birth");
+    score += 0.3;
+  }
+  if (
+    normaliseContact(a.contact) &&
+    normaliseContact(a.contact) === normaliseContact(b.contact)
+  ) {
+    reasons.push("contact");
+    score += 0.2;
+  }
+  if (similarity >= 0.8) {
+    reasons.push("name");
+  }
+
+  return {
+    score: reasons.includes("id_number") ? 1 : Math.round(score * 100) / 100,
+    name_similarity: Math.round(similarity * 100) / 100,
+    reasons,
+  };
+};
+
+const isDuplicate = (result: { score: number }) =>
+  result.score >= DUPLICATE_THRESHOLD;
+
+const PATIENT_FIELDS = `
+  uuid, name, id_number, DATE_FORMAT(date_of_birth, '%Y-%m-%d') AS date_of_birth, contact
+`;
+
+// live patients of the organization that look like the given one, best match first
+export const findDuplicateCandidates = async (
+  organizationId: string,
+  patient: PatientFields,
+  excludeUuid?: string
+): Promise<DuplicateCandidate[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT ${PATIENT_FIELDS}
+    FROM patients
+    WHERE organization_id = ? AND deleted_at IS NULL AND uuid <> ?
+      AND (
+        date_of_birth = ?
+        OR (? <> '' AND id_number = ?)
+        OR (? <> '' AND REGEXP_REPLACE(contact, '[^0-9]', '') = ?)
+      )
+    `,
+    [
+      organizationId,
+      excludeUuid || "",
+      patient.date_of_birth,
+      patient.id_number || "",
+      patient.id_number || "",
+      normaliseContact(patient.contact),
+      normaliseContact(patient.contact),
+    ]
+  );
+
+  return rows
+    .map((row) => ({
+      uuid: row.uuid,
+      name: row.name,
+      id_number: row.id_number,
+      date_of_birth: row.date_of_birth,
+      contact: row.contact,
+      ...scorePair(patient, row as PatientFields),
+    }))
+    .filter(isDuplicate)
+    .sort((a, b) => b.score - a.score);
+};
+
+// every likely duplicate pair of the organization that has not been dismissed, best first
+export const listDuplicatePairs = async (organizationId: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT a.uuid AS a_uuid, a.name AS a_name, a.id_number AS a_id_number,
+           DATE_FORMAT(a.date_of_birth, '%Y-%m-%d') AS a_date_of_birth, a.contact AS a_contact,
+           b.uuid AS b_uuid, b.name AS b_name, b.id_number AS b_id_number,
+           DATE_FORMAT(b.date_of_birth, '%Y-%m-%d') AS b_date_of_birth, b.contact AS b_contact
+    FROM patients a
+    JOIN patients b
+      ON b.organization_id = a.organization_id AND a.uuid < b.uuid
+      AND (
+        b.date_of_birth = a.date_of_birth
+        OR b.id_number = a.id_number
+        OR (
+          REGEXP_REPLACE(a.contact, '[^0-9]', '') <> ''
+          AND REGEXP_REPLACE(b.contact, '[^0-9]', '') = REGEXP_REPLACE(a.contact, '[^0-9]', '')
+        )
+      )
+    LEFT JOIN patient_duplicate_dismissals d
+      ON d.patient_a = a.uuid AND d.patient_b = b.uuid
+    WHERE a.organization_id = ? AND a.deleted_at IS NULL AND b.deleted_at IS NULL
+      AND d.patient_a IS NULL
+    LIMIT ${MAX_REVIEW_PAIRS}
+    `,
+    [organizationId]
+  );
+
+  const side = (row: RowDataPacket, prefix: "a" | "b") => ({
+    uuid: row[`${prefix}_uuid`],
+    name: row[`${prefix}_name`],
+    id_number: row[`${prefix}_id_number`],
+    date_of_birth: row[`${prefix}_date_of_birth`],
+    contact: row[`${prefix}_contact`],
+  });
+
+  return rows
+    .map((row) => {
+      const a = side(row, "a");
+      const b = side(row, "b");
+      return { patients: [a, b], ...scorePair(a, b) };
+    })
+    .filter(isDuplicate)
+    .sort((x, y) => y.score - x.score);
+};
+
+// marks a pair as reviewed and not the same person, so it is no longer listed
+export const dismissPair = async (
+  organizationId: string,
+  patientUuids: [string, string],
+  dismissedBy: string,
+  conn?: PoolConnection
+): Promise<void> => {
+  const [a, b] = [...patientUuids].sort();
+  await (conn || db).execute(
+    `
+    INSERT IGNORE INTO patient_duplicate_dismissals
+      (patient_a, patient_b, organization_id, dismissed_by)
+    VALUES (?, ?, ?, ?)
+    `,
+    [a, b, organizationId, dismissedBy]
+  );
+};
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ExportColumn, neutralise, selectColumns, selectList } from "./export";
+
+const COLUMNS: ExportColumn[] = [
+  { key: "uuid", header: "ID", sql: "p.uuid" },
+  { key: "name", header: "Name", sql: "p.name", default: true },
+  { key: "contact", header: "Contact", sql: "p.contact", default: true },
+];
+
+const keys = (result: ReturnType<typeof selectColumns>) =>
+  result.problem === null ? result.columns.map((column) => column.key) : result;
+
+describe("selectColumns", () => {
+  it("falls back to the default columns", () => {
+    assert.deepEqual(keys(selectColumns(COLUMNS, undefined)), [
+      "name",
+      "contact",
+    ]);
+    assert.deepEqual(keys(selectColumns(COLUMNS, "")), ["name", "contact"]);
+  });
+
+  it("picks and orders the requested columns once each", () => {
+    assert.deepEqual(keys(selectColumns(COLUMNS, "contact, uuid,contact")), [
+      "contact",
+      "uuid",
+    ]);
+  });
+
+  it("names an unknown column and the known ones", () => {
+    assert.deepEqual(selectColumns(COLUMNS, "name,email"), {
+      problem: "Unknown column: email. Columns are: uuid, name, contact",
+    });
+  });
+
+  it("requires at least one column", () => {
+    assert.deepEqual(selectColumns(COLUMNS, " , "), {
+      problem: "columns must name at least one column",
+    });
+  });
+});
+
+describe("selectList", () => {
+  it("selects each expression under its key", () => {
+    assert.equal(
+      selectList(COLUMNS.slice(0, 2)),
+      "p.uuid AS uuid, p.name AS name"
+    );
+  });
+});
+
+describe("neutralise", () => {
+  it("keeps a cell that starts like a formula as text", () => {
+    assert.equal(neutralise('=HYPERLINK("x")'), '\'=HYPERLINK("x")');
+    assert.equal(neutralise("@SUM(A1)"), "'@SUM(A1)");
+    assert.equal(
+      neutralise("-2+3+cmd|' /C calc'!A0"),
+      "'-2+3+cmd|' /C calc'!A0"
+    );
+    assert.equal(neutralise("+A1"), "'+A1");
+  });
+
+  it("leaves phone numbers, negative numbers and other values alone", () => {
+    assert.equal(neutralise("+254 712 345678"), "+254 712 345678");
+    assert.equal(neutralise("-12.5"), "-12.5");
+    assert.equal(neutralise("Jane = Joan"), "Jane = Joan");
+    assert.equal(neutralise(42), 42);
+    assert.equal(neutralise(null), null);
+  });
+});
@@ -0,0 +1,243 @@
+import { once } from "events";
+import { Response } from "express";
+import ExcelJS from "exceljs";
+import { PoolConnection as CorePoolConnection } from "mysql2";
+import { pool as db } from "./database-config";
+import { toCsvRow } from "./csv";
+
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  // select expression; dates are formatted in SQL so CSV and XLSX show the same text
+  sql: string;
+  default?: boolean;
+}
+
+export const VISIT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "uuid", header: "Visit ID", sql: "v.uuid" },
+  {
+    key: "visit_date",
+    header: "Visit date",
+    sql: "DATE_FORMAT(v.visit_date, '%Y-%m-%d')",
+    default: true,
+  },
+  {
+    key: "patient_name",
+    header: "Patient",
+    sql: "p.name",
+    default: true,
+  },
+  {
+    key: "patient_id_number",
+    header: "ID number",
+    sql: "p.id_number",
+    default: true,
+  },
+  { key: "patient_id", header: "Patient ID", sql: "v.patient_id" },
+  {
+    key: "diagnosis",
+    header: "Diagnosis",
+    sql: "v.diagnosis",
+    default: true,
+  },
+  {
+    key: "diagnosis_codes",
+    header: "ICD-10 codes",
+    sql: `(SELECT GROUP_CONCAT(d.icd10_code ORDER BY d.diagnosis_rank, d.id SEPARATOR ', ')
+           FROM visit_diagnoses d WHERE d.visit_id = v.uuid AND d.icd10_code IS NOT NULL)`,
+    default: true,
+  },
+  {
+    key: "prescribed_medications",
+    header: "Medications",
+    sql: "v.prescribed_medications",
+    default: true,
+  },
+  { key: "notes", header: "Notes", sql: "v.notes" },
+  {
+    key: "follow_up_date",
+    header: "Follow-up date",
+    sql: "DATE_FORMAT(v.follow_up_date, '%Y-%m-%d')",
+  },
+  {
+    key: "clinician",
+    header: "Clinician",
+    sql: `(SELECT CONCAT(u.first_name, ' ', u.last_name) FROM users u WHERE u.uuid = v.created_by)`,
+  },
+  {
+    key: "created_at",
+    header: "Recorded at",
+    sql: "DATE_FORMAT(v.created_at, '%Y-%m-%d %H:%i:%s')",
+  },
+];
+
+export const PATIENT_EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "uuid", header: "Patient ID", sql: "p.uuid" },
+  { key: "name", header: "Name", sql: "p.name", default: true },
+  {
+    key: "id_number",
+    header: "ID number",
+    sql: "p.id_number",
+    default: true,
+  },
+  {
+    key: "date_of_birth",
+    header: "Date of birth",
+    sql: "DATE_FORMAT(p.date_of_birth, '%Y-%m-%d')",
+    default: true,
+  },
+  { key: "gender", header: "Gender", sql: "p.gender", default: true },
+  { key: "contact", header: "Contact", sql: "p.contact", default: true },
+  { key: "email", header: "Email", sql: "p.email" },
+  {
+    key: "created_at",
+    header: "Registered at",
+    sql: "DATE_FORMAT(p.created_at, '%Y-%m-%d %H:%i:%s')",
+  },
+];
+
+// ?columns=a,b,c picks and orders the columns; without it the defaults are used.
+// Returns the problem instead when a column is unknown.
+export const selectColumns = (
+  available: ExportColumn[],
+  requested: unknown
+): { problem: string } | { problem: null; columns: ExportColumn[] } => {
+  if (requested === undefined || requested === "") {
+    return {
+      problem: null,
+      columns: available.filter((column) => column.default),
+    };
+  }
+
+  const keys = String(requested)
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  const columns: ExportColumn[] = [];
+
+  for (const key of keys) {
+    const column = available.find((candidate) => candidate.key === key);
+    if (!column) {
+      return {
+        problem: `Unknown column: ${key}. Columns are: ${available
+          .map((candidate) => candidate.key)
+          .join(", ")}`,
+      };
+    }
+    if (!columns.includes(column)) {
+      columns.push(column);
+    }
+  }
+
+  return columns.length
+    ? { problem: null, columns }
+    : { problem: "columns must name at least one column" };
+};
+
+export const selectList = (columns: ExportColumn[]) => {
+  return columns.map((column) => `${column.sql} AS ${column.key}`).join(", ");
+};
+
+// spreadsheet apps run a CSV cell that starts with =, @, + or - as a formula.
+// Prefixing it with ' keeps it text; phone numbers such as +254 712 345678 are left alone.
+const FORMULA = /^[=@\t\r]|^[+-](?![\d\s().]*$)/;
+
+export const neutralise = (value: unknown) => {
+  return typeof value === "string" && FORMULA.test(value) ? `'${value}` : value;
+};
+
+export interface ExportRequest {
+  format: ExportFormat;
+  filename: string;
+  sheetName: string;
+  columns: ExportColumn[];
+  sql: string;
+  params: any[];
+}
+
+// resolves once the client has taken the buffered data, or has gone away
+const drained = (res: Response) => {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+};
+
+// streams the query straight from MySQL to the response, so memory use does not
+// grow with the size of the result set. Once the first byte is sent an error can
+// no longer become a status code; the caller should destroy the response instead.
+export const streamExport = async (res: Response, request: ExportRequest) => {
+  const { format, filename, sheetName, columns, sql, params } = request;
+  const conn = await db.getConnection();
+  let finished = false;
+
+  try {
+    // streaming is only offered by the callback connection the promise one wraps
+    const core = conn.connection as unknown as CorePoolConnection;
+    const rows = core.query(sql, params).stream();
+
+    // attachment() also sets the content type from the extension
+    res.status(200).attachment(`${filename}.${format}`);
+
+    if (format === "csv") {
+      // the BOM tells Excel the file is UTF-8
+      res.write("\ufeff" + toCsvRow(columns.map((column) => column.header)));
+
+      for await (const row of rows) {
+        const line = toCsvRow(
+          columns.map((column) => neutralise((row as any)[column.key]))
+        );
+        if (!res.write(line)) {
+          await drained(res);
+        }
+        if (res.destroyed) {
+          return;
+        }
+      }
+      res.end();
+      finished = true;
+      return;
+    }
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: res,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const sheet = workbook.addWorksheet(sheetName);
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      key: column.key,
+      width: 20,
+    }));
+
+    for await (const row of rows) {
+      sheet.addRow(columns.map((column) => (row as any)[column.key])).commit();
+      if (res.writableNeedDrain) {
+        await drained(res);
+      }
+      if (res.destroyed) {
+        return;
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+    finished = true;
+  } finally {
+    // a query abandoned halfway may still be sending rows, so that connection
+    // cannot go back to the pool
+    if (finished) {
+      conn.release();
+    } else {
+      conn.destroy();
+    }
+  }
+};
@@ -0,0 +1,120 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  capabilityStatement,
+  operationOutcome,
+  searchBundle,
+  searchProblem,
+} from "./fhir";
+
+describe("searchProblem", () => {
+  it("accepts dates with or without a comparison prefix", () => {
+    assert.equal(searchProblem("Encounter", { date: "2026-03-02" }), null);
+    assert.equal(
+      searchProblem("Encounter", { date: ["ge2026-01-01", "lt2026-04-01"] }),
+      null
+    );
+  });
+
+  it("rejects a date it cannot read", () => {
+    const problem =
+      "birthdate must be a date (YYYY-MM-DD), optionally prefixed with eq, ne, gt, lt, ge or le";
+
+    assert.equal(searchProblem("Patient", { birthdate: "1990" }), problem);
+    assert.equal(
+      searchProblem("Patient", { birthdate: "after1990-01-01" }),
+      problem
+    );
+  });
+
+  it("rejects an empty parameter", () => {
+    assert.equal(
+      searchProblem("Patient", { name: " " }),
+      "name must not be empty"
+    );
+  });
+
+  it("ignores parameters it does not support", () => {
+    assert.equal(
+      searchProblem("Condition", { birthdate: "1990", _sort: "" }),
+      null
+    );
+  });
+});
+
+describe("operationOutcome", () => {
+  it("reports a missing resource as an error", () => {
+    assert.deepEqual(
+      operationOutcome("not-found", "Patient/abc is not known"),
+      {
+        resourceType: "OperationOutcome",
+        issue: [
+          {
+            severity: "error",
+            code: "not-found",
+            diagnostics: "Patient/abc is not known",
+          },
+        ],
+      }
+    );
+  });
+
+  it("reports a server failure as fatal", () => {
+    assert.equal(
+      operationOutcome("exception", "boom").issue[0].severity,
+      "fatal"
+    );
+  });
+});
+
+describe("searchBundle", () => {
+  it("wraps the resources with their full URLs and keeps only the links given", () => {
+    const patient = { resourceType: "Patient", id: "p1" };
+
+    assert.deepEqual(
+      searchBundle("https://emr.example/fhir", 51, [patient], {
+        self: "https://emr.example/fhir/Patient?_count=50",
+        next: "https://emr.example/fhir/Patient?_count=50&_offset=50",
+        previous: undefined,
+      }),
+      {
+        resourceType: "Bundle",
+        type: "searchset",
+        total: 51,
+        link: [
+          {
+            relation: "self",
+            url: "https://emr.example/fhir/Patient?_count=50",
+          },
+          {
+            relation: "next",
+            url: "https://emr.example/fhir/Patient?_count=50&_offset=50",
+          },
+        ],
+        entry: [
+          {
+            fullUrl: "https://emr.example/fhir/Patient/p1",
+            resource: patient,
+            search: { mode: "match" },
+          },
+        ],
+      }
+    );
+  });
+});
+
+describe("capabilityStatement", () => {
+  it("lists every resource with its search parameters", () => {
+    const [rest] = capabilityStatement("https://emr.example/fhir").rest;
+
+    assert.deepEqual(
+      rest.resource.map((resource) => resource.type),
+      ["Patient", "Encounter", "Condition", "MedicationRequest"]
+    );
+    assert.ok(
+      rest.resource[0].searchParam.some((param) => param.name === "birthdate")
+    );
+    assert.equal(rest.resource[0].operation![0].name, "everything");
+    assert.equal(rest.resource[1].operation, undefined);
+  });
+});
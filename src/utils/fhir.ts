@@ -0,0 +1,621 @@
+import { RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import environments from "../env-config";
+import { isLocalDate } from "./appointments";
+import { normaliseCode } from "./icd10";
+import { describePrescription } from "./prescriptions";
+
+// FHIR R4 (4.0.1) views over our own tables. Everything here is read-only: the
+// resource ids are our uuids, and nothing is stored in FHIR form.
+
+export const FHIR_VERSION = "4.0.1";
+export const FHIR_CONTENT_TYPE = "application/fhir+json";
+
+export const ICD10_SYSTEM = "http://hl7.org/fhir/sid/icd-10";
+const ACT_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-ActCode";
+const CONDITION_CATEGORY_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-category";
+const CONDITION_VERIFICATION_SYSTEM =
+  "http://terminology.hl7.org/CodeSystem/condition-ver-status";
+
+export const DEFAULT_COUNT = 50;
+export const MAX_COUNT = 200;
+
+export type FhirResourceType =
+  | "Patient"
+  | "Encounter"
+  | "Condition"
+  | "MedicationRequest";
+
+export interface SearchParam {
+  name: string;
+  type: "token" | "string" | "date" | "reference";
+  documentation: string;
+}
+
+// drives both the search handlers and the CapabilityStatement
+export const SEARCH_PARAMS: Record<FhirResourceType, SearchParam[]> = {
+  Patient: [
+    { name: "_id", type: "token", documentation: "Patient uuid" },
+    {
+      name: "identifier",
+      type: "token",
+      documentation: "National ID number, optionally as system|value",
+    },
+    { name: "name", type: "string", documentation: "Part of the name" },
+    { name: "birthdate", type: "date", documentation: "Date of birth" },
+    {
+      name: "gender",
+      type: "token",
+      documentation: "male | female | other | unknown",
+    },
+  ],
+  Encounter: [
+    { name: "_id", type: "token", documentation: "Visit uuid" },
+    { name: "patient", type: "reference", documentation: "Patient/<uuid>" },
+    { name: "date", type: "date", documentation: "Visit date" },
+  ],
+  Condition: [
+    { name: "_id", type: "token", documentation: "Diagnosis uuid" },
+    { name: "patient", type: "reference", documentation: "Patient/<uuid>" },
+    {
+      name: "encounter",
+      type: "reference",
+      documentation: "Encounter/<uuid>",
+    },
+    {
+      name: "code",
+      type: "token",
+      documentation: "ICD-10 code, optionally as system|code",
+    },
+  ],
+  MedicationRequest: [
+    {
+      name: "_id",
+      type: "token",
+      documentation: "Prescription line uuid",
+    },
+    { name: "patient", type: "reference", documentation: "Patient/<uuid>" },
+    {
+      name: "encounter",
+      type: "reference",
+      documentation: "Encounter/<uuid>",
+    },
+  ],
+};
+
+export const operationOutcome = (
+  code: "not-found" | "invalid" | "exception" | "forbidden",
+  diagnostics: string
+) => {
+  return {
+    resourceType: "OperationOutcome",
+    issue: [
+      {
+        severity:
+          code === "not-found" || code === "invalid" ? "error" : "fatal",
+        code,
+        diagnostics,
+      },
+    ],
+  };
+};
+
+// gender is free text in patients; anything that is not clearly male or female
+// is reported as other, and blanks as unknown
+const GENDER_SQL = `
+  CASE
+    WHEN LOWER(TRIM(p.gender)) IN ('male', 'm') THEN 'male'
+    WHEN LOWER(TRIM(p.gender)) IN ('female', 'f') THEN 'female'
+    WHEN LOWER(TRIM(p.gender)) IN ('', 'unknown') THEN 'unknown'
+    ELSE 'other'
+  END`;
+
+const fhirGender = (gender: string | null): string => {
+  const value = String(gender || "")
+    .trim()
+    .toLowerCase();
+  if (value === "male" || value === "m") {
+    return "male";
+  }
+  if (value === "female" || value === "f") {
+    return "female";
+  }
+  return value === "" || value === "unknown" ? "unknown" : "other";
+};
+
+const instant = (value: any): string | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  return new Date(value).toISOString();
+};
+
+// accepts "Patient/<uuid>", a full URL ending in it, or a bare uuid
+const referenceId = (value: string, type: FhirResourceType): string => {
+  const marker = `${type}/`;
+  const at = value.lastIndexOf(marker);
+  return at === -1 ? value : value.slice(at + marker.length);
+};
+
+const DATE_PREFIXES: Record<string, string> = {
+  eq: "=",
+  ne: "<>",
+  gt: ">",
+  lt: "<",
+  ge: ">=",
+  le: "<=",
+};
+
+const DATE_PARAM = /^(eq|ne|gt|lt|ge|le)?(.*)$/;
+
+// a FHIR date parameter such as ge2025-01-01; checked by searchProblem first
+const dateCondition = (column: string, value: string) => {
+  const match = DATE_PARAM.exec(value) as RegExpExecArray;
+  return {
+    sql: `${column} ${DATE_PREFIXES[match[1] || "eq"]} ?`,
+    param: match[2],
+  };
+};
+
+// token parameters may carry a system; a system we do not use matches nothing
+const tokenValue = (value: string, system: string): string | null => {
+  const bar = value.indexOf("|");
+  if (bar === -1) {
+    return value;
+  }
+  const given = value.slice(0, bar);
+  return given === "" || given === system ? value.slice(bar + 1) : null;
+};
+
+const values = (query: Record<string, any>, name: string): string[] => {
+  const raw = query[name];
+  if (raw === undefined) {
+    return [];
+  }
+  return (Array.isArray(raw) ? raw : [raw]).map(String);
+};
+
+// returns the reason a search is rejected, or null when every parameter is usable;
+// parameters we do not support are ignored, as FHIR allows
+export const searchProblem = (
+  type: FhirResourceType,
+  query: Record<string, any>
+): string | null => {
+  for (const { name, type: paramType } of SEARCH_PARAMS[type]) {
+    for (const value of values(query, name)) {
+      if (paramType === "date" && !isLocalDate(DATE_PARAM.exec(value)?.[2])) {
+        return `${name} must be a date (YYYY-MM-DD), optionally prefixed with eq, ne, gt, lt, ge or le`;
+      }
+      if (value.trim() === "") {
+        return `${name} must not be empty`;
+      }
+    }
+  }
+  return null;
+};
+
+interface Filter {
+  where: string[];
+  params: any[];
+}
+
+const addFilters = (
+  type: FhirResourceType,
+  query: Record<string, any>,
+  filter: Filter
+) => {
+  const columns: Record<string, string> = {
+    _id: {
+      Patient: "p.uuid",
+      Encounter: "v.uuid",
+      Condition: "d.uuid",
+      MedicationRequest: "rx.uuid",
+    }[type],
+    patient: type === "Patient" ? "p.uuid" : "v.patient_id",
+    encounter: "v.uuid",
+  };
+
+  for (const { name } of SEARCH_PARAMS[type]) {
+    for (const value of values(query, name)) {
+      if (name === "_id") {
+        filter.where.push(`${columns._id} = ?`);
+        filter.params.push(value);
+      } else if (name === "patient") {
+        filter.where.push(`${columns.patient} = ?`);
+        filter.params.push(referenceId(value, "Patient"));
+      } else if (name === "encounter") {
+        filter.where.push(`${columns.encounter} = ?`);
+        filter.params.push(referenceId(value, "Encounter"));
+      } else if (name === "identifier") {
+        const idNumber = tokenValue(value, environments.fhirIdentifierSystem);
+        filter.where.push(idNumber === null ? "1 = 0" : "p.id_number = ?");
+        if (idNumber !== null) {
+          filter.params.push(idNumber);
+        }
+      } else if (name === "name") {
+        filter.where.push("p.name LIKE ?");
+        filter.params.push(`%${value}%`);
+      } else if (name === "gender") {
+        filter.where.push(`${GENDER_SQL} = ?`);
+        filter.params.push(value.toLowerCase());
+      } else if (name === "birthdate" || name === "date") {
+        const column = name === "date" ? "v.visit_date" : "p.date_of_birth";
+        const condition = dateCondition(column, value);
+        filter.where.push(condition.sql);
+        filter.params.push(condition.param);
+      } else if (name === "code") {
+        const code = tokenValue(value, ICD10_SYSTEM);
+        filter.where.push(code === null ? "1 = 0" : "d.icd10_code = ?");
+        if (code !== null) {
+          filter.params.push(normaliseCode(code));
+        }
+      }
+    }
+  }
+};
+
+const CLINICIAN_SQL = "CONCAT(u.first_name, ' ', u.last_name)";
+
+const BASE_QUERIES: Record<FhirResourceType, { select: string; from: string }> =
+  {
+    Patient: {
+      select: `p.uuid, p.name, p.id_number, p.gender, p.contact, p.email,
+               DATE_FORMAT(p.date_of_birth, '%Y-%m-%d') AS date_of_birth`,
+      from: `patients p WHERE p.organization_id = ? AND p.deleted_at IS NULL`,
+    },
+    Encounter: {
+      select: `v.uuid, v.patient_id, p.name AS patient_name,
+               DATE_FORMAT(v.visit_date, '%Y-%m-%d') AS visit_date,
+               ${CLINICIAN_SQL} AS clinician_name`,
+      from: `visits v
+             JOIN patients p ON p.uuid = v.patient_id AND p.organization_id = v.organization_id
+             LEFT JOIN users u ON u.uuid = v.created_by
+             WHERE v.organization_id = ? AND v.deleted_at IS NULL`,
+    },
+    Condition: {
+      select: `d.uuid, d.visit_id, d.icd10_code, c.title AS icd10_title, d.free_text,
+               v.patient_id, p.name AS patient_name,
+               DATE_FORMAT(v.visit_date, '%Y-%m-%d') AS visit_date,
+               ${CLINICIAN_SQL} AS clinician_name`,
+      from: `visit_diagnoses d
+             JOIN visits v ON v.uuid = d.visit_id
+             JOIN patients p ON p.uuid = v.patient_id AND p.organization_id = v.organization_id
+             LEFT JOIN icd10_codes c ON c.code = d.icd10_code
+             LEFT JOIN users u ON u.uuid = d.created_by
+             WHERE d.organization_id = ? AND v.deleted_at IS NULL`,
+    },
+    MedicationRequest: {
+      select: `rx.uuid, rx.visit_id, rx.drug_name, rx.strength, rx.route, rx.dose,
+               rx.frequency, rx.duration, rx.quantity, rx.instructions, rx.free_text,
+               rx.created_at, v.patient_id, p.name AS patient_name,
+               ${CLINICIAN_SQL} AS clinician_name`,
+      from: `prescriptions rx
+             JOIN visits v ON v.uuid = rx.visit_id
+             JOIN patients p ON p.uuid = v.patient_id AND p.organization_id = v.organization_id
+             LEFT JOIN users u ON u.uuid = rx.created_by
+             WHERE rx.organization_id = ? AND v.deleted_at IS NULL`,
+    },
+  };
+
+const ORDER_BY: Record<FhirResourceType, string> = {
+  Patient: "p.name, p.id",
+  Encounter: "v.visit_date DESC, v.id DESC",
+  Condition: "v.visit_date DESC, d.diagnosis_rank, d.id",
+  MedicationRequest: "v.visit_date DESC, rx.id",
+};
+
+const toPatient = (row: any) => {
+  const parts = String(row.name).trim().split(/\s+/);
+  const telecom = [];
+  if (row.contact) {
+    telecom.push({ system: "phone", value: row.contact, use: "mobile" });
+  }
+  if (row.email) {
+    telecom.push({ system: "email", value: row.email });
+  }
+
+  return {
+    resourceType: "Patient",
+    id: row.uuid,
+    identifier: row.id_number
+      ? [
+          {
+            system: environments.fhirIdentifierSystem,
+            value: row.id_number,
+          },
+        ]
+      : undefined,
+    name: [
+      {
+        text: row.name,
+        family: parts[parts.length - 1],
+        given: parts.length > 1 ? parts.slice(0, -1) : undefined,
+      },
+    ],
+    telecom: telecom.length ? telecom : undefined,
+    gender: fhirGender(row.gender),
+    birthDate: row.date_of_birth,
+  };
+};
+
+const subject = (row: any) => ({
+  reference: `Patient/${row.patient_id}`,
+  display: row.patient_name,
+});
+
+const clinician = (row: any) =>
+  row.clinician_name ? { display: row.clinician_name } : undefined;
+
+const toEncounter = (row: any, diagnoses: any[]) => {
+  const individual = clinician(row);
+  return {
+    resourceType: "Encounter",
+    id: row.uuid,
+    status: "finished",
+    class: { system: ACT_CODE_SYSTEM, code: "AMB", display: "ambulatory" },
+    subject: subject(row),
+    participant: individual ? [{ individual }] : undefined,
+    period: { start: row.visit_date },
+    diagnosis: diagnoses.length
+      ? diagnoses.map((d) => ({
+          condition: { reference: `Condition/${d.uuid}` },
+          rank: d.diagnosis_rank === "primary" ? 1 : 2,
+        }))
+      : undefined,
+  };
+};
+
+const toCondition = (row: any) => {
+  return {
+    resourceType: "Condition",
+    id: row.uuid,
+    verificationStatus: {
+      coding: [{ system: CONDITION_VERIFICATION_SYSTEM, code: "confirmed" }],
+    },
+    category: [
+      {
+        coding: [
+          {
+            system: CONDITION_CATEGORY_SYSTEM,
+            code: "encounter-diagnosis",
+            display: "Encounter Diagnosis",
+          },
+        ],
+      },
+    ],
+    code: row.icd10_code
+      ? {
+          coding: [
+            {
+              system: ICD10_SYSTEM,
+              code: row.icd10_code,
+              display: row.icd10_title || undefined,
+            },
+          ],
+          text: row.free_text || row.icd10_title || row.icd10_code,
+        }
+      : { text: row.free_text },
+    subject: subject(row),
+    encounter: { reference: `Encounter/${row.visit_id}` },
+    recordedDate: row.visit_date,
+    recorder: clinician(row),
+  };
+};
+
+const toMedicationRequest = (row: any) => {
+  const structured = Boolean(row.drug_name);
+  return {
+    resourceType: "MedicationRequest",
+    id: row.uuid,
+    // we do not track whether a course was completed or stopped
+    status: "unknown",
+    intent: "order",
+    medicationCodeableConcept: {
+      text: structured
+        ? [row.drug_name, row.strength].filter(Boolean).join(" ")
+        : row.free_text,
+    },
+    subject: subject(row),
+    encounter: { reference: `Encounter/${row.visit_id}` },
+    authoredOn: instant(row.created_at),
+    requester: clinician(row),
+    dosageInstruction: structured
+      ? [
+          {
+            text: describePrescription(row),
+            patientInstruction: row.instructions || undefined,
+            timing: row.frequency
+              ? { code: { text: row.frequency } }
+              : undefined,
+            route: row.route ? { text: row.route } : undefined,
+          },
+        ]
+      : undefined,
+    dispenseRequest:
+      row.quantity !== null && row.quantity !== undefined
+        ? { quantity: { value: Number(row.quantity) } }
+        : undefined,
+  };
+};
+
+// the coded diagnoses of each visit, for Encounter.diagnosis
+const diagnosesByVisit = async (visitUuids: string[]) => {
+  const byVisit = new Map<string, any[]>();
+  if (visitUuids.length === 0) {
+    return byVisit;
+  }
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT uuid, visit_id, diagnosis_rank
+     FROM visit_diagnoses
+     WHERE visit_id IN (?)
+     ORDER BY diagnosis_rank, id`,
+    [visitUuids]
+  );
+  rows.forEach((row) => {
+    byVisit.set(row.visit_id, [...(byVisit.get(row.visit_id) || []), row]);
+  });
+  return byVisit;
+};
+
+const toResources = async (type: FhirResourceType, rows: any[]) => {
+  if (type === "Patient") {
+    return rows.map(toPatient);
+  }
+  if (type === "Condition") {
+    return rows.map(toCondition);
+  }
+  if (type === "MedicationRequest") {
+    return rows.map(toMedicationRequest);
+  }
+  const diagnoses = await diagnosesByVisit(rows.map((row) => row.uuid));
+  return rows.map((row) => toEncounter(row, diagnoses.get(row.uuid) || []));
+};
+
+export interface SearchResult {
+  total: number;
+  resources: any[];
+}
+
+// query is expected to have passed searchProblem
+export const searchResources = async (
+  type: FhirResourceType,
+  organizationId: string,
+  query: Record<string, any>,
+  count: number | null,
+  offset = 0
+): Promise<SearchResult> => {
+  const filter: Filter = { where: [], params: [organizationId] };
+  addFilters(type, query, filter);
+
+  const { select, from } = BASE_QUERIES[type];
+  const where = filter.where.map((condition) => ` AND ${condition}`).join("");
+
+  const [countRows] = await db.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total FROM ${from}${where}`,
+    filter.params
+  );
+
+  const page = count === null ? "" : ` LIMIT ${count} OFFSET ${offset}`;
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT ${select} FROM ${from}${where} ORDER BY ${ORDER_BY[type]}${page}`,
+    filter.params
+  );
+
+  return {
+    total: Number(countRows[0].total),
+    resources: await toResources(type, rows),
+  };
+};
+
+export const readResource = async (
+  type: FhirResourceType,
+  organizationId: string,
+  id: string
+) => {
+  const { resources } = await searchResources(
+    type,
+    organizationId,
+    { _id: id },
+    1
+  );
+  return resources[0] || null;
+};
+
+export interface BundleLinks {
+  self: string;
+  next?: string;
+  previous?: string;
+}
+
+export const searchBundle = (
+  baseUrl: string,
+  total: number,
+  resources: any[],
+  links: BundleLinks
+) => {
+  return {
+    resourceType: "Bundle",
+    type: "searchset",
+    total,
+    link: Object.entries(links)
+      .filter(([, url]) => url)
+      .map(([relation, url]) => ({ relation, url })),
+    entry: resources.map((resource) => ({
+      fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: "match" },
+    })),
+  };
+};
+
+// Patient/$everything: the patient plus every encounter, diagnosis and prescription
+export const patientEverything = async (
+  organizationId: string,
+  patientUuid: string
+) => {
+  const patient = await readResource("Patient", organizationId, patientUuid);
+  if (!patient) {
+    return null;
+  }
+
+  const resources: any[] = [patient];
+  const types: FhirResourceType[] = [
+    "Encounter",
+    "Condition",
+    "MedicationRequest",
+  ];
+  for (const type of types) {
+    const { resources: found } = await searchResources(
+      type,
+      organizationId,
+      { patient: patientUuid },
+      null
+    );
+    resources.push(...found);
+  }
+  return resources;
+};
+
+export const capabilityStatement = (baseUrl: string) => {
+  const resourceTypes = Object.keys(SEARCH_PARAMS) as FhirResourceType[];
+  return {
+    resourceType: "CapabilityStatement",
+    status: "active",
+    date: new Date().toISOString().slice(0, 10),
+    kind: "instance",
+    software: { name: "MedHub" },
+    implementation: { description: "MedHub FHIR API", url: baseUrl },
+    fhirVersion: FHIR_VERSION,
+    format: ["json"],
+    rest: [
+      {
+        mode: "server",
+        security: {
+          description:
+            "Requests are authenticated with the same session cookie as the MedHub API and scoped to the caller's organization and role",
+        },
+        resource: resourceTypes.map((type) => ({
+          type,
+          interaction: [{ code: "read" }, { code: "search-type" }],
+          searchParam: SEARCH_PARAMS[type].map((param) => ({
+            name: param.name,
+            type: param.type,
+            documentation: param.documentation,
+          })),
+          operation:
+            type === "Patient"
+              ? [
+                  {
+                    name: "everything",
+                    definition:
+                      "http://hl7.org/fhir/OperationDefinition/Patient-everything",
+                  },
+                ]
+              : undefined,
+        })),
+      },
+    ],
+  };
+};
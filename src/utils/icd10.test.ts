@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chapterFor, diagnosesProblem, normaliseCode } from "./icd10";
+
+describe("normaliseCode", () => {
+  it("writes codes in upper case with the dot after the category", () => {
+    assert.equal(normaliseCode("b509"), "B50.9");
+    assert.equal(normaliseCode(" e11.65 "), "E11.65");
+    assert.equal(normaliseCode("J-45"), "J45");
+  });
+});
+
+describe("chapterFor", () => {
+  it("finds the chapter by the category of the code", () => {
+    assert.equal(chapterFor("A09")!.chapter, "I");
+    assert.equal(chapterFor("e11.9")!.chapter, "IV");
+    assert.equal(chapterFor("U07.1")!.chapter, "XXII");
+  });
+
+  it("finds nothing for a code outside every chapter", () => {
+    assert.equal(chapterFor("123"), null);
+    assert.equal(chapterFor(""), null);
+  });
+});
+
+describe("diagnosesProblem", () => {
+  it("accepts coded and free-text diagnoses", () => {
+    assert.equal(
+      diagnosesProblem([
+        { code: "J10", rank: "primary" },
+        { text: "Dehydration" },
+      ]),
+      null
+    );
+  });
+
+  it("requires a code or a text on each", () => {
+    assert.equal(
+      diagnosesProblem([{ code: "J10" }, { rank: "secondary" }]),
+      "Diagnosis 2: code or text is required"
+    );
+  });
+
+  it("takes only the known ranks", () => {
+    assert.equal(
+      diagnosesProblem([{ code: "J10", rank: "main" }]),
+      "Diagnosis 1: rank must be primary or secondary"
+    );
+  });
+
+  it("allows one primary diagnosis", () => {
+    assert.equal(
+      diagnosesProblem([
+        { code: "J10", rank: "primary" },
+        { code: "R50.9", rank: "primary" },
+      ]),
+      "Only one diagnosis can be primary"
+    );
+  });
+
+  it("requires an array", () => {
+    assert.equal(diagnosesProblem("J10"), "diagnoses must be an array");
+  });
+});
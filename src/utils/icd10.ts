@@ -0,0 +1,333 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+interface Chapter {
+  chapter: string;
+  from: string;
+  to: string;
+  title: string;
+}
+
+// WHO ICD-10 (2019) chapters by three-character code range
+export const CHAPTERS: Chapter[] = [
+  {
+    chapter: "I",
+    from: "A00",
+    to: "B99",
+    title: "Certain infectious and parasitic diseases",
+  },
+  { chapter: "II", from: "C00", to: "D48", title: "Neoplasms" },
+  {
+    chapter: "III",
+    from: "D50",
+    to: "D89",
+    title:
+      "Diseases of the blood and blood-forming organs and certain disorders involving the immune mechanism",
+  },
+  {
+    chapter: "IV",
+    from: "E00",
+    to: "E90",
+    title: "Endocrine, nutritional and metabolic diseases",
+  },
+  {
+    chapter: "V",
+    from: "F00",
+    to: "F99",
+    title: "Mental and behavioural disorders",
+  },
+  {
+    chapter: "VI",
+    from: "G00",
+    to: "G99",
+    title: "Diseases of the nervous system",
+  },
+  {
+    chapter: "VII",
+    from: "H00",
+    to: "H59",
+    title: "Diseases of the eye and adnexa",
+  },
+  {
+    chapter: "VIII",
+    from: "H60",
+    to: "H95",
+    title: "Diseases of the ear and mastoid process",
+  },
+  {
+    chapter: "IX",
+    from: "I00",
+    to: "I99",
+    title: "Diseases of the circulatory system",
+  },
+  {
+    chapter: "X",
+    from: "J00",
+    to: "J99",
+    title: "Diseases of the respiratory system",
+  },
+  {
+    chapter: "XI",
+    from: "K00",
+    to: "K93",
+    title: "Diseases of the digestive system",
+  },
+  {
+    chapter: "XII",
+    from: "L00",
+    to: "L99",
+    title: "Diseases of the skin and subcutaneous tissue",
+  },
+  {
+    chapter: "XIII",
+    from: "M00",
+    to: "M99",
+    title: "Diseases of the musculoskeletal system and connective tissue",
+  },
+  {
+    chapter: "XIV",
+    from: "N00",
+    to: "N99",
+    title: "Diseases of the genitourinary system",
+  },
+  {
+    chapter: "XV",
+    from: "O00",
+    to: "O99",
+    title: "Pregnancy, childbirth and the puerperium",
+  },
+  {
+    chapter: "XVI",
+    from: "P00",
+    to: "P96",
+    title: "Certain conditions originating in the perinatal period",
+  },
+  {
+    chapter: "XVII",
+    from: "Q00",
+    to: "Q99",
+    title:
+      "Congenital malformations, deformations and chromosomal abnormalities",
+  },
+  {
+    chapter: "XVIII",
+    from: "R00",
+    to: "R99",
+    title:
+      "Symptoms, signs and abnormal clinical and laboratory findings, not elsewhere classified",
+  },
+  {
+    chapter: "XIX",
+    from: "S00",
+    to: "T98",
+    title:
+      "Injury, poisoning and certain other consequences of external causes",
+  },
+  {
+    chapter: "XX",
+    from: "V01",
+    to: "Y98",
+    title: "External causes of morbidity and mortality",
+  },
+  {
+    chapter: "XXI",
+    from: "Z00",
+    to: "Z99",
+    title: "Factors influencing health status and contact with health services",
+  },
+  {
+    chapter: "XXII",
+    from: "U00",
+    to: "U99",
+    title: "Codes for special purposes",
+  },
+];
+
+export const DIAGNOSIS_RANKS = ["primary", "secondary"];
+
+export interface DiagnosisInput {
+  code?: string | null;
+  text?: string | null;
+  rank?: string;
+}
+
+export interface Diagnosis {
+  uuid: string;
+  code: string | null;
+  title: string | null;
+  chapter: string | null;
+  text: string | null;
+  rank: string;
+}
+
+// "b509" and "B50.9" both become "B50.9"
+export const normaliseCode = (code: string): string => {
+  const compact = String(code || "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+  return compact.length > 3
+    ? `${compact.slice(0, 3)}.${compact.slice(3)}`
+    : compact;
+};
+
+export const chapterFor = (code: string): Chapter | null => {
+  const category = normaliseCode(code).slice(0, 3);
+  return (
+    CHAPTERS.find(
+      (chapter) => category >= chapter.from && category <= chapter.to
+    ) || null
+  );
+};
+
+// structural checks only; codes are checked against the catalog by unknownCodes
+export const diagnosesProblem = (items: any): string | null => {
+  if (!Array.isArray(items)) {
+    return "diagnoses must be an array";
+  }
+
+  for (const [index, item] of items.entries()) {
+    if (!item || (!item.code && !item.text)) {
+      return `Diagnosis ${index + 1}: code or text is required`;
+    }
+    if (item.rank && !DIAGNOSIS_RANKS.includes(item.rank)) {
+      return `Diagnosis ${index + 1}: rank must be primary or secondary`;
+    }
+  }
+
+  if (items.filter((item) => item.rank === "primary").length > 1) {
+    return "Only one diagnosis can be primary";
+  }
+
+  return null;
+};
+
+export const unknownCodes = async (items: DiagnosisInput[]) => {
+  const codes = items
+    .filter((item) => item.code)
+    .map((item) => normaliseCode(item.code as string));
+
+  if (codes.length === 0) {
+    return [];
+  }
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `SELECT code FROM icd10_codes WHERE code IN (?)`,
+    [codes]
+  );
+  const known = new Set(rows.map((row) => row.code));
+
+  return codes.filter((code) => !known.has(code));
+};
+
+// without an explicit primary the first diagnosis is taken as primary
+const withRanks = (items: DiagnosisInput[]): DiagnosisInput[] => {
+  const hasPrimary = items.some((item) => item.rank === "primary");
+
+  return items.map((item, index) => ({
+    ...item,
+    rank: item.rank || (!hasPrimary && index === 0 ? "primary" : "secondary"),
+  }));
+};
+
+export const replaceDiagnoses = async (
+  conn: PoolConnection,
+  visitUuid: string,
+  organizationId: string,
+  createdBy: string,
+  items: DiagnosisInput[]
+): Promise<void> => {
+  await conn.execute(`DELETE FROM visit_diagnoses WHERE visit_id = ?`, [
+    visitUuid,
+  ]);
+
+  for (const item of withRanks(items)) {
+    await conn.execute(
+      `
+      INSERT INTO visit_diagnoses
+        (uuid, visit_id, organization_id, icd10_code, free_text, diagnosis_rank, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        uuid(),
+        visitUuid,
+        organizationId,
+        item.code ? normaliseCode(item.code) : null,
+        item.text || null,
+        item.rank,
+        createdBy,
+      ]
+    );
+  }
+};
+
+export const listDiagnoses = async (
+  visitUuid: string,
+  conn?: PoolConnection
+): Promise<Diagnosis[]> => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT d.uuid, d.icd10_code AS code, c.title, c.chapter, d.free_text AS text,
+           d.diagnosis_rank AS \`rank\`
+    FROM visit_diagnoses d
+    LEFT JOIN icd10_codes c ON c.code = d.icd10_code
+    WHERE d.visit_id = ?
+    ORDER BY d.diagnosis_rank = 'primary' DESC, d.id ASC
+    `,
+    [visitUuid]
+  );
+
+  return rows as Diagnosis[];
+};
+
+// visits.diagnosis keeps a readable summary led by the primary diagnosis; the column is
+// VARCHAR(255) so long lists are cut short
+export const syncDiagnosisSummary = async (
+  conn: PoolConnection,
+  visitUuid: string
+): Promise<void> => {
+  const summary = (await listDiagnoses(visitUuid, conn))
+    .map((d) => (d.code ? `${d.code} ${d.title || ""}`.trim() : d.text))
+    .filter(Boolean)
+    .join("; ");
+
+  await conn.execute(`UPDATE visits SET diagnosis = ? WHERE uuid = ?`, [
+    summary.length > 255 ? `${summary.slice(0, 252)}...` : summary,
+    visitUuid,
+  ]);
+};
+
+export interface CatalogEntry {
+  code: string;
+  title: string;
+}
+
+// inserts or refreshes catalog rows; entries outside every chapter range are returned unloaded
+export const upsertCatalog = async (
+  entries: CatalogEntry[]
+): Promise<{ loaded: number; skipped: string[] }> => {
+  const skipped: string[] = [];
+  const rows: string[][] = [];
+
+  for (const entry of entries) {
+    const code = normaliseCode(entry.code);
+    const chapter = chapterFor(code);
+    if (!chapter || !entry.title || code.length > 10) {
+      skipped.push(entry.code);
+      continue;
+    }
+    rows.push([code, entry.title.trim().slice(0, 255), chapter.chapter]);
+  }
+
+  for (let i = 0; i < rows.length; i += 500) {
+    await db.query(
+      `
+      INSERT INTO icd10_codes (code, title, chapter) VALUES ?
+      ON DUPLICATE KEY UPDATE title = VALUES(title), chapter = VALUES(chapter)
+      `,
+      [rows.slice(i, i + 500)]
+    );
+  }
+
+  return { loaded: rows.length, skipped };
+};
@@ -0,0 +1,179 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  LabTest,
+  labTestProblem,
+  orderProblem,
+  resultFlag,
+  resultsProblem,
+} from "./lab";
+
+const result = (
+  value: string,
+  range: {
+    low?: number | null;
+    high?: number | null;
+    text?: string | null;
+  } = {}
+) => ({
+  value,
+  reference_low: range.low ?? null,
+  reference_high: range.high ?? null,
+  reference_text: range.text ?? null,
+});
+
+describe("resultFlag", () => {
+  it("flags numbers below and above the range", () => {
+    assert.equal(resultFlag(result("3.2", { low: 3.5, high: 5.1 })), "low");
+    assert.equal(resultFlag(result("5.4", { low: 3.5, high: 5.1 })), "high");
+  });
+
+  it("keeps the bounds themselves normal", () => {
+    assert.equal(resultFlag(result("3.5", { low: 3.5, high: 5.1 })), "normal");
+    assert.equal(resultFlag(result("5.1", { low: 3.5, high: 5.1 })), "normal");
+  });
+
+  it("works with a range open on one side", () => {
+    assert.equal(resultFlag(result("250", { high: 200 })), "high");
+    assert.equal(resultFlag(result("150", { high: 200 })), "normal");
+    assert.equal(resultFlag(result("55", { low: 60 })), "low");
+  });
+
+  it("compares text answers with the expected one, ignoring case", () => {
+    assert.equal(
+      resultFlag(result(" Negative ", { text: "negative" })),
+      "normal"
+    );
+    assert.equal(
+      resultFlag(result("Positive", { text: "Negative" })),
+      "abnormal"
+    );
+  });
+
+  it("falls back to the expected text for a number without a range", () => {
+    assert.equal(resultFlag(result("0", { text: "0" })), "normal");
+    assert.equal(resultFlag(result("2", { text: "0" })), "abnormal");
+  });
+
+  it("does not flag what it has nothing to compare with", () => {
+    assert.equal(resultFlag(result("5.4")), null);
+    assert.equal(resultFlag(result("see comment")), null);
+  });
+
+  it("does not compare text against a numeric range", () => {
+    assert.equal(
+      resultFlag(result("hemolysed", { low: 3.5, high: 5.1 })),
+      null
+    );
+  });
+});
+
+describe("labTestProblem", () => {
+  const test = { code: "K", name: "Potassium", reference_low: 3.5 };
+
+  it("accepts a new test with a code and a name", () => {
+    assert.equal(labTestProblem(test), null);
+    assert.equal(labTestProblem({ ...test, result_type: "text" }), null);
+  });
+
+  it("requires a code and a name on a new test only", () => {
+    assert.equal(labTestProblem({ name: "Potassium" }), "code is required");
+    assert.equal(labTestProblem({ code: "K" }), "name is required");
+    assert.equal(labTestProblem({ reference_high: 5.1 }, true), null);
+  });
+
+  it("keeps codes to letters, digits and a few separators", () => {
+    assert.equal(
+      labTestProblem({ ...test, code: "K+" }),
+      "code must be 1-30 letters, digits, dots, dashes or underscores"
+    );
+  });
+
+  it("requires a range that runs upwards", () => {
+    assert.equal(
+      labTestProblem({ ...test, reference_high: "high" }),
+      "reference_high must be a number"
+    );
+    assert.equal(
+      labTestProblem({ ...test, reference_high: 3 }),
+      "reference_low cannot be above reference_high"
+    );
+  });
+
+  it("checks the result type and the active switch", () => {
+    assert.equal(
+      labTestProblem({ ...test, result_type: "image" }),
+      "result_type must be one of: numeric, text"
+    );
+    assert.equal(
+      labTestProblem({ active: "yes" }, true),
+      "active must be true or false"
+    );
+  });
+});
+
+describe("orderProblem", () => {
+  it("requires the test and a known priority", () => {
+    assert.equal(orderProblem({ test: "K", priority: "stat" }), null);
+    assert.equal(
+      orderProblem({ priority: "stat" }),
+      "test is required (the test's uuid or code)"
+    );
+    assert.equal(
+      orderProblem({ test: "K", priority: "asap" }),
+      "priority must be one of: routine, urgent, stat"
+    );
+  });
+
+  it("limits the notes", () => {
+    assert.equal(
+      orderProblem({ test: "K", notes: "x".repeat(501) }),
+      "notes must be at most 500 characters"
+    );
+  });
+});
+
+describe("resultsProblem", () => {
+  const potassium = {
+    uuid: "t1",
+    code: "K",
+    name: "Potassium",
+    result_type: "numeric",
+  } as LabTest;
+
+  it("accepts a number for a numeric test", () => {
+    assert.equal(resultsProblem(potassium, [{ value: "4.2" }]), null);
+  });
+
+  it("takes text for a named analyte of a numeric test", () => {
+    assert.equal(
+      resultsProblem(potassium, [
+        { analyte: "Appearance", value: "hemolysed" },
+      ]),
+      null
+    );
+    assert.equal(
+      resultsProblem(potassium, [{ value: "4.2" }, { value: "hemolysed" }]),
+      "Result 2: Potassium takes a numeric value"
+    );
+  });
+
+  it("requires values and checks flags and ranges", () => {
+    assert.equal(
+      resultsProblem(potassium, []),
+      "results must be a non-empty array"
+    );
+    assert.equal(
+      resultsProblem(potassium, [{ value: "" }]),
+      "Result 1: value is required"
+    );
+    assert.equal(
+      resultsProblem(potassium, [{ value: 6, flag: "critical" }]),
+      "Result 1: flag must be one of: normal, low, high, abnormal"
+    );
+    assert.equal(
+      resultsProblem(potassium, [{ value: 6, reference_low: "low" }]),
+      "Result 1: reference_low must be a number"
+    );
+  });
+});
@@ -0,0 +1,536 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+export const PRIORITIES = ["routine", "urgent", "stat"] as const;
+export type Priority = (typeof PRIORITIES)[number];
+
+export const ORDER_STATUSES = [
+  "ordered",
+  "collected",
+  "resulted",
+  "cancelled",
+] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export const RESULT_TYPES = ["numeric", "text"] as const;
+export const RESULT_FLAGS = ["normal", "low", "high", "abnormal"] as const;
+export type ResultFlag = (typeof RESULT_FLAGS)[number];
+
+// orders still waiting on the lab
+export const PENDING_STATUSES: OrderStatus[] = ["ordered", "collected"];
+
+export interface LabTestInput {
+  code: string;
+  name: string;
+  specimen?: string | null;
+  result_type?: "numeric" | "text";
+  unit?: string | null;
+  reference_low?: number | null;
+  reference_high?: number | null;
+  // the expected answer of a text test, e.g. "Negative" for a malaria RDT
+  reference_text?: string | null;
+  active?: boolean;
+}
+
+export interface LabTest extends Required<LabTestInput> {
+  uuid: string;
+}
+
+export interface LabResultInput {
+  analyte?: string | null;
+  value: string | number;
+  unit?: string | null;
+  reference_low?: number | null;
+  reference_high?: number | null;
+  reference_text?: string | null;
+  flag?: ResultFlag | null;
+  comment?: string | null;
+}
+
+export interface LabResult {
+  uuid: string;
+  analyte: string;
+  value: string;
+  unit: string | null;
+  reference_low: number | null;
+  reference_high: number | null;
+  reference_text: string | null;
+  flag: ResultFlag | null;
+  comment: string | null;
+  recorded_by: string;
+  recorded_at: string;
+}
+
+export interface LabOrder {
+  uuid: string;
+  visit_id: string;
+  patient_id: string;
+  test_id: string;
+  test_code: string;
+  test_name: string;
+  priority: Priority;
+  status: OrderStatus;
+  notes: string | null;
+  ordered_by: string;
+  ordered_by_name: string | null;
+  ordered_at: string;
+  collected_at: string | null;
+  resulted_at: string | null;
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  results: LabResult[];
+}
+
+const isNumber = (value: unknown) =>
+  value !== "" && value !== null && Number.isFinite(Number(value));
+
+const present = (value: unknown) =>
+  value !== undefined && value !== null && value !== "";
+
+// returns the reason a catalog entry is rejected, or null when it is acceptable.
+// An update may leave fields out; a new test needs code and name.
+export const labTestProblem = (
+  input: any,
+  partial: boolean = false
+): string | null => {
+  if (!input || typeof input !== "object") {
+    return "The test must be an object";
+  }
+  if (!partial || input.code !== undefined) {
+    if (!input.code || typeof input.code !== "string") {
+      return "code is required";
+    }
+    if (!/^[A-Za-z0-9._-]{1,30}$/.test(input.code)) {
+      return "code must be 1-30 letters, digits, dots, dashes or underscores";
+    }
+  }
+  if (!partial || input.name !== undefined) {
+    if (!input.name || typeof input.name !== "string") {
+      return "name is required";
+    }
+    if (input.name.length > 255) {
+      return "name must be at most 255 characters";
+    }
+  }
+  if (
+    input.result_type !== undefined &&
+    !RESULT_TYPES.includes(input.result_type)
+  ) {
+    return `result_type must be one of: ${RESULT_TYPES.join(", ")}`;
+  }
+  for (const field of ["reference_low", "reference_high"]) {
+    if (present(input[field]) && !isNumber(input[field])) {
+      return `${field} must be a number`;
+    }
+  }
+  if (
+    present(input.reference_low) &&
+    present(input.reference_high) &&
+    Number(input.reference_low) > Number(input.reference_high)
+  ) {
+    return "reference_low cannot be above reference_high";
+  }
+  if (input.active !== undefined && typeof input.active !== "boolean") {
+    return "active must be true or false";
+  }
+  return null;
+};
+
+const SELECT_TEST = `
+  SELECT uuid, code, name, specimen, result_type, unit,
+         CAST(reference_low AS DOUBLE) AS reference_low,
+         CAST(reference_high AS DOUBLE) AS reference_high,
+         reference_text, active = 1 AS active
+  FROM lab_tests
+`;
+
+const toTest = (row: RowDataPacket): LabTest =>
+  ({ ...row, active: Boolean(row.active) } as LabTest);
+
+export const listTests = async (
+  organizationId: string,
+  includeInactive: boolean = false
+): Promise<LabTest[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${SELECT_TEST} WHERE organization_id = ?${
+      includeInactive ? "" : " AND active = 1"
+    } ORDER BY name`,
+    [organizationId]
+  );
+  return rows.map(toTest);
+};
+
+// by uuid or by code, so an order can name the test either way
+export const findTest = async (
+  organizationId: string,
+  idOrCode: string
+): Promise<LabTest | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${SELECT_TEST} WHERE organization_id = ? AND (uuid = ? OR code = ?) LIMIT 1`,
+    [organizationId, idOrCode, idOrCode]
+  );
+  return rows.length ? toTest(rows[0]) : null;
+};
+
+const TEST_FIELDS = [
+  "code",
+  "name",
+  "specimen",
+  "result_type",
+  "unit",
+  "reference_low",
+  "reference_high",
+  "reference_text",
+  "active",
+] as const;
+
+export const saveTest = async (
+  organizationId: string,
+  testUuid: string | null,
+  input: LabTestInput,
+  userUuid: string
+): Promise<string> => {
+  if (!testUuid) {
+    const created = uuid();
+    await db.execute(
+      `
+      INSERT INTO lab_tests
+        (uuid, organization_id, code, name, specimen, result_type, unit,
+         reference_low, reference_high, reference_text, active, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        created,
+        organizationId,
+        input.code.trim(),
+        input.name.trim(),
+        input.specimen || null,
+        input.result_type || "numeric",
+        input.unit || null,
+        present(input.reference_low) ? Number(input.reference_low) : null,
+        present(input.reference_high) ? Number(input.reference_high) : null,
+        input.reference_text || null,
+        input.active === false ? 0 : 1,
+        userUuid,
+      ]
+    );
+    return created;
+  }
+
+  const fields = TEST_FIELDS.filter(
+    (field) => (input as any)[field] !== undefined
+  );
+  if (fields.length) {
+    await db.execute(
+      `UPDATE lab_tests SET ${fields
+        .map((field) => `${field} = ?`)
+        .join(", ")} WHERE uuid = ? AND organization_id = ?`,
+      [
+        ...fields.map((field) => {
+          const value = (input as any)[field];
+          if (field === "active") {
+            return value ? 1 : 0;
+          }
+          return present(value) ? value : null;
+        }),
+        testUuid,
+        organizationId,
+      ]
+    );
+  }
+  return testUuid;
+};
+
+export const orderProblem = (input: any): string | null => {
+  if (!input || typeof input !== "object") {
+    return "The order must be an object";
+  }
+  if (!input.test || typeof input.test !== "string") {
+    return "test is required (the test's uuid or code)";
+  }
+  if (input.priority !== undefined && !PRIORITIES.includes(input.priority)) {
+    return `priority must be one of: ${PRIORITIES.join(", ")}`;
+  }
+  if (input.notes && String(input.notes).length > 500) {
+    return "notes must be at most 500 characters";
+  }
+  return null;
+};
+
+export const insertOrder = async (
+  organizationId: string,
+  visitUuid: string,
+  patientUuid: string,
+  test: LabTest,
+  input: { priority?: Priority; notes?: string | null },
+  orderedBy: string,
+  conn?: PoolConnection
+): Promise<string> => {
+  const orderUuid = uuid();
+  await (conn || db).execute(
+    `
+    INSERT INTO lab_orders
+      (uuid, organization_id, visit_id, patient_id, test_id, test_code, test_name,
+       priority, notes, ordered_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    [
+      orderUuid,
+      organizationId,
+      visitUuid,
+      patientUuid,
+      test.uuid,
+      test.code,
+      test.name,
+      input.priority || "routine",
+      input.notes || null,
+      orderedBy,
+    ]
+  );
+  return orderUuid;
+};
+
+const SELECT_ORDER = `
+  SELECT o.uuid, o.visit_id, o.patient_id, o.test_id, o.test_code, o.test_name,
+         o.priority, o.status, o.notes, o.ordered_by,
+         CONCAT(u.first_name, ' ', u.last_name) AS ordered_by_name,
+         DATE_FORMAT(o.ordered_at, '%Y-%m-%d %H:%i:%s') AS ordered_at,
+         DATE_FORMAT(o.collected_at, '%Y-%m-%d %H:%i:%s') AS collected_at,
+         DATE_FORMAT(o.resulted_at, '%Y-%m-%d %H:%i:%s') AS resulted_at,
+         DATE_FORMAT(o.cancelled_at, '%Y-%m-%d %H:%i:%s') AS cancelled_at,
+         o.cancel_reason
+  FROM lab_orders o
+  LEFT JOIN users u ON u.uuid = o.ordered_by
+`;
+
+const withResults = async (
+  rows: RowDataPacket[],
+  conn?: PoolConnection
+): Promise<LabOrder[]> => {
+  if (rows.length === 0) {
+    return [];
+  }
+  const [results] = await (conn || db).query<RowDataPacket[]>(
+    `
+    SELECT order_id, uuid, analyte, value, unit,
+           CAST(reference_low AS DOUBLE) AS reference_low,
+           CAST(reference_high AS DOUBLE) AS reference_high,
+           reference_text, flag, comment, recorded_by,
+           DATE_FORMAT(recorded_at, '%Y-%m-%d %H:%i:%s') AS recorded_at
+    FROM lab_results
+    WHERE order_id IN (?)
+    ORDER BY id
+    `,
+    [rows.map((row) => row.uuid)]
+  );
+
+  return rows.map((row) => ({
+    ...(row as LabOrder),
+    results: results
+      .filter((result) => result.order_id === row.uuid)
+      .map(({ order_id, ...result }) => result as LabResult),
+  }));
+};
+
+export const listVisitOrders = async (
+  visitUuid: string
+): Promise<LabOrder[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${SELECT_ORDER} WHERE o.visit_id = ? ORDER BY o.ordered_at, o.id`,
+    [visitUuid]
+  );
+  return withResults(rows);
+};
+
+// orders of a visit in the trash are hidden along with it
+const LIVE_VISIT =
+  "EXISTS (SELECT 1 FROM visits lv WHERE lv.uuid = o.visit_id AND lv.deleted_at IS NULL)";
+
+export const findOrder = async (
+  organizationId: string,
+  orderUuid: string,
+  conn?: PoolConnection
+): Promise<LabOrder | null> => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `${SELECT_ORDER} WHERE o.uuid = ? AND o.organization_id = ? AND ${LIVE_VISIT} LIMIT 1`,
+    [orderUuid, organizationId]
+  );
+  const [order] = await withResults(rows, conn);
+  return order || null;
+};
+
+// the worklist: pending orders, stat first, then urgent, then oldest first.
+// Carries just enough about the patient to label a specimen.
+export const pendingOrders = async (
+  organizationId: string,
+  filters: { status?: OrderStatus; priority?: Priority }
+) => {
+  const statuses = filters.status ? [filters.status] : PENDING_STATUSES;
+  let where = `o.organization_id = ? AND o.status IN (?) AND ${LIVE_VISIT}`;
+  const params: any[] = [organizationId, statuses];
+
+  if (filters.priority) {
+    where += " AND o.priority = ?";
+    params.push(filters.priority);
+  }
+
+  const [rows] = await db.query<RowDataPacket[]>(
+    `
+    SELECT o.uuid, o.visit_id, o.patient_id, p.name AS patient_name,
+           p.id_number AS patient_id_number,
+           DATE_FORMAT(p.date_of_birth, '%Y-%m-%d') AS patient_date_of_birth,
+           p.gender AS patient_gender,
+           o.test_code, o.test_name, t.specimen, o.priority, o.status, o.notes,
+           CONCAT(u.first_name, ' ', u.last_name) AS ordered_by_name,
+           DATE_FORMAT(o.ordered_at, '%Y-%m-%d %H:%i:%s') AS ordered_at,
+           DATE_FORMAT(o.collected_at, '%Y-%m-%d %H:%i:%s') AS collected_at,
+           TIMESTAMPDIFF(MINUTE, o.ordered_at, NOW()) AS waiting_minutes
+    FROM lab_orders o
+    JOIN patients p ON p.uuid = o.patient_id
+    LEFT JOIN lab_tests t ON t.uuid = o.test_id
+    LEFT JOIN users u ON u.uuid = o.ordered_by
+    WHERE ${where}
+    ORDER BY FIELD(o.priority, 'stat', 'urgent', 'routine'), o.ordered_at, o.id
+    `,
+    params
+  );
+  return rows;
+};
+
+export const resultsProblem = (test: LabTest, results: any): string | null => {
+  if (!Array.isArray(results) || results.length === 0) {
+    return "results must be a non-empty array";
+  }
+  for (const [index, result] of results.entries()) {
+    const label = `Result ${index + 1}`;
+    if (!result || typeof result !== "object") {
+      return `${label}: must be an object`;
+    }
+    if (!present(result.value)) {
+      return `${label}: value is required`;
+    }
+    if (String(result.value).length > 255) {
+      return `${label}: value must be at most 255 characters`;
+    }
+    if (
+      test.result_type === "numeric" &&
+      !result.analyte &&
+      !isNumber(result.value)
+    ) {
+      return `${label}: ${test.name} takes a numeric value`;
+    }
+    if (result.flag !== undefined && result.flag !== null) {
+      if (!RESULT_FLAGS.includes(result.flag)) {
+        return `${label}: flag must be one of: ${RESULT_FLAGS.join(", ")}`;
+      }
+    }
+    for (const field of ["reference_low", "reference_high"]) {
+      if (present(result[field]) && !isNumber(result[field])) {
+        return `${label}: ${field} must be a number`;
+      }
+    }
+  }
+  return null;
+};
+
+// low/high against a numeric range, abnormal when a text answer differs from the
+// expected one; null when there is nothing to compare against
+export const resultFlag = (result: {
+  value: string;
+  reference_low: number | null;
+  reference_high: number | null;
+  reference_text: string | null;
+}): ResultFlag | null => {
+  if (isNumber(result.value)) {
+    const value = Number(result.value);
+    if (result.reference_low !== null && value < result.reference_low) {
+      return "low";
+    }
+    if (result.reference_high !== null && value > result.reference_high) {
+      return "high";
+    }
+    if (result.reference_low !== null || result.reference_high !== null) {
+      return "normal";
+    }
+  }
+  if (result.reference_text) {
+    return result.value.trim().toLowerCase() ===
+      result.reference_text.trim().toLowerCase()
+      ? "normal"
+      : "abnormal";
+  }
+  return null;
+};
+
+// results without an analyte are the test itself and take the catalog's unit and
+// range; panels name each analyte and send their own. A point-of-care test can be
+// resulted straight from "ordered", which also marks it collected.
+export const recordResults = async (
+  conn: PoolConnection,
+  order: LabOrder,
+  test: LabTest,
+  results: LabResultInput[],
+  recordedBy: string
+): Promise<void> => {
+  for (const input of results) {
+    const own = !input.analyte;
+    const pick = <T>(value: T | undefined, fallback: T | null) =>
+      present(value) ? (value as T) : own ? fallback : null;
+
+    const result = {
+      value: String(input.value).trim(),
+      reference_low: pick(input.reference_low, test.reference_low),
+      reference_high: pick(input.reference_high, test.reference_high),
+      reference_text: pick(input.reference_text, test.reference_text),
+    };
+    const low = present(result.reference_low)
+      ? Number(result.reference_low)
+      : null;
+    const high = present(result.reference_high)
+      ? Number(result.reference_high)
+      : null;
+
+    await conn.execute(
+      `
+      INSERT INTO lab_results
+        (uuid, order_id, analyte, value, numeric_value, unit, reference_low,
+         reference_high, reference_text, flag, comment, recorded_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        uuid(),
+        order.uuid,
+        input.analyte || order.test_name,
+        result.value,
+        isNumber(result.value) ? Number(result.value) : null,
+        pick(input.unit, test.unit),
+        low,
+        high,
+        result.reference_text,
+        input.flag ||
+          resultFlag({
+            value: result.value,
+            reference_low: low,
+            reference_high: high,
+            reference_text: result.reference_text,
+          }),
+        input.comment || null,
+        recordedBy,
+      ]
+    );
+  }
+
+  await conn.execute(
+    `
+    UPDATE lab_orders
+    SET status = 'resulted',
+        collected_at = COALESCE(collected_at, NOW()),
+        collected_by = COALESCE(collected_by, ?),
+        resulted_at = NOW(),
+        resulted_by = ?
+    WHERE uuid = ?
+    `,
+    [recordedBy, recordedBy, order.uuid]
+  );
+};
@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AttemptRecord,
+  ThrottlePolicy,
+  checkLoginAllowed,
+  memoryAttemptStore,
+  registerLoginFailure,
+  registerLoginSuccess,
+  setLoginAttemptStore,
+  waitFor,
+} from "./login-attempts";
+
+const POLICY: ThrottlePolicy = {
+  freeFailures: 3,
+  maxDelaySeconds: 30,
+  lockAfter: 10,
+  lockMinutes: 15,
+};
+
+const NOW = Date.parse("2026-03-02T10:00:00Z");
+
+const record = (
+  failures: number,
+  secondsAgo: number,
+  lockedUntil: Date | null = null
+): AttemptRecord => ({
+  failures,
+  lastFailureAt: new Date(NOW - secondsAgo * 1000),
+  lockedUntil,
+});
+
+describe("waitFor", () => {
+  it("lets a key without failures through", () => {
+    assert.equal(waitFor(null, POLICY, NOW), 0);
+  });
+
+  it("does not slow down the free failures", () => {
+    assert.equal(waitFor(record(3, 0), POLICY, NOW), 0);
+  });
+
+  it("doubles the delay with every failure past the free ones", () => {
+    assert.equal(waitFor(record(4, 0), POLICY, NOW), 1);
+    assert.equal(waitFor(record(5, 0), POLICY, NOW), 2);
+    assert.equal(waitFor(record(6, 0), POLICY, NOW), 4);
+    assert.equal(waitFor(record(7, 0), POLICY, NOW), 8);
+  });
+
+  it("caps the delay", () => {
+    assert.equal(waitFor(record(9, 0), POLICY, NOW), 30);
+  });
+
+  it("counts the delay from the latest failure", () => {
+    assert.equal(waitFor(record(6, 3), POLICY, NOW), 1);
+    assert.equal(waitFor(record(6, 4), POLICY, NOW), 0);
+  });
+
+  it("holds a lock until it runs out", () => {
+    const lockedUntil = new Date(NOW + 90 * 1000);
+
+    assert.equal(waitFor(record(10, 0, lockedUntil), POLICY, NOW), 90);
+    assert.equal(
+      waitFor(record(10, 0, lockedUntil), POLICY, NOW + 91 * 1000),
+      0
+    );
+  });
+
+  it("forgets failures older than the window", () => {
+    assert.equal(waitFor(record(8, 16 * 60), POLICY, NOW), 0);
+  });
+});
+
+describe("memoryAttemptStore", () => {
+  it("counts every failure of a burst", async () => {
+    const store = memoryAttemptStore();
+    const at = new Date(NOW);
+    const staleBefore = new Date(NOW - 15 * 60 * 1000);
+
+    const counts = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        store.recordFailure("account:a", at, staleBefore)
+      )
+    );
+
+    assert.deepEqual([...counts].sort(), [1, 2, 3, 4, 5]);
+    assert.equal((await store.get("account:a"))!.failures, 5);
+  });
+
+  it("starts over, lock included, once the last failure is stale", async () => {
+    const store = memoryAttemptStore();
+    const earlier = new Date(NOW - 20 * 60 * 1000);
+
+    await store.recordFailure("account:a", earlier, new Date(0));
+    await store.lock("account:a", new Date(NOW + 60 * 1000));
+
+    const failures = await store.recordFailure(
+      "account:a",
+      new Date(NOW),
+      new Date(NOW - 15 * 60 * 1000)
+    );
+
+    assert.equal(failures, 1);
+    assert.equal((await store.get("account:a"))!.lockedUntil, null);
+  });
+});
+
+describe("login throttling", () => {
+  it("locks the account after ten failures, even sent in parallel", async () => {
+    setLoginAttemptStore(memoryAttemptStore());
+
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        registerLoginFailure("Jane@Example.com", "10.0.0.1")
+      )
+    );
+    const decision = await checkLoginAllowed(" jane@example.com", "10.0.0.2");
+
+    assert.equal(decision.allowed, false);
+    assert.ok(decision.retryAfterSeconds > 14 * 60);
+  });
+
+  it("clears the account, but not its IP, on a successful login", async () => {
+    setLoginAttemptStore(memoryAttemptStore());
+
+    for (let i = 0; i < 11; i++) {
+      await registerLoginFailure(`user${i}@example.com`, "10.0.0.1");
+    }
+    await registerLoginFailure("jane@example.com", "10.0.0.1");
+    await registerLoginSuccess("jane@example.com");
+
+    assert.equal(
+      (await checkLoginAllowed("jane@example.com", "10.0.0.9")).allowed,
+      true
+    );
+    assert.equal(
+      (await checkLoginAllowed("jane@example.com", "10.0.0.1")).allowed,
+      false
+    );
+  });
+});
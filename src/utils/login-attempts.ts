@@ -0,0 +1,228 @@
+import { RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import environments from "../env-config";
+
+const { loginAttemptStore } = environments;
+
+export interface AttemptRecord {
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+}
+
+// recordFailure has to count atomically: parallel failed logins must each add one, or a
+// burst of them would never reach the lock
+export interface LoginAttemptStore {
+  get: (key: string) => Promise<AttemptRecord | null>;
+  // returns the new count; failures from before staleBefore no longer count
+  recordFailure: (key: string, at: Date, staleBefore: Date) => Promise<number>;
+  lock: (key: string, until: Date) => Promise<void>;
+  clear: (key: string) => Promise<void>;
+}
+
+export interface ThrottlePolicy {
+  freeFailures: number;
+  maxDelaySeconds: number;
+  lockAfter: number;
+  lockMinutes: number;
+}
+
+export interface ThrottleDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// failures older than this no longer count
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// a shared clinic IP sees many users, so it gets far more slack than one account
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  freeFailures: 3,
+  maxDelaySeconds: 30,
+  lockAfter: 10,
+  lockMinutes: 15,
+};
+const IP_POLICY: ThrottlePolicy = {
+  freeFailures: 10,
+  maxDelaySeconds: 30,
+  lockAfter: 50,
+  lockMinutes: 15,
+};
+
+export const memoryAttemptStore = (): LoginAttemptStore => {
+  const records = new Map<string, AttemptRecord>();
+
+  return {
+    get: async (key) => records.get(key) || null,
+    recordFailure: async (key, at, staleBefore) => {
+      const existing = records.get(key);
+      const fresh = existing && existing.lastFailureAt >= staleBefore;
+      const failures = fresh ? existing.failures + 1 : 1;
+
+      records.set(key, {
+        failures,
+        lastFailureAt: at,
+        lockedUntil: fresh ? existing.lockedUntil : null,
+      });
+      return failures;
+    },
+    lock: async (key, until) => {
+      const existing = records.get(key);
+      if (existing) {
+        existing.lockedUntil = until;
+      }
+    },
+    clear: async (key) => {
+      records.delete(key);
+    },
+  };
+};
+
+export const databaseAttemptStore = (): LoginAttemptStore => ({
+  get: async (key) => {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT failures, last_failure_at, locked_until FROM login_attempts WHERE attempt_key = ?`,
+      [key]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return {
+      failures: rows[0].failures,
+      lastFailureAt: rows[0].last_failure_at,
+      lockedUntil: rows[0].locked_until,
+    };
+  },
+  // the count is bumped by MySQL, not read and written back; the assignments run in
+  // order, so failures and locked_until still see the previous last_failure_at
+  recordFailure: async (key, at, staleBefore) => {
+    await db.execute(
+      `
+      INSERT INTO login_attempts (attempt_key, failures, last_failure_at, locked_until)
+      VALUES (?, 1, ?, NULL)
+      ON DUPLICATE KEY UPDATE
+        failures = IF(last_failure_at < ?, 1, failures + 1),
+        locked_until = IF(last_failure_at < ?, NULL, locked_until),
+        last_failure_at = VALUES(last_failure_at)
+      `,
+      [key, at, staleBefore, staleBefore]
+    );
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `SELECT failures FROM login_attempts WHERE attempt_key = ?`,
+      [key]
+    );
+    return rows.length ? rows[0].failures : 1;
+  },
+  lock: async (key, until) => {
+    await db.execute(
+      `UPDATE login_attempts SET locked_until = ? WHERE attempt_key = ?`,
+      [until, key]
+    );
+  },
+  clear: async (key) => {
+    await db.execute(`DELETE FROM login_attempts WHERE attempt_key = ?`, [key]);
+  },
+});
+
+let store: LoginAttemptStore =
+  loginAttemptStore === "memory"
+    ? memoryAttemptStore()
+    : databaseAttemptStore();
+
+export const setLoginAttemptStore = (next: LoginAttemptStore) => {
+  store = next;
+};
+
+export const accountKey = (email: string): string =>
+  `account:${String(email || "")
+    .trim()
+    .toLowerCase()}`;
+
+const ipKey = (ip: string | undefined): string => `ip:${ip || "unknown"}`;
+
+const isStale = (record: AttemptRecord, now: number): boolean => {
+  return now - new Date(record.lastFailureAt).getTime() > FAILURE_WINDOW_MS;
+};
+
+// seconds until the key may try again under its policy, 0 when it may try now
+export const waitFor = (
+  record: AttemptRecord | null,
+  policy: ThrottlePolicy,
+  now: number
+): number => {
+  if (!record) {
+    return 0;
+  }
+
+  if (record.lockedUntil && new Date(record.lockedUntil).getTime() > now) {
+    return Math.ceil((new Date(record.lockedUntil).getTime() - now) / 1000);
+  }
+
+  if (isStale(record, now) || record.failures <= policy.freeFailures) {
+    return 0;
+  }
+
+  // 1s, 2s, 4s ... capped, counted from the latest failure
+  const delaySeconds = Math.min(
+    2 ** (record.failures - policy.freeFailures - 1),
+    policy.maxDelaySeconds
+  );
+  const nextAllowed =
+    new Date(record.lastFailureAt).getTime() + delaySeconds * 1000;
+
+  return nextAllowed > now ? Math.ceil((nextAllowed - now) / 1000) : 0;
+};
+
+const bumpFailures = async (
+  key: string,
+  policy: ThrottlePolicy,
+  now: number
+): Promise<void> => {
+  const failures = await store.recordFailure(
+    key,
+    new Date(now),
+    new Date(now - FAILURE_WINDOW_MS)
+  );
+
+  if (failures >= policy.lockAfter) {
+    await store.lock(key, new Date(now + policy.lockMinutes * 60 * 1000));
+  }
+};
+
+export const checkLoginAllowed = async (
+  email: string,
+  ip: string | undefined
+): Promise<ThrottleDecision> => {
+  const now = Date.now();
+  const [account, address] = await Promise.all([
+    store.get(accountKey(email)),
+    store.get(ipKey(ip)),
+  ]);
+  const retryAfterSeconds = Math.max(
+    waitFor(account, ACCOUNT_POLICY, now),
+    waitFor(address, IP_POLICY, now)
+  );
+
+  return { allowed: retryAfterSeconds === 0, retryAfterSeconds };
+};
+
+export const registerLoginFailure = async (
+  email: string,
+  ip: string | undefined
+): Promise<void> => {
+  const now = Date.now();
+
+  await bumpFailures(accountKey(email), ACCOUNT_POLICY, now);
+  await bumpFailures(ipKey(ip), IP_POLICY, now);
+};
+
+// the IP counter is left alone so one valid login cannot launder a spraying attack
+export const registerLoginSuccess = async (email: string): Promise<void> => {
+  await store.clear(accountKey(email));
+};
+
+export const unlockAccount = async (email: string): Promise<void> => {
+  await store.clear(accountKey(email));
+};
@@ -0,0 +1,61 @@
+import fs from "fs/promises";
+import path from "path";
+import environments from "../env-config";
+import uuid from "./uuid";
+
+const { production, mailTransport, mailOutboxDir, mailFrom } = environments;
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  send: async (message) => {
+    console.log(
+      `[mail]: to=${message.to} subject="${message.subject}"\n${message.text}`
+    );
+  },
+};
+
+// one JSON file per message, so local setups and tests can read what would have been sent
+export const fileOutboxTransport = (directory: string): MailTransport => ({
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")}-${uuid()}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+// the console transport is never picked in production, even when asked for
+let transport: MailTransport | null =
+  mailTransport === "file"
+    ? fileOutboxTransport(mailOutboxDir)
+    : mailTransport === "console" && !production
+    ? consoleTransport
+    : null;
+
+// lets a deployment plug in an SMTP/API backed transport at startup
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+export const mailConfigured = () => transport !== null;
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    throw new Error("No mail transport is configured");
+  }
+  await transport.send({ ...message, from: mailFrom });
+};
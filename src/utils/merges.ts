@@ -0,0 +1,235 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+// the records that follow a patient in a merge. The audit log, revisions and dismissed
+// duplicate pairs stay with the patient they were written about.
+const MOVED_TABLES = [
+  "visits",
+  "patient_allergies",
+  "appointments",
+  "reminders",
+  "attachments",
+  "lab_orders",
+] as const;
+
+type MovedTable = (typeof MOVED_TABLES)[number];
+
+export type MergeResult =
+  | { merged: true; uuid: string; moved: Record<MovedTable, number> }
+  | { merged: false; reason: "same-patient" | "not-found" };
+
+export type RevertResult =
+  | {
+      reverted: true;
+      survivorId: string;
+      mergedId: string;
+      moved: Record<MovedTable, number>;
+    }
+  | { reverted: false; reason: "not-found" | "already-reverted" };
+
+const lockPatients = async (
+  conn: PoolConnection,
+  organizationId: string,
+  uuids: string[]
+) => {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `
+    SELECT uuid FROM patients
+    WHERE uuid IN (?) AND organization_id = ? AND deleted_at IS NULL
+    FOR UPDATE
+    `,
+    [uuids, organizationId]
+  );
+  return rows.length === uuids.length;
+};
+
+// moves everything of the duplicate onto the survivor and hides the duplicate, inside
+// the caller's transaction. The survivor's demographics are left as they are.
+export const mergePatients = async (
+  conn: PoolConnection,
+  organizationId: string,
+  survivorUuid: string,
+  duplicateUuid: string,
+  mergedBy: string
+): Promise<MergeResult> => {
+  if (survivorUuid === duplicateUuid) {
+    return { merged: false, reason: "same-patient" };
+  }
+
+  if (
+    !(await lockPatients(conn, organizationId, [survivorUuid, duplicateUuid]))
+  ) {
+    return { merged: false, reason: "not-found" };
+  }
+
+  const moved = {} as Record<MovedTable, string[]>;
+  for (const table of MOVED_TABLES) {
+    const [rows] = await conn.execute<RowDataPacket[]>(
+      `SELECT uuid FROM ${table} WHERE patient_id = ?`,
+      [duplicateUuid]
+    );
+    moved[table] = rows.map((row) => row.uuid as string);
+    await conn.execute(
+      `UPDATE ${table} SET patient_id = ? WHERE patient_id = ?`,
+      [survivorUuid, duplicateUuid]
+    );
+  }
+
+  await conn.execute(
+    `
+    UPDATE patients SET deleted_at = NOW(), deleted_by = ?, merged_into = ?
+    WHERE uuid = ?
+    `,
+    [mergedBy, survivorUuid, duplicateUuid]
+  );
+
+  const mergeUuid = uuid();
+  await conn.execute(
+    `
+    INSERT INTO patient_merges
+      (uuid, organization_id, survivor_id, merged_id, moved, merged_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+    `,
+    [
+      mergeUuid,
+      organizationId,
+      survivorUuid,
+      duplicateUuid,
+      JSON.stringify(moved),
+      mergedBy,
+    ]
+  );
+
+  return { merged: true, uuid: mergeUuid, moved: countMoved(moved) };
+};
+
+const countMoved = (moved: Record<string, string[]>) =>
+  Object.fromEntries(
+    MOVED_TABLES.map((table) => [table, (moved[table] || []).length])
+  ) as Record<MovedTable, number>;
+
+// brings the duplicate back and returns to it the records the merge moved, as long as
+// they are still on the survivor, inside the caller's transaction. Records added to the
+// survivor since stay there.
+export const revertMerge = async (
+  conn: PoolConnection,
+  organizationId: string,
+  mergeUuid: string,
+  revertedBy: string
+): Promise<RevertResult> => {
+  const [merges] = await conn.execute<RowDataPacket[]>(
+    `
+    SELECT survivor_id, merged_id, moved, reverted_at FROM patient_merges
+    WHERE uuid = ? AND organization_id = ?
+    FOR UPDATE
+    `,
+    [mergeUuid, organizationId]
+  );
+
+  if (merges.length === 0) {
+    return { reverted: false, reason: "not-found" };
+  }
+  if (merges[0].reverted_at) {
+    return { reverted: false, reason: "already-reverted" };
+  }
+
+  const { survivor_id, merged_id } = merges[0];
+  const moved: Record<string, string[]> = JSON.parse(merges[0].moved);
+  const returned = {} as Record<MovedTable, number>;
+
+  for (const table of MOVED_TABLES) {
+    const uuids = moved[table] || [];
+    returned[table] = 0;
+    if (uuids.length) {
+      const [result]: any = await conn.query(
+        `UPDATE ${table} SET patient_id = ? WHERE uuid IN (?) AND patient_id = ?`,
+        [merged_id, uuids, survivor_id]
+      );
+      returned[table] = result.affectedRows;
+    }
+  }
+
+  await conn.execute(
+    `
+    UPDATE patients SET deleted_at = NULL, deleted_by = NULL, merged_into = NULL
+    WHERE uuid = ?
+    `,
+    [merged_id]
+  );
+  await conn.execute(
+    `UPDATE patient_merges SET reverted_by = ?, reverted_at = NOW() WHERE uuid = ?`,
+    [revertedBy, mergeUuid]
+  );
+
+  return {
+    reverted: true,
+    survivorId: survivor_id,
+    mergedId: merged_id,
+    moved: returned,
+  };
+};
+
+// whether patients merged into this one still stand merged; the rows are locked so a
+// revert cannot commit in between
+export const hasUnrevertedMerges = async (
+  conn: PoolConnection,
+  survivorUuid: string
+): Promise<boolean> => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `
+    SELECT id FROM patient_merges
+    WHERE survivor_id = ? AND reverted_at IS NULL
+    FOR UPDATE
+    `,
+    [survivorUuid]
+  );
+  return rows.length > 0;
+};
+
+const SELECT_MERGE = `
+  SELECT m.uuid, m.survivor_id, s.name AS survivor_name, m.merged_id,
+         d.name AS merged_name, d.id_number AS merged_id_number, m.moved,
+         m.merged_by, CONCAT(mu.first_name, ' ', mu.last_name) AS merged_by_name,
+         DATE_FORMAT(m.merged_at, '%Y-%m-%d %H:%i:%s') AS merged_at,
+         m.reverted_by, DATE_FORMAT(m.reverted_at, '%Y-%m-%d %H:%i:%s') AS reverted_at
+  FROM patient_merges m
+  JOIN patients s ON s.uuid = m.survivor_id
+  JOIN patients d ON d.uuid = m.merged_id
+  LEFT JOIN users mu ON mu.uuid = m.merged_by
+`;
+
+const toMerge = (row: RowDataPacket) => ({
+  ...row,
+  moved: countMoved(JSON.parse(row.moved)),
+});
+
+// latest first; with a patient, only the merges that patient took part in
+export const listMerges = async (
+  organizationId: string,
+  patientId?: string
+) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    ${SELECT_MERGE}
+    WHERE m.organization_id = ?${
+      patientId ? " AND (m.survivor_id = ? OR m.merged_id = ?)" : ""
+    }
+    ORDER BY m.id DESC
+    `,
+    patientId ? [organizationId, patientId, patientId] : [organizationId]
+  );
+  return rows.map(toMerge);
+};
+
+export const findMerge = async (
+  organizationId: string,
+  mergeUuid: string,
+  conn?: PoolConnection
+) => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `${SELECT_MERGE} WHERE m.uuid = ? AND m.organization_id = ? LIMIT 1`,
+    [mergeUuid, organizationId]
+  );
+  return rows.length ? toMerge(rows[0]) : null;
+};
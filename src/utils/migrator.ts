@@ -0,0 +1,138 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (conn: PoolConnection) => Promise<void>;
+  down: (conn: PoolConnection) => Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+}
+
+const LOCK_NAME = "medhub_schema_migrations";
+
+// tracking table is created outside of the versioned migrations so it exists before any of them run
+const ensureMigrationsTable = async (conn: PoolConnection): Promise<void> => {
+  await conn.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT UNSIGNED NOT NULL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+  `);
+};
+
+const appliedVersions = async (
+  conn: PoolConnection
+): Promise<Map<number, Date>> => {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    "SELECT version, applied_at FROM schema_migrations ORDER BY version"
+  );
+  return new Map(rows.map((row) => [Number(row.version), row.applied_at]));
+};
+
+const sortMigrations = (migrations: Migration[]): Migration[] => {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+  sorted.forEach((migration, index) => {
+    if (index > 0 && sorted[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  return sorted;
+};
+
+// serialises migration runs across processes so two deploys cannot migrate at once
+const withLock = async <T>(
+  work: (conn: PoolConnection) => Promise<T>
+): Promise<T> => {
+  const conn = await db.getConnection();
+
+  try {
+    const [lockRows] = await conn.query<RowDataPacket[]>(
+      "SELECT GET_LOCK(?, 30) AS acquired",
+      [LOCK_NAME]
+    );
+
+    if (lockRows[0].acquired !== 1) {
+      throw new Error("Another migration run is in progress");
+    }
+
+    try {
+      await ensureMigrationsTable(conn);
+      return await work(conn);
+    } finally {
+      await conn.query("SELECT RELEASE_LOCK(?)", [LOCK_NAME]);
+    }
+  } finally {
+    conn.release();
+  }
+};
+
+export const migrationStatus = async (
+  migrations: Migration[]
+): Promise<MigrationStatus[]> => {
+  return withLock(async (conn) => {
+    const applied = await appliedVersions(conn);
+
+    return sortMigrations(migrations).map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version) || null,
+    }));
+  });
+};
+
+export const migrateUp = async (
+  migrations: Migration[],
+  targetVersion?: number
+): Promise<Migration[]> => {
+  return withLock(async (conn) => {
+    const applied = await appliedVersions(conn);
+    const pending = sortMigrations(migrations).filter(
+      (migration) =>
+        !applied.has(migration.version) &&
+        (targetVersion === undefined || migration.version <= targetVersion)
+    );
+
+    for (const migration of pending) {
+      await migration.up(conn);
+      await conn.execute(
+        "INSERT INTO schema_migrations (version, name) VALUES (?, ?)",
+        [migration.version, migration.name]
+      );
+    }
+
+    return pending;
+  });
+};
+
+export const migrateDown = async (
+  migrations: Migration[],
+  steps: number = 1
+): Promise<Migration[]> => {
+  return withLock(async (conn) => {
+    const applied = await appliedVersions(conn);
+    const toRollBack = sortMigrations(migrations)
+      .filter((migration) => applied.has(migration.version))
+      .reverse()
+      .slice(0, steps);
+
+    for (const migration of toRollBack) {
+      await migration.down(conn);
+      await conn.execute("DELETE FROM schema_migrations WHERE version = ?", [
+        migration.version,
+      ]);
+    }
+
+    return toRollBack;
+  });
+};
@@ -0,0 +1,87 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+export interface Organization {
+  uuid: string;
+  name: string;
+  is_personal: number;
+  require_2fa: number;
+  created_by: string;
+  role: string;
+}
+
+export const createOrganization = async (
+  conn: PoolConnection,
+  name: string,
+  ownerUuid: string,
+  isPersonal: boolean = false
+): Promise<string> => {
+  const organizationId = uuid();
+
+  await conn.execute(
+    `INSERT INTO organizations (uuid, name, is_personal, created_by) VALUES (?, ?, ?, ?)`,
+    [organizationId, name, isPersonal ? 1 : 0, ownerUuid]
+  );
+  await conn.execute(
+    `INSERT INTO organization_members (organization_id, user_id, role) VALUES (?, ?, 'admin')`,
+    [organizationId, ownerUuid]
+  );
+
+  return organizationId;
+};
+
+export const findMembership = async (
+  userUuid: string,
+  organizationUuid: string
+): Promise<Organization | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT o.uuid, o.name, o.is_personal, o.require_2fa, o.created_by, m.role
+    FROM organization_members m
+    JOIN organizations o ON o.uuid = m.organization_id
+    WHERE m.user_id = ? AND m.organization_id = ?
+    LIMIT 1
+    `,
+    [userUuid, organizationUuid]
+  );
+
+  return rows.length ? (rows[0] as Organization) : null;
+};
+
+// the organization a user lands in after login: their personal one, else the oldest membership
+export const defaultOrganizationFor = async (
+  userUuid: string
+): Promise<Organization | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT o.uuid, o.name, o.is_personal, o.require_2fa, o.created_by, m.role
+    FROM organization_members m
+    JOIN organizations o ON o.uuid = m.organization_id
+    WHERE m.user_id = ?
+    ORDER BY o.is_personal DESC, m.created_at ASC
+    LIMIT 1
+    `,
+    [userUuid]
+  );
+
+  return rows.length ? (rows[0] as Organization) : null;
+};
+
+// names of the user's organizations that require two-factor authentication
+export const organizationsRequiringTwoFactor = async (
+  userUuid: string
+): Promise<string[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT o.name
+    FROM organization_members m
+    JOIN organizations o ON o.uuid = m.organization_id
+    WHERE m.user_id = ? AND o.require_2fa = 1
+    ORDER BY o.name
+    `,
+    [userUuid]
+  );
+
+  return rows.map((row) => row.name);
+};
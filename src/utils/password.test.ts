@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PASSWORD_MIN_LENGTH, passwordProblem } from "./password";
+
+describe("passwordProblem", () => {
+  it("accepts a long enough password typed twice", () => {
+    assert.equal(passwordProblem("correct horse", "correct horse"), null);
+    assert.equal(passwordProblem("12345678", "12345678"), null);
+  });
+
+  it("requires the minimum length", () => {
+    const short = "x".repeat(PASSWORD_MIN_LENGTH - 1);
+
+    assert.equal(
+      passwordProblem(short, short),
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters`
+    );
+    assert.equal(
+      passwordProblem(undefined, undefined),
+      `Password must be at least ${PASSWORD_MIN_LENGTH} characters`
+    );
+  });
+
+  it("requires the repeat to match", () => {
+    assert.equal(
+      passwordProblem("correct horse", "correct house"),
+      "Passwords do not match"
+    );
+    assert.equal(
+      passwordProblem("correct horse", undefined),
+      "Passwords do not match"
+    );
+  });
+});
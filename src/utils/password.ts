@@ -13,3 +13,32 @@ export const comparePassword = async (
 ): Promise<boolean> => {
   return await bcrypt.compare(plainPassword, hashedPassword);
 };
+
+let dummyHash: Promise<string> | null = null;
+
+// run when the email is unknown so a missing account takes as long as a wrong password
+export const comparePasswordAgainstDummy = async (
+  plainPassword: string
+): Promise<false> => {
+  if (!dummyHash) {
+    dummyHash = bcrypt.hash("medhub-timing-equaliser", 10);
+  }
+  await bcrypt.compare(plainPassword || "", await dummyHash);
+  return false;
+};
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+// returns the reason a new password is rejected, or null when it is acceptable
+export const passwordProblem = (
+  password: string | undefined,
+  repeatPassword: string | undefined
+): string | null => {
+  if (!password || password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  if (password !== repeatPassword) {
+    return "Passwords do not match";
+  }
+  return null;
+};
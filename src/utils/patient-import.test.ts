@@ -0,0 +1,125 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ImportRow,
+  importReport,
+  mappingProblem,
+  validateImport,
+} from "./patient-import";
+
+describe("mappingProblem", () => {
+  it("accepts a mapping of known fields to headers", () => {
+    assert.equal(mappingProblem({ idNumber: "ID No", contact: "Phone" }), null);
+    assert.equal(mappingProblem({}), null);
+  });
+
+  it("names an unknown field and the known ones", () => {
+    assert.equal(
+      mappingProblem({ phone: "Phone" }),
+      "Unknown field in mapping: phone. Fields are: name, idNumber, date_of_birth, gender, contact, email"
+    );
+  });
+
+  it("requires a header for each field", () => {
+    assert.equal(
+      mappingProblem({ contact: " " }),
+      "mapping.contact must be a column header"
+    );
+    assert.equal(
+      mappingProblem(["contact"]),
+      "mapping must be an object of field to column header"
+    );
+  });
+});
+
+// none of these get as far as looking up id numbers
+describe("validateImport", () => {
+  it("rejects a file without rows", async () => {
+    assert.deepEqual(await validateImport("", {}, ","), {
+      problem: "The file is empty",
+    });
+    assert.deepEqual(await validateImport("name,id_number\n", {}, ","), {
+      problem: "The file has a header but no rows",
+    });
+  });
+
+  it("names the fields no column was found for", async () => {
+    assert.deepEqual(
+      await validateImport("Name,ID Number,Phone\nJane,1,082", {}, ","),
+      {
+        problem:
+          "No column for: date_of_birth, gender, contact. Map them to a header with mapping",
+      }
+    );
+  });
+
+  it("reports a mapped header that is not in the file", async () => {
+    assert.deepEqual(
+      await validateImport("name\nJane", { contact: "Phone" }, ","),
+      { problem: 'Column "Phone" mapped to contact is not in the file' }
+    );
+  });
+
+  it("matches headers loosely and checks each row", async () => {
+    const result = await validateImport(
+      "Full name;ID-Number;Date of Birth;Gender;Phone\nJane Smith;;1990-04-12;F;082",
+      { name: "Full name", contact: "phone" },
+      ";"
+    );
+
+    assert.equal(result.problem, null);
+    assert.deepEqual(result.problem === null && result.rows, [
+      {
+        line: 2,
+        input: {
+          name: "Jane Smith",
+          idNumber: "",
+          date_of_birth: "1990-04-12",
+          gender: "F",
+          contact: "082",
+          email: null,
+        },
+        errors: ["Missing fields: idNumber"],
+        status: "invalid",
+        patientUuid: null,
+      },
+    ]);
+  });
+});
+
+describe("importReport", () => {
+  it("writes a line per row with its outcome and errors", () => {
+    const row = (fields: Partial<ImportRow>): ImportRow => ({
+      line: 2,
+      input: {
+        name: "Jane Smith",
+        idNumber: "9004125800081",
+        date_of_birth: "1990-04-12",
+        gender: "F",
+        contact: "082",
+      },
+      errors: [],
+      status: "imported",
+      patientUuid: "p1",
+      ...fields,
+    });
+
+    assert.equal(
+      importReport([
+        row({}),
+        row({
+          line: 3,
+          status: "skipped",
+          patientUuid: null,
+          errors: [
+            "Missing fields: gender",
+            "Duplicate id_number, first seen on line 2",
+          ],
+        }),
+      ]),
+      "line,status,patient_uuid,name,id_number,errors\r\n" +
+        "2,imported,p1,Jane Smith,9004125800081,\r\n" +
+        '3,skipped,,Jane Smith,9004125800081,"Missing fields: gender; Duplicate id_number, first seen on line 2"\r\n'
+    );
+  });
+});
@@ -0,0 +1,259 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+import { parseCsv, toCsvRow } from "./csv";
+import { PatientInput, patientProblem } from "./patients";
+
+export const IMPORT_FIELDS = [
+  "name",
+  "idNumber",
+  "date_of_birth",
+  "gender",
+  "contact",
+  "email",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// field -> CSV header; fields left out are matched to a header of the same name
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportRow {
+  // line in the file, counting the header as line 1
+  line: number;
+  input: PatientInput;
+  errors: string[];
+  status: "valid" | "invalid" | "imported" | "skipped";
+  patientUuid: string | null;
+}
+
+// "ID Number", "id_number" and "idNumber" all match idNumber
+const normaliseHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const mappingProblem = (mapping: any): string | null => {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return "mapping must be an object of field to column header";
+  }
+  for (const [field, header] of Object.entries(mapping)) {
+    if (!IMPORT_FIELDS.includes(field as ImportField)) {
+      return `Unknown field in mapping: ${field}. Fields are: ${IMPORT_FIELDS.join(
+        ", "
+      )}`;
+    }
+    if (typeof header !== "string" || header.trim() === "") {
+      return `mapping.${field} must be a column header`;
+    }
+  }
+  return null;
+};
+
+// resolves each field to a column index; returns the problem instead when the
+// file cannot be mapped at all
+const resolveColumns = (
+  headers: string[],
+  mapping: ColumnMapping
+):
+  | { problem: string }
+  | { problem: null; columns: Partial<Record<ImportField, number>> } => {
+  const columns: Partial<Record<ImportField, number>> = {};
+  const normalised = headers.map(normaliseHeader);
+
+  for (const field of IMPORT_FIELDS) {
+    const header = mapping[field];
+    const index = normalised.indexOf(normaliseHeader(header || field));
+
+    if (index === -1 && header) {
+      return {
+        problem: `Column "${header}" mapped to ${field} is not in the file`,
+      };
+    }
+    if (index !== -1) {
+      columns[field] = index;
+    }
+  }
+
+  const unmapped = IMPORT_FIELDS.filter(
+    (field) => field !== "email" && columns[field] === undefined
+  );
+  if (unmapped.length) {
+    return {
+      problem: `No column for: ${unmapped.join(
+        ", "
+      )}. Map them to a header with mapping`,
+    };
+  }
+  return { problem: null, columns };
+};
+
+const existingIdNumbers = async (idNumbers: string[]) => {
+  const existing = new Set<string>();
+
+  for (let i = 0; i < idNumbers.length; i += 500) {
+    const batch = idNumbers.slice(i, i + 500);
+    const [rows] = await db.query<RowDataPacket[]>(
+      "SELECT id_number FROM patients WHERE id_number IN (?)",
+      [batch]
+    );
+    rows.forEach((row) => existing.add(String(row.id_number)));
+  }
+  return existing;
+};
+
+// parses and checks every row without writing anything. id_number is unique across
+// all organizations, so a clash may be with a patient the caller cannot see.
+export const validateImport = async (
+  csv: string,
+  mapping: ColumnMapping,
+  delimiter: string
+): Promise<{ problem: string } | { problem: null; rows: ImportRow[] }> => {
+  const [headers, ...records] = parseCsv(csv, delimiter);
+  if (!headers) {
+    return { problem: "The file is empty" };
+  }
+  if (records.length === 0) {
+    return { problem: "The file has a header but no rows" };
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    return {
+      problem: `At most ${MAX_IMPORT_ROWS} rows can be imported at once`,
+    };
+  }
+
+  const resolved = resolveColumns(headers, mapping);
+  if (resolved.problem !== null) {
+    return { problem: resolved.problem };
+  }
+
+  const rows: ImportRow[] = records.map((record, index) => {
+    const value = (field: ImportField) => {
+      const column = resolved.columns[field];
+      return column === undefined ? "" : (record[column] || "").trim();
+    };
+    const input: PatientInput = {
+      name: value("name"),
+      idNumber: value("idNumber"),
+      date_of_birth: value("date_of_birth"),
+      gender: value("gender"),
+      contact: value("contact"),
+      email: value("email") || null,
+    };
+    const problem = patientProblem(input);
+
+    return {
+      line: index + 2,
+      input,
+      errors: problem ? [problem] : [],
+      status: "valid",
+      patientUuid: null,
+    };
+  });
+
+  const firstLine = new Map<string, number>();
+  rows.forEach((row) => {
+    const { idNumber } = row.input;
+    if (!idNumber) {
+      return;
+    }
+    const seen = firstLine.get(idNumber);
+    if (seen === undefined) {
+      firstLine.set(idNumber, row.line);
+    } else {
+      row.errors.push(`Duplicate id_number, first seen on line ${seen}`);
+    }
+  });
+
+  const existing = await existingIdNumbers([...firstLine.keys()]);
+  rows.forEach((row) => {
+    if (existing.has(row.input.idNumber)) {
+      row.errors.push("A patient with this id_number is already registered");
+    }
+    row.status = row.errors.length ? "invalid" : "valid";
+  });
+
+  return { problem: null, rows };
+};
+
+export const importReport = (rows: ImportRow[]): string => {
+  return [
+    toCsvRow(["line", "status", "patient_uuid", "name", "id_number", "errors"]),
+    ...rows.map((row) =>
+      toCsvRow([
+        row.line,
+        row.status,
+        row.patientUuid,
+        row.input.name,
+        row.input.idNumber,
+        row.errors.join("; "),
+      ])
+    ),
+  ].join("");
+};
+
+// inserts the valid rows and stores the report inside the caller's transaction: either
+// every valid row is imported or none is. Invalid rows are marked skipped.
+export const commitImport = async (
+  conn: PoolConnection,
+  organizationId: string,
+  createdBy: string,
+  rows: ImportRow[]
+): Promise<string> => {
+  const importUuid = uuid();
+
+  try {
+    for (const row of rows) {
+      if (row.status !== "valid") {
+        row.status = "skipped";
+        continue;
+      }
+
+      const patientUuid = uuid();
+      const { name, idNumber, date_of_birth, gender, contact, email } =
+        row.input;
+      await conn.execute(
+        `INSERT INTO patients
+           (uuid, name, id_number, date_of_birth, gender, contact, email, organization_id, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          patientUuid,
+          name,
+          idNumber,
+          date_of_birth,
+          gender,
+          contact,
+          email || null,
+          organizationId,
+          createdBy,
+        ]
+      );
+      row.status = "imported";
+      row.patientUuid = patientUuid;
+    }
+
+    const imported = rows.filter((row) => row.status === "imported").length;
+    await conn.execute(
+      `INSERT INTO patient_imports
+         (uuid, organization_id, total_rows, imported_rows, skipped_rows, report, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        importUuid,
+        organizationId,
+        rows.length,
+        imported,
+        rows.length - imported,
+        importReport(rows),
+        createdBy,
+      ]
+    );
+
+    return importUuid;
+  } catch (err) {
+    rows.forEach((row) => {
+      row.status = row.errors.length ? "invalid" : "valid";
+      row.patientUuid = null;
+    });
+    throw err;
+  }
+};
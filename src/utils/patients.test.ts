@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { patientProblem } from "./patients";
+
+const jane = {
+  name: "Jane Smith",
+  idNumber: "9004125800081",
+  date_of_birth: "1990-04-12",
+  gender: "female",
+  contact: "0825550101",
+};
+
+describe("patientProblem", () => {
+  it("accepts a complete patient", () => {
+    assert.equal(patientProblem(jane), null);
+    assert.equal(patientProblem({ ...jane, email: null }), null);
+  });
+
+  it("names every missing field", () => {
+    assert.equal(
+      patientProblem({ ...jane, idNumber: " ", contact: null }),
+      "Missing fields: idNumber, contact"
+    );
+  });
+
+  it("requires a real date of birth that is not in the future", () => {
+    assert.equal(
+      patientProblem({ ...jane, date_of_birth: "12/04/1990" }),
+      "date_of_birth must be YYYY-MM-DD"
+    );
+    assert.equal(
+      patientProblem({ ...jane, date_of_birth: "2999-01-01" }),
+      "date_of_birth cannot be in the future"
+    );
+  });
+
+  it("keeps fields within their columns", () => {
+    assert.equal(
+      patientProblem({ ...jane, gender: "x".repeat(21) }),
+      "gender must be at most 20 characters"
+    );
+  });
+});
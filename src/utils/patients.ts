@@ -0,0 +1,67 @@
+import { isLocalDate } from "./appointments";
+
+// the body of POST /api/patients/new-patient; bulk import validates each row with the same rules
+export interface PatientInput {
+  name: string;
+  idNumber: string;
+  date_of_birth: string;
+  gender: string;
+  contact: string;
+  email?: string | null;
+}
+
+const REQUIRED = [
+  "name",
+  "idNumber",
+  "date_of_birth",
+  "gender",
+  "contact",
+] as const;
+
+// column sizes in patients
+const MAX_LENGTHS: Record<string, number> = {
+  name: 255,
+  idNumber: 50,
+  gender: 20,
+  contact: 50,
+  email: 255,
+};
+
+const blank = (value: unknown) =>
+  value === undefined || value === null || String(value).trim() === "";
+
+// returns the reason a patient is rejected, or null when it is acceptable
+export const patientProblem = (input: any): string | null => {
+  const missing = REQUIRED.filter((field) => blank(input[field]));
+  if (missing.length) {
+    return `Missing fields: ${missing.join(", ")}`;
+  }
+
+  if (!isLocalDate(input.date_of_birth)) {
+    return "date_of_birth must be YYYY-MM-DD";
+  }
+  if (input.date_of_birth > new Date().toISOString().slice(0, 10)) {
+    return "date_of_birth cannot be in the future";
+  }
+
+  for (const [field, max] of Object.entries(MAX_LENGTHS)) {
+    if (!blank(input[field]) && String(input[field]).length > max) {
+      return `${field} must be at most ${max} characters`;
+    }
+  }
+
+  return null;
+};
+
+// the filters of GET /api/patients, shared with its export. Expects patients as p.
+export const patientListFilter = (
+  organizationId: string,
+  query: Record<string, any>
+) => {
+  const search = (query.search as string) || "";
+  return {
+    where:
+      "p.organization_id = ? AND p.deleted_at IS NULL AND (p.name LIKE ? OR p.id_number LIKE ?)",
+    params: [organizationId, `%${search}%`, `%${search}%`],
+  };
+};
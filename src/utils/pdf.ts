@@ -0,0 +1,235 @@
+import { Writable } from "stream";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import { describePrescription } from "./prescriptions";
+import {
+  DocumentData,
+  DocumentTemplate,
+  Letterhead,
+  Section,
+  verificationUrl,
+} from "./documents";
+
+const MARGIN = 50;
+const GREY = "#555555";
+const QR_SIZE = 80;
+
+type Doc = PDFKit.PDFDocument;
+
+const heading = (doc: Doc, text: string, accent: string) => {
+  doc.moveDown(0.8);
+  doc.font("Helvetica-Bold").fontSize(11).fillColor(accent).text(text);
+  doc.moveDown(0.2);
+  doc.font("Helvetica").fontSize(10).fillColor("black");
+};
+
+const drawLetterhead = (doc: Doc, letterhead: Letterhead) => {
+  const top = doc.y;
+  let textX = MARGIN;
+
+  if (letterhead.logo) {
+    const image = Buffer.from(letterhead.logo.split(",")[1], "base64");
+    doc.image(image, MARGIN, top, { fit: [60, 60] });
+    textX += 72;
+  }
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(16)
+    .fillColor(letterhead.accent_color)
+    .text(letterhead.clinic_name, textX, top);
+
+  const contact = [letterhead.address, letterhead.phone, letterhead.email]
+    .filter(Boolean)
+    .join("\n");
+  if (contact) {
+    doc.font("Helvetica").fontSize(9).fillColor(GREY).text(contact, textX);
+  }
+
+  const bottom = Math.max(doc.y, letterhead.logo ? top + 60 : doc.y) + 8;
+  doc
+    .moveTo(MARGIN, bottom)
+    .lineTo(doc.page.width - MARGIN, bottom)
+    .lineWidth(1.5)
+    .strokeColor(letterhead.accent_color)
+    .stroke();
+  doc.x = MARGIN;
+  doc.y = bottom + 12;
+};
+
+const field = (doc: Doc, label: string, value: string | null) => {
+  doc
+    .font("Helvetica-Bold")
+    .text(`${label}: `, { continued: true })
+    .font("Helvetica")
+    .text(value || "-");
+};
+
+const SECTION_RENDERERS: Record<
+  Section,
+  (doc: Doc, data: DocumentData, accent: string) => void
+> = {
+  patient: (doc, data, accent) => {
+    heading(doc, "Patient", accent);
+    const { patient } = data;
+    field(doc, "Name", patient.name);
+    field(doc, "ID number", patient.id_number);
+    field(
+      doc,
+      "Date of birth",
+      patient.date_of_birth
+        ? `${patient.date_of_birth}${patient.age ? ` (${patient.age})` : ""}`
+        : null
+    );
+    field(doc, "Gender", patient.gender);
+    field(doc, "Contact", patient.contact);
+    field(doc, "Visit date", data.visit_date);
+    field(doc, "Clinician", data.clinician);
+  },
+
+  diagnoses: (doc, data, accent) => {
+    heading(doc, "Diagnosis", accent);
+    const { diagnoses } = data.visit;
+    if (diagnoses.length === 0) {
+      doc.text(data.visit.diagnosis || "-");
+      return;
+    }
+    diagnoses.forEach((diagnosis) => {
+      const label = [diagnosis.code, diagnosis.text || diagnosis.title]
+        .filter(Boolean)
+        .join("  ");
+      doc.text(`• ${label}${diagnosis.rank === "primary" ? " (primary)" : ""}`);
+    });
+  },
+
+  medications: (doc, data, accent) => {
+    heading(doc, "Medications", accent);
+    const { prescriptions } = data.visit;
+    if (prescriptions.length === 0) {
+      doc.text(data.visit.prescribed_medications || "-");
+      return;
+    }
+    prescriptions.forEach((line, index) => {
+      doc
+        .font("Helvetica-Bold")
+        .text(`${index + 1}. ${describePrescription(line)}`);
+      const details = [
+        line.quantity ? `Quantity: ${Number(line.quantity)}` : null,
+        line.instructions,
+      ].filter(Boolean);
+      if (details.length) {
+        doc.font("Helvetica").fillColor(GREY).text(details.join(". "), {
+          indent: 14,
+        });
+      }
+      doc.font("Helvetica").fillColor("black");
+    });
+  },
+
+  notes: (doc, data, accent) => {
+    if (!data.visit.notes) {
+      return;
+    }
+    heading(doc, "Notes", accent);
+    doc.text(data.visit.notes);
+  },
+
+  "follow-up": (doc, data, accent) => {
+    if (!data.visit.follow_up_date) {
+      return;
+    }
+    heading(doc, "Follow-up", accent);
+    doc.text(`Please return on ${data.visit.follow_up_date}.`);
+  },
+
+  signature: (doc, data) => {
+    doc.moveDown(3);
+    const y = doc.y;
+    doc
+      .moveTo(MARGIN, y)
+      .lineTo(MARGIN + 200, y)
+      .lineWidth(0.5)
+      .strokeColor("black")
+      .stroke();
+    doc.moveDown(0.3);
+    doc
+      .fontSize(9)
+      .fillColor(GREY)
+      .text(data.clinician || "Clinician");
+    doc.fontSize(10).fillColor("black");
+  },
+};
+
+// the serial and QR code sit at the bottom of the last page, under the template footer
+const drawVerification = async (
+  doc: Doc,
+  serial: string,
+  footer: string | null
+) => {
+  const url = verificationUrl(serial);
+  const qr = await QRCode.toBuffer(url, { margin: 0, width: QR_SIZE * 3 });
+  const bottom = doc.page.height - MARGIN;
+
+  if (doc.y > bottom - QR_SIZE - 10) {
+    doc.addPage();
+  }
+
+  const top = bottom - QR_SIZE;
+  const textWidth = doc.page.width - MARGIN * 2 - QR_SIZE - 16;
+  doc.image(qr, doc.page.width - MARGIN - QR_SIZE, top, {
+    width: QR_SIZE,
+    height: QR_SIZE,
+  });
+
+  doc.font("Helvetica").fontSize(8).fillColor(GREY);
+  if (footer) {
+    doc.text(footer, MARGIN, top, { width: textWidth });
+    doc.moveDown(0.5);
+  } else {
+    doc.y = top;
+  }
+  doc.text(`Serial: ${serial}`, MARGIN, doc.y, { width: textWidth });
+  doc.text(`Verify this document at ${url}`, { width: textWidth });
+};
+
+export const renderDocument = async (
+  output: Writable,
+  options: {
+    template: DocumentTemplate;
+    letterhead: Letterhead;
+    data: DocumentData;
+    serial: string;
+    issuedAt: Date;
+  }
+): Promise<void> => {
+  const { template, letterhead, data, serial, issuedAt } = options;
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    info: {
+      Title: `${template.title} - ${data.patient.name}`,
+      Author: letterhead.clinic_name,
+    },
+  });
+  doc.pipe(output);
+
+  drawLetterhead(doc, letterhead);
+
+  doc
+    .font("Helvetica-Bold")
+    .fontSize(14)
+    .fillColor("black")
+    .text(template.title, { continued: true })
+    .font("Helvetica")
+    .fontSize(9)
+    .fillColor(GREY)
+    .text(`   Issued ${issuedAt.toISOString().slice(0, 10)}`);
+  doc.font("Helvetica").fontSize(10).fillColor("black");
+
+  template.sections.forEach((section) => {
+    SECTION_RENDERERS[section](doc, data, letterhead.accent_color);
+  });
+
+  await drawVerification(doc, serial, template.footer);
+  doc.end();
+};
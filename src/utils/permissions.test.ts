@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ROLES, hasPermission, isRole } from "./permissions";
+
+describe("isRole", () => {
+  it("knows the member roles", () => {
+    ROLES.forEach((role) => assert.equal(isRole(role), true));
+  });
+
+  it("rejects anything else", () => {
+    assert.equal(isRole("owner"), false);
+    assert.equal(isRole("Admin"), false);
+    assert.equal(isRole(undefined), false);
+  });
+});
+
+describe("hasPermission", () => {
+  it("lets only admins manage members", () => {
+    assert.equal(hasPermission("admin", "members:manage"), true);
+    assert.equal(hasPermission("doctor", "members:manage"), false);
+  });
+
+  it("keeps clinical data from receptionists", () => {
+    assert.equal(hasPermission("receptionist", "patients:read"), true);
+    assert.equal(hasPermission("receptionist", "visits:read"), false);
+  });
+
+  it("lets auditors read but not change anything", () => {
+    assert.equal(hasPermission("auditor", "visits:read"), true);
+    assert.equal(hasPermission("auditor", "patients:update"), false);
+  });
+
+  it("only lets doctors and admins delete", () => {
+    assert.equal(hasPermission("doctor", "visits:delete"), true);
+    assert.equal(hasPermission("nurse", "visits:delete"), false);
+    assert.equal(hasPermission("nurse", "patients:delete"), false);
+  });
+
+  it("grants nothing to an unknown or missing role", () => {
+    assert.equal(hasPermission("owner", "patients:read"), false);
+    assert.equal(hasPermission(undefined, "patients:read"), false);
+  });
+});
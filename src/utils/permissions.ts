@@ -0,0 +1,133 @@
+export const ROLES = [
+  "admin",
+  "doctor",
+  "nurse",
+  "receptionist",
+  "auditor",
+  "lab_technician",
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "patients:create"
+  | "patients:read"
+  | "patients:update"
+  | "patients:delete"
+  | "patients:merge"
+  | "visits:create"
+  | "visits:read"
+  | "visits:update"
+  | "visits:delete"
+  | "visits:sign"
+  | "vitals:record"
+  | "allergies:update"
+  | "appointments:read"
+  | "appointments:manage"
+  | "schedules:manage"
+  | "reminders:manage"
+  | "documents:manage"
+  | "lab:order"
+  | "lab:process"
+  | "lab:manage"
+  | "trash:purge"
+  | "dashboard:read"
+  | "audit:read"
+  | "members:manage";
+
+// visits:read covers every piece of clinical data (diagnoses, medications, notes, vitals).
+// Roles without it only ever see patient demographics. vitals:record and allergies:update
+// let nurses chart vitals and allergies at intake without editing visits. lab:process
+// (collecting specimens and entering results) gives lab technicians the worklist and
+// the orders on it without the rest of the visit. Whoever may delete a patient or visit
+// may restore it from the trash; only trash:purge removes it for good. visits:sign is for
+// the clinicians who can attest to a visit; a signed visit only takes addenda.
+// patients:merge moves one chart's records onto another, so it stays with admins.
+export const PERMISSION_MATRIX: Record<Role, Permission[]> = {
+  admin: [
+    "patients:create",
+    "patients:read",
+    "patients:update",
+    "patients:delete",
+    "patients:merge",
+    "visits:create",
+    "visits:read",
+    "visits:update",
+    "visits:delete",
+    "visits:sign",
+    "vitals:record",
+    "allergies:update",
+    "appointments:read",
+    "appointments:manage",
+    "schedules:manage",
+    "reminders:manage",
+    "documents:manage",
+    "lab:order",
+    "lab:process",
+    "lab:manage",
+    "trash:purge",
+    "dashboard:read",
+    "audit:read",
+    "members:manage",
+  ],
+  doctor: [
+    "patients:create",
+    "patients:read",
+    "patients:update",
+    "patients:delete",
+    "visits:create",
+    "visits:read",
+    "visits:update",
+    "visits:delete",
+    "visits:sign",
+    "vitals:record",
+    "allergies:update",
+    "appointments:read",
+    "appointments:manage",
+    "lab:order",
+    "lab:process",
+    "dashboard:read",
+  ],
+  nurse: [
+    "patients:create",
+    "patients:read",
+    "patients:update",
+    "visits:create",
+    "visits:read",
+    "vitals:record",
+    "allergies:update",
+    "appointments:read",
+    "appointments:manage",
+    "lab:process",
+    "dashboard:read",
+  ],
+  receptionist: [
+    "patients:create",
+    "patients:read",
+    "patients:update",
+    "appointments:read",
+    "appointments:manage",
+  ],
+  auditor: [
+    "patients:read",
+    "visits:read",
+    "appointments:read",
+    "dashboard:read",
+    "audit:read",
+  ],
+  lab_technician: ["patients:read", "lab:process"],
+};
+
+export const isRole = (value: unknown): value is Role => {
+  return ROLES.includes(value as Role);
+};
+
+export const hasPermission = (
+  role: string | undefined,
+  permission: Permission
+): boolean => {
+  if (!isRole(role)) {
+    return false;
+  }
+  return PERMISSION_MATRIX[role].includes(permission);
+};
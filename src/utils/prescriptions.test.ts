@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  describePrescription,
+  prescriptionProblem,
+  prescriptionsProblem,
+} from "./prescriptions";
+
+describe("prescriptionProblem", () => {
+  it("accepts a line with only a drug name", () => {
+    assert.equal(prescriptionProblem({ drug_name: "Paracetamol" }), null);
+  });
+
+  it("requires a drug name", () => {
+    assert.equal(
+      prescriptionProblem({ dose: "1 tablet" }),
+      "drug_name is required"
+    );
+    assert.equal(
+      prescriptionProblem("Paracetamol"),
+      "Each prescription must be an object"
+    );
+  });
+
+  it("takes the routes in any case", () => {
+    assert.equal(
+      prescriptionProblem({ drug_name: "Salbutamol", route: "Inhalation" }),
+      null
+    );
+    assert.match(
+      prescriptionProblem({ drug_name: "Salbutamol", route: "mouth" })!,
+      /^route must be one of: oral, sublingual/
+    );
+  });
+
+  it("requires a positive quantity", () => {
+    assert.equal(
+      prescriptionProblem({ drug_name: "Paracetamol", quantity: "20" }),
+      null
+    );
+    assert.equal(
+      prescriptionProblem({ drug_name: "Paracetamol", quantity: 0 }),
+      "quantity must be a positive number"
+    );
+    assert.equal(
+      prescriptionProblem({ drug_name: "Paracetamol", quantity: "a box" }),
+      "quantity must be a positive number"
+    );
+  });
+});
+
+describe("prescriptionsProblem", () => {
+  it("names the first line at fault", () => {
+    assert.equal(
+      prescriptionsProblem([
+        { drug_name: "Paracetamol" },
+        { dose: "1 tablet" },
+      ]),
+      "Prescription 2: drug_name is required"
+    );
+  });
+
+  it("requires an array", () => {
+    assert.equal(
+      prescriptionsProblem({ drug_name: "Paracetamol" }),
+      "prescriptions must be an array"
+    );
+    assert.equal(prescriptionsProblem([]), null);
+  });
+});
+
+describe("describePrescription", () => {
+  it("writes the line out the way it is prescribed", () => {
+    assert.equal(
+      describePrescription({
+        drug_name: "Amoxicillin",
+        strength: "500 mg",
+        route: "oral",
+        dose: "1 capsule",
+        frequency: "TDS",
+        duration: "5 days",
+        quantity: 15,
+      }),
+      "Amoxicillin 500 mg oral 1 capsule TDS x 5 days"
+    );
+  });
+
+  it("leaves out what was not given", () => {
+    assert.equal(
+      describePrescription({ drug_name: "Paracetamol", frequency: "PRN" }),
+      "Paracetamol PRN"
+    );
+  });
+
+  it("falls back to the free text of an unstructured line", () => {
+    assert.equal(
+      describePrescription({ drug_name: null, free_text: "Panado 2 tabs" }),
+      "Panado 2 tabs"
+    );
+    assert.equal(
+      describePrescription({ drug_name: null, free_text: null }),
+      ""
+    );
+  });
+});
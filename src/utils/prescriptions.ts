@@ -0,0 +1,206 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+
+export const ROUTES = [
+  "oral",
+  "sublingual",
+  "intravenous",
+  "intramuscular",
+  "subcutaneous",
+  "topical",
+  "inhalation",
+  "nasal",
+  "ophthalmic",
+  "otic",
+  "rectal",
+  "vaginal",
+  "other",
+];
+
+export interface PrescriptionInput {
+  drug_name: string;
+  strength?: string | null;
+  route?: string | null;
+  dose?: string | null;
+  frequency?: string | null;
+  duration?: string | null;
+  quantity?: number | null;
+  instructions?: string | null;
+}
+
+export interface Prescription extends PrescriptionInput {
+  uuid: string;
+  visit_id: string;
+  free_text: string | null;
+}
+
+const FIELDS = [
+  "drug_name",
+  "strength",
+  "route",
+  "dose",
+  "frequency",
+  "duration",
+  "quantity",
+  "instructions",
+] as const;
+
+// returns the reason a line is rejected, or null when it is acceptable
+export const prescriptionProblem = (input: any): string | null => {
+  if (!input || typeof input !== "object") {
+    return "Each prescription must be an object";
+  }
+  if (!input.drug_name || typeof input.drug_name !== "string") {
+    return "drug_name is required";
+  }
+  if (input.route && !ROUTES.includes(String(input.route).toLowerCase())) {
+    return `route must be one of: ${ROUTES.join(", ")}`;
+  }
+  if (
+    input.quantity !== undefined &&
+    input.quantity !== null &&
+    !(Number(input.quantity) > 0)
+  ) {
+    return "quantity must be a positive number";
+  }
+  return null;
+};
+
+export const prescriptionsProblem = (items: any): string | null => {
+  if (!Array.isArray(items)) {
+    return "prescriptions must be an array";
+  }
+  for (const [index, item] of items.entries()) {
+    const problem = prescriptionProblem(item);
+    if (problem) {
+      return `Prescription ${index + 1}: ${problem}`;
+    }
+  }
+  return null;
+};
+
+const toRow = (input: PrescriptionInput) => {
+  return FIELDS.map((field) => {
+    const value = input[field];
+    if (value === undefined || value === null || value === "") {
+      return null;
+    }
+    if (field === "route") {
+      return String(value).toLowerCase();
+    }
+    return field === "quantity" ? Number(value) : value;
+  });
+};
+
+// e.g. "Amoxicillin 500 mg oral 1 capsule TDS x 5 days"
+export const describePrescription = (line: any): string => {
+  if (!line.drug_name) {
+    return line.free_text || "";
+  }
+  return [
+    line.drug_name,
+    line.strength,
+    line.route,
+    line.dose,
+    line.frequency,
+    line.duration ? `x ${line.duration}` : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+export const insertPrescription = async (
+  conn: PoolConnection,
+  visitUuid: string,
+  organizationId: string,
+  createdBy: string,
+  input: PrescriptionInput
+): Promise<string> => {
+  const prescriptionId = uuid();
+
+  await conn.execute(
+    `
+    INSERT INTO prescriptions
+      (uuid, visit_id, organization_id, drug_name, strength, route, dose,
+       frequency, duration, quantity, instructions, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    [prescriptionId, visitUuid, organizationId, ...toRow(input), createdBy]
+  );
+
+  return prescriptionId;
+};
+
+export const updatePrescription = async (
+  conn: PoolConnection,
+  prescriptionUuid: string,
+  input: PrescriptionInput
+): Promise<void> => {
+  await conn.execute(
+    `
+    UPDATE prescriptions
+    SET drug_name = ?, strength = ?, route = ?, dose = ?, frequency = ?,
+        duration = ?, quantity = ?, instructions = ?, free_text = NULL
+    WHERE uuid = ?
+    `,
+    [...toRow(input), prescriptionUuid]
+  );
+};
+
+// swaps every line of a visit for a single free-text line
+export const replaceWithFreeText = async (
+  conn: PoolConnection,
+  visitUuid: string,
+  organizationId: string,
+  createdBy: string,
+  text: string
+): Promise<void> => {
+  await conn.execute(`DELETE FROM prescriptions WHERE visit_id = ?`, [
+    visitUuid,
+  ]);
+  await conn.execute(
+    `
+    INSERT INTO prescriptions (uuid, visit_id, organization_id, free_text, created_by)
+    VALUES (?, ?, ?, ?, ?)
+    `,
+    [uuid(), visitUuid, organizationId, text, createdBy]
+  );
+};
+
+export const listPrescriptions = async (
+  visitUuid: string,
+  conn?: PoolConnection
+): Promise<Prescription[]> => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT uuid, visit_id, drug_name, strength, route, dose, frequency, duration,
+           quantity, instructions, free_text
+    FROM prescriptions
+    WHERE visit_id = ?
+    ORDER BY id ASC
+    `,
+    [visitUuid]
+  );
+
+  return rows.map((row) => ({
+    ...(row as Prescription),
+    quantity: row.quantity === null ? null : Number(row.quantity),
+  }));
+};
+
+// keeps visits.prescribed_medications in step with the lines; returns the new summary
+export const syncMedicationSummary = async (
+  conn: PoolConnection,
+  visitUuid: string
+): Promise<string> => {
+  const lines = await listPrescriptions(visitUuid, conn);
+  const summary = lines.map(describePrescription).filter(Boolean).join(", ");
+
+  await conn.execute(
+    `UPDATE visits SET prescribed_medications = ? WHERE uuid = ?`,
+    [summary, visitUuid]
+  );
+
+  return summary;
+};
@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { renderTemplate, templateProblem } from "./reminders";
+
+describe("renderTemplate", () => {
+  it("fills in the placeholders, spaced or not", () => {
+    assert.equal(
+      renderTemplate(
+        "Hi {{patient_name}}, see you on {{ appointment_date }}.",
+        {
+          patient_name: "Jane",
+          appointment_date: "2026-03-02",
+        }
+      ),
+      "Hi Jane, see you on 2026-03-02."
+    );
+  });
+
+  it("leaves a placeholder without a value empty", () => {
+    assert.equal(
+      renderTemplate("{{clinic_name}}: {{provider_name}}", {
+        clinic_name: "Eastside Clinic",
+      }),
+      "Eastside Clinic: "
+    );
+  });
+});
+
+describe("templateProblem", () => {
+  const template = {
+    subject: "Reminder from {{clinic_name}}",
+    body: "Hi {{patient_name}}, see you at {{appointment_time}}.",
+    offset_minutes: 120,
+  };
+
+  it("accepts the placeholders of its kind", () => {
+    assert.equal(templateProblem("appointment", template), null);
+  });
+
+  it("names the placeholders the kind does not have", () => {
+    assert.equal(
+      templateProblem("follow-up", template),
+      "Unknown placeholder: appointment_time. Available: patient_name, clinic_name, follow_up_date"
+    );
+    assert.match(
+      templateProblem("appointment", {
+        ...template,
+        subject: "{{clinic}}",
+      })!,
+      /^Unknown placeholder: clinic\. /
+    );
+  });
+
+  it("requires a body", () => {
+    assert.equal(
+      templateProblem("appointment", { ...template, body: "  " }),
+      "body is required"
+    );
+  });
+
+  it("limits the offset to 30 days", () => {
+    const problem =
+      "offset_minutes must be a whole number of minutes up to 30 days";
+
+    assert.equal(
+      templateProblem("appointment", { ...template, offset_minutes: 0 }),
+      null
+    );
+    assert.equal(
+      templateProblem("appointment", {
+        ...template,
+        offset_minutes: 60 * 24 * 31,
+      }),
+      problem
+    );
+    assert.equal(
+      templateProblem("appointment", { ...template, offset_minutes: "60" }),
+      problem
+    );
+  });
+});
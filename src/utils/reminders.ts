@@ -0,0 +1,465 @@
+import { Pool, PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+import { mailConfigured, sendMail } from "./mail";
+import { sendSms, smsConfigured } from "./sms";
+import { localNow, localDateTime, parseLocalDateTime } from "./appointments";
+
+export const REMINDER_KINDS = ["appointment", "follow-up"] as const;
+export const REMINDER_CHANNELS = ["sms", "email"] as const;
+
+export type ReminderKind = (typeof REMINDER_KINDS)[number];
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export interface ReminderTemplate {
+  kind: ReminderKind;
+  channel: ReminderChannel;
+  subject: string | null;
+  body: string;
+  offset_minutes: number;
+  active: boolean;
+  customised: boolean;
+}
+
+// placeholders each kind can use; anything else is rejected when a template is saved
+export const PLACEHOLDERS: Record<ReminderKind, string[]> = {
+  appointment: [
+    "patient_name",
+    "clinic_name",
+    "provider_name",
+    "appointment_date",
+    "appointment_time",
+  ],
+  "follow-up": ["patient_name", "clinic_name", "follow_up_date"],
+};
+
+// follow-up reminders count their offset back from this time on the follow-up date
+const FOLLOW_UP_ANCHOR = "09:00";
+const MAX_ATTEMPTS = 3;
+const RETRY_MINUTES = 15;
+
+const DEFAULT_TEMPLATES: Omit<ReminderTemplate, "customised">[] = [
+  {
+    kind: "appointment",
+    channel: "sms",
+    subject: null,
+    body: "Hi {{patient_name}}, this is a reminder of your appointment with {{provider_name}} at {{clinic_name}} on {{appointment_date}} at {{appointment_time}}.",
+    offset_minutes: 24 * 60,
+    active: true,
+  },
+  {
+    kind: "appointment",
+    channel: "email",
+    subject: "Appointment reminder from {{clinic_name}}",
+    body: "Dear {{patient_name}},\n\nThis is a reminder of your appointment with {{provider_name}} on {{appointment_date}} at {{appointment_time}}.\n\n{{clinic_name}}",
+    offset_minutes: 24 * 60,
+    active: true,
+  },
+  {
+    kind: "follow-up",
+    channel: "sms",
+    subject: null,
+    body: "Hi {{patient_name}}, {{clinic_name}} would like to see you for a follow-up on {{follow_up_date}}. Please contact us to book a time.",
+    offset_minutes: 24 * 60,
+    active: true,
+  },
+  {
+    kind: "follow-up",
+    channel: "email",
+    subject: "Follow-up due at {{clinic_name}}",
+    body: "Dear {{patient_name}},\n\nYour follow-up with {{clinic_name}} is due on {{follow_up_date}}. Please contact us to book a time.\n\n{{clinic_name}}",
+    offset_minutes: 24 * 60,
+    active: true,
+  },
+];
+
+const PLACEHOLDER = /{{\s*([a-z_]+)\s*}}/g;
+
+export const renderTemplate = (
+  text: string,
+  values: Record<string, string>
+): string => {
+  return text.replace(PLACEHOLDER, (_, name) => values[name] ?? "");
+};
+
+// returns the reason a template edit is rejected, or null when it is acceptable
+export const templateProblem = (
+  kind: ReminderKind,
+  input: any
+): string | null => {
+  if (!input || typeof input.body !== "string" || !input.body.trim()) {
+    return "body is required";
+  }
+  if (
+    !Number.isInteger(input.offset_minutes) ||
+    input.offset_minutes < 0 ||
+    input.offset_minutes > 60 * 24 * 30
+  ) {
+    return "offset_minutes must be a whole number of minutes up to 30 days";
+  }
+  const used = [
+    ...`${input.subject || ""} ${input.body}`.matchAll(PLACEHOLDER),
+  ].map((match) => match[1]);
+  const unknown = used.filter((name) => !PLACEHOLDERS[kind].includes(name));
+  if (unknown.length) {
+    return `Unknown placeholder: ${unknown.join(
+      ", "
+    )}. Available: ${PLACEHOLDERS[kind].join(", ")}`;
+  }
+  return null;
+};
+
+// the organization's edits layered over the built-in defaults
+export const listTemplates = async (
+  organizationId: string
+): Promise<ReminderTemplate[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT kind, channel, subject, body, offset_minutes, active
+    FROM reminder_templates
+    WHERE organization_id = ?
+    `,
+    [organizationId]
+  );
+
+  return DEFAULT_TEMPLATES.map((template) => {
+    const edit = rows.find(
+      (row) => row.kind === template.kind && row.channel === template.channel
+    );
+    return edit
+      ? {
+          ...template,
+          subject: edit.subject,
+          body: edit.body,
+          offset_minutes: edit.offset_minutes,
+          active: edit.active === 1,
+          customised: true,
+        }
+      : { ...template, customised: false };
+  });
+};
+
+export const saveTemplate = async (
+  organizationId: string,
+  kind: ReminderKind,
+  channel: ReminderChannel,
+  input: {
+    subject?: string | null;
+    body: string;
+    offset_minutes: number;
+    active?: boolean;
+  },
+  updatedBy: string
+): Promise<void> => {
+  await db.execute(
+    `
+    INSERT INTO reminder_templates
+      (organization_id, kind, channel, subject, body, offset_minutes, active, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    ON DUPLICATE KEY UPDATE subject = VALUES(subject), body = VALUES(body),
+      offset_minutes = VALUES(offset_minutes), active = VALUES(active),
+      updated_by = VALUES(updated_by)
+    `,
+    [
+      organizationId,
+      kind,
+      channel,
+      input.subject || null,
+      input.body,
+      input.offset_minutes,
+      input.active === false ? 0 : 1,
+      updatedBy,
+    ]
+  );
+};
+
+// "YYYY-MM-DD HH:MM" moved by a number of minutes, still as local wall-clock time
+const shiftLocal = (local: string, minutes: number): string => {
+  const parsed = parseLocalDateTime(local) as { date: string; minutes: number };
+  const shifted = new Date(
+    Date.parse(`${parsed.date}T00:00:00Z`) + (parsed.minutes + minutes) * 60000
+  );
+  const iso = shifted.toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+};
+
+export const cancelReminders = async (
+  conn: Pool | PoolConnection,
+  sourceType: "appointment" | "visit",
+  sourceId: string
+): Promise<void> => {
+  await conn.execute(
+    `
+    UPDATE reminders SET status = 'cancelled'
+    WHERE source_type = ? AND source_id = ? AND status = 'scheduled'
+    `,
+    [sourceType, sourceId]
+  );
+};
+
+// replaces the pending reminders of an appointment or visit. One reminder per active
+// channel the patient can be reached on; none when the send time has already passed.
+export const scheduleReminders = async (
+  conn: Pool | PoolConnection,
+  source: {
+    organizationId: string;
+    patientId: string;
+    kind: ReminderKind;
+    sourceType: "appointment" | "visit";
+    sourceId: string;
+    // local "YYYY-MM-DD HH:MM" the offset counts back from
+    anchor: string;
+  }
+): Promise<void> => {
+  await cancelReminders(conn, source.sourceType, source.sourceId);
+
+  const [patients] = await conn.execute<RowDataPacket[]>(
+    `SELECT contact, email FROM patients WHERE uuid = ? LIMIT 1`,
+    [source.patientId]
+  );
+  if (patients.length === 0) {
+    return;
+  }
+
+  const now = localNow();
+  const nowLocal = localDateTime(now.date, now.minutes);
+  const templates = (await listTemplates(source.organizationId)).filter(
+    (template) =>
+      template.kind === source.kind &&
+      template.active &&
+      (template.channel === "sms" ? patients[0].contact : patients[0].email)
+  );
+
+  for (const template of templates) {
+    const sendAt = shiftLocal(source.anchor, -template.offset_minutes);
+    if (sendAt <= nowLocal) {
+      continue;
+    }
+    await conn.execute(
+      `
+      INSERT INTO reminders
+        (uuid, organization_id, patient_id, kind, channel, source_type, source_id, send_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        uuid(),
+        source.organizationId,
+        source.patientId,
+        source.kind,
+        template.channel,
+        source.sourceType,
+        source.sourceId,
+        sendAt,
+      ]
+    );
+  }
+};
+
+export const scheduleFollowUp = async (
+  conn: Pool | PoolConnection,
+  organizationId: string,
+  patientId: string,
+  visitUuid: string,
+  followUpDate: string | null | undefined
+): Promise<void> => {
+  if (!followUpDate) {
+    await cancelReminders(conn, "visit", visitUuid);
+    return;
+  }
+  await scheduleReminders(conn, {
+    organizationId,
+    patientId,
+    kind: "follow-up",
+    sourceType: "visit",
+    sourceId: visitUuid,
+    anchor: `${followUpDate} ${FOLLOW_UP_ANCHOR}`,
+  });
+};
+
+// placeholder values, read when the reminder goes out so late edits are picked up
+const reminderContext = async (reminder: RowDataPacket) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT p.name AS patient_name, p.contact, p.email, p.sms_opt_out_at,
+           p.email_opt_out_at, o.name AS clinic_name
+    FROM patients p
+    JOIN organizations o ON o.uuid = ?
+    WHERE p.uuid = ? AND p.deleted_at IS NULL
+    LIMIT 1
+    `,
+    [reminder.organization_id, reminder.patient_id]
+  );
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const values: Record<string, string> = {
+    patient_name: rows[0].patient_name,
+    clinic_name: rows[0].clinic_name,
+  };
+
+  if (reminder.source_type === "appointment") {
+    const [appointments] = await db.execute<RowDataPacket[]>(
+      `
+      SELECT DATE_FORMAT(a.starts_at, '%Y-%m-%d') AS appointment_date,
+             DATE_FORMAT(a.starts_at, '%H:%i') AS appointment_time,
+             CONCAT(u.first_name, ' ', u.last_name) AS provider_name
+      FROM appointments a
+      JOIN users u ON u.uuid = a.provider_id
+      WHERE a.uuid = ?
+      `,
+      [reminder.source_id]
+    );
+    Object.assign(values, appointments[0] || {});
+  } else {
+    const [visits] = await db.execute<RowDataPacket[]>(
+      `SELECT DATE_FORMAT(follow_up_date, '%Y-%m-%d') AS follow_up_date FROM visits WHERE uuid = ?`,
+      [reminder.source_id]
+    );
+    Object.assign(values, visits[0] || {});
+  }
+
+  return { patient: rows[0], values };
+};
+
+const finishReminder = async (
+  reminderId: number,
+  status: string,
+  fields: {
+    recipient?: string | null;
+    subject?: string | null;
+    body?: string | null;
+    error?: string | null;
+  } = {}
+) => {
+  await db.execute(
+    `
+    UPDATE reminders
+    SET status = ?, recipient = ?, subject = ?, body = ?, last_error = ?,
+        attempts = attempts + 1, sent_at = IF(? = 'sent', NOW(), sent_at)
+    WHERE id = ?
+    `,
+    [
+      status,
+      fields.recipient ?? null,
+      fields.subject ?? null,
+      fields.body ?? null,
+      fields.error ? fields.error.slice(0, 255) : null,
+      status,
+      reminderId,
+    ]
+  );
+};
+
+// sends every reminder that is due. Only one process sends at a time; returns the
+// number of reminders handled, or 0 when another process holds the lock.
+export const sendDueReminders = async (limit: number = 100) => {
+  const conn = await db.getConnection();
+
+  try {
+    const [lock] = await conn.query<RowDataPacket[]>(
+      "SELECT GET_LOCK('reminders:send', 0) AS acquired"
+    );
+    if (lock[0].acquired !== 1) {
+      return 0;
+    }
+
+    try {
+      const [due] = await conn.query<RowDataPacket[]>(
+        `
+        SELECT id, organization_id, patient_id, kind, channel, source_type, source_id, attempts
+        FROM reminders
+        WHERE status = 'scheduled' AND send_at <= NOW()
+        ORDER BY send_at ASC
+        LIMIT ?
+        `,
+        [limit]
+      );
+
+      for (const reminder of due) {
+        const context = await reminderContext(reminder);
+        const optedOut =
+          reminder.channel === "sms"
+            ? context?.patient.sms_opt_out_at
+            : context?.patient.email_opt_out_at;
+        const recipient =
+          reminder.channel === "sms"
+            ? context?.patient.contact
+            : context?.patient.email;
+
+        const configured =
+          reminder.channel === "sms" ? smsConfigured() : mailConfigured();
+
+        if (!context || optedOut || !recipient || !configured) {
+          await finishReminder(reminder.id, "skipped", {
+            error: !context
+              ? "Patient no longer exists"
+              : optedOut
+              ? "Patient opted out"
+              : !recipient
+              ? "No contact for this channel"
+              : reminder.channel === "sms"
+              ? "No SMS transport is configured"
+              : "No mail transport is configured",
+          });
+          continue;
+        }
+
+        const template = (await listTemplates(reminder.organization_id)).find(
+          (t) => t.kind === reminder.kind && t.channel === reminder.channel
+        ) as ReminderTemplate;
+        const subject = template.subject
+          ? renderTemplate(template.subject, context.values)
+          : null;
+        const body = renderTemplate(template.body, context.values);
+
+        try {
+          if (reminder.channel === "sms") {
+            await sendSms({ to: recipient, text: body });
+          } else {
+            await sendMail({
+              to: recipient,
+              subject: subject || "",
+              text: body,
+            });
+          }
+          await finishReminder(reminder.id, "sent", {
+            recipient,
+            subject,
+            body,
+          });
+        } catch (err: any) {
+          // retried a few times with a growing delay before giving up
+          if (reminder.attempts + 1 >= MAX_ATTEMPTS) {
+            await finishReminder(reminder.id, "failed", {
+              recipient,
+              subject,
+              body,
+              error: err?.message || "Delivery failed",
+            });
+          } else {
+            await db.execute(
+              `
+              UPDATE reminders
+              SET attempts = attempts + 1, last_error = ?,
+                  send_at = DATE_ADD(NOW(), INTERVAL ? MINUTE)
+              WHERE id = ?
+              `,
+              [
+                String(err?.message || "Delivery failed").slice(0, 255),
+                RETRY_MINUTES * (reminder.attempts + 1),
+                reminder.id,
+              ]
+            );
+          }
+        }
+      }
+
+      return due.length;
+    } finally {
+      await conn.query("SELECT RELEASE_LOCK('reminders:send')");
+    }
+  } finally {
+    conn.release();
+  }
+};
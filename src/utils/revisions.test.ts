@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  MAX_REASON_LENGTH,
+  amendmentReasonProblem,
+  diffSnapshots,
+} from "./revisions";
+
+describe("diffSnapshots", () => {
+  it("reports only the fields that changed, in snapshot order", () => {
+    assert.deepEqual(
+      diffSnapshots(
+        { diagnosis: "Flu", notes: "rest", visit_date: "2026-03-02" },
+        { diagnosis: "Influenza A", notes: "rest", visit_date: "2026-03-03" }
+      ),
+      [
+        { field: "diagnosis", before: "Flu", after: "Influenza A" },
+        { field: "visit_date", before: "2026-03-02", after: "2026-03-03" },
+      ]
+    );
+  });
+
+  it("finds nothing between equal snapshots", () => {
+    const snapshot = { diagnosis: "Flu", prescriptions: [{ drug: "Tamiflu" }] };
+
+    assert.deepEqual(diffSnapshots(snapshot, { ...snapshot }), []);
+  });
+
+  it("reports a changed list whole", () => {
+    const before = [{ code: "J10", primary: true }];
+    const after = [
+      { code: "J10", primary: true },
+      { code: "R50.9", primary: false },
+    ];
+
+    assert.deepEqual(
+      diffSnapshots({ diagnoses: before }, { diagnoses: after }),
+      [{ field: "diagnoses", before, after }]
+    );
+  });
+
+  it("treats a missing field like null", () => {
+    assert.deepEqual(diffSnapshots({ notes: null }, {}), []);
+    assert.deepEqual(diffSnapshots({}, { notes: "rest" }), [
+      { field: "notes", before: null, after: "rest" },
+    ]);
+  });
+
+  it("tells an empty string from null", () => {
+    assert.deepEqual(diffSnapshots({ notes: "" }, { notes: null }), [
+      { field: "notes", before: "", after: null },
+    ]);
+  });
+});
+
+describe("amendmentReasonProblem", () => {
+  it("requires a reason", () => {
+    assert.equal(
+      amendmentReasonProblem(undefined),
+      "amendment_reason is required"
+    );
+    assert.equal(amendmentReasonProblem("   "), "amendment_reason is required");
+    assert.equal(amendmentReasonProblem(42), "amendment_reason is required");
+  });
+
+  it("limits its length", () => {
+    assert.equal(amendmentReasonProblem("x".repeat(MAX_REASON_LENGTH)), null);
+    assert.equal(
+      amendmentReasonProblem("x".repeat(MAX_REASON_LENGTH + 1)),
+      `amendment_reason must be at most ${MAX_REASON_LENGTH} characters`
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import { listDiagnoses } from "./icd10";
+import { listPrescriptions } from "./prescriptions";
+
+export type RevisionSubject = "visit" | "patient";
+
+export const MAX_REASON_LENGTH = 500;
+
+const TABLES: Record<
+  RevisionSubject,
+  { revisions: string; column: string; records: string }
+> = {
+  visit: {
+    revisions: "visit_revisions",
+    column: "visit_id",
+    records: "visits",
+  },
+  patient: {
+    revisions: "patient_revisions",
+    column: "patient_id",
+    records: "patients",
+  },
+};
+
+export interface Revision {
+  revision: number;
+  reason: string | null;
+  edited_by: string;
+  edited_by_name: string | null;
+  edited_at: string;
+  snapshot: Record<string, any>;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export const amendmentReasonProblem = (reason: any): string | null => {
+  if (typeof reason !== "string" || !reason.trim()) {
+    return "amendment_reason is required";
+  }
+  if (reason.trim().length > MAX_REASON_LENGTH) {
+    return `amendment_reason must be at most ${MAX_REASON_LENGTH} characters`;
+  }
+  return null;
+};
+
+// the clinical content of a visit; uuids and timestamps of the lines are left out as
+// they change on every save without the content changing. Vitals are left out too: each
+// set is a measurement with its own audit trail rather than an edit of the note, and
+// adding them would change the content hash of visits signed before. Signing locks them
+// all the same.
+const visitSnapshot = async (conn: PoolConnection, visitUuid: string) => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `
+    SELECT DATE_FORMAT(visit_date, '%Y-%m-%d') AS visit_date, diagnosis,
+           prescribed_medications, notes,
+           DATE_FORMAT(follow_up_date, '%Y-%m-%d') AS follow_up_date
+    FROM visits WHERE uuid = ?
+    `,
+    [visitUuid]
+  );
+
+  return {
+    ...rows[0],
+    diagnoses: (await listDiagnoses(visitUuid, conn)).map(
+      ({ code, text, rank }) => ({ code, text, rank })
+    ),
+    prescriptions: (await listPrescriptions(visitUuid, conn)).map(
+      ({ uuid, visit_id, ...line }) => line
+    ),
+  };
+};
+
+const patientSnapshot = async (conn: PoolConnection, patientUuid: string) => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `
+    SELECT name, id_number, DATE_FORMAT(date_of_birth, '%Y-%m-%d') AS date_of_birth,
+           gender, contact, email
+    FROM patients WHERE uuid = ?
+    `,
+    [patientUuid]
+  );
+  return { ...rows[0] };
+};
+
+export const takeSnapshot = (
+  conn: PoolConnection,
+  subject: RevisionSubject,
+  uuid: string
+): Promise<Record<string, any>> =>
+  subject === "visit" ? visitSnapshot(conn, uuid) : patientSnapshot(conn, uuid);
+
+// stores the record as it now stands. Call inside the edit's transaction with the
+// snapshot taken before the edit: on the first edit that becomes revision 1, credited to
+// whoever created the record. Returns the new revision number.
+export const recordRevision = async (
+  conn: PoolConnection,
+  subject: RevisionSubject,
+  uuid: string,
+  before: Record<string, any>,
+  reason: string,
+  editedBy: string
+): Promise<number> => {
+  const { revisions, column, records } = TABLES[subject];
+
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `SELECT MAX(revision) AS latest FROM ${revisions} WHERE ${column} = ? FOR UPDATE`,
+    [uuid]
+  );
+  let latest = Number(rows[0].latest) || 0;
+
+  if (latest === 0) {
+    await conn.execute(
+      `
+      INSERT INTO ${revisions} (${column}, revision, snapshot, edited_by, edited_at)
+      SELECT uuid, 1, ?, created_by, created_at FROM ${records} WHERE uuid = ?
+      `,
+      [JSON.stringify(before), uuid]
+    );
+    latest = 1;
+  }
+
+  const after = await takeSnapshot(conn, subject, uuid);
+  await conn.execute(
+    `
+    INSERT INTO ${revisions} (${column}, revision, snapshot, reason, edited_by)
+    VALUES (?, ?, ?, ?, ?)
+    `,
+    [uuid, latest + 1, JSON.stringify(after), reason.trim(), editedBy]
+  );
+
+  return latest + 1;
+};
+
+const SELECT_REVISION = (subject: RevisionSubject) => `
+  SELECT r.revision, r.reason, r.edited_by,
+         CONCAT(u.first_name, ' ', u.last_name) AS edited_by_name,
+         DATE_FORMAT(r.edited_at, '%Y-%m-%d %H:%i:%s') AS edited_at, r.snapshot
+  FROM ${TABLES[subject].revisions} r
+  LEFT JOIN users u ON u.uuid = r.edited_by
+  WHERE r.${TABLES[subject].column} = ?
+`;
+
+const toRevision = (row: RowDataPacket): Revision => ({
+  revision: row.revision,
+  reason: row.reason,
+  edited_by: row.edited_by,
+  edited_by_name: row.edited_by_name,
+  edited_at: row.edited_at,
+  snapshot: JSON.parse(row.snapshot),
+});
+
+// oldest first; empty until the record is first edited
+export const listRevisions = async (
+  subject: RevisionSubject,
+  uuid: string
+): Promise<Revision[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${SELECT_REVISION(subject)} ORDER BY r.revision ASC`,
+    [uuid]
+  );
+  return rows.map(toRevision);
+};
+
+export const findRevision = async (
+  subject: RevisionSubject,
+  uuid: string,
+  revision: number
+): Promise<Revision | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${SELECT_REVISION(subject)} AND r.revision = ? LIMIT 1`,
+    [uuid, revision]
+  );
+  return rows.length ? toRevision(rows[0]) : null;
+};
+
+export const latestRevision = async (
+  subject: RevisionSubject,
+  uuid: string
+): Promise<number> => {
+  const { revisions, column } = TABLES[subject];
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT MAX(revision) AS latest FROM ${revisions} WHERE ${column} = ?`,
+    [uuid]
+  );
+  return Number(rows[0].latest) || 0;
+};
+
+// the fields whose value differs, in the order they appear in the snapshots. Lists
+// (diagnoses, prescriptions) are compared and reported whole.
+export const diffSnapshots = (
+  before: Record<string, any>,
+  after: Record<string, any>
+): FieldChange[] => {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .filter(
+      (field) =>
+        JSON.stringify(before[field] ?? null) !==
+        JSON.stringify(after[field] ?? null)
+    )
+    .map((field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+};
+
+// from and to as given in the query; by default the latest revision against the one before
+export const revisionRange = async (
+  subject: RevisionSubject,
+  uuid: string,
+  query: Record<string, any>
+): Promise<{ from: number; to: number } | string> => {
+  for (const key of ["from", "to"]) {
+    if (
+      query[key] !== undefined &&
+      !(Number.isInteger(Number(query[key])) && Number(query[key]) > 0)
+    ) {
+      return `${key} must be a revision number`;
+    }
+  }
+
+  const to =
+    query.to === undefined
+      ? await latestRevision(subject, uuid)
+      : Number(query.to);
+  const from = query.from === undefined ? to - 1 : Number(query.from);
+
+  return { from, to };
+};
+
+// null when either revision does not exist
+export const compareRevisions = async (
+  subject: RevisionSubject,
+  uuid: string,
+  from: number,
+  to: number
+) => {
+  const [before, after] = await Promise.all([
+    findRevision(subject, uuid, from),
+    findRevision(subject, uuid, to),
+  ]);
+  if (!before || !after) {
+    return null;
+  }
+
+  const { snapshot: beforeSnapshot, ...fromRevision } = before;
+  const { snapshot: afterSnapshot, ...toRevision } = after;
+
+  return {
+    from: fromRevision,
+    to: toRevision,
+    changes: diffSnapshots(beforeSnapshot, afterSnapshot),
+  };
+};
@@ -0,0 +1,124 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SearchTerm, highlight, parseSearchQuery } from "./search";
+
+const term = (text: string, fields: Partial<SearchTerm> = {}): SearchTerm => ({
+  field: "any",
+  text,
+  phrase: false,
+  prefix: false,
+  ...fields,
+});
+
+describe("parseSearchQuery", () => {
+  it("reads qualifiers, phrases and prefixes", () => {
+    assert.deepEqual(parseSearchQuery('name:"mary ann" dx:diab* cough'), {
+      terms: [
+        term("mary ann", { field: "name", phrase: true }),
+        term("diab", { field: "dx", prefix: true }),
+        term("cough"),
+      ],
+      ignored: [],
+    });
+  });
+
+  it("takes qualifiers in any case and leaves unknown ones in the word", () => {
+    assert.deepEqual(parseSearchQuery("MED:amoxicillin foo:bar").terms, [
+      term("amoxicillin", { field: "med" }),
+      term("foo:bar"),
+    ]);
+  });
+
+  it("strips the full-text operators", () => {
+    assert.deepEqual(parseSearchQuery("+fever -cough (rash) ~pain@3").terms, [
+      term("fever"),
+      term("cough"),
+      term("rash"),
+      term("pain 3", { phrase: true }),
+    ]);
+  });
+
+  it("looks up a word the index splits as a phrase", () => {
+    assert.deepEqual(parseSearchQuery("covid-19").terms, [
+      term("covid 19", { phrase: true }),
+    ]);
+  });
+
+  it("closes a phrase left open", () => {
+    assert.deepEqual(parseSearchQuery('"chest pain').terms, [
+      term("chest pain", { phrase: true }),
+    ]);
+  });
+
+  it("ignores terms too short to be indexed", () => {
+    assert.deepEqual(parseSearchQuery('ab flu *** ""'), {
+      terms: [term("flu")],
+      ignored: ["ab", "***", '""'],
+    });
+  });
+
+  it("ignores stopwords, but not as a prefix or inside a phrase", () => {
+    assert.deepEqual(parseSearchQuery('The fever with "with rash" wit*'), {
+      terms: [
+        term("fever"),
+        term("with rash", { phrase: true }),
+        term("wit", { prefix: true }),
+      ],
+      ignored: ["The", "with"],
+    });
+  });
+});
+
+describe("highlight", () => {
+  it("marks whole words, in any case", () => {
+    assert.equal(
+      highlight("Acute Bronchitis, not bronchitises", [term("bronchitis")]),
+      "Acute <mark>Bronchitis</mark>, not bronchitises"
+    );
+  });
+
+  it("marks the whole word a prefix starts", () => {
+    assert.equal(
+      highlight("Type 2 diabetes mellitus", [term("diab", { prefix: true })]),
+      "Type 2 <mark>diabetes</mark> mellitus"
+    );
+  });
+
+  it("marks a phrase across punctuation", () => {
+    assert.equal(
+      highlight("Positive for COVID-19 antigen", [
+        term("covid 19", { phrase: true }),
+      ]),
+      "Positive for <mark>COVID-19</mark> antigen"
+    );
+  });
+
+  it("escapes HTML around and inside the marks", () => {
+    assert.equal(
+      highlight('<b>cough</b> & "fever"', [term("cough"), term("fever")]),
+      "&lt;b&gt;<mark>cough</mark>&lt;/b&gt; &amp; &quot;<mark>fever</mark>&quot;"
+    );
+  });
+
+  it("cuts a long text around the first match, on word boundaries", () => {
+    const text = `${"word ".repeat(60)}pneumonia${" word".repeat(60)}`;
+    const snippet = highlight(text, [term("pneumonia")]);
+
+    assert.match(snippet, /^…(word )+<mark>pneumonia<\/mark>( word)+…$/);
+    assert.ok(snippet.replace(/<\/?mark>/g, "").length <= 162);
+  });
+
+  it("starts the snippet at a match near the beginning", () => {
+    const snippet = highlight(`Pneumonia${" word".repeat(60)}`, [
+      term("pneumonia"),
+    ]);
+
+    assert.match(snippet, /^<mark>Pneumonia<\/mark>( word)+…$/);
+  });
+
+  it("returns the start of the text without terms or a match", () => {
+    assert.equal(highlight("a < b", []), "a &lt; b");
+    assert.equal(highlight("Headache", [term("fever")]), "Headache");
+    assert.equal(highlight(null as any, [term("fever")]), "");
+  });
+});
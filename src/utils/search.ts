@@ -0,0 +1,329 @@
+import { RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+
+// innodb_ft_min_token_size: shorter words are not in the index and would never match
+export const MIN_TERM_LENGTH = 3;
+export const MAX_SEARCH_LIMIT = 50;
+
+const SNIPPET_LENGTH = 160;
+
+export type SearchField = "any" | "name" | "dx" | "med";
+
+export interface SearchTerm {
+  field: SearchField;
+  text: string;
+  phrase: boolean;
+  prefix: boolean;
+}
+
+const QUALIFIERS: SearchField[] = ["name", "dx", "med"];
+
+// InnoDB's default full-text stopwords, and "and". They are left out of the index, so
+// a term that is one of them matches nothing and, since every term has to match, neither
+// does the search.
+const STOPWORDS = new Set(
+  (
+    "a about an and are as at be by com de en for from how i in is it la of on or that " +
+    "the this to was what when where who will with und www"
+  ).split(" ")
+);
+
+// the full-text boolean operators; a term is searched as typed, never as an expression
+const OPERATORS = /[+\-<>()~*"@]+/g;
+
+// `name:"mary ann" dx:diab* cough` is a name phrase, a diagnosis prefix and a plain word.
+// Terms too short to be indexed and stopwords come back as ignored.
+export const parseSearchQuery = (
+  q: string
+): { terms: SearchTerm[]; ignored: string[] } => {
+  const terms: SearchTerm[] = [];
+  const ignored: string[] = [];
+  const tokens = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(q))) {
+    const [raw, qualifier, quoted, word] = match;
+    let field: SearchField = "any";
+    let value = quoted ?? word ?? "";
+
+    if (qualifier) {
+      if (QUALIFIERS.includes(qualifier.toLowerCase() as SearchField)) {
+        field = qualifier.toLowerCase() as SearchField;
+      } else {
+        value = raw;
+      }
+    }
+
+    const text = value.replace(OPERATORS, " ").replace(/\s+/g, " ").trim();
+    // covid-19 is two words to the index, so it is looked up as a phrase
+    const phrase = quoted !== undefined || text.includes(" ");
+    const prefix = !phrase && value.endsWith("*");
+
+    if (
+      text.length < MIN_TERM_LENGTH ||
+      (!phrase && !prefix && STOPWORDS.has(text.toLowerCase()))
+    ) {
+      if (raw.trim()) {
+        ignored.push(raw);
+      }
+      continue;
+    }
+
+    terms.push({
+      field,
+      text,
+      phrase,
+      prefix,
+    });
+  }
+
+  return { terms, ignored };
+};
+
+const against = (term: SearchTerm) =>
+  term.phrase ? `"${term.text}"` : term.prefix ? `${term.text}*` : term.text;
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+// the columns a term is looked up in, per kind of hit
+const PATIENT_COLUMNS: Record<SearchField, string[]> = {
+  any: ["p.name"],
+  name: ["p.name"],
+  dx: [],
+  med: [],
+};
+
+const VISIT_COLUMNS: Record<SearchField, string[]> = {
+  any: ["p.name", "v.diagnosis", "v.prescribed_medications", "v.notes"],
+  name: ["p.name"],
+  dx: ["v.diagnosis"],
+  med: ["v.prescribed_medications"],
+};
+
+// every term has to match one of its columns; the score adds up the relevance of each
+const buildMatch = (
+  terms: SearchTerm[],
+  columns: Record<SearchField, string[]>,
+  withIdNumber: boolean
+) => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  const scores: string[] = [];
+  const scoreParams: any[] = [];
+
+  terms.forEach((term) => {
+    const matches = columns[term.field].map(
+      (column) => `MATCH(${column}) AGAINST (? IN BOOLEAN MODE)`
+    );
+    const values = matches.map(() => against(term));
+
+    scores.push(...matches);
+    scoreParams.push(...values);
+
+    // an ID number is one token, matched exactly or by its start
+    if (withIdNumber && term.field === "any" && !term.phrase) {
+      const idMatch = term.prefix ? "p.id_number LIKE ?" : "p.id_number = ?";
+      const idValue = term.prefix ? `${escapeLike(term.text)}%` : term.text;
+
+      matches.push(idMatch);
+      values.push(idValue);
+      // an ID number match outranks any name match
+      scores.push(`IF(${idMatch}, 100, 0)`);
+      scoreParams.push(idValue);
+    }
+
+    conditions.push(`(${matches.join(" OR ")})`);
+    params.push(...values);
+  });
+
+  return {
+    where: conditions.join(" AND "),
+    params,
+    score: scores.join(" + "),
+    scoreParams,
+  };
+};
+
+const termPattern = (term: SearchTerm) => {
+  const escaped = term.text
+    .split(" ")
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^\\p{L}\\p{N}]+");
+  return `(?<![\\p{L}\\p{N}])${escaped}${
+    term.prefix ? "[\\p{L}\\p{N}]*" : "(?![\\p{L}\\p{N}])"
+  }`;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// a window of the text around the first match with every match wrapped in <mark>; the
+// rest of the text is HTML-escaped, so the snippet can be rendered as it is
+export const highlight = (text: string, terms: SearchTerm[]): string => {
+  const source = String(text || "");
+
+  if (!terms.length) {
+    return escapeHtml(source.slice(0, SNIPPET_LENGTH));
+  }
+
+  const pattern = terms.map(termPattern).join("|");
+  const first = new RegExp(pattern, "iu").exec(source);
+  const from = first ? Math.max(0, first.index - SNIPPET_LENGTH / 3) : 0;
+  let start = from;
+  let end = Math.min(source.length, start + SNIPPET_LENGTH);
+
+  // don't cut words in half
+  if (start > 0) {
+    const space = source.indexOf(" ", start);
+    start = space !== -1 && first && space < first.index ? space + 1 : start;
+  }
+  if (end < source.length) {
+    const space = source.lastIndexOf(" ", end);
+    end = space > start && (!first || space > first.index) ? space : end;
+  }
+
+  const parts = source
+    .slice(start, end)
+    .split(new RegExp(`(${pattern})`, "iu"));
+  const body = parts
+    .map((part, i) =>
+      i % 2 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)
+    )
+    .join("");
+
+  return `${start > 0 ? "…" : ""}${body}${end < source.length ? "…" : ""}`;
+};
+
+const matches = (text: string, terms: SearchTerm[]) =>
+  terms.some((term) =>
+    new RegExp(termPattern(term), "iu").test(String(text || ""))
+  );
+
+// the first of the fields that holds one of the terms, or the first field
+const snippet = (
+  row: RowDataPacket,
+  fields: { field: string; terms: SearchTerm[] }[]
+) => {
+  const hit =
+    fields.find(({ field, terms }) => matches(row[field], terms)) || fields[0];
+  return { field: hit.field, text: highlight(row[hit.field], hit.terms) };
+};
+
+const termsFor = (terms: SearchTerm[], ...fields: SearchField[]) =>
+  terms.filter((term) => fields.includes(term.field));
+
+const relevance = (score: any) => Math.round(Number(score) * 1000) / 1000;
+
+// live patients of the organization matching every term, best first. Terms only
+// qualified for visits (dx:, med:) leave no patient to find.
+export const searchPatients = async (
+  organizationId: string,
+  terms: SearchTerm[],
+  limit: number
+) => {
+  if (
+    !terms.length ||
+    terms.some((term) => !PATIENT_COLUMNS[term.field].length)
+  ) {
+    return { total: 0, items: [] };
+  }
+
+  const match = buildMatch(terms, PATIENT_COLUMNS, true);
+  const where = `p.organization_id = ? AND p.deleted_at IS NULL AND ${match.where}`;
+  const params = [organizationId, ...match.params];
+
+  const [[{ total }]] = await db.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total FROM patients p WHERE ${where}`,
+    params
+  );
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT p.uuid, p.name, p.id_number,
+           DATE_FORMAT(p.date_of_birth, '%Y-%m-%d') AS date_of_birth,
+           ${match.score} AS score
+    FROM patients p
+    WHERE ${where}
+    ORDER BY score DESC, p.name
+    LIMIT ${limit}
+    `,
+    [...match.scoreParams, ...params]
+  );
+
+  const nameTerms = termsFor(terms, "any", "name");
+  return {
+    total,
+    items: rows.map((row) => ({
+      uuid: row.uuid,
+      name: row.name,
+      id_number: row.id_number,
+      date_of_birth: row.date_of_birth,
+      score: relevance(row.score),
+      snippet: snippet(row, [
+        { field: "name", terms: nameTerms },
+        { field: "id_number", terms: termsFor(terms, "any") },
+      ]),
+    })),
+  };
+};
+
+// live visits of live patients of the organization matching every term, best first
+export const searchVisits = async (
+  organizationId: string,
+  terms: SearchTerm[],
+  limit: number
+) => {
+  if (!terms.length) {
+    return { total: 0, items: [] };
+  }
+
+  const match = buildMatch(terms, VISIT_COLUMNS, false);
+  const from = `
+    FROM visits v
+    JOIN patients p ON p.uuid = v.patient_id AND p.deleted_at IS NULL
+    WHERE v.organization_id = ? AND v.deleted_at IS NULL AND ${match.where}
+  `;
+  const params = [organizationId, ...match.params];
+
+  const [[{ total }]] = await db.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total ${from}`,
+    params
+  );
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT v.uuid, DATE_FORMAT(v.visit_date, '%Y-%m-%d') AS visit_date, v.status,
+           v.diagnosis, v.prescribed_medications, v.notes,
+           v.patient_id, p.name AS patient_name,
+           ${match.score} AS score
+    ${from}
+    ORDER BY score DESC, v.visit_date DESC
+    LIMIT ${limit}
+    `,
+    [...match.scoreParams, ...params]
+  );
+
+  return {
+    total,
+    items: rows.map((row) => ({
+      uuid: row.uuid,
+      visit_date: row.visit_date,
+      status: row.status,
+      diagnosis: row.diagnosis,
+      patient_id: row.patient_id,
+      patient_name: row.patient_name,
+      score: relevance(row.score),
+      snippet: snippet(row, [
+        { field: "diagnosis", terms: termsFor(terms, "any", "dx") },
+        {
+          field: "prescribed_medications",
+          terms: termsFor(terms, "any", "med"),
+        },
+        { field: "notes", terms: termsFor(terms, "any") },
+        { field: "patient_name", terms: termsFor(terms, "any", "name") },
+      ]),
+    })),
+  };
+};
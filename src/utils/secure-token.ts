@@ -0,0 +1,10 @@
+import crypto from "crypto";
+
+// random, url-safe token handed to the user. Only its hash is ever stored.
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString("hex");
+};
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
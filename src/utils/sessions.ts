@@ -0,0 +1,266 @@
+import { Request } from "express";
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import environments from "../env-config";
+import uuid from "./uuid";
+import { generateSecureToken, hashToken } from "./secure-token";
+
+const { refreshTokenTtlDays } = environments;
+
+export interface SessionRow {
+  uuid: string;
+  user_id: string;
+  organization_id: string;
+  mfa_verified: number;
+}
+
+export type RotationResult =
+  | { status: "ok"; session: SessionRow; refreshToken: string }
+  | { status: "invalid" }
+  | { status: "reused" };
+
+const issueRefreshToken = async (
+  conn: PoolConnection,
+  sessionId: string
+): Promise<string> => {
+  const refreshToken = generateSecureToken();
+
+  await conn.execute(
+    `
+    INSERT INTO refresh_tokens (session_id, token_hash, expires_at)
+    VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ${refreshTokenTtlDays} DAY))
+    `,
+    [sessionId, hashToken(refreshToken)]
+  );
+
+  return refreshToken;
+};
+
+export const createSession = async (
+  req: Request,
+  userUuid: string,
+  organizationId: string,
+  mfaVerified: boolean = false
+): Promise<{ sessionId: string; refreshToken: string }> => {
+  const sessionId = uuid();
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+    await conn.execute(
+      `
+      INSERT INTO sessions (uuid, user_id, organization_id, user_agent, ip, mfa_verified)
+      VALUES (?, ?, ?, ?, ?, ?)
+      `,
+      [
+        sessionId,
+        userUuid,
+        organizationId,
+        (req.get("user-agent") || "").slice(0, 512) || null,
+        req.ip || null,
+        mfaVerified ? 1 : 0,
+      ]
+    );
+    const refreshToken = await issueRefreshToken(conn, sessionId);
+    await conn.commit();
+
+    return { sessionId, refreshToken };
+  } catch (err) {
+    await conn.rollback();
+    throw err;
+  } finally {
+    conn.release();
+  }
+};
+
+// exchanges a refresh token for a new one. A token that was already used means it
+// leaked, so the session it belongs to is revoked for everybody holding it.
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<RotationResult> => {
+  const conn = await db.getConnection();
+
+  try {
+    await conn.beginTransaction();
+
+    const [rows] = await conn.execute<RowDataPacket[]>(
+      `
+      SELECT t.id, t.used_at, t.expires_at < NOW() AS expired,
+             s.uuid, s.user_id, s.organization_id, s.mfa_verified, s.revoked_at
+      FROM refresh_tokens t
+      JOIN sessions s ON s.uuid = t.session_id
+      WHERE t.token_hash = ?
+      LIMIT 1
+      FOR UPDATE
+      `,
+      [hashToken(refreshToken)]
+    );
+
+    if (rows.length === 0) {
+      await conn.rollback();
+      return { status: "invalid" };
+    }
+
+    const row = rows[0];
+
+    if (row.used_at) {
+      await conn.execute(
+        `
+        UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'refresh token reuse'
+        WHERE uuid = ? AND revoked_at IS NULL
+        `,
+        [row.uuid]
+      );
+      await conn.commit();
+      return { status: "reused" };
+    }
+
+    if (row.revoked_at || row.expired) {
+      await conn.rollback();
+      return { status: "invalid" };
+    }
+
+    await conn.execute(
+      "UPDATE refresh_tokens SET used_at = NOW() WHERE id = ?",
+      [row.id]
+    );
+    await conn.execute(
+      "UPDATE sessions SET last_seen_at = NOW() WHERE uuid = ?",
+      [row.uuid]
+    );
+    const nextToken = await issueRefreshToken(conn, row.uuid);
+    await conn.commit();
+
+    return {
+      status: "ok",
+      session: {
+        uuid: row.uuid,
+        user_id: row.user_id,
+        organization_id: row.organization_id,
+        mfa_verified: row.mfa_verified,
+      },
+      refreshToken: nextToken,
+    };
+  } catch (err) {
+    await conn.rollback();
+    throw err;
+  } finally {
+    conn.release();
+  }
+};
+
+// true while the session exists and has not been revoked; also bumps last_seen_at
+// at most once a minute so busy clients do not write on every request
+export const touchSession = async (
+  sessionId: string,
+  userUuid: string
+): Promise<boolean> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT last_seen_at < NOW() - INTERVAL 1 MINUTE AS stale
+    FROM sessions
+    WHERE uuid = ? AND user_id = ? AND revoked_at IS NULL
+    LIMIT 1
+    `,
+    [sessionId, userUuid]
+  );
+
+  if (rows.length === 0) {
+    return false;
+  }
+
+  if (rows[0].stale) {
+    await db.execute(
+      "UPDATE sessions SET last_seen_at = NOW() WHERE uuid = ?",
+      [sessionId]
+    );
+  }
+
+  return true;
+};
+
+export const findSessionByRefreshToken = async (
+  refreshToken: string
+): Promise<string | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT session_id FROM refresh_tokens WHERE token_hash = ? LIMIT 1",
+    [hashToken(refreshToken)]
+  );
+
+  return rows.length ? rows[0].session_id : null;
+};
+
+export const setSessionOrganization = async (
+  sessionId: string,
+  organizationId: string
+): Promise<void> => {
+  await db.execute("UPDATE sessions SET organization_id = ? WHERE uuid = ?", [
+    organizationId,
+    sessionId,
+  ]);
+};
+
+export const markSessionMfaVerified = async (
+  sessionId: string
+): Promise<void> => {
+  await db.execute("UPDATE sessions SET mfa_verified = 1 WHERE uuid = ?", [
+    sessionId,
+  ]);
+};
+
+export const revokeSession = async (
+  sessionId: string,
+  reason: string,
+  userUuid?: string
+): Promise<boolean> => {
+  let sql = `
+    UPDATE sessions SET revoked_at = NOW(), revoked_reason = ?
+    WHERE uuid = ? AND revoked_at IS NULL
+  `;
+  const params: any[] = [reason, sessionId];
+
+  if (userUuid) {
+    sql += " AND user_id = ?";
+    params.push(userUuid);
+  }
+
+  const [result]: any = await db.execute(sql, params);
+  return result.affectedRows > 0;
+};
+
+// revokes every live session of a user, optionally keeping the one making the request
+export const revokeUserSessions = async (
+  userUuid: string,
+  reason: string,
+  exceptSessionId?: string,
+  conn?: PoolConnection
+): Promise<number> => {
+  const [result]: any = await (conn || db).execute(
+    `
+    UPDATE sessions SET revoked_at = NOW(), revoked_reason = ?
+    WHERE user_id = ? AND revoked_at IS NULL AND uuid <> ?
+    `,
+    [reason, userUuid, exceptSessionId || ""]
+  );
+
+  return result.affectedRows;
+};
+
+// revokes the user's live sessions in one organization, e.g. once their role there changed
+// or they were removed: the access tokens of those sessions still carry the old role
+export const revokeOrganizationSessions = async (
+  userUuid: string,
+  organizationId: string,
+  reason: string,
+  conn?: PoolConnection
+): Promise<number> => {
+  const [result]: any = await (conn || db).execute(
+    `
+    UPDATE sessions SET revoked_at = NOW(), revoked_reason = ?
+    WHERE user_id = ? AND organization_id = ? AND revoked_at IS NULL
+    `,
+    [reason, userUuid, organizationId]
+  );
+
+  return result.affectedRows;
+};
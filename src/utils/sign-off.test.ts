@@ -0,0 +1,25 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_ADDENDUM_LENGTH, addendumProblem } from "./sign-off";
+
+describe("addendumProblem", () => {
+  it("accepts some text", () => {
+    assert.equal(addendumProblem("Culture came back negative."), null);
+  });
+
+  it("requires text", () => {
+    assert.equal(addendumProblem(undefined), "text is required");
+    assert.equal(addendumProblem(" \n "), "text is required");
+    assert.equal(addendumProblem({ text: "x" }), "text is required");
+  });
+
+  it("limits the length, not counting surrounding space", () => {
+    const longest = "x".repeat(MAX_ADDENDUM_LENGTH);
+
+    assert.equal(addendumProblem(` ${longest}\n`), null);
+    assert.equal(
+      addendumProblem(`${longest}x`),
+      `text must be at most ${MAX_ADDENDUM_LENGTH} characters`
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import environments from "../env-config";
+import uuid from "./uuid";
+import { takeSnapshot } from "./revisions";
+
+const { signOffAfterHours } = environments;
+
+export const SIGN_OFF_AFTER_HOURS = signOffAfterHours;
+
+export const SIGNED_VISIT_MESSAGE =
+  "This visit is signed and can no longer be changed. Add an addendum instead";
+
+export const MAX_ADDENDUM_LENGTH = 5000;
+
+// covers what a revision keeps of the visit, so any change to its clinical content
+// after signing shows up as a mismatch
+const contentHash = async (
+  conn: PoolConnection,
+  visitUuid: string,
+  patientId: string
+): Promise<string> => {
+  const payload = JSON.stringify([
+    visitUuid,
+    patientId,
+    await takeSnapshot(conn, "visit", visitUuid),
+  ]);
+  return crypto.createHash("sha256").update(payload).digest("hex");
+};
+
+export type SignResult =
+  | { signed: true; content_hash: string }
+  | { signed: false; reason: "already-signed" };
+
+// runs inside the caller's transaction and the visit must exist; the row is locked so an
+// edit cannot slip in between hashing and marking it signed
+export const signVisit = async (
+  conn: PoolConnection,
+  visitUuid: string,
+  signedBy: string
+): Promise<SignResult> => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `SELECT patient_id, status FROM visits WHERE uuid = ? FOR UPDATE`,
+    [visitUuid]
+  );
+
+  if (rows[0].status === "signed") {
+    return { signed: false, reason: "already-signed" };
+  }
+
+  const hash = await contentHash(conn, visitUuid, rows[0].patient_id);
+  await conn.execute(
+    `
+    UPDATE visits SET status = 'signed', signed_by = ?, signed_at = NOW(), content_hash = ?
+    WHERE uuid = ?
+    `,
+    [signedBy, hash, visitUuid]
+  );
+
+  return { signed: true, content_hash: hash };
+};
+
+// for edits: locks the visit inside the edit's transaction and tells whether it is still a
+// draft, so a sign-off cannot commit between the check and the write
+export const lockDraft = async (
+  conn: PoolConnection,
+  visitUuid: string
+): Promise<boolean> => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `SELECT status FROM visits WHERE uuid = ? FOR UPDATE`,
+    [visitUuid]
+  );
+  return rows.length > 0 && rows[0].status === "draft";
+};
+
+// the hash is taken with the patient the visit had when it was signed. A merge since then
+// moved it to the survivor, so the merges that moved it are walked back, latest first.
+const patientAtSigning = async (
+  visitUuid: string,
+  patientId: string,
+  signedAt: string
+): Promise<string> => {
+  let patient = patientId;
+  let before = Number.MAX_SAFE_INTEGER;
+
+  for (;;) {
+    const [rows] = await db.execute<RowDataPacket[]>(
+      `
+      SELECT id, merged_id FROM patient_merges
+      WHERE survivor_id = ? AND reverted_at IS NULL AND merged_at >= ? AND id < ?
+        AND JSON_CONTAINS(moved, JSON_QUOTE(?), '$.visits')
+      ORDER BY id DESC
+      LIMIT 1
+      `,
+      [patient, signedAt, before, visitUuid]
+    );
+
+    if (!rows.length) {
+      return patient;
+    }
+    patient = rows[0].merged_id;
+    before = rows[0].id;
+  }
+};
+
+// the signature of a visit and whether its content still matches the hash taken at signing
+export const checkSignature = async (visitUuid: string) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT v.patient_id, v.status, v.signed_by,
+           CONCAT(u.first_name, ' ', u.last_name) AS signed_by_name,
+           DATE_FORMAT(v.signed_at, '%Y-%m-%d %H:%i:%s') AS signed_at, v.content_hash
+    FROM visits v
+    LEFT JOIN users u ON u.uuid = v.signed_by
+    WHERE v.uuid = ?
+    `,
+    [visitUuid]
+  );
+  const { patient_id, ...signature } = rows[0];
+
+  if (signature.status !== "signed") {
+    return { ...signature, valid: null };
+  }
+
+  const signedPatient = await patientAtSigning(
+    visitUuid,
+    patient_id,
+    signature.signed_at
+  );
+
+  const conn = await db.getConnection();
+  try {
+    const hash = await contentHash(conn, visitUuid, signedPatient);
+    return { ...signature, valid: hash === signature.content_hash };
+  } finally {
+    conn.release();
+  }
+};
+
+// drafts a clinician opened longer ago than the sign-off window, oldest first
+export const pendingSignOff = async (
+  organizationId: string,
+  clinicianUuid: string
+) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT v.uuid, DATE_FORMAT(v.visit_date, '%Y-%m-%d') AS visit_date, v.diagnosis,
+           v.patient_id, p.name AS patient_name,
+           DATE_FORMAT(v.created_at, '%Y-%m-%d %H:%i:%s') AS created_at,
+           TIMESTAMPDIFF(HOUR, v.created_at, NOW()) AS age_hours
+    FROM visits v
+    JOIN patients p ON p.uuid = v.patient_id
+    WHERE v.organization_id = ? AND v.created_by = ? AND v.status = 'draft'
+      AND v.deleted_at IS NULL AND p.deleted_at IS NULL
+      AND v.created_at <= NOW() - INTERVAL ? HOUR
+    ORDER BY v.created_at ASC, v.id ASC
+    `,
+    [organizationId, clinicianUuid, SIGN_OFF_AFTER_HOURS]
+  );
+  return rows;
+};
+
+export const addendumProblem = (body: any): string | null => {
+  if (typeof body !== "string" || !body.trim()) {
+    return "text is required";
+  }
+  if (body.trim().length > MAX_ADDENDUM_LENGTH) {
+    return `text must be at most ${MAX_ADDENDUM_LENGTH} characters`;
+  }
+  return null;
+};
+
+export const listAddenda = async (visitUuid: string, conn?: PoolConnection) => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT a.uuid, a.body AS text, a.created_by,
+           CONCAT(u.first_name, ' ', u.last_name) AS created_by_name,
+           DATE_FORMAT(a.created_at, '%Y-%m-%d %H:%i:%s') AS created_at
+    FROM visit_addenda a
+    LEFT JOIN users u ON u.uuid = a.created_by
+    WHERE a.visit_id = ?
+    ORDER BY a.id ASC
+    `,
+    [visitUuid]
+  );
+  return rows;
+};
+
+export const addAddendum = async (
+  visitUuid: string,
+  organizationId: string,
+  text: string,
+  createdBy: string,
+  conn?: PoolConnection
+): Promise<string> => {
+  const addendumUuid = uuid();
+  await (conn || db).execute(
+    `
+    INSERT INTO visit_addenda (uuid, visit_id, organization_id, body, created_by)
+    VALUES (?, ?, ?, ?, ?)
+    `,
+    [addendumUuid, visitUuid, organizationId, text.trim(), createdBy]
+  );
+  return addendumUuid;
+};
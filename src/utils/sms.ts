@@ -0,0 +1,57 @@
+import fs from "fs/promises";
+import path from "path";
+import environments from "../env-config";
+import uuid from "./uuid";
+
+const { production, smsTransport, smsOutboxDir } = environments;
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface SmsTransport {
+  send: (message: SmsMessage) => Promise<void>;
+}
+
+export const consoleSmsTransport: SmsTransport = {
+  send: async (message) => {
+    console.log(`[sms]: to=${message.to}\n${message.text}`);
+  },
+};
+
+// same layout as the mail outbox: one JSON file per message
+export const fileOutboxSmsTransport = (directory: string): SmsTransport => ({
+  send: async (message) => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date()
+      .toISOString()
+      .replace(/[:.]/g, "-")}-${uuid()}.json`;
+    await fs.writeFile(
+      path.join(directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  },
+});
+
+// the console transport is never picked in production, even when asked for
+let transport: SmsTransport | null =
+  smsTransport === "file"
+    ? fileOutboxSmsTransport(smsOutboxDir)
+    : smsTransport === "console" && !production
+    ? consoleSmsTransport
+    : null;
+
+// lets a deployment plug in a gateway backed transport at startup
+export const setSmsTransport = (next: SmsTransport) => {
+  transport = next;
+};
+
+export const smsConfigured = () => transport !== null;
+
+export const sendSms = async (message: SmsMessage): Promise<void> => {
+  if (!transport) {
+    throw new Error("No SMS transport is configured");
+  }
+  await transport.send(message);
+};
@@ -0,0 +1,57 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { localStorageDriver } from "./storage";
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+};
+
+describe("localStorageDriver", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "medhub-storage-"));
+  });
+
+  after(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("stores, reads back and removes a file under a nested key", async () => {
+    const driver = localStorageDriver(directory);
+
+    await driver.put("org/patient/scan.pdf", Buffer.from("%PDF-1.7"));
+    assert.equal(
+      await readAll(await driver.read("org/patient/scan.pdf")),
+      "%PDF-1.7"
+    );
+    assert.deepEqual(await fs.readdir(path.join(directory, "org/patient")), [
+      "scan.pdf",
+    ]);
+
+    await driver.remove("org/patient/scan.pdf");
+    await assert.rejects(driver.read("org/patient/scan.pdf"));
+  });
+
+  it("does not mind removing what is not there", async () => {
+    await localStorageDriver(directory).remove("missing.pdf");
+  });
+
+  it("refuses keys outside its directory", async () => {
+    const driver = localStorageDriver(directory);
+
+    await assert.rejects(
+      driver.put("../escape.pdf", Buffer.from("x")),
+      /Invalid storage key: \.\.\/escape\.pdf/
+    );
+    await assert.rejects(driver.read("/etc/passwd"), /Invalid storage key/);
+  });
+});
@@ -0,0 +1,60 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import environments from "../env-config";
+import uuid from "./uuid";
+
+const { attachmentsDir } = environments;
+
+// keys are generated by the caller (never taken from a request) and may contain "/"
+export interface StorageDriver {
+  put: (key: string, data: Buffer) => Promise<void>;
+  // rejects when the object does not exist, before anything has been read
+  read: (key: string) => Promise<Readable>;
+  remove: (key: string) => Promise<void>;
+}
+
+export const localStorageDriver = (directory: string): StorageDriver => {
+  const root = path.resolve(directory);
+
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    // written under a temporary name and renamed, so a crash never leaves half a file
+    put: async (key, data) => {
+      const file = resolve(key);
+      const temporary = `${file}.${uuid()}.tmp`;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, file);
+    },
+    read: async (key) => {
+      const file = resolve(key);
+      await fs.access(file);
+      return createReadStream(file);
+    },
+    remove: async (key) => {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+let driver: StorageDriver = localStorageDriver(attachmentsDir);
+
+// lets a deployment plug in object storage (S3, Azure Blob...) at startup
+export const setStorageDriver = (next: StorageDriver) => {
+  driver = next;
+};
+
+export const storeFile = (key: string, data: Buffer) => driver.put(key, data);
+
+export const openFile = (key: string) => driver.read(key);
+
+export const removeFile = (key: string) => driver.remove(key);
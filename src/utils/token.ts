@@ -1,23 +1,72 @@
 import jwt from "jsonwebtoken";
+import { CookieOptions } from "express";
 import environments from "../env-config";
 
-const { tokenSecretKey } = environments;
+const { tokenSecretKey, accessTokenTtl } = environments;
 
 if (!tokenSecretKey) {
   throw new Error("Missing token secret key in env configuration");
 }
 
-const generateToken = (
-  firstName: string,
-  lastName: string,
-  email: string,
-  uuid: string
-): string => {
+export interface TokenPayload {
+  firstName: string;
+  lastName: string;
+  email: string;
+  uuid: string;
+  organizationId: string;
+  role: string;
+  sessionId: string;
+  mfaVerified: boolean;
+  mfaRequired: boolean;
+}
+
+export const authCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: true,
+  sameSite: "lax",
+};
+
+// the refresh token is only ever sent to the endpoints that rotate or revoke it
+export const refreshCookieOptions: CookieOptions = {
+  ...authCookieOptions,
+  path: "/api/user",
+};
+
+const generateToken = (payload: TokenPayload): string => {
   return jwt.sign(
-    { firstName: firstName, lastName: lastName, email: email, uuid: uuid },
+    {
+      firstName: payload.firstName,
+      lastName: payload.lastName,
+      email: payload.email,
+      uuid: payload.uuid,
+      organizationId: payload.organizationId,
+      role: payload.role,
+      sessionId: payload.sessionId,
+      mfaVerified: payload.mfaVerified,
+      mfaRequired: payload.mfaRequired,
+    },
     tokenSecretKey,
-    { expiresIn: "1h" }
+    { expiresIn: accessTokenTtl as jwt.SignOptions["expiresIn"] }
   );
 };
 
+const MFA_CHALLENGE_PURPOSE = "mfa-challenge";
+
+// proves the password step of a two-step login; it is useless as an access token
+// because it carries no organization or session
+export const generateMfaChallenge = (uuid: string): string => {
+  return jwt.sign({ uuid, purpose: MFA_CHALLENGE_PURPOSE }, tokenSecretKey, {
+    expiresIn: "5m",
+  });
+};
+
+export const verifyMfaChallenge = (challenge: string): string | null => {
+  try {
+    const decoded = jwt.verify(challenge, tokenSecretKey) as jwt.JwtPayload;
+    return decoded.purpose === MFA_CHALLENGE_PURPOSE ? decoded.uuid : null;
+  } catch (err) {
+    return null;
+  }
+};
+
 export default generateToken;
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  hotp,
+  normaliseRecoveryCode,
+  openSecret,
+  provisioningUri,
+  sealSecret,
+  verifyTotp,
+} from "./totp";
+
+// the shared secret of the RFC 4226 and RFC 6238 test vectors, "12345678901234567890"
+const SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("base32", () => {
+  it("encodes and decodes the RFC 4648 examples", () => {
+    assert.equal(base32Encode(Buffer.from("foobar")), "MZXW6YTBOI");
+    assert.equal(base32Decode("MZXW6YTBOI").toString(), "foobar");
+  });
+
+  it("ignores padding, spaces and case when decoding", () => {
+    assert.equal(base32Decode("mzxw 6ytb oi======").toString(), "foobar");
+  });
+
+  it("round-trips the test secret", () => {
+    assert.equal(base32Encode(Buffer.from("12345678901234567890")), SECRET);
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    assert.throws(() => base32Decode("MZXW1"), /Invalid base32 character/);
+  });
+});
+
+describe("hotp", () => {
+  it("matches the RFC 4226 test values", () => {
+    const expected = [
+      "755224",
+      "287082",
+      "359152",
+      "969429",
+      "338314",
+      "254676",
+      "287922",
+      "162583",
+      "399871",
+      "520489",
+    ];
+    expected.forEach((code, counter) =>
+      assert.equal(hotp(SECRET, counter), code)
+    );
+  });
+});
+
+describe("verifyTotp", () => {
+  // RFC 6238 SHA-1 vectors, cut to six digits
+  const vectors: [number, string][] = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+  ];
+
+  it("accepts the RFC 6238 codes at their time and returns the step", () => {
+    for (const [seconds, code] of vectors) {
+      assert.equal(
+        verifyTotp(SECRET, code, seconds * 1000),
+        Math.floor(seconds / 30)
+      );
+    }
+  });
+
+  it("accepts one step of drift either way, but not two", () => {
+    const now = 1111111109 * 1000;
+    assert.equal(verifyTotp(SECRET, "081804", now + 30000), 37037036);
+    assert.equal(verifyTotp(SECRET, "081804", now - 30000), 37037036);
+    assert.equal(verifyTotp(SECRET, "081804", now + 60000), null);
+  });
+
+  it("takes codes typed with spaces", () => {
+    assert.equal(verifyTotp(SECRET, "081 804", 1111111109 * 1000), 37037036);
+  });
+
+  it("refuses wrong and malformed codes", () => {
+    const now = 1111111109 * 1000;
+    assert.equal(verifyTotp(SECRET, "081805", now), null);
+    assert.equal(verifyTotp(SECRET, "81804", now), null);
+    assert.equal(verifyTotp(SECRET, "abcdef", now), null);
+    assert.equal(verifyTotp(SECRET, "", now), null);
+  });
+});
+
+describe("provisioningUri", () => {
+  it("labels the account with the issuer", () => {
+    const uri = new URL(provisioningUri(SECRET, "jane@example.com"));
+
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.host, "totp");
+    assert.equal(decodeURIComponent(uri.pathname), "/MedHub:jane@example.com");
+    assert.equal(uri.searchParams.get("secret"), SECRET);
+    assert.equal(uri.searchParams.get("issuer"), "MedHub");
+    assert.equal(uri.searchParams.get("digits"), "6");
+    assert.equal(uri.searchParams.get("period"), "30");
+  });
+});
+
+describe("sealSecret", () => {
+  it("opens what it sealed", () => {
+    assert.equal(openSecret(sealSecret(SECRET)), SECRET);
+  });
+
+  it("seals the same secret differently every time", () => {
+    assert.notEqual(sealSecret(SECRET), sealSecret(SECRET));
+  });
+
+  it("refuses a sealed secret that was tampered with", () => {
+    const [iv, tag, encrypted] = sealSecret(SECRET).split(".");
+    const flipped = Buffer.from(encrypted, "base64");
+    flipped[0] ^= 1;
+
+    assert.throws(() =>
+      openSecret([iv, tag, flipped.toString("base64")].join("."))
+    );
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes of three groups of four hex digits", () => {
+    const codes = generateRecoveryCodes();
+
+    assert.equal(codes.length, 10);
+    assert.equal(new Set(codes).size, 10);
+    codes.forEach((code) =>
+      assert.match(code, /^[0-9a-f]{4}(-[0-9a-f]{4}){2}$/)
+    );
+  });
+
+  it("normalises case, dashes and spaces away", () => {
+    assert.equal(normaliseRecoveryCode(" 4F9C-21ab 7d3e "), "4f9c21ab7d3e");
+  });
+});
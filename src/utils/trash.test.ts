@@ -0,0 +1,109 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PoolConnection } from "mysql2/promise";
+import {
+  hasSignedVisits,
+  restorePatient,
+  softDeletePatient,
+  softDeleteVisit,
+} from "./trash";
+
+// records the statements instead of running them
+const recordingConnection = (affectedRows: number = 0) => {
+  const statements: { sql: string; params: any[] }[] = [];
+  const conn = {
+    execute: async (sql: string, params: any[]) => {
+      statements.push({ sql: sql.replace(/\s+/g, " ").trim(), params });
+      return [{ affectedRows }, []];
+    },
+  } as unknown as PoolConnection;
+
+  return { conn, statements };
+};
+
+// answers every query with the given rows
+const answeringConnection = (rows: any[]) => {
+  const statements: string[] = [];
+  const conn = {
+    execute: async (sql: string) => {
+      statements.push(sql.replace(/\s+/g, " ").trim());
+      return [rows, []];
+    },
+  } as unknown as PoolConnection;
+
+  return { conn, statements };
+};
+
+describe("hasSignedVisits", () => {
+  it("is true once any of the patient's visits is signed", async () => {
+    const { conn, statements } = answeringConnection([
+      { status: "draft" },
+      { status: "signed" },
+    ]);
+
+    assert.equal(await hasSignedVisits(conn, "p1"), true);
+    assert.match(statements[0], /FOR UPDATE$/);
+  });
+
+  it("is false for drafts only or no visits at all", async () => {
+    assert.equal(
+      await hasSignedVisits(
+        answeringConnection([{ status: "draft" }]).conn,
+        "p1"
+      ),
+      false
+    );
+    assert.equal(
+      await hasSignedVisits(answeringConnection([]).conn, "p1"),
+      false
+    );
+  });
+});
+
+describe("softDeletePatient", () => {
+  it("takes the live visits along and calls off what is booked", async () => {
+    const { conn, statements } = recordingConnection();
+
+    await softDeletePatient(conn, "p1", "u1");
+
+    assert.deepEqual(
+      statements.map(({ sql }) => sql.split(" SET ")[0]),
+      [
+        "UPDATE patients",
+        "UPDATE visits",
+        "UPDATE appointments",
+        "UPDATE reminders",
+      ]
+    );
+    assert.match(statements[1].sql, /deleted_with_patient = 1/);
+    assert.match(statements[1].sql, /AND deleted_at IS NULL$/);
+    assert.deepEqual(statements[1].params, ["u1", "p1"]);
+  });
+});
+
+describe("softDeleteVisit", () => {
+  it("cancels the reminders scheduled from the visit", async () => {
+    const { conn, statements } = recordingConnection();
+
+    await softDeleteVisit(conn, "v1", "u1");
+
+    assert.deepEqual(statements[0].params, ["u1", "v1"]);
+    assert.match(
+      statements[1].sql,
+      /^UPDATE reminders SET status = 'cancelled'/
+    );
+    assert.deepEqual(statements[1].params, ["visit", "v1"]);
+  });
+});
+
+describe("restorePatient", () => {
+  it("brings back only the visits deleted with the patient", async () => {
+    const { conn, statements } = recordingConnection(3);
+
+    assert.equal(await restorePatient(conn, "p1"), 3);
+    assert.match(
+      statements[1].sql,
+      /WHERE patient_id = \? AND deleted_with_patient = 1$/
+    );
+  });
+});
@@ -0,0 +1,242 @@
+import { Pool, PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import environments from "../env-config";
+import { attachmentKeys } from "./attachments";
+import { cancelReminders } from "./reminders";
+
+const { trashRetentionDays } = environments;
+
+export const TRASH_RETENTION_DAYS = trashRetentionDays;
+
+export const SIGNED_PATIENT_MESSAGE =
+  "This patient has signed visits, which are kept as they were signed";
+
+export const MERGED_SURVIVOR_MESSAGE =
+  "Other patients are merged into this one. Revert those merges before purging it";
+
+// signed visits are kept as they were signed, so a patient who has any can neither go to
+// the trash nor be purged. The visits are locked inside the caller's transaction so a
+// sign-off cannot commit between the check and the delete.
+export const hasSignedVisits = async (
+  conn: PoolConnection,
+  patientUuid: string
+): Promise<boolean> => {
+  const [rows] = await conn.execute<RowDataPacket[]>(
+    `SELECT status FROM visits WHERE patient_id = ? FOR UPDATE`,
+    [patientUuid]
+  );
+  return rows.some((visit) => visit.status === "signed");
+};
+
+// a patient goes to the trash with every visit still live. Booked appointments and
+// scheduled reminders are cancelled, so nobody is called back while the record is in
+// the trash; restoring the patient does not rebook them.
+export const softDeletePatient = async (
+  conn: PoolConnection,
+  patientUuid: string,
+  deletedBy: string
+): Promise<void> => {
+  await conn.execute(
+    `UPDATE patients SET deleted_at = NOW(), deleted_by = ? WHERE uuid = ?`,
+    [deletedBy, patientUuid]
+  );
+  await conn.execute(
+    `
+    UPDATE visits SET deleted_at = NOW(), deleted_by = ?, deleted_with_patient = 1
+    WHERE patient_id = ? AND deleted_at IS NULL
+    `,
+    [deletedBy, patientUuid]
+  );
+  await conn.execute(
+    `
+    UPDATE appointments SET status = 'cancelled', cancellation_reason = 'Patient deleted'
+    WHERE patient_id = ? AND status = 'booked'
+    `,
+    [patientUuid]
+  );
+  await conn.execute(
+    `UPDATE reminders SET status = 'cancelled' WHERE patient_id = ? AND status = 'scheduled'`,
+    [patientUuid]
+  );
+};
+
+export const softDeleteVisit = async (
+  conn: Pool | PoolConnection,
+  visitUuid: string,
+  deletedBy: string
+): Promise<void> => {
+  await conn.execute(
+    `UPDATE visits SET deleted_at = NOW(), deleted_by = ? WHERE uuid = ?`,
+    [deletedBy, visitUuid]
+  );
+  await cancelReminders(conn, "visit", visitUuid);
+};
+
+// brings back the patient and the visits that were deleted along with them
+export const restorePatient = async (
+  conn: PoolConnection,
+  patientUuid: string
+): Promise<number> => {
+  await conn.execute(
+    `UPDATE patients SET deleted_at = NULL, deleted_by = NULL WHERE uuid = ?`,
+    [patientUuid]
+  );
+  const [result]: any = await conn.execute(
+    `
+    UPDATE visits SET deleted_at = NULL, deleted_by = NULL, deleted_with_patient = 0
+    WHERE patient_id = ? AND deleted_with_patient = 1
+    `,
+    [patientUuid]
+  );
+  return result.affectedRows;
+};
+
+export const restoreVisit = async (
+  conn: Pool | PoolConnection,
+  visitUuid: string
+): Promise<void> => {
+  await conn.execute(
+    `UPDATE visits SET deleted_at = NULL, deleted_by = NULL WHERE uuid = ?`,
+    [visitUuid]
+  );
+};
+
+// a deleted patient or visit, whichever table; null when it is live or unknown. Merged
+// patients are hidden the same way but are not in the trash, and visits deleted along
+// with their patient are only restored or purged with the patient.
+export const findDeleted = async (
+  table: "patients" | "visits",
+  uuid: string,
+  organizationId: string
+) => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT *, deleted_at <= NOW() - INTERVAL ? DAY AS purgeable
+    FROM ${table}
+    WHERE uuid = ? AND organization_id = ? AND deleted_at IS NOT NULL${
+      table === "patients"
+        ? " AND merged_into IS NULL"
+        : " AND deleted_with_patient = 0"
+    }
+    LIMIT 1
+    `,
+    [TRASH_RETENTION_DAYS, uuid, organizationId]
+  );
+  return rows.length ? rows[0] : null;
+};
+
+const TRASH_QUERIES = {
+  patients: {
+    select: `
+      SELECT p.uuid, p.name, p.id_number,
+             (SELECT COUNT(*) FROM visits pv
+              WHERE pv.patient_id = p.uuid AND pv.deleted_with_patient = 1) AS visit_count,
+             p.deleted_at, p.deleted_by,
+             CONCAT(u.first_name, ' ', u.last_name) AS deleted_by_name,
+             p.deleted_at + INTERVAL ? DAY AS purgeable_from
+    `,
+    from: `
+      FROM patients p
+      LEFT JOIN users u ON u.uuid = p.deleted_by
+      WHERE p.organization_id = ? AND p.deleted_at IS NOT NULL AND p.merged_into IS NULL
+    `,
+    order: "p.deleted_at DESC",
+  },
+  // visits that went with their patient are listed under the patient, not on their own
+  visits: {
+    select: `
+      SELECT v.uuid, v.visit_date, v.diagnosis, v.patient_id,
+             p.name AS patient_name, p.deleted_at IS NOT NULL AS patient_deleted,
+             v.deleted_at, v.deleted_by,
+             CONCAT(u.first_name, ' ', u.last_name) AS deleted_by_name,
+             v.deleted_at + INTERVAL ? DAY AS purgeable_from
+    `,
+    from: `
+      FROM visits v
+      LEFT JOIN patients p ON p.uuid = v.patient_id
+      LEFT JOIN users u ON u.uuid = v.deleted_by
+      WHERE v.organization_id = ? AND v.deleted_at IS NOT NULL AND v.deleted_with_patient = 0
+    `,
+    order: "v.deleted_at DESC",
+  },
+};
+
+export const listTrash = async (
+  type: "patients" | "visits",
+  organizationId: string,
+  page: number,
+  limit: number
+) => {
+  const query = TRASH_QUERIES[type];
+
+  const [countRows] = await db.execute<RowDataPacket[]>(
+    `SELECT COUNT(*) AS total ${query.from}`,
+    [organizationId]
+  );
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `${query.select} ${query.from}
+     ORDER BY ${query.order}
+     LIMIT ${limit} OFFSET ${(page - 1) * limit}`,
+    [TRASH_RETENTION_DAYS, organizationId]
+  );
+
+  return { items: rows, total: countRows[0].total };
+};
+
+// removes the rows for good. Everything hanging off a visit or patient goes with it by
+// cascade; attachment files are removed once the rows are gone.
+// the purges run inside the caller's transaction and return the keys of the record's
+// files, which the caller removes with removeStoredFiles once it has committed. A patient
+// is only purged once no merge into them stands, which leaves just reverted merge records.
+export const purgePatient = async (
+  conn: PoolConnection,
+  patientUuid: string
+): Promise<string[]> => {
+  const files = await attachmentKeys("patient_id", patientUuid);
+  // visits.patient_id has no foreign key, so they do not cascade from the patient
+  await conn.execute(`DELETE FROM visits WHERE patient_id = ?`, [patientUuid]);
+  await conn.execute(
+    `DELETE FROM patient_merges WHERE survivor_id = ? OR merged_id = ?`,
+    [patientUuid, patientUuid]
+  );
+  await conn.execute(`DELETE FROM patients WHERE uuid = ?`, [patientUuid]);
+  return files;
+};
+
+export const purgeVisit = async (
+  conn: PoolConnection,
+  visitUuid: string
+): Promise<string[]> => {
+  const files = await attachmentKeys("visit_id", visitUuid);
+  await conn.execute(`DELETE FROM visits WHERE uuid = ?`, [visitUuid]);
+  return files;
+};
+
+// everything of the organization that has been in the trash past the window. Visits
+// deleted along with their patient go when the patient is purged.
+export const expiredTrash = async (organizationId: string) => {
+  const [patients] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT uuid FROM patients
+    WHERE organization_id = ? AND deleted_at <= NOW() - INTERVAL ? DAY
+      AND merged_into IS NULL
+    `,
+    [organizationId, TRASH_RETENTION_DAYS]
+  );
+  const [visits] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT uuid, patient_id FROM visits
+    WHERE organization_id = ? AND deleted_at <= NOW() - INTERVAL ? DAY
+      AND deleted_with_patient = 0
+    `,
+    [organizationId, TRASH_RETENTION_DAYS]
+  );
+
+  return {
+    patients: patients.map((patient) => patient.uuid as string),
+    visits: visits.map((visit) => ({
+      uuid: visit.uuid as string,
+      patientId: visit.patient_id as string,
+    })),
+  };
+};
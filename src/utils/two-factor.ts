@@ -0,0 +1,84 @@
+import { RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import { hashToken } from "./secure-token";
+import {
+  generateRecoveryCodes,
+  normaliseRecoveryCode,
+  openSecret,
+  verifyTotp,
+} from "./totp";
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// checks an authenticator code against the user's confirmed secret, or burns one of
+// their recovery codes. A TOTP step can only be used once.
+export const checkSecondFactor = async (
+  userUuid: string,
+  factor: SecondFactor
+): Promise<boolean> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT totp_secret, totp_last_step FROM users
+    WHERE uuid = ? AND totp_enabled_at IS NOT NULL
+    LIMIT 1
+    `,
+    [userUuid]
+  );
+
+  if (rows.length === 0) {
+    return false;
+  }
+
+  if (factor.code) {
+    const step = verifyTotp(openSecret(rows[0].totp_secret), factor.code);
+
+    if (step === null) {
+      return false;
+    }
+
+    const [result]: any = await db.execute(
+      `
+      UPDATE users SET totp_last_step = ?
+      WHERE uuid = ? AND (totp_last_step IS NULL OR totp_last_step < ?)
+      `,
+      [step, userUuid, step]
+    );
+    return result.affectedRows > 0;
+  }
+
+  if (factor.recoveryCode) {
+    const [result]: any = await db.execute(
+      `
+      UPDATE user_recovery_codes SET used_at = NOW()
+      WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+      LIMIT 1
+      `,
+      [userUuid, hashToken(normaliseRecoveryCode(factor.recoveryCode))]
+    );
+    return result.affectedRows > 0;
+  }
+
+  return false;
+};
+
+// invalidates any earlier codes and returns the new plain codes, shown to the user once
+export const replaceRecoveryCodes = async (
+  userUuid: string
+): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+
+  await db.execute(`DELETE FROM user_recovery_codes WHERE user_id = ?`, [
+    userUuid,
+  ]);
+  for (const code of codes) {
+    await db.execute(
+      `INSERT INTO user_recovery_codes (user_id, code_hash) VALUES (?, ?)`,
+      [userUuid, hashToken(normaliseRecoveryCode(code))]
+    );
+  }
+
+  return codes;
+};
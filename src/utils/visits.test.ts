@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { followUpDateProblem } from "./visits";
+
+describe("followUpDateProblem", () => {
+  it("accepts a date after the visit, or none", () => {
+    assert.equal(followUpDateProblem("2026-03-16", "2026-03-02"), null);
+    assert.equal(followUpDateProblem(undefined, "2026-03-02"), null);
+    assert.equal(followUpDateProblem("", "2026-03-02"), null);
+  });
+
+  it("compares with the day of a visit that has a time", () => {
+    assert.equal(
+      followUpDateProblem("2026-03-02", "2026-03-02T10:30:00"),
+      "follow_up_date must be after the visit date"
+    );
+  });
+
+  it("requires a real date", () => {
+    assert.equal(
+      followUpDateProblem("2026-02-30", "2026-02-01"),
+      "follow_up_date must be YYYY-MM-DD"
+    );
+    assert.equal(
+      followUpDateProblem("16/03/2026", "2026-03-02"),
+      "follow_up_date must be YYYY-MM-DD"
+    );
+  });
+});
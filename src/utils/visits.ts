@@ -0,0 +1,369 @@
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import uuid from "./uuid";
+import {
+  Prescription,
+  PrescriptionInput,
+  insertPrescription,
+  listPrescriptions,
+  prescriptionsProblem,
+  replaceWithFreeText,
+  syncMedicationSummary,
+} from "./prescriptions";
+import {
+  Diagnosis,
+  DiagnosisInput,
+  diagnosesProblem,
+  listDiagnoses,
+  normaliseCode,
+  replaceDiagnoses,
+  syncDiagnosisSummary,
+  unknownCodes,
+} from "./icd10";
+import { listAddenda } from "./sign-off";
+import {
+  ALLERGY_CONFLICT_MESSAGE,
+  AllergyWarning,
+  PrescribingScreening,
+  listOverrides,
+  recordOverrides,
+  requestedMedications,
+  screenPrescribing,
+} from "./allergies";
+import { isLocalDate } from "./appointments";
+import { scheduleFollowUp } from "./reminders";
+
+// the body of POST /api/patients/:uuid/visits; other entry points that create
+// visits (e.g. appointment check-out) go through the same checks and insert
+export interface NewVisitInput {
+  date: string;
+  diagnosis?: string;
+  diagnoses?: DiagnosisInput[];
+  prescribed_medications?: string;
+  prescriptions?: PrescriptionInput[];
+  notes?: string | null;
+  follow_up_date?: string | null;
+  allergy_override_reason?: string;
+}
+
+export interface VisitRejection {
+  status: number;
+  body: { message: string; warnings?: AllergyWarning[] };
+}
+
+const hasItems = (value: unknown) => Array.isArray(value) && value.length > 0;
+
+export const followUpDateProblem = (
+  followUpDate: unknown,
+  visitDate: string
+): string | null => {
+  if (
+    followUpDate === undefined ||
+    followUpDate === null ||
+    followUpDate === ""
+  ) {
+    return null;
+  }
+  if (!isLocalDate(followUpDate)) {
+    return "follow_up_date must be YYYY-MM-DD";
+  }
+  if (followUpDate <= String(visitDate).slice(0, 10)) {
+    return "follow_up_date must be after the visit date";
+  }
+  return null;
+};
+
+// runs every check a new visit must pass before anything is written. The
+// caller has already confirmed the patient belongs to the organization.
+export const screenNewVisit = async (
+  patientUuid: string,
+  input: NewVisitInput
+): Promise<
+  | { rejection: VisitRejection }
+  | { rejection: null; screening: PrescribingScreening }
+> => {
+  const reject = (status: number, body: VisitRejection["body"]) => ({
+    rejection: { status, body },
+  });
+
+  if (
+    !input.date ||
+    (!input.diagnosis && !hasItems(input.diagnoses)) ||
+    (!input.prescribed_medications && !hasItems(input.prescriptions))
+  ) {
+    return reject(400, { message: "Missing required fields" });
+  }
+
+  const problem =
+    (input.prescriptions !== undefined &&
+      prescriptionsProblem(input.prescriptions)) ||
+    (input.diagnoses !== undefined && diagnosesProblem(input.diagnoses));
+
+  if (problem) {
+    return reject(400, { message: problem });
+  }
+
+  const followUpProblem = followUpDateProblem(input.follow_up_date, input.date);
+  if (followUpProblem) {
+    return reject(400, { message: followUpProblem });
+  }
+
+  if (hasItems(input.diagnoses)) {
+    const unknown = await unknownCodes(input.diagnoses as DiagnosisInput[]);
+    if (unknown.length) {
+      return reject(400, {
+        message: `Unknown ICD-10 code: ${unknown.join(", ")}`,
+      });
+    }
+  }
+
+  const screening = await screenPrescribing(
+    patientUuid,
+    requestedMedications(input),
+    input.allergy_override_reason
+  );
+
+  if (screening.blocked) {
+    return reject(409, {
+      message: ALLERGY_CONFLICT_MESSAGE,
+      warnings: screening.warnings,
+    });
+  }
+
+  return { rejection: null, screening };
+};
+
+// writes the visit with its prescription lines, diagnoses and allergy overrides.
+// Runs inside the caller's transaction; returns the new visit's uuid.
+export const insertVisit = async (
+  conn: PoolConnection,
+  patientUuid: string,
+  organizationId: string,
+  createdBy: string,
+  input: NewVisitInput,
+  screening: PrescribingScreening
+): Promise<string> => {
+  const visitUuid = uuid();
+
+  await conn.execute(
+    `
+    INSERT INTO visits (uuid, patient_id, visit_date, diagnosis, prescribed_medications, notes, follow_up_date, organization_id, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    [
+      visitUuid,
+      patientUuid,
+      input.date,
+      input.diagnosis || "",
+      input.prescribed_medications || "",
+      input.notes || null,
+      input.follow_up_date || null,
+      organizationId,
+      createdBy,
+    ]
+  );
+
+  if (hasItems(input.prescriptions)) {
+    for (const line of input.prescriptions as PrescriptionInput[]) {
+      await insertPrescription(
+        conn,
+        visitUuid,
+        organizationId,
+        createdBy,
+        line
+      );
+    }
+    await syncMedicationSummary(conn, visitUuid);
+  } else {
+    await replaceWithFreeText(
+      conn,
+      visitUuid,
+      organizationId,
+      createdBy,
+      input.prescribed_medications as string
+    );
+  }
+
+  if (hasItems(input.diagnoses)) {
+    await replaceDiagnoses(
+      conn,
+      visitUuid,
+      organizationId,
+      createdBy,
+      input.diagnoses as DiagnosisInput[]
+    );
+    await syncDiagnosisSummary(conn, visitUuid);
+  } else {
+    await replaceDiagnoses(conn, visitUuid, organizationId, createdBy, [
+      { text: input.diagnosis, rank: "primary" },
+    ]);
+  }
+
+  await recordOverrides(
+    conn,
+    visitUuid,
+    organizationId,
+    createdBy,
+    screening.overrides,
+    screening.reason
+  );
+
+  if (input.follow_up_date) {
+    await scheduleFollowUp(
+      conn,
+      organizationId,
+      patientUuid,
+      visitUuid,
+      input.follow_up_date
+    );
+  }
+
+  return visitUuid;
+};
+
+// the visit row as returned after a create, with its diagnoses and prescription lines
+export const loadVisit = async (visitUuid: string, conn?: PoolConnection) => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `SELECT * FROM visits WHERE uuid = ? LIMIT 1`,
+    [visitUuid]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    ...rows[0],
+    diagnoses: await listDiagnoses(visitUuid, conn),
+    prescriptions: await listPrescriptions(visitUuid, conn),
+  };
+};
+
+export interface VisitResponse {
+  uuid: string;
+  visit_date: string;
+  diagnosis: string;
+  prescribed_medications: string;
+  notes?: string;
+  follow_up_date: string | null;
+  patient_id: string;
+  patient_name: string;
+  patient_id_number?: string;
+  status: "draft" | "signed";
+  signed_by: string | null;
+  signed_at: string | null;
+  content_hash: string | null;
+  diagnoses: Diagnosis[];
+  prescriptions: Prescription[];
+  allergy_overrides: any[];
+  addenda: any[];
+}
+
+// the visit as GET /api/visits/:uuid returns it; printed documents start from the same data
+export const findVisit = async (
+  visitUuid: string,
+  organizationId: string
+): Promise<VisitResponse | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `
+    SELECT 
+      v.uuid AS visit_uuid,
+      v.visit_date,
+      v.diagnosis,
+      v.prescribed_medications,
+      v.notes,
+      DATE_FORMAT(v.follow_up_date, '%Y-%m-%d') AS follow_up_date,
+      v.patient_id,
+      v.status,
+      v.signed_by,
+      DATE_FORMAT(v.signed_at, '%Y-%m-%d %H:%i:%s') AS signed_at,
+      v.content_hash,
+
+      p.name AS patient_name,
+      p.id_number AS patient_id_number
+
+    FROM visits v
+    LEFT JOIN patients p 
+      ON p.uuid = v.patient_id
+    WHERE v.uuid = ? AND v.organization_id = ? AND v.deleted_at IS NULL
+    `,
+    [visitUuid, organizationId]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    uuid: rows[0].visit_uuid,
+    visit_date: rows[0].visit_date,
+    diagnosis: rows[0].diagnosis,
+    prescribed_medications: rows[0].prescribed_medications,
+    notes: rows[0].notes,
+    follow_up_date: rows[0].follow_up_date,
+    patient_id: rows[0].patient_id,
+    patient_name: rows[0].patient_name,
+    patient_id_number: rows[0].patient_id_number,
+    status: rows[0].status,
+    signed_by: rows[0].signed_by,
+    signed_at: rows[0].signed_at,
+    content_hash: rows[0].content_hash,
+    diagnoses: await listDiagnoses(rows[0].visit_uuid),
+    prescriptions: await listPrescriptions(rows[0].visit_uuid),
+    allergy_overrides: await listOverrides(rows[0].visit_uuid),
+    addenda: await listAddenda(rows[0].visit_uuid),
+  };
+};
+
+// the filters of GET /api/visits, shared with its export. Expects visits as v and
+// patients as p; returns the WHERE clause and its parameters.
+export const visitListFilter = (
+  organizationId: string,
+  query: Record<string, any>
+) => {
+  const search = (query.search as string) || "";
+  const startDate = query.startDate as string | undefined;
+  const endDate = query.endDate as string | undefined;
+  const diagnosisCode = query.diagnosisCode as string | undefined;
+  const chapter = query.chapter as string | undefined;
+
+  let where = `
+    v.organization_id = ?
+    AND v.deleted_at IS NULL
+    AND (
+      p.name LIKE ?
+      OR p.id_number LIKE ?
+      OR v.diagnosis LIKE ?
+      OR v.prescribed_medications LIKE ?
+    )`;
+  const params: any[] = [
+    organizationId,
+    `%${search}%`,
+    `%${search}%`,
+    `%${search}%`,
+    `%${search}%`,
+  ];
+
+  if (startDate && endDate) {
+    where += " AND v.visit_date BETWEEN ? AND ?";
+    params.push(startDate, endDate);
+  }
+
+  if (diagnosisCode) {
+    where +=
+      " AND EXISTS (SELECT 1 FROM visit_diagnoses d WHERE d.visit_id = v.uuid AND d.icd10_code LIKE ?)";
+    params.push(`${normaliseCode(diagnosisCode)}%`);
+  }
+
+  if (chapter) {
+    where += `
+      AND EXISTS (
+        SELECT 1 FROM visit_diagnoses d
+        JOIN icd10_codes c ON c.code = d.icd10_code
+        WHERE d.visit_id = v.uuid AND c.chapter = ?
+      )`;
+    params.push(chapter);
+  }
+
+  return { where, params };
+};
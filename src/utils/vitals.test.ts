@@ -0,0 +1,141 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ageBand,
+  ageInYears,
+  computeBmi,
+  flagFor,
+  parseVitals,
+  withFlags,
+} from "./vitals";
+
+describe("parseVitals", () => {
+  it("takes plain numbers in the stored units", () => {
+    assert.deepEqual(parseVitals({ systolic: 120, diastolic: 80, pulse: 72 }), {
+      values: { systolic: 120, diastolic: 80, pulse: 72 },
+    });
+  });
+
+  it("converts other units and rounds to one decimal", () => {
+    assert.deepEqual(
+      parseVitals({
+        temperature: { value: 98.6, unit: "F" },
+        weight: { value: 154, unit: "lb" },
+        height: { value: 1.75, unit: "m" },
+      }),
+      { values: { temperature: 37, weight: 69.9, height: 175 } }
+    );
+  });
+
+  it("takes the stored unit spelled out", () => {
+    assert.deepEqual(parseVitals({ weight: { value: "70", unit: "kg" } }), {
+      values: { weight: 70 },
+    });
+  });
+
+  it("names the accepted units of a wrongly-united measurement", () => {
+    assert.deepEqual(parseVitals({ weight: { value: 70, unit: "st" } }), {
+      problem: "weight unit must be one of: kg, g, lb",
+    });
+    assert.deepEqual(parseVitals({ pulse: { value: 70, unit: "Hz" } }), {
+      problem: "pulse must be given in bpm",
+    });
+  });
+
+  it("rejects values that are not numbers", () => {
+    assert.deepEqual(parseVitals({ pulse: "fast" }), {
+      problem: "pulse must be a number",
+    });
+    assert.deepEqual(parseVitals({ pulse: "" }), {
+      problem: "pulse must be a number",
+    });
+  });
+
+  it("rejects implausible readings after conversion", () => {
+    assert.deepEqual(parseVitals({ temperature: 98.6 }), {
+      problem: "temperature must be between 25 and 45 C",
+    });
+    assert.deepEqual(parseVitals({ spo2: 101 }), {
+      problem: "spo2 must be between 50 and 100 %",
+    });
+  });
+
+  it("requires diastolic below systolic", () => {
+    assert.deepEqual(parseVitals({ systolic: 80, diastolic: 80 }), {
+      problem: "diastolic must be lower than systolic",
+    });
+  });
+
+  it("requires at least one measurement", () => {
+    assert.deepEqual(parseVitals({ notes: "calm", pulse: null }), {
+      problem: "At least one measurement is required",
+    });
+    assert.deepEqual(parseVitals(null), {
+      problem: "Vitals must be an object",
+    });
+  });
+
+  it("rejects a recorded_at that is not a date", () => {
+    assert.deepEqual(parseVitals({ pulse: 70, recorded_at: "yesterday" }), {
+      problem: "recorded_at must be a date",
+    });
+  });
+});
+
+describe("computeBmi", () => {
+  it("divides the weight by the squared height in metres", () => {
+    assert.equal(computeBmi({ weight: 70, height: 175 }), 22.9);
+  });
+
+  it("needs both weight and height", () => {
+    assert.equal(computeBmi({ weight: 70 }), null);
+    assert.equal(computeBmi({ height: 175, weight: null }), null);
+  });
+});
+
+describe("ageInYears", () => {
+  const dob = new Date(2008, 2, 15);
+
+  it("counts the birthday itself", () => {
+    assert.equal(ageInYears(dob, new Date(2026, 2, 15)), 18);
+  });
+
+  it("does not count a birthday still to come", () => {
+    assert.equal(ageInYears(dob, new Date(2026, 2, 14)), 17);
+    assert.equal(ageInYears(dob, new Date(2026, 1, 28)), 17);
+  });
+
+  it("puts patients in the pediatric band until the adult age", () => {
+    assert.equal(ageBand(dob, new Date(2026, 2, 14)), "pediatric");
+    assert.equal(ageBand(dob, new Date(2026, 2, 15)), "adult");
+  });
+});
+
+describe("flagFor", () => {
+  it("flags readings outside the range of the age band", () => {
+    assert.equal(flagFor("pulse", 110, "adult"), "high");
+    assert.equal(flagFor("pulse", 110, "pediatric"), null);
+    assert.equal(flagFor("respiratory_rate", 16, "pediatric"), "low");
+  });
+
+  it("keeps the range bounds normal", () => {
+    assert.equal(flagFor("systolic", 139, "adult"), null);
+    assert.equal(flagFor("systolic", 90, "adult"), null);
+  });
+
+  it("does not flag what has no range or no value", () => {
+    assert.equal(flagFor("weight", 200, "adult"), null);
+    assert.equal(flagFor("bmi", 30, "pediatric"), null);
+    assert.equal(flagFor("pulse", null, "adult"), null);
+  });
+
+  it("attaches the flags to a stored row", () => {
+    const vitals = withFlags(
+      { uuid: "v1", pulse: "130.0", spo2: "97.0", bmi: "31.2", weight: null },
+      "adult"
+    );
+
+    assert.equal(vitals.pulse, 130);
+    assert.deepEqual(vitals.flags, { pulse: "high", bmi: "high" });
+  });
+});
@@ -0,0 +1,401 @@
+import { readFileSync } from "fs";
+import { PoolConnection, RowDataPacket } from "mysql2/promise";
+import { pool as db } from "./database-config";
+import environments from "../env-config";
+import uuid from "./uuid";
+
+export const MEASURES = [
+  "systolic",
+  "diastolic",
+  "pulse",
+  "temperature",
+  "respiratory_rate",
+  "spo2",
+  "weight",
+  "height",
+] as const;
+
+export type Measure = (typeof MEASURES)[number];
+
+// stored units; readings in other accepted units are converted before saving
+export const UNITS: Record<Measure | "bmi", string> = {
+  systolic: "mmHg",
+  diastolic: "mmHg",
+  pulse: "bpm",
+  temperature: "C",
+  respiratory_rate: "breaths/min",
+  spo2: "%",
+  weight: "kg",
+  height: "cm",
+  bmi: "kg/m2",
+};
+
+const CONVERSIONS: Partial<
+  Record<Measure, Record<string, (value: number) => number>>
+> = {
+  temperature: {
+    C: (v) => v,
+    F: (v) => ((v - 32) * 5) / 9,
+  },
+  weight: {
+    kg: (v) => v,
+    g: (v) => v / 1000,
+    lb: (v) => v * 0.45359237,
+  },
+  height: {
+    cm: (v) => v,
+    m: (v) => v * 100,
+    in: (v) => v * 2.54,
+  },
+};
+
+// anything outside these is a typo or a wrong unit rather than a real reading
+const PLAUSIBLE: Record<Measure, [number, number]> = {
+  systolic: [40, 300],
+  diastolic: [20, 200],
+  pulse: [20, 300],
+  temperature: [25, 45],
+  respiratory_rate: [4, 80],
+  spo2: [50, 100],
+  weight: [0.3, 500],
+  height: [20, 272],
+};
+
+type Range = [number, number];
+type RangeSet = Partial<Record<Measure | "bmi", Range>>;
+
+export interface ReferenceRanges {
+  adultAgeYears: number;
+  adult: RangeSet;
+  pediatric: RangeSet;
+}
+
+// a single pediatric band is a simplification; clinics that need age-banded
+// pediatric ranges can override these through VITAL_RANGES_FILE
+const DEFAULT_RANGES: ReferenceRanges = {
+  adultAgeYears: 18,
+  adult: {
+    systolic: [90, 139],
+    diastolic: [60, 89],
+    pulse: [60, 100],
+    temperature: [36.1, 37.5],
+    respiratory_rate: [12, 20],
+    spo2: [95, 100],
+    bmi: [18.5, 24.9],
+  },
+  pediatric: {
+    systolic: [90, 120],
+    diastolic: [50, 80],
+    pulse: [70, 120],
+    temperature: [36.1, 37.5],
+    respiratory_rate: [18, 30],
+    spo2: [95, 100],
+  },
+};
+
+let ranges: ReferenceRanges | null = null;
+
+export const referenceRanges = (): ReferenceRanges => {
+  if (!ranges) {
+    const overrides: Partial<ReferenceRanges> = environments.vitalRangesFile
+      ? JSON.parse(readFileSync(environments.vitalRangesFile, "utf8"))
+      : {};
+
+    ranges = {
+      adultAgeYears: overrides.adultAgeYears ?? DEFAULT_RANGES.adultAgeYears,
+      adult: { ...DEFAULT_RANGES.adult, ...overrides.adult },
+      pediatric: { ...DEFAULT_RANGES.pediatric, ...overrides.pediatric },
+    };
+  }
+  return ranges;
+};
+
+export type AgeBand = "adult" | "pediatric";
+
+// completed years, counting the birthday itself
+export const ageInYears = (dateOfBirth: string | Date, at: Date): number => {
+  const dob = new Date(dateOfBirth);
+  let age = at.getFullYear() - dob.getFullYear();
+  if (
+    at.getMonth() < dob.getMonth() ||
+    (at.getMonth() === dob.getMonth() && at.getDate() < dob.getDate())
+  ) {
+    age--;
+  }
+  return age;
+};
+
+export const ageBand = (dateOfBirth: string | Date, at: Date): AgeBand => {
+  return ageInYears(dateOfBirth, at) >= referenceRanges().adultAgeYears
+    ? "adult"
+    : "pediatric";
+};
+
+export type Flag = "low" | "high" | null;
+
+export const flagFor = (
+  measure: Measure | "bmi",
+  value: number | null,
+  band: AgeBand
+): Flag => {
+  const range = referenceRanges()[band][measure];
+  if (value === null || value === undefined || !range) {
+    return null;
+  }
+  if (value < range[0]) {
+    return "low";
+  }
+  if (value > range[1]) {
+    return "high";
+  }
+  return null;
+};
+
+export type VitalsValues = Partial<Record<Measure, number | null>>;
+
+// a measurement is either a number in the stored unit or { value, unit }
+const toStoredUnit = (
+  measure: Measure,
+  input: any
+): { value?: number; problem?: string } => {
+  const raw = typeof input === "object" ? input.value : input;
+  const unit = typeof input === "object" && input.unit ? input.unit : null;
+  const value = Number(raw);
+
+  if (raw === "" || raw === null || Number.isNaN(value)) {
+    return { problem: `${measure} must be a number` };
+  }
+
+  if (!unit || unit === UNITS[measure]) {
+    return { value };
+  }
+
+  const convert = CONVERSIONS[measure]?.[unit];
+  if (!convert) {
+    const accepted = Object.keys(CONVERSIONS[measure] || {});
+    return {
+      problem: accepted.length
+        ? `${measure} unit must be one of: ${accepted.join(", ")}`
+        : `${measure} must be given in ${UNITS[measure]}`,
+    };
+  }
+
+  return { value: convert(value) };
+};
+
+// validates and converts a request body; returns either the values or the reason they are rejected
+export const parseVitals = (
+  input: any
+): { values?: VitalsValues; problem?: string } => {
+  if (!input || typeof input !== "object") {
+    return { problem: "Vitals must be an object" };
+  }
+
+  const values: VitalsValues = {};
+
+  for (const measure of MEASURES) {
+    if (input[measure] === undefined || input[measure] === null) {
+      continue;
+    }
+
+    const { value, problem } = toStoredUnit(measure, input[measure]);
+    if (problem) {
+      return { problem };
+    }
+
+    const [min, max] = PLAUSIBLE[measure];
+    if ((value as number) < min || (value as number) > max) {
+      return {
+        problem: `${measure} must be between ${min} and ${max} ${UNITS[measure]}`,
+      };
+    }
+
+    values[measure] = Math.round((value as number) * 10) / 10;
+  }
+
+  if (Object.keys(values).length === 0) {
+    return { problem: "At least one measurement is required" };
+  }
+
+  if (
+    values.systolic !== undefined &&
+    values.diastolic !== undefined &&
+    (values.diastolic as number) >= (values.systolic as number)
+  ) {
+    return { problem: "diastolic must be lower than systolic" };
+  }
+
+  if (input.recorded_at && Number.isNaN(Date.parse(input.recorded_at))) {
+    return { problem: "recorded_at must be a date" };
+  }
+
+  return { values };
+};
+
+export const computeBmi = (values: VitalsValues): number | null => {
+  if (!values.weight || !values.height) {
+    return null;
+  }
+  const metres = values.height / 100;
+  return Math.round((values.weight / (metres * metres)) * 10) / 10;
+};
+
+export interface Vitals extends VitalsValues {
+  uuid: string;
+  visit_id: string;
+  recorded_at: string;
+  bmi: number | null;
+  flags: Partial<Record<Measure | "bmi", Flag>>;
+}
+
+export const withFlags = (row: any, band: AgeBand): Vitals => {
+  const flags: Vitals["flags"] = {};
+
+  for (const measure of [...MEASURES, "bmi"] as (Measure | "bmi")[]) {
+    if (row[measure] !== null && row[measure] !== undefined) {
+      row[measure] = Number(row[measure]);
+    }
+    const flag = flagFor(measure, row[measure], band);
+    if (flag) {
+      flags[measure] = flag;
+    }
+  }
+
+  return { ...row, flags };
+};
+
+const COLUMNS = [...MEASURES, "bmi"].join(", ");
+
+export const insertVitals = async (
+  visitUuid: string,
+  organizationId: string,
+  recordedBy: string,
+  values: VitalsValues,
+  recordedAt?: string,
+  conn?: PoolConnection
+): Promise<string> => {
+  const vitalsUuid = uuid();
+
+  await (conn || db).execute(
+    `
+    INSERT INTO vitals (uuid, visit_id, organization_id, recorded_at, ${COLUMNS}, recorded_by)
+    VALUES (?, ?, ?, ?, ${MEASURES.map(() => "?").join(", ")}, ?, ?)
+    `,
+    [
+      vitalsUuid,
+      visitUuid,
+      organizationId,
+      recordedAt ? new Date(recordedAt) : new Date(),
+      ...MEASURES.map((m) => values[m] ?? null),
+      computeBmi(values),
+      recordedBy,
+    ]
+  );
+
+  return vitalsUuid;
+};
+
+// a PUT replaces the whole set, so omitted measurements are cleared
+export const updateVitals = async (
+  vitalsUuid: string,
+  values: VitalsValues,
+  recordedAt?: string,
+  conn?: PoolConnection
+): Promise<void> => {
+  await (conn || db).execute(
+    `
+    UPDATE vitals
+    SET ${MEASURES.map((m) => `${m} = ?`).join(", ")}, bmi = ?,
+        recorded_at = COALESCE(?, recorded_at)
+    WHERE uuid = ?
+    `,
+    [
+      ...MEASURES.map((m) => values[m] ?? null),
+      computeBmi(values),
+      recordedAt ? new Date(recordedAt) : null,
+      vitalsUuid,
+    ]
+  );
+};
+
+export const listVisitVitals = async (
+  visitUuid: string,
+  dateOfBirth: string | Date,
+  conn?: PoolConnection
+): Promise<Vitals[]> => {
+  const [rows] = await (conn || db).execute<RowDataPacket[]>(
+    `
+    SELECT uuid, visit_id, recorded_at, ${COLUMNS}
+    FROM vitals
+    WHERE visit_id = ?
+    ORDER BY recorded_at ASC, id ASC
+    `,
+    [visitUuid]
+  );
+
+  return rows.map((row) =>
+    withFlags(row, ageBand(dateOfBirth, new Date(row.recorded_at)))
+  );
+};
+
+export interface SeriesPoint {
+  recorded_at: string;
+  visit_id: string;
+  value: number;
+  flag: Flag;
+}
+
+// one time series per measure across all of a patient's visits, oldest first
+export const patientVitalsSeries = async (
+  patientUuid: string,
+  organizationId: string,
+  dateOfBirth: string | Date,
+  from?: string,
+  to?: string
+): Promise<Record<Measure | "bmi", SeriesPoint[]>> => {
+  let query = `
+    SELECT vt.uuid, vt.visit_id, vt.recorded_at, ${[...MEASURES, "bmi"]
+      .map((m) => `vt.${m}`)
+      .join(", ")}
+    FROM vitals vt
+    JOIN visits v ON v.uuid = vt.visit_id
+    WHERE v.patient_id = ? AND v.organization_id = ? AND v.deleted_at IS NULL
+  `;
+  const params: any[] = [patientUuid, organizationId];
+
+  if (from) {
+    query += " AND vt.recorded_at >= ?";
+    params.push(from);
+  }
+  if (to) {
+    query += " AND vt.recorded_at < DATE_ADD(?, INTERVAL 1 DAY)";
+    params.push(to);
+  }
+
+  query += " ORDER BY vt.recorded_at ASC, vt.id ASC";
+
+  const [rows] = await db.execute<RowDataPacket[]>(query, params);
+
+  const series = Object.fromEntries(
+    [...MEASURES, "bmi"].map((m) => [m, [] as SeriesPoint[]])
+  ) as Record<Measure | "bmi", SeriesPoint[]>;
+
+  for (const row of rows) {
+    const set = withFlags(row, ageBand(dateOfBirth, new Date(row.recorded_at)));
+
+    for (const measure of Object.keys(series) as (Measure | "bmi")[]) {
+      const value = set[measure as Measure];
+      if (value === null || value === undefined) {
+        continue;
+      }
+      series[measure].push({
+        recorded_at: set.recorded_at,
+        visit_id: set.visit_id,
+        value,
+        flag: set.flags[measure] || null,
+      });
+    }
+  }
+
+  return series;
+};